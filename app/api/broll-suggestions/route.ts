@@ -0,0 +1,64 @@
+// app/api/broll-suggestions/route.ts
+import { NextResponse } from "next/server";
+import { suggestBRolls } from "@/lib/broll-suggestions";
+import {
+  bRollSuggestionsRequestSchema,
+  parse,
+  ValidationError,
+} from "@/lib/schemas";
+import {
+  getStockProvider,
+  searchStockMedia,
+  StockSearchError,
+} from "@/lib/stock-media";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// POST { captions, provider?, type?: "photos" | "videos", maxSuggestions? }
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const { captions, maxSuggestions, ...options } = parse(
+      bRollSuggestionsRequestSchema,
+      body
+    );
+    const provider = getStockProvider(options.provider ?? null);
+    const type =
+      options.type === "photos" || !provider.supports.includes("videos")
+        ? "photos"
+        : "videos";
+
+    const suggestions = await suggestBRolls(captions, {
+      type,
+      maxSuggestions,
+      search: async (query, t) =>
+        (
+          await searchStockMedia(provider, { query, type: t, perPage: 4 })
+        ).results,
+    });
+
+    return NextResponse.json({ success: true, suggestions });
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: err.message, issues: err.issues },
+        { status: 400 }
+      );
+    }
+    if (err instanceof StockSearchError) {
+      return NextResponse.json(
+        { success: false, error: err.message, details: err.details },
+        { status: err.status }
+      );
+    }
+    console.error("[broll-suggestions] error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Suggestion failed",
+      },
+      { status: 500 }
+    );
+  }
+}
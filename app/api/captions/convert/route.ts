@@ -0,0 +1,123 @@
+// app/api/captions/convert/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CAPTION_FORMAT_MIME,
+  CAPTION_FORMATS,
+  detectCaptionFormat,
+  parseCaptions,
+  serializeCaptions,
+} from "@/lib/caption-formats";
+import {
+  captionsSchema,
+  formFields,
+  formFile,
+  object,
+  oneOf,
+  parse,
+  str,
+  stylePresetSchema,
+  ValidationError,
+  withDefault,
+} from "@/lib/schemas";
+import { UPLOAD_LIMITS } from "@/lib/uploads";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const convertFieldsSchema = object({
+  text: withDefault(str({ maxLength: UPLOAD_LIMITS.fieldsBytes }), undefined),
+  from: withDefault(oneOf(CAPTION_FORMATS), undefined),
+  to: withDefault(oneOf(CAPTION_FORMATS), "json"),
+  stylePreset: withDefault(stylePresetSchema, undefined),
+});
+
+/**
+ * POST multipart form:
+ *  - file:  subtitle file to convert (or `text` with the raw contents)
+ *  - from:  srt | vtt | ass | json (optional, detected from name/contents)
+ *  - to:    srt | vtt | ass | json (default json)
+ *  - stylePreset: preset used when writing VTT/ASS (defaults to the one
+ *    read from the input, then "bottom")
+ *
+ * `to=json` answers `{ success, captions, stylePreset }`; other targets
+ * answer with the subtitle file as an attachment.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formFile(formData, "file");
+    const {
+      text: rawText,
+      from,
+      to,
+      stylePreset: stylePresetField,
+    } = parse(
+      convertFieldsSchema,
+      formFields(formData, ["text", "from", "to", "stylePreset"])
+    );
+
+    if (!file && !rawText) {
+      return NextResponse.json(
+        { success: false, error: "No file or text provided" },
+        { status: 400 }
+      );
+    }
+    // subtitle files are text; anything this big is not one
+    if (file && file.size > UPLOAD_LIMITS.fieldsBytes) {
+      return NextResponse.json(
+        { success: false, error: "Subtitle file is too large" },
+        { status: 413 }
+      );
+    }
+    const text = file ? await file.text() : rawText!;
+
+    let parsed;
+    try {
+      const sourceFormat = from ?? detectCaptionFormat(text, file?.name);
+      parsed = parseCaptions(text, sourceFormat);
+    } catch (err) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            err instanceof Error ? err.message : "Could not parse captions",
+        },
+        { status: 400 }
+      );
+    }
+
+    // a JSON file's captions and preset come from the client as they are
+    const captions = parse(captionsSchema, parsed.captions, "captions");
+    const stylePreset =
+      stylePresetField ??
+      parse(stylePresetSchema, parsed.stylePreset ?? "bottom", "stylePreset");
+
+    if (to === "json") {
+      return NextResponse.json({ success: true, captions, stylePreset });
+    }
+
+    const baseName = (file?.name || "captions").replace(/\.[^.]+$/, "");
+    return new NextResponse(serializeCaptions(captions, to, stylePreset), {
+      status: 200,
+      headers: {
+        "Content-Type": `${CAPTION_FORMAT_MIME[to]}; charset=utf-8`,
+        "Content-Disposition": `attachment; filename="${baseName}.${to}"`,
+      },
+    });
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: err.message, issues: err.issues },
+        { status: 400 }
+      );
+    }
+    console.error("captions convert error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Error converting captions",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,78 +1,137 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI, { toFile } from "openai";
-import ffmpeg from "fluent-ffmpeg";
 import fs from "node:fs/promises";
 import path from "node:path";
 import os from "node:os";
+import { resegmentCaptions } from "@/lib/caption-segmentation";
+import { applySpeakers, getDiarizer } from "@/lib/diarization";
+import { detectSilences, extractAudio } from "@/lib/transcription/audio";
+import { getProjectVideoPath } from "@/lib/projects";
+import {
+  formFields,
+  parse,
+  transcribeRequestSchema,
+  ValidationError,
+} from "@/lib/schemas";
+import { getTranscriptionProvider } from "@/lib/transcription";
+import { parseUpload, UploadError, UPLOAD_LIMITS } from "@/lib/uploads";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-});
-
-// optional, but safe to keep:
-ffmpeg.setFfmpegPath("C:\\ffmpeg\\bin\\ffmpeg.exe");
-
 export async function POST(req: NextRequest) {
+  // the upload is streamed in here; removed with everything else at the end
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "video-"));
   try {
-    const formData = await req.formData();
-    const file = formData.get("file") as File | null;
+    const { fields, file } = await parseUpload(req, {
+      dir: tmpDir,
+      maxFileBytes: UPLOAD_LIMITS.videoBytes,
+      accept: ["video", "audio"],
+    });
+    // a saved project's video can be used instead of uploading it again
+    const {
+      projectId,
+      provider: providerName,
+      language,
+      segmentation,
+      diarize,
+      diarizer: diarizerName,
+      speakerCount,
+    } = parse(
+      transcribeRequestSchema,
+      formFields(
+        fields,
+        [
+          "projectId",
+          "provider",
+          "language",
+          "segmentation",
+          "diarize",
+          "diarizer",
+          "speakerCount",
+        ],
+        ["segmentation", "diarize"]
+      )
+    );
 
-    if (!file) {
+    const projectVideoPath = projectId
+      ? await getProjectVideoPath(projectId)
+      : null;
+    if (projectId && !projectVideoPath) {
+      return NextResponse.json(
+        { success: false, error: "Project not found or has no video" },
+        { status: 404 }
+      );
+    }
+    const inputPath = projectVideoPath ?? file?.path;
+    if (!inputPath) {
       return NextResponse.json(
         { success: false, error: "No file provided" },
         { status: 400 }
       );
     }
 
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "video-"));
-    const inputPath = path.join(tmpDir, file.name || "input.mp4");
-    const audioPath = path.join(tmpDir, "audio.mp3");
-
-    await fs.writeFile(inputPath, buffer);
-
-    await new Promise<void>((resolve, reject) => {
-      ffmpeg(inputPath)
-        .noVideo()
-        .audioCodec("libmp3lame")
-        .format("mp3")
-        .on("end", () => resolve())
-        .on("error", (err: any) => reject(err))
-        .save(audioPath);
-    });
+    let provider;
+    let diarizer = null;
+    try {
+      provider = getTranscriptionProvider(providerName);
+      if (diarize) diarizer = getDiarizer(diarizerName);
+    } catch (err) {
+      return NextResponse.json(
+        { success: false, error: (err as Error).message },
+        { status: 400 }
+      );
+    }
 
-    const audioBuffer = await fs.readFile(audioPath);
+    const audioPath = path.join(tmpDir, `audio.${provider.audioFormat}`);
+    await extractAudio(inputPath, audioPath, provider.audioFormat);
 
-    const openaiFile = await toFile(audioBuffer, "audio.mp3", {
-      type: "audio/mpeg",
+    let transcribed = await provider.transcribe(audioPath, { language });
+    if (diarizer) {
+      let diarizerAudio = audioPath;
+      if (diarizer.audioFormat !== provider.audioFormat) {
+        diarizerAudio = path.join(tmpDir, `speakers.${diarizer.audioFormat}`);
+        await extractAudio(inputPath, diarizerAudio, diarizer.audioFormat);
+      }
+      const turns = await diarizer.diarize(diarizerAudio, {
+        speakers: speakerCount,
+      });
+      transcribed = applySpeakers(transcribed, turns);
+    }
+    // after diarization, so re-cut captions never span two speakers
+    const captions = segmentation
+      ? resegmentCaptions(transcribed, segmentation)
+      : transcribed;
+    // for the auto-cut editor; captions are still useful without it
+    const silences = await detectSilences(audioPath).catch((err) => {
+      console.error("silencedetect failed:", err);
+      return null;
     });
 
-    const transcription = await openai.audio.transcriptions.create({
-      file: openaiFile,
-      model: "whisper-1",
-      response_format: "verbose_json",
+    return NextResponse.json({
+      success: true,
+      provider: provider.name,
+      captions,
+      silences,
     });
-
-    const segments = (transcription as any).segments || [];
-    const captions = segments.map((seg: any) => ({
-      start: seg.start,
-      end: seg.end,
-      text: (seg.text || "").trim(),
-    }));
-
-    fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
-
-    return NextResponse.json({ success: true, captions });
   } catch (err: any) {
+    if (err instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: err.message, issues: err.issues },
+        { status: 400 }
+      );
+    }
+    if (err instanceof UploadError) {
+      return NextResponse.json(
+        { success: false, error: err.message },
+        { status: err.status }
+      );
+    }
     console.error("generate-captions error:", err);
     return NextResponse.json(
       { success: false, error: err?.message || "Error generating captions" },
       { status: 500 }
     );
+  } finally {
+    fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
   }
 }
@@ -0,0 +1,28 @@
+// app/api/music/[...path]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { fileResponse, mimeTypeFor } from "@/lib/file-response";
+import { resolveMusicPath } from "@/lib/music-library";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// GET /api/music/<path> -> a track from the music library
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path: segments } = await params;
+  const filePath = resolveMusicPath(segments);
+  const contentType = filePath ? mimeTypeFor(filePath) : undefined;
+  const res =
+    filePath && contentType
+      ? await fileResponse(req, filePath, contentType)
+      : null;
+  return (
+    res ??
+    NextResponse.json(
+      { success: false, error: "File not found" },
+      { status: 404 }
+    )
+  );
+}
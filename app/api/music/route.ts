@@ -0,0 +1,23 @@
+// app/api/music/route.ts
+import { NextResponse } from "next/server";
+import { listMusicLibrary } from "@/lib/music-library";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// GET -> tracks in the server's music library
+export async function GET() {
+  try {
+    const tracks = await listMusicLibrary();
+    return NextResponse.json({ success: true, tracks });
+  } catch (err) {
+    console.error("music library error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to list music",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+// app/api/projects/[id]/media/route.ts
+import fsPromises from "fs/promises";
+import { NextRequest, NextResponse } from "next/server";
+import os from "os";
+import { fileResponse } from "@/lib/file-response";
+import {
+  getProject,
+  getProjectVideoPath,
+  saveProjectVideo,
+} from "@/lib/projects";
+import { parseUpload, UploadError, UPLOAD_LIMITS } from "@/lib/uploads";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET -> the project's source video (range requests supported)
+export async function GET(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const project = await getProject(id);
+  const videoPath = project?.video ? await getProjectVideoPath(id) : null;
+  const res =
+    project?.video && videoPath
+      ? await fileResponse(req, videoPath, project.video.mimeType)
+      : null;
+  return (
+    res ??
+    NextResponse.json(
+      { success: false, error: "Project has no video" },
+      { status: 404 }
+    )
+  );
+}
+
+// PUT multipart { file } -> stores (or replaces) the source video
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  try {
+    const { file } = await parseUpload(req, {
+      dir: os.tmpdir(),
+      maxFileBytes: UPLOAD_LIMITS.videoBytes,
+      accept: ["video"],
+    });
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: "No file provided" },
+        { status: 400 }
+      );
+    }
+    const project = await saveProjectVideo(id, file);
+    if (!project) {
+      await fsPromises.unlink(file.path).catch(() => {});
+      return NextResponse.json(
+        { success: false, error: "Project not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, project });
+  } catch (err) {
+    if (err instanceof UploadError) {
+      return NextResponse.json(
+        { success: false, error: err.message },
+        { status: err.status }
+      );
+    }
+    console.error("project media upload error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to store video",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+// app/api/projects/[id]/music/route.ts
+import fsPromises from "fs/promises";
+import { NextRequest, NextResponse } from "next/server";
+import os from "os";
+import { fileResponse } from "@/lib/file-response";
+import {
+  deleteProjectMusic,
+  getProject,
+  getProjectMusicPath,
+  saveProjectMusic,
+} from "@/lib/projects";
+import { parseUpload, UploadError, UPLOAD_LIMITS } from "@/lib/uploads";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET -> the project's uploaded background music
+export async function GET(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const project = await getProject(id);
+  const musicPath = project?.music ? await getProjectMusicPath(id) : null;
+  const res =
+    project?.music && musicPath
+      ? await fileResponse(req, musicPath, project.music.mimeType)
+      : null;
+  return (
+    res ??
+    NextResponse.json(
+      { success: false, error: "Project has no music" },
+      { status: 404 }
+    )
+  );
+}
+
+// PUT multipart { file } -> stores (or replaces) the music track
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  try {
+    const { file } = await parseUpload(req, {
+      dir: os.tmpdir(),
+      maxFileBytes: UPLOAD_LIMITS.musicBytes,
+      accept: ["audio"],
+    });
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: "No file provided" },
+        { status: 400 }
+      );
+    }
+    const project = await saveProjectMusic(id, file);
+    if (!project) {
+      await fsPromises.unlink(file.path).catch(() => {});
+      return NextResponse.json(
+        { success: false, error: "Project not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, project });
+  } catch (err) {
+    if (err instanceof UploadError) {
+      return NextResponse.json(
+        { success: false, error: err.message },
+        { status: err.status }
+      );
+    }
+    console.error("project music upload error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to store music",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE -> removes the uploaded track
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const project = await deleteProjectMusic(id);
+  if (!project) {
+    return NextResponse.json(
+      { success: false, error: "Project not found" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ success: true, project });
+}
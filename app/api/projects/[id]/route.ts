@@ -0,0 +1,72 @@
+// app/api/projects/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { deleteProject, getProject, updateProject } from "@/lib/projects";
+import { parse, projectPatchSchema, ValidationError } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () =>
+  NextResponse.json(
+    { success: false, error: "Project not found" },
+    { status: 404 }
+  );
+
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const project = await getProject(id);
+  if (!project) return notFound();
+  return NextResponse.json({ success: true, project });
+}
+
+// PATCH: partial editor state, checked against projectPatchSchema; unknown
+// keys are ignored
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { success: false, error: "JSON body required" },
+        { status: 400 }
+      );
+    }
+    const project = await updateProject(id, parse(projectPatchSchema, body));
+    if (!project) return notFound();
+    return NextResponse.json({ success: true, project });
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: err.message, issues: err.issues },
+        { status: 400 }
+      );
+    }
+    console.error("project update error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to save project",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  try {
+    if (!(await deleteProject(id))) return notFound();
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("project delete error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to delete project",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/projects/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createProject, listProjects } from "@/lib/projects";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// GET /api/projects -> summaries, most recently edited first
+export async function GET() {
+  try {
+    const projects = await listProjects();
+    return NextResponse.json({ success: true, projects });
+  } catch (err) {
+    console.error("projects list error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to list projects",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects { name?, captions?, ... } -> the new project
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const project = await createProject(
+      body && typeof body === "object" ? body : {}
+    );
+    return NextResponse.json({ success: true, project }, { status: 201 });
+  } catch (err) {
+    console.error("project create error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to create project",
+      },
+      { status: 500 }
+    );
+  }
+}
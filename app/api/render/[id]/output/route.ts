@@ -0,0 +1,66 @@
+import fs from "fs";
+import fsPromises from "fs/promises";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { exportFilename } from "@/lib/export-formats";
+import { mimeTypeFor } from "@/lib/file-response";
+import { getRenderJob, getRenderJobOutput } from "@/lib/render-jobs";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// GET /api/render/:id/output[?language=xx] -> the rendered file once the
+// job is done; `language` picks one of a multi-language job's outputs
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = getRenderJob(id);
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: "Render job not found" },
+      { status: 404 }
+    );
+  }
+  if (job.status !== "done") {
+    return NextResponse.json(
+      { success: false, error: `Render job is ${job.status}` },
+      { status: 409 }
+    );
+  }
+
+  const language = req.nextUrl.searchParams.get("language");
+  const output = getRenderJobOutput(job, language);
+  if (!output) {
+    return NextResponse.json(
+      { success: false, error: `No output for language "${language}"` },
+      { status: 404 }
+    );
+  }
+  const outPath = output.path;
+  const stat = await fsPromises.stat(outPath).catch(() => null);
+  if (!stat) {
+    return NextResponse.json(
+      { success: false, error: "Render output is no longer available" },
+      { status: 410 }
+    );
+  }
+
+  const stream = Readable.toWeb(
+    fs.createReadStream(outPath)
+  ) as ReadableStream<Uint8Array>;
+
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": mimeTypeFor(outPath) ?? "application/octet-stream",
+      "Content-Length": String(stat.size),
+      "Content-Disposition": `attachment; filename="${exportFilename(
+        path.extname(outPath).slice(1),
+        language ? output.language : null
+      )}"`,
+    },
+  });
+}
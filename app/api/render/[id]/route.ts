@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  cancelRenderJob,
+  describeRenderJob,
+  getRenderJob,
+} from "@/lib/render-jobs";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/render/:id -> status, percentage and ETA of a render job
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const job = getRenderJob(id);
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: "Render job not found" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ success: true, job: describeRenderJob(job) });
+}
+
+// DELETE /api/render/:id -> cancel (stops its render) and discard the job
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  if (!cancelRenderJob(id)) {
+    return NextResponse.json(
+      { success: false, error: "Render job not found" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ success: true });
+}
@@ -1,152 +1,242 @@
-import { spawn } from "child_process";
 import fsPromises from "fs/promises";
 import { NextRequest, NextResponse } from "next/server";
 import os from "os";
 import path from "path";
+import {
+  keepRangesFor,
+  keptDuration,
+  mapRange,
+  retimeBRolls,
+  retimeCaptions,
+} from "@/lib/auto-cut";
+import { exportExtension, SUBTITLE_MODES } from "@/lib/export-formats";
+import { resolveMusicSource } from "@/lib/music-library";
+import { getProjectVideoPath } from "@/lib/projects";
+import { createRenderJob, describeRenderJob } from "@/lib/render-jobs";
+import {
+  formFields,
+  object,
+  optional,
+  parse,
+  projectIdSchema,
+  RENDER_FORM_FIELDS,
+  renderOptionsSchema,
+  ValidationError,
+} from "@/lib/schemas";
+import { buildSubtitleTracks } from "@/lib/subtitle-tracks";
+import {
+  parseUpload,
+  UploadedFile,
+  UploadError,
+  UPLOAD_LIMITS,
+} from "@/lib/uploads";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-function runRenderScript(
-  videoPath: string,
-  captionsPath: string,
-  stylePreset: string,
-  outPath: string,
-  durationInSeconds: number
-): Promise<void> {
-  const scriptPath = path.join(process.cwd(), "render.mjs");
-  console.log("Using render script:", scriptPath);
-
-  return new Promise((resolve, reject) => {
-    const child = spawn(
-      process.execPath,
-      [
-        scriptPath,
-        videoPath,
-        captionsPath,
-        stylePreset,
-        outPath,
-        String(durationInSeconds || 0),
-      ],
-      {
-        stdio: ["ignore", "pipe", "pipe"],
-      }
-    );
-
-    let stderr = "";
-    let stdout = "";
-
-    child.stdout.on("data", (data) => {
-      const text = data.toString();
-      stdout += text;
-      console.log("[render.mjs stdout]", text.trim());
-    });
-
-    child.stderr.on("data", (data) => {
-      const text = data.toString();
-      stderr += text;
-      console.error("[render.mjs stderr]", text.trim());
-    });
-
-    child.on("close", (code) => {
-      if (code === 0) {
-        console.log("[runRenderScript] render.mjs exited cleanly");
-        resolve();
-      } else {
-        console.error(
-          "[runRenderScript] render.mjs exited with code",
-          code,
-          "stderr:",
-          stderr || "<empty>"
-        );
-        reject(
-          new Error(
-            `render.mjs exited with code ${code}. stderr: ${
-              stderr || "<empty>"
-            }`
-          )
-        );
-      }
-    });
-  });
-}
-
+/**
+ * Queues a render and returns immediately with a job id. The video is
+ * either uploaded as `file` or taken from a saved project (`projectId`).
+ * An optional `variants` field ([{ language, captions, secondaryCaptions? }])
+ * renders one video per language in the same job. An optional `cuts` field
+ * (CutRange[] in source time, from the auto-cut editor) removes those parts
+ * of the video; captions and B-roll are re-timed to match here and
+ * render.mjs cuts the video itself. `audioMix` adds a ducked music bed
+ * (library or project upload) and a loudness target for the final mix.
+ * `exportOptions` picks the codec (MP4/WebM/ProRes/GIF), quality, audio,
+ * scale and an optional time range (see lib/export-formats). Its
+ * `subtitles` mode can mux the captions as soft subtitle tracks (one per
+ * language, tagged with `sourceLanguage` for the original) instead of
+ * burning them in.
+ * Every field is checked against lib/schemas before anything is written;
+ * a bad request gets a 400 with `issues` ([{ path, message }]).
+ * Poll GET /api/render/:id for progress and fetch GET
+ * /api/render/:id/output once the job is done.
+ */
 export async function POST(req: NextRequest) {
+  // removed again unless a job takes it over
+  let file: UploadedFile | null = null;
   try {
-    const formData = await req.formData();
-    const file = formData.get("file") as File | null;
-    const captionsStr = formData.get("captions") as string | null;
-    const stylePreset =
-      (formData.get("stylePreset") as string | null) ?? "bottom";
-    const durationStr = formData.get("durationInSeconds") as string | null;
-    const durationInSeconds = durationStr ? Number(durationStr) : 0;
-
-    if (!file) {
+    const upload = await parseUpload(req, {
+      dir: os.tmpdir(),
+      maxFileBytes: UPLOAD_LIMITS.videoBytes,
+      accept: ["video"],
+    });
+    const formData = upload.fields;
+    file = upload.file;
+    const { projectId } = parse(
+      object({ projectId: optional(projectIdSchema) }),
+      formFields(formData, ["projectId"])
+    );
+    const options = parse(
+      renderOptionsSchema,
+      formFields(formData, RENDER_FORM_FIELDS.names, RENDER_FORM_FIELDS.json)
+    );
+    const { stylePreset, captionStyle, aspectPreset, fitMode, audioMix } =
+      options;
+    const extension = exportExtension(options.exportOptions);
+    // soft subtitles: every language goes into one file as its own track
+    const softSubtitles =
+      SUBTITLE_MODES[options.exportOptions.subtitles].format !== null;
+    let exportRange = options.exportOptions.range;
+    let { captions, bRolls } = options;
+    let durationInSeconds = options.durationInSeconds ?? 0;
+
+    const projectVideoPath = projectId
+      ? await getProjectVideoPath(projectId)
+      : null;
+    if (projectId && !projectVideoPath) {
       return NextResponse.json(
-        { success: false, error: "No file provided" },
-        { status: 400 }
+        { success: false, error: "Project not found or has no video" },
+        { status: 404 }
       );
     }
-    if (!captionsStr) {
+    const videoPath = projectVideoPath ?? file?.path;
+    if (!videoPath) {
       return NextResponse.json(
-        { success: false, error: "No captions provided" },
+        { success: false, error: "No file provided" },
         { status: 400 }
       );
     }
 
-    const captions = JSON.parse(captionsStr);
-
     const tmpDir = os.tmpdir();
-    const id = Date.now().toString();
+    const id = `${Date.now().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2, 8)}`;
 
-    const videoPath = path.join(tmpDir, `video-${id}.mp4`);
     const captionsPath = path.join(tmpDir, `captions-${id}.json`);
-    const outPath = path.join(tmpDir, `captioned-${id}.mp4`);
+    let outPath = path.join(tmpDir, `captioned-${id}.${extension}`);
 
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    await fsPromises.writeFile(videoPath, buffer);
+    const seen = new Set<string>();
+    const languages = options.variants.filter(
+      (v) => !seen.has(v.language) && seen.add(v.language)
+    );
+    const variants = (softSubtitles ? [] : languages).map((v) => ({
+      ...v,
+      outPath: path.join(tmpDir, `captioned-${id}-${v.language}.${extension}`),
+    }));
+    if (variants.length > 0) outPath = variants[0].outPath;
+
+    let keepRanges = null;
+    if (options.cuts.length > 0) {
+      keepRanges = keepRangesFor(options.cuts, durationInSeconds);
+      if (keepRanges.length === 0) {
+        return NextResponse.json(
+          { success: false, error: "The cut list removes the whole video" },
+          { status: 400 }
+        );
+      }
+      captions = retimeCaptions(captions, keepRanges);
+      bRolls = retimeBRolls(bRolls, keepRanges);
+      for (const v of variants) {
+        v.captions = retimeCaptions(v.captions, keepRanges);
+        if (v.secondaryCaptions) {
+          v.secondaryCaptions = retimeCaptions(v.secondaryCaptions, keepRanges);
+        }
+      }
+      durationInSeconds = keptDuration(keepRanges);
+      if (exportRange) {
+        exportRange = mapRange(exportRange, keepRanges);
+        if (!exportRange) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: "The export range only covers parts that are cut",
+            },
+            { status: 400 }
+          );
+        }
+      }
+    }
 
-    // await fsPromises.writeFile(captionsPath, JSON.stringify(captions));
-    const bRollsStr = formData.get("bRolls") as string | null;
-    let bRolls = [];
-    if (bRollsStr) {
-      try {
-        bRolls = JSON.parse(bRollsStr);
-      } catch (err) {
-        console.error("Failed to parse bRolls JSON:", err);
+    let music = null;
+    if (audioMix?.music) {
+      const musicPath = await resolveMusicSource(audioMix.music.src);
+      if (!musicPath) {
+        return NextResponse.json(
+          { success: false, error: "Music track not found" },
+          { status: 400 }
+        );
       }
+      // render.mjs serves the file itself and replaces src
+      music = { ...audioMix.music, path: musicPath };
     }
 
+    const subtitleTracks = softSubtitles
+      ? buildSubtitleTracks(
+          languages.length > 0
+            ? languages.map((v) => ({
+                language: v.language,
+                captions: keepRanges
+                  ? retimeCaptions(v.captions, keepRanges)
+                  : v.captions,
+              }))
+            : [{ language: "source", captions }],
+          {
+            mode: options.exportOptions.subtitles,
+            stylePreset,
+            sourceLanguage: options.sourceLanguage,
+            range: exportRange,
+          }
+        )
+      : null;
+
     const payload = {
       captions,
+      // soft subtitles are not drawn over the video, but the music still
+      // ducks under their speech
+      ...(softSubtitles ? { hideCaptions: true } : {}),
       bRolls,
+      captionStyle,
+      aspectPreset,
+      fitMode,
+      ...(variants.length > 0 ? { variants } : {}),
+      // source-time ranges render.mjs stitches together before composing;
+      // everything above is already on the edited timeline
+      ...(keepRanges ? { keepRanges } : {}),
+      music,
+      loudnessLufs: audioMix?.loudnessLufs ?? null,
+      // range is on the edited timeline too
+      exportOptions: { ...options.exportOptions, range: exportRange },
+      ...(subtitleTracks ? { subtitleTracks } : {}),
     };
 
     await fsPromises.writeFile(captionsPath, JSON.stringify(payload));
 
-    await runRenderScript(
-      videoPath,
-      captionsPath,
-      stylePreset,
-      outPath,
-      durationInSeconds
-    );
-
-    const videoBuffer = await fsPromises.readFile(outPath);
-
-    fsPromises.unlink(videoPath).catch(() => {});
-    fsPromises.unlink(captionsPath).catch(() => {});
-    fsPromises.unlink(outPath).catch(() => {});
-
-    return new NextResponse(videoBuffer, {
-      status: 200,
-      headers: {
-        "Content-Type": "video/mp4",
-        "Content-Disposition": 'attachment; filename="captioned.mp4"',
+    const job = createRenderJob({
+      id,
+      files: {
+        videoPath,
+        captionsPath,
+        outPath,
+        outputs:
+          variants.length > 0
+            ? variants.map((v) => ({ language: v.language, path: v.outPath }))
+            : undefined,
+        keepVideo: Boolean(projectVideoPath),
       },
+      stylePreset,
+      durationInSeconds,
     });
+    if (!projectVideoPath) file = null;
+
+    return NextResponse.json(
+      { success: true, jobId: job.id, job: describeRenderJob(job) },
+      { status: 202 }
+    );
   } catch (err: any) {
+    if (err instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: err.message, issues: err.issues },
+        { status: 400 }
+      );
+    }
+    if (err instanceof UploadError) {
+      return NextResponse.json(
+        { success: false, error: err.message },
+        { status: err.status }
+      );
+    }
     console.error("render API error:", err);
     return NextResponse.json(
       {
@@ -155,5 +245,7 @@ export async function POST(req: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    if (file) fsPromises.unlink(file.path).catch(() => {});
   }
 }
@@ -0,0 +1,88 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { NextRequest, NextResponse } from "next/server";
+import { getProjectVideoPath } from "@/lib/projects";
+import {
+  formFields,
+  num,
+  object,
+  parse,
+  projectIdSchema,
+  ValidationError,
+  withDefault,
+} from "@/lib/schemas";
+import { detectSilences } from "@/lib/transcription/audio";
+import { parseUpload, UploadError, UPLOAD_LIMITS } from "@/lib/uploads";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Detects silent stretches in a video (uploaded as `file` or a saved
+ * project's via `projectId`) for the auto-cut editor, without
+ * transcribing it again. Optional `noiseDb` sets the silence threshold.
+ */
+export async function POST(req: NextRequest) {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "silences-"));
+  try {
+    const { fields, file } = await parseUpload(req, {
+      dir: tmpDir,
+      maxFileBytes: UPLOAD_LIMITS.videoBytes,
+      accept: ["video", "audio"],
+    });
+    const { projectId, noiseDb } = parse(
+      object({
+        projectId: withDefault(projectIdSchema, undefined),
+        noiseDb: withDefault(
+          num({ min: -90, max: 0, coerce: true }),
+          undefined
+        ),
+      }),
+      formFields(fields, ["projectId", "noiseDb"])
+    );
+
+    const projectVideoPath = projectId
+      ? await getProjectVideoPath(projectId)
+      : null;
+    if (projectId && !projectVideoPath) {
+      return NextResponse.json(
+        { success: false, error: "Project not found or has no video" },
+        { status: 404 }
+      );
+    }
+    const inputPath = projectVideoPath ?? file?.path;
+    if (!inputPath) {
+      return NextResponse.json(
+        { success: false, error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const silences = await detectSilences(inputPath, { noiseDb });
+    return NextResponse.json({ success: true, silences });
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: err.message, issues: err.issues },
+        { status: 400 }
+      );
+    }
+    if (err instanceof UploadError) {
+      return NextResponse.json(
+        { success: false, error: err.message },
+        { status: err.status }
+      );
+    }
+    console.error("silences error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Error detecting silences",
+      },
+      { status: 500 }
+    );
+  } finally {
+    fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
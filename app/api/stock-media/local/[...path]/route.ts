@@ -0,0 +1,28 @@
+// app/api/stock-media/local/[...path]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { fileResponse, mimeTypeFor } from "@/lib/file-response";
+import { resolveLocalStockPath } from "@/lib/stock-media/local";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// GET /api/stock-media/local/<path> -> a file from the local library
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path: segments } = await params;
+  const filePath = resolveLocalStockPath(segments);
+  const contentType = filePath ? mimeTypeFor(filePath) : undefined;
+  const res =
+    filePath && contentType
+      ? await fileResponse(req, filePath, contentType)
+      : null;
+  return (
+    res ??
+    NextResponse.json(
+      { success: false, error: "File not found" },
+      { status: 404 }
+    )
+  );
+}
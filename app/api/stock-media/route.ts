@@ -0,0 +1,47 @@
+// app/api/stock-media/route.ts
+import { NextResponse } from "next/server";
+import { parse, stockQuerySchema, ValidationError } from "@/lib/schemas";
+import {
+  getStockProvider,
+  searchStockMedia,
+  StockSearchError,
+} from "@/lib/stock-media";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// GET ?provider=&query=&type=photos|videos&orientation=&size=&page=&per_page=
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const {
+      provider: providerName,
+      per_page,
+      ...params
+    } = parse(stockQuerySchema, Object.fromEntries(url.searchParams));
+
+    const provider = getStockProvider(providerName);
+    const page = await searchStockMedia(provider, {
+      ...params,
+      perPage: per_page,
+    });
+    return NextResponse.json({ provider: provider.name, ...page });
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return NextResponse.json(
+        { error: err.message, issues: err.issues },
+        { status: 400 }
+      );
+    }
+    if (err instanceof StockSearchError) {
+      return NextResponse.json(
+        { error: err.message, details: err.details },
+        { status: err.status }
+      );
+    }
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// app/api/translate/route.ts
+import { NextResponse } from "next/server";
+import { parse, translateRequestSchema, ValidationError } from "@/lib/schemas";
+import { getTranslator, translateCaptions } from "@/lib/translation";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// POST { captions, to, from?, translator? } -> { captions } in `to`
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const {
+      captions,
+      to,
+      from,
+      translator: translatorName,
+    } = parse(translateRequestSchema, body);
+
+    let translator;
+    try {
+      translator = getTranslator(translatorName ?? null);
+    } catch (err) {
+      return NextResponse.json(
+        { success: false, error: (err as Error).message },
+        { status: 400 }
+      );
+    }
+
+    const translated = await translateCaptions(captions, translator, {
+      from: from === "auto" ? undefined : from,
+      to,
+    });
+    return NextResponse.json({
+      success: true,
+      translator: translator.name,
+      language: to,
+      captions: translated,
+    });
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: err.message, issues: err.issues },
+        { status: 400 }
+      );
+    }
+    console.error("translate error:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Translation failed",
+      },
+      { status: 500 }
+    );
+  }
+}
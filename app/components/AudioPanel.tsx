@@ -0,0 +1,218 @@
+// app/components/AudioPanel.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import type { MusicLibraryTrack } from "../../lib/music-library";
+import type { AudioMix, MusicBed } from "../../remotion/VideoWithCaptions";
+import {
+  DEFAULT_MUSIC_LEVELS,
+  LOUDNESS_TARGETS,
+} from "../../remotion/VideoWithCaptions";
+
+type Props = {
+  value: AudioMix;
+  onChange: (mix: AudioMix) => void;
+  // uploads are stored with the project; null until one exists
+  projectId: string | null;
+};
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+export default function AudioPanel({ value, onChange, projectId }: Props) {
+  const [library, setLibrary] = useState<MusicLibraryTrack[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { music } = value;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/music")
+      .then((res) => res.json())
+      .then((json) => {
+        if (!cancelled && json?.success) setLibrary(json.tracks);
+      })
+      .catch(() => {
+        // no library: only uploads are offered
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setMusic = (next: MusicBed | null) =>
+    onChange({ ...value, music: next });
+  const updateMusic = (patch: Partial<MusicBed>) =>
+    music && setMusic({ ...music, ...patch });
+
+  const pickTrack = (src: string, name: string) =>
+    setMusic({
+      ...DEFAULT_MUSIC_LEVELS,
+      // keep levels the user already tuned when swapping tracks
+      ...(music && {
+        volume: music.volume,
+        duckedVolume: music.duckedVolume,
+        fadeSeconds: music.fadeSeconds,
+      }),
+      src,
+      name,
+    });
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !projectId) return;
+    setIsUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`/api/projects/${projectId}/music`, {
+        method: "PUT",
+        body: formData,
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.success) {
+        throw new Error(json?.error || "Could not upload music");
+      }
+      // updatedAt busts the Player's cache when the track was replaced
+      pickTrack(
+        `/api/projects/${projectId}/music?v=${json.project.updatedAt}`,
+        file.name.replace(/\.[^.]+$/, "")
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-400">Music</span>
+        <select
+          value={
+            music && library.some((t) => t.src === music.src) ? music.src : ""
+          }
+          onChange={(e) => {
+            const track = library.find((t) => t.src === e.target.value);
+            if (track) pickTrack(track.src, track.name);
+          }}
+          className="rounded px-1 py-0.5 bg-[#0b0b0b] max-w-[14rem]"
+          disabled={library.length === 0}
+        >
+          <option value="">
+            {library.length === 0 ? "Library is empty" : "From library…"}
+          </option>
+          {library.map((t) => (
+            <option key={t.src} value={t.src}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <label
+          className={`rounded px-2 py-1 bg-[#1f1f21] hover:bg-[#2a2a2d] ${
+            projectId ? "cursor-pointer" : "opacity-50"
+          }`}
+          title={projectId ? "" : "Upload a video first"}
+        >
+          {isUploading ? "Uploading…" : "Upload track"}
+          <input
+            type="file"
+            accept="audio/*"
+            onChange={handleUpload}
+            disabled={!projectId || isUploading}
+            className="hidden"
+          />
+        </label>
+        {music && (
+          <button
+            onClick={() => setMusic(null)}
+            className="rounded px-2 py-1 bg-[#1f1f21] hover:bg-[#2a2a2d]"
+          >
+            No music
+          </button>
+        )}
+      </div>
+      {error && <div className="text-rose-400">{error}</div>}
+
+      {music && (
+        <div className="space-y-2 rounded border border-[#2a2a2d] bg-[#0b0b0c] p-2">
+          <div className="truncate font-medium">{music.name}</div>
+          <label className="flex items-center gap-2">
+            <span className="w-24 text-slate-400">Volume</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={music.volume}
+              onChange={(e) => updateMusic({ volume: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-10 text-right">{percent(music.volume)}</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-24 text-slate-400">Under speech</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={music.duckedVolume}
+              onChange={(e) =>
+                updateMusic({ duckedVolume: Number(e.target.value) })
+              }
+              className="flex-1"
+            />
+            <span className="w-10 text-right">
+              {percent(music.duckedVolume)}
+            </span>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-24 text-slate-400">Duck fade</span>
+            <input
+              type="range"
+              min={0.05}
+              max={2}
+              step={0.05}
+              value={music.fadeSeconds}
+              onChange={(e) =>
+                updateMusic({ fadeSeconds: Number(e.target.value) })
+              }
+              className="flex-1"
+            />
+            <span className="w-10 text-right">
+              {music.fadeSeconds.toFixed(2)}s
+            </span>
+          </label>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2">
+        <span className="text-slate-400">Normalize loudness</span>
+        <select
+          value={value.loudnessLufs ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              loudnessLufs: e.target.value ? Number(e.target.value) : null,
+            })
+          }
+          className="rounded px-1 py-0.5 bg-[#0b0b0b]"
+        >
+          <option value="">Off</option>
+          {LOUDNESS_TARGETS.map((t) => (
+            <option key={t.value} value={t.value}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="text-[11px] text-slate-500">
+        Music ducks while captions are on screen. Loudness is measured and
+        normalized on the exported file.
+      </p>
+    </div>
+  );
+}
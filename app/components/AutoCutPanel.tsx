@@ -0,0 +1,258 @@
+// app/components/AutoCutPanel.tsx
+"use client";
+
+import type { PlayerRef } from "@remotion/player";
+import { RefObject, useEffect, useState } from "react";
+import {
+  captionGaps,
+  CutRange,
+  findCuts,
+  keepRangesFor,
+  keptDuration,
+  TimeRange,
+  untimedFillerSegments,
+} from "../../lib/auto-cut";
+import type { CaptionSegment } from "../../remotion/VideoWithCaptions";
+import { fps } from "../../remotion/VideoWithCaptions";
+
+type Props = {
+  captions: CaptionSegment[];
+  durationInSeconds: number;
+  // from silencedetect; null until detected for this video
+  silences: TimeRange[] | null;
+  onDetectSilences: () => Promise<void>;
+  cuts: CutRange[];
+  onChange: (cuts: CutRange[]) => void;
+  playerRef: RefObject<PlayerRef | null>;
+  // re-subscribe to the Player when it remounts
+  videoUrl: string | null;
+};
+
+const CUT_COLORS: Record<CutRange["reason"], string> = {
+  silence: "bg-rose-500/70",
+  filler: "bg-amber-400/80",
+};
+
+const formatTime = (t: number) => {
+  const m = Math.floor(t / 60);
+  const s = (t % 60).toFixed(1).padStart(4, "0");
+  return `${m}:${s}`;
+};
+
+export default function AutoCutPanel({
+  captions,
+  durationInSeconds,
+  silences,
+  onDetectSilences,
+  cuts,
+  onChange,
+  playerRef,
+  videoUrl,
+}: Props) {
+  const [minSilenceSeconds, setMinSilenceSeconds] = useState(0.6);
+  const [paddingSeconds, setPaddingSeconds] = useState(0.15);
+  const [removeFillers, setRemoveFillers] = useState(true);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [previewEdit, setPreviewEdit] = useState(false);
+
+  const duration = Math.max(0.1, durationInSeconds);
+  const keptSeconds = keptDuration(keepRangesFor(cuts, durationInSeconds));
+  // fillers findCuts could not time; shown on the timeline, never cut
+  const untimed = removeFillers ? untimedFillerSegments(captions) : [];
+
+  // "preview edit": jump over cuts while the source plays
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || !previewEdit || cuts.length === 0) return;
+    const onFrame = (e: { detail: { frame: number } }) => {
+      const t = e.detail.frame / fps;
+      const cut = cuts.find((c) => t >= c.start && t < c.end);
+      if (cut) player.seekTo(Math.ceil(cut.end * fps));
+    };
+    player.addEventListener("frameupdate", onFrame);
+    return () => player.removeEventListener("frameupdate", onFrame);
+  }, [playerRef, videoUrl, previewEdit, cuts]);
+
+  const handleFindCuts = () =>
+    onChange(
+      findCuts(
+        captions,
+        // without silencedetect, gaps between captions stand in for silence
+        silences ?? captionGaps(captions, durationInSeconds),
+        durationInSeconds,
+        { minSilenceSeconds, paddingSeconds, removeFillers }
+      )
+    );
+
+  const handleDetect = async () => {
+    setIsDetecting(true);
+    try {
+      await onDetectSilences();
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const restore = (cut: CutRange) => onChange(cuts.filter((c) => c !== cut));
+
+  const seekTo = (seconds: number) =>
+    playerRef.current?.seekTo(Math.max(0, Math.round(seconds * fps)));
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1">
+          <span className="text-slate-400">Min silence</span>
+          <input
+            type="number"
+            min={0.2}
+            step={0.1}
+            value={minSilenceSeconds}
+            onChange={(e) => setMinSilenceSeconds(Number(e.target.value))}
+            className="w-16 rounded px-1 py-0.5 bg-[#0b0b0b]"
+          />
+          s
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="text-slate-400">Padding</span>
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={paddingSeconds}
+            onChange={(e) => setPaddingSeconds(Number(e.target.value))}
+            className="w-16 rounded px-1 py-0.5 bg-[#0b0b0b]"
+          />
+          s
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={removeFillers}
+            onChange={(e) => setRemoveFillers(e.target.checked)}
+          />
+          Cut filler words (um, uh…)
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleFindCuts}
+          disabled={durationInSeconds <= 0}
+          className="rounded px-2 py-1 bg-[#1f1f21] hover:bg-[#2a2a2d] disabled:opacity-50"
+        >
+          Find cuts
+        </button>
+        <button
+          onClick={handleDetect}
+          disabled={isDetecting}
+          className="rounded px-2 py-1 bg-[#1f1f21] hover:bg-[#2a2a2d] disabled:opacity-50"
+          title="Run silence detection on the audio"
+        >
+          {isDetecting
+            ? "Detecting…"
+            : silences
+            ? `Re-detect silences (${silences.length})`
+            : "Detect silences"}
+        </button>
+        <button
+          onClick={() => onChange([])}
+          disabled={cuts.length === 0}
+          className="rounded px-2 py-1 bg-[#1f1f21] hover:bg-[#2a2a2d] disabled:opacity-50"
+        >
+          Clear
+        </button>
+        <label className="flex items-center gap-1 ml-auto">
+          <input
+            type="checkbox"
+            checked={previewEdit}
+            onChange={(e) => setPreviewEdit(e.target.checked)}
+          />
+          Skip cuts in preview
+        </label>
+      </div>
+
+      {/* source timeline: cuts in colour, click one to keep that part */}
+      <div className="relative h-6 rounded bg-emerald-500/25 overflow-hidden">
+        {cuts.map((c, i) => (
+          <button
+            key={`${c.start}-${i}`}
+            onClick={() => restore(c)}
+            className={`absolute inset-y-0 ${CUT_COLORS[c.reason]}`}
+            style={{
+              left: `${(c.start / duration) * 100}%`,
+              width: `${Math.max(0.2, ((c.end - c.start) / duration) * 100)}%`,
+            }}
+            title={`${c.reason} ${formatTime(c.start)}–${formatTime(
+              c.end
+            )} (click to keep)`}
+          />
+        ))}
+        {untimed.map((r, i) => (
+          <button
+            key={`untimed-${r.start}-${i}`}
+            onClick={() => seekTo(r.start)}
+            className="absolute inset-y-0 border border-dashed border-amber-400/80"
+            style={{
+              left: `${(r.start / duration) * 100}%`,
+              width: `${Math.max(0.2, ((r.end - r.start) / duration) * 100)}%`,
+            }}
+            title={`filler word without word timings ${formatTime(
+              r.start
+            )}–${formatTime(r.end)} (not cut)`}
+          />
+        ))}
+      </div>
+
+      {untimed.length > 0 && (
+        <div className="text-amber-300/90">
+          {untimed.length}{" "}
+          {untimed.length === 1 ? "caption has" : "captions have"} filler words
+          but no word timings (dashed), so those fillers are not cut. Trim them
+          by hand or re-transcribe for word timings.
+        </div>
+      )}
+
+      {cuts.length > 0 ? (
+        <>
+          <div className="text-slate-400">
+            {cuts.length} cuts · {formatTime(durationInSeconds)} →{" "}
+            {formatTime(keptSeconds)} (
+            {(durationInSeconds - keptSeconds).toFixed(1)}s removed). Export
+            renders the edited video.
+          </div>
+          <ul className="max-h-40 overflow-y-auto space-y-1 pr-1">
+            {cuts.map((c, i) => (
+              <li
+                key={`${c.start}-${i}`}
+                className="flex items-center gap-2 rounded border border-[#2a2a2d] bg-[#0b0b0c] px-2 py-1"
+              >
+                <span
+                  className={`h-2 w-2 rounded-full ${CUT_COLORS[c.reason]}`}
+                />
+                <button
+                  onClick={() => seekTo(c.start - 1)}
+                  className="flex-1 text-left"
+                  title="Play from just before the cut"
+                >
+                  {formatTime(c.start)}–{formatTime(c.end)} · {c.reason}
+                </button>
+                <button
+                  onClick={() => restore(c)}
+                  className="px-1.5 rounded bg-[#1f1f21] hover:bg-[#2a2a2d]"
+                >
+                  Keep
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <div className="text-slate-500">
+          No cuts. &quot;Find cuts&quot; marks dead air
+          {removeFillers && " and filler words"} for review.
+        </div>
+      )}
+    </div>
+  );
+}
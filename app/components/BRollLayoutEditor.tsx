@@ -0,0 +1,207 @@
+// app/components/BRollLayoutEditor.tsx
+"use client";
+
+import {
+  BRollEntry,
+  BRollLayout,
+  clampPipPosition,
+  DEFAULT_BROLL_LAYOUT,
+  DEFAULT_PIP_LAYOUT,
+  PIP_CORNERS,
+  PipCorner,
+  pipCornerPosition,
+} from "../../remotion/VideoWithCaptions";
+
+type Props = {
+  entry: BRollEntry;
+  onChange: (patch: Partial<BRollEntry>) => void;
+};
+
+type LayoutChoice =
+  | "full"
+  | "pip"
+  | "split-vertical"
+  | "split-horizontal"
+  | "overlay";
+
+const LAYOUT_CHOICES: { value: LayoutChoice; label: string }[] = [
+  { value: "full", label: "Full frame" },
+  { value: "pip", label: "Picture-in-picture" },
+  { value: "split-vertical", label: "Split (top/bottom)" },
+  { value: "split-horizontal", label: "Split (side by side)" },
+  { value: "overlay", label: "Overlay" },
+];
+
+const LAYOUT_PRESETS: Record<LayoutChoice, BRollLayout> = {
+  full: DEFAULT_BROLL_LAYOUT,
+  pip: DEFAULT_PIP_LAYOUT,
+  "split-vertical": {
+    kind: "split",
+    orientation: "vertical",
+    bRollFirst: true,
+    ratio: 0.5,
+  },
+  "split-horizontal": {
+    kind: "split",
+    orientation: "horizontal",
+    bRollFirst: true,
+    ratio: 0.5,
+  },
+  overlay: { kind: "overlay", opacity: 0.6 },
+};
+
+const CORNER_ARROWS: Record<PipCorner, string> = {
+  "top-left": "↖",
+  "top-right": "↗",
+  "bottom-left": "↙",
+  "bottom-right": "↘",
+};
+
+const choiceOf = (layout: BRollLayout): LayoutChoice =>
+  layout.kind === "split" ? `split-${layout.orientation}` : layout.kind;
+
+const inputClass = "rounded px-1 py-0.5 bg-[#0b0b0b] text-xs";
+
+/** Layout of one B-roll entry; picture-in-picture cards can also be dragged in the preview. */
+export default function BRollLayoutEditor({ entry, onChange }: Props) {
+  const layout = entry.layout ?? DEFAULT_BROLL_LAYOUT;
+  const set = (next: BRollLayout) => onChange({ layout: next });
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-3 text-xs">
+      <label className="flex items-center gap-1">
+        <span>Layout</span>
+        <select
+          value={choiceOf(layout)}
+          onChange={(e) => set(LAYOUT_PRESETS[e.target.value as LayoutChoice])}
+          className={inputClass}
+        >
+          {LAYOUT_CHOICES.map((c) => (
+            <option key={c.value} value={c.value}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {layout.kind === "pip" && (
+        <>
+          <span className="flex items-center gap-0.5">
+            {PIP_CORNERS.map((corner) => (
+              <button
+                key={corner}
+                type="button"
+                onClick={() =>
+                  set({ ...layout, ...pipCornerPosition(corner, layout.size) })
+                }
+                className="rounded px-1.5 py-0.5 bg-[#1f1f21] hover:bg-[#2a2a2d]"
+                title={`Move to the ${corner.replace("-", " ")} corner`}
+              >
+                {CORNER_ARROWS[corner]}
+              </button>
+            ))}
+          </span>
+          <label className="flex items-center gap-1">
+            <span className="text-slate-400">Size</span>
+            <input
+              type="number"
+              min={0.1}
+              max={0.9}
+              step={0.05}
+              value={layout.size}
+              onChange={(e) => {
+                const size = Math.min(
+                  0.9,
+                  Math.max(0.1, Number(e.target.value))
+                );
+                set({
+                  ...layout,
+                  size,
+                  ...clampPipPosition(layout.x, layout.y, size),
+                });
+              }}
+              className={`w-14 ${inputClass}`}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            <span className="text-slate-400">Radius</span>
+            <input
+              type="number"
+              min={0}
+              max={0.5}
+              step={0.02}
+              value={layout.borderRadius}
+              onChange={(e) =>
+                set({ ...layout, borderRadius: Number(e.target.value) })
+              }
+              className={`w-14 ${inputClass}`}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={layout.shadow}
+              onChange={(e) => set({ ...layout, shadow: e.target.checked })}
+            />
+            Shadow
+          </label>
+        </>
+      )}
+
+      {layout.kind === "split" && (
+        <>
+          <label className="flex items-center gap-1">
+            <span className="text-slate-400">B-roll</span>
+            <select
+              value={layout.bRollFirst ? "first" : "second"}
+              onChange={(e) =>
+                set({ ...layout, bRollFirst: e.target.value === "first" })
+              }
+              className={inputClass}
+            >
+              <option value="first">
+                {layout.orientation === "vertical" ? "Top" : "Left"}
+              </option>
+              <option value="second">
+                {layout.orientation === "vertical" ? "Bottom" : "Right"}
+              </option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            <span className="text-slate-400">
+              Share {Math.round(layout.ratio * 100)}%
+            </span>
+            <input
+              type="range"
+              min={0.2}
+              max={0.8}
+              step={0.05}
+              value={layout.ratio}
+              onChange={(e) =>
+                set({ ...layout, ratio: Number(e.target.value) })
+              }
+            />
+          </label>
+        </>
+      )}
+
+      {layout.kind === "overlay" && (
+        <label className="flex items-center gap-1">
+          <span className="text-slate-400">
+            Opacity {Math.round(layout.opacity * 100)}%
+          </span>
+          <input
+            type="range"
+            min={0.05}
+            max={1}
+            step={0.05}
+            value={layout.opacity}
+            onChange={(e) =>
+              set({ ...layout, opacity: Number(e.target.value) })
+            }
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+// app/components/BRollMotionEditor.tsx
+"use client";
+
+import {
+  BROLL_DIRECTIONS,
+  BROLL_TRANSITION_KINDS,
+  BRollDirection,
+  BRollEntry,
+  BRollMotion,
+  BRollTransition,
+  BRollTransitionKind,
+  DEFAULT_BROLL_MOTION,
+  DEFAULT_BROLL_TRANSITION,
+  MotionRect,
+} from "../../remotion/VideoWithCaptions";
+
+type Props = {
+  entry: BRollEntry;
+  onChange: (patch: Partial<BRollEntry>) => void;
+};
+
+const TRANSITION_LABELS: Record<BRollTransitionKind, string> = {
+  none: "Cut",
+  fade: "Fade",
+  slide: "Slide",
+  wipe: "Wipe",
+  "zoom-punch": "Zoom punch",
+  "whip-pan": "Whip pan",
+};
+
+const DIRECTIONAL: BRollTransitionKind[] = ["slide", "wipe", "whip-pan"];
+
+const inputClass = "rounded px-1 py-0.5 bg-[#0b0b0b] text-xs";
+
+const TransitionControls = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: BRollTransition;
+  onChange: (t: BRollTransition) => void;
+}) => (
+  <label className="flex items-center gap-1">
+    <span>{label}</span>
+    <select
+      value={value.kind}
+      onChange={(e) =>
+        onChange({ ...value, kind: e.target.value as BRollTransitionKind })
+      }
+      className={inputClass}
+    >
+      {BROLL_TRANSITION_KINDS.map((k) => (
+        <option key={k} value={k}>
+          {TRANSITION_LABELS[k]}
+        </option>
+      ))}
+    </select>
+    {value.kind !== "none" && (
+      <input
+        type="number"
+        min={0.05}
+        max={5}
+        step={0.05}
+        value={value.durationSeconds}
+        onChange={(e) =>
+          onChange({ ...value, durationSeconds: Number(e.target.value) })
+        }
+        className={`w-14 ${inputClass}`}
+        title="Duration (s)"
+      />
+    )}
+    {DIRECTIONAL.includes(value.kind) && (
+      <select
+        value={value.direction ?? "left"}
+        onChange={(e) =>
+          onChange({ ...value, direction: e.target.value as BRollDirection })
+        }
+        className={inputClass}
+      >
+        {BROLL_DIRECTIONS.map((d) => (
+          <option key={d} value={d}>
+            {d}
+          </option>
+        ))}
+      </select>
+    )}
+  </label>
+);
+
+// x, y and size of the crop; it always has the frame's aspect (the larger
+// side sets the zoom), so one size is enough here
+const RectControls = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: MotionRect;
+  onChange: (r: MotionRect) => void;
+}) => {
+  const size = Math.max(value.width, value.height);
+  const set = (patch: Partial<{ x: number; y: number; size: number }>) => {
+    const nextSize = Math.min(1, Math.max(0.05, patch.size ?? size));
+    const clampPos = (v: number) => Math.min(1 - nextSize, Math.max(0, v));
+    onChange({
+      x: clampPos(patch.x ?? value.x),
+      y: clampPos(patch.y ?? value.y),
+      width: nextSize,
+      height: nextSize,
+    });
+  };
+  return (
+    <span className="flex items-center gap-1">
+      <span className="text-slate-400">{label}</span>
+      {(["x", "y", "size"] as const).map((key) => (
+        <input
+          key={key}
+          type="number"
+          min={key === "size" ? 0.05 : 0}
+          max={1}
+          step={0.01}
+          value={Number((key === "size" ? size : value[key]).toFixed(2))}
+          onChange={(e) => set({ [key]: Number(e.target.value) })}
+          className={`w-14 ${inputClass}`}
+          title={key}
+        />
+      ))}
+    </span>
+  );
+};
+
+const MOTION_PRESETS: Record<BRollMotion["kind"], BRollMotion> = {
+  static: { kind: "static" },
+  "ken-burns": DEFAULT_BROLL_MOTION,
+  pan: { kind: "pan", direction: "left" },
+};
+
+/** Transition and motion settings of one B-roll entry. */
+export default function BRollMotionEditor({ entry, onChange }: Props) {
+  const motion = entry.motion ?? DEFAULT_BROLL_MOTION;
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-3 text-xs">
+      <TransitionControls
+        label="In"
+        value={entry.transitionIn ?? DEFAULT_BROLL_TRANSITION}
+        onChange={(transitionIn) => onChange({ transitionIn })}
+      />
+      <TransitionControls
+        label="Out"
+        value={entry.transitionOut ?? DEFAULT_BROLL_TRANSITION}
+        onChange={(transitionOut) => onChange({ transitionOut })}
+      />
+      {entry.type !== "video" && (
+        <label className="flex items-center gap-1">
+          <span>Motion</span>
+          <select
+            value={motion.kind}
+            onChange={(e) =>
+              onChange({
+                motion: MOTION_PRESETS[e.target.value as BRollMotion["kind"]],
+              })
+            }
+            className={inputClass}
+          >
+            <option value="static">Static</option>
+            <option value="ken-burns">Ken Burns</option>
+            <option value="pan">Pan</option>
+          </select>
+          {motion.kind === "pan" && (
+            <select
+              value={motion.direction}
+              onChange={(e) =>
+                onChange({
+                  motion: {
+                    kind: "pan",
+                    direction: e.target.value as BRollDirection,
+                  },
+                })
+              }
+              className={inputClass}
+            >
+              {BROLL_DIRECTIONS.map((d) => (
+                <option key={d} value={d}>
+                  {d}
+                </option>
+              ))}
+            </select>
+          )}
+        </label>
+      )}
+      {entry.type !== "video" && motion.kind === "ken-burns" && (
+        <span className="flex flex-wrap items-center gap-2">
+          <RectControls
+            label="From"
+            value={motion.from}
+            onChange={(from) => onChange({ motion: { ...motion, from } })}
+          />
+          <RectControls
+            label="To"
+            value={motion.to}
+            onChange={(to) => onChange({ motion: { ...motion, to } })}
+          />
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                motion: { ...motion, from: motion.to, to: motion.from },
+              })
+            }
+            className="rounded px-2 py-0.5 bg-[#1f1f21] hover:bg-[#2a2a2d]"
+            title="Zoom out instead of in (or the reverse)"
+          >
+            Reverse
+          </button>
+        </span>
+      )}
+    </div>
+  );
+}
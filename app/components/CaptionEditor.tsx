@@ -0,0 +1,434 @@
+// app/components/CaptionEditor.tsx
+"use client";
+
+import type { PlayerRef } from "@remotion/player";
+import { RefObject, useEffect, useMemo, useRef, useState } from "react";
+import {
+  mergeSegments,
+  retimeSegment,
+  roundTime,
+  setSegmentText,
+  splitSegment,
+  validateCaptions,
+} from "../../lib/caption-edit";
+import type { CaptionSegment } from "../../remotion/VideoWithCaptions";
+import { fps, listSpeakers } from "../../remotion/VideoWithCaptions";
+import { SegmentEffectsEditor } from "./CaptionEffectsEditor";
+
+// shortest segment the drag handles will produce
+const MIN_SEGMENT_SECONDS = 0.1;
+const WAVEFORM_BARS = 600;
+
+type Props = {
+  captions: CaptionSegment[];
+  onChange: (captions: CaptionSegment[]) => void;
+  durationInSeconds: number;
+  playerRef: RefObject<PlayerRef | null>;
+  // object URL of a fresh upload or a saved project's media URL; changes
+  // whenever a new Player mounts so we re-subscribe to its events
+  videoUrl: string | null;
+};
+
+type DragState = { index: number; edge: "start" | "end" } | null;
+
+// the whole file and its decoded audio have to fit in the tab's memory,
+// so bigger videos get no waveform
+const WAVEFORM_MAX_BYTES = 200 * 1024 * 1024;
+// audio is resampled to this while decoding; plenty for one peak per bar
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+/**
+ * Decodes the video's audio in the browser and reduces it to `bars` peak
+ * values in 0..1 for the timeline background.
+ */
+async function computePeaks(url: string, bars: number): Promise<number[]> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to load audio (${res.status})`);
+  if (Number(res.headers.get("content-length")) > WAVEFORM_MAX_BYTES) {
+    res.body?.cancel().catch(() => {});
+    throw new Error("Video is too large for a waveform");
+  }
+  const file = await res.blob();
+  if (file.size > WAVEFORM_MAX_BYTES) {
+    throw new Error("Video is too large for a waveform");
+  }
+  // decodes at the context's sample rate, not the file's (often 48 kHz)
+  const ctx = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+  const audio = await ctx.decodeAudioData(await file.arrayBuffer());
+  const data = audio.getChannelData(0);
+  const size = Math.max(1, Math.floor(data.length / bars));
+  const peaks: number[] = [];
+  for (let i = 0; i < bars; i++) {
+    let max = 0;
+    for (let j = i * size; j < Math.min(data.length, (i + 1) * size); j++) {
+      const v = Math.abs(data[j]);
+      if (v > max) max = v;
+    }
+    peaks.push(max);
+  }
+  const top = Math.max(...peaks, 0.0001);
+  return peaks.map((p) => p / top);
+}
+
+export default function CaptionEditor({
+  captions,
+  onChange,
+  durationInSeconds,
+  playerRef,
+  videoUrl,
+}: Props) {
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  // peaks are tagged with their source so a stale waveform is never shown
+  const [waveform, setWaveform] = useState<{ url: string; peaks: number[] }>({
+    url: "",
+    peaks: [],
+  });
+  const [zoom, setZoom] = useState(1);
+  const [drag, setDrag] = useState<DragState>(null);
+
+  const peaks = waveform.url === videoUrl ? waveform.peaks : [];
+  const speakers = listSpeakers(captions);
+  const duration = Math.max(0.1, durationInSeconds);
+  const issues = useMemo(
+    () => validateCaptions(captions, durationInSeconds),
+    [captions, durationInSeconds]
+  );
+
+  // follow the Player's playhead
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    const onFrame = (e: { detail: { frame: number } }) =>
+      setCurrentTime(e.detail.frame / fps);
+    player.addEventListener("frameupdate", onFrame);
+    player.addEventListener("seeked", onFrame);
+    return () => {
+      player.removeEventListener("frameupdate", onFrame);
+      player.removeEventListener("seeked", onFrame);
+    };
+  }, [playerRef, videoUrl]);
+
+  useEffect(() => {
+    if (!videoUrl) return;
+    let cancelled = false;
+    computePeaks(videoUrl, WAVEFORM_BARS)
+      .then((peaks) => {
+        if (!cancelled) setWaveform({ url: videoUrl, peaks });
+      })
+      .catch(() => {
+        // no decodable audio track: the timeline just has no waveform
+        if (!cancelled) setWaveform({ url: videoUrl, peaks: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoUrl]);
+
+  const seekTo = (seconds: number) => {
+    playerRef.current?.seekTo(Math.max(0, Math.round(seconds * fps)));
+    setCurrentTime(seconds);
+  };
+
+  const timeAtClientX = (clientX: number) => {
+    const rect = timelineRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const t = ((clientX - rect.left) / rect.width) * duration;
+    return roundTime(Math.min(duration, Math.max(0, t)));
+  };
+
+  const updateAt = (index: number, seg: CaptionSegment) =>
+    onChange(captions.map((c, i) => (i === index ? seg : c)));
+
+  const handleDragMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const seg = captions[drag.index];
+    const t = timeAtClientX(e.clientX);
+    if (drag.edge === "start") {
+      updateAt(
+        drag.index,
+        retimeSegment(seg, Math.min(t, seg.end - MIN_SEGMENT_SECONDS), seg.end)
+      );
+    } else {
+      updateAt(
+        drag.index,
+        retimeSegment(
+          seg,
+          seg.start,
+          Math.max(t, seg.start + MIN_SEGMENT_SECONDS)
+        )
+      );
+    }
+  };
+
+  const handleSplit = (index: number) => {
+    const seg = captions[index];
+    const inside = currentTime > seg.start && currentTime < seg.end;
+    const parts = splitSegment(
+      seg,
+      inside ? currentTime : (seg.start + seg.end) / 2
+    );
+    if (!parts) return;
+    onChange([
+      ...captions.slice(0, index),
+      ...parts,
+      ...captions.slice(index + 1),
+    ]);
+  };
+
+  const handleMergeNext = (index: number) => {
+    if (index >= captions.length - 1) return;
+    onChange([
+      ...captions.slice(0, index),
+      mergeSegments(captions[index], captions[index + 1]),
+      ...captions.slice(index + 2),
+    ]);
+  };
+
+  const handleRemove = (index: number) =>
+    onChange(captions.filter((_, i) => i !== index));
+
+  const handleAdd = () => {
+    const start = roundTime(
+      Math.min(currentTime, duration - MIN_SEGMENT_SECONDS)
+    );
+    const seg: CaptionSegment = {
+      start,
+      end: roundTime(Math.min(duration, start + 2)),
+      text: "New caption",
+    };
+    onChange([...captions, seg].sort((a, b) => a.start - b.start));
+  };
+
+  const pct = (t: number) => `${(t / duration) * 100}%`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 text-[11px] text-slate-400">
+        <span>
+          Playhead {currentTime.toFixed(2)}s · {captions.length} segments
+        </span>
+        <label className="flex items-center gap-1">
+          Zoom
+          <select
+            value={zoom}
+            onChange={(e) => setZoom(Number(e.target.value))}
+            className="rounded px-1 py-0.5 bg-[#0b0b0b] text-xs"
+          >
+            {[1, 2, 4, 8].map((z) => (
+              <option key={z} value={z}>
+                {z}x
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* timeline */}
+      <div className="overflow-x-auto rounded-xl border border-[#2a2a2d] bg-[#121214]">
+        <div
+          ref={timelineRef}
+          className="relative h-24 select-none"
+          style={{ width: `${zoom * 100}%` }}
+          onPointerDown={(e) => {
+            if (e.target === e.currentTarget) seekTo(timeAtClientX(e.clientX));
+          }}
+        >
+          {peaks.length > 0 && (
+            <svg
+              className="pointer-events-none absolute inset-0 h-full w-full"
+              viewBox={`0 0 ${peaks.length} 100`}
+              preserveAspectRatio="none"
+            >
+              {peaks.map((p, i) => (
+                <rect
+                  key={i}
+                  x={i}
+                  width={0.8}
+                  y={50 - p * 45}
+                  height={Math.max(1, p * 90)}
+                  fill="rgba(148,163,184,0.35)"
+                />
+              ))}
+            </svg>
+          )}
+
+          {captions.map((seg, i) => {
+            const active = currentTime >= seg.start && currentTime <= seg.end;
+            const invalid = issues.some((issue) => issue.index === i);
+            return (
+              <div
+                key={i}
+                className={`absolute top-6 h-12 rounded-md border text-[10px] leading-tight overflow-hidden cursor-pointer ${
+                  invalid
+                    ? "border-rose-500 bg-rose-500/25"
+                    : active
+                    ? "border-pink-400 bg-pink-400/30"
+                    : "border-sky-400/60 bg-sky-400/15"
+                }`}
+                style={{
+                  left: pct(seg.start),
+                  width: pct(Math.max(0, seg.end - seg.start)),
+                }}
+                onClick={() => seekTo(seg.start)}
+                title={seg.text}
+              >
+                <span className="block px-2 py-1 truncate">{seg.text}</span>
+                {(["start", "end"] as const).map((edge) => (
+                  <span
+                    key={edge}
+                    className={`absolute top-0 h-full w-1.5 cursor-ew-resize bg-white/50 hover:bg-white ${
+                      edge === "start" ? "left-0" : "right-0"
+                    }`}
+                    onClick={(e) => e.stopPropagation()}
+                    onPointerDown={(e) => {
+                      e.stopPropagation();
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      setDrag({ index: i, edge });
+                    }}
+                    onPointerMove={handleDragMove}
+                    onPointerUp={() => setDrag(null)}
+                  />
+                ))}
+              </div>
+            );
+          })}
+
+          <div
+            className="pointer-events-none absolute top-0 h-full w-px bg-pink-400"
+            style={{ left: pct(currentTime) }}
+          />
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="text-[11px] text-rose-400 space-y-0.5">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              Segment {issue.index + 1} {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* segment list */}
+      <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+        {captions.map((seg, i) => {
+          const active = currentTime >= seg.start && currentTime <= seg.end;
+          return (
+            <div
+              key={i}
+              className={`rounded-lg border p-2 text-xs ${
+                active
+                  ? "border-pink-400/70 bg-pink-400/5"
+                  : "border-[#2a2a2d] bg-[#0b0b0c]"
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-1.5">
+                <button
+                  onClick={() => seekTo(seg.start)}
+                  className="text-slate-400 hover:text-slate-100"
+                  title="Seek preview to this segment"
+                >
+                  #{i + 1} ▶
+                </button>
+                <input
+                  type="number"
+                  step={0.01}
+                  min={0}
+                  value={seg.start}
+                  onChange={(e) =>
+                    updateAt(
+                      i,
+                      retimeSegment(seg, Number(e.target.value), seg.end)
+                    )
+                  }
+                  className="w-20 rounded px-1 py-0.5 bg-[#0b0b0b]"
+                />
+                <span>→</span>
+                <input
+                  type="number"
+                  step={0.01}
+                  min={0}
+                  value={seg.end}
+                  onChange={(e) =>
+                    updateAt(
+                      i,
+                      retimeSegment(seg, seg.start, Number(e.target.value))
+                    )
+                  }
+                  className="w-20 rounded px-1 py-0.5 bg-[#0b0b0b]"
+                />
+                {speakers.length > 0 && (
+                  <select
+                    value={seg.speaker ?? ""}
+                    onChange={(e) => {
+                      const next: CaptionSegment = {
+                        ...seg,
+                        speaker: e.target.value,
+                      };
+                      if (!e.target.value) delete next.speaker;
+                      updateAt(i, next);
+                    }}
+                    className="rounded px-1 py-0.5 bg-[#0b0b0b]"
+                    title="Speaker"
+                  >
+                    <option value="">No speaker</option>
+                    {speakers.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <div className="ml-auto flex gap-1">
+                  <button
+                    onClick={() => handleSplit(i)}
+                    className="px-2 py-0.5 rounded bg-[#1f1f21]"
+                    title="Split at the playhead (or the middle)"
+                  >
+                    Split
+                  </button>
+                  <button
+                    onClick={() => handleMergeNext(i)}
+                    disabled={i === captions.length - 1}
+                    className="px-2 py-0.5 rounded bg-[#1f1f21] disabled:opacity-40"
+                  >
+                    Merge ↓
+                  </button>
+                  <button
+                    onClick={() => handleRemove(i)}
+                    className="px-2 py-0.5 rounded bg-rose-600 text-white"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+              {/* a textarea keeps the line breaks segmentation puts in */}
+              <textarea
+                value={seg.text}
+                rows={Math.max(1, seg.text.split("\n").length)}
+                onChange={(e) =>
+                  updateAt(i, setSegmentText(seg, e.target.value))
+                }
+                className="w-full resize-none rounded px-2 py-1 bg-[#121214] border border-[#2a2a2d] text-[#dcdcdc]"
+              />
+              <SegmentEffectsEditor
+                segment={seg}
+                onChange={(next) => updateAt(i, next)}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={handleAdd}
+        disabled={!videoUrl}
+        className="rounded px-2 py-1 bg-[#1f1f21] text-xs hover:bg-[#2a2a2d] disabled:opacity-50"
+      >
+        + Add segment at playhead
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+// app/components/CaptionEffectsEditor.tsx
+"use client";
+
+import {
+  CaptionEffects,
+  CaptionEffectsOverride,
+  CaptionSegment,
+  NO_CAPTION_EFFECTS,
+  WORD_ANIMATIONS,
+  WordAnimation,
+} from "../../remotion/VideoWithCaptions";
+
+const WORD_ANIMATION_LABELS: Record<WordAnimation, string> = {
+  none: "None",
+  pop: "Pop-in per word",
+  typewriter: "Typewriter",
+  bounce: "Bounce",
+  "highlight-box": "Highlight box",
+};
+
+const inputClass = "rounded px-1 py-0.5 bg-[#0b0b0b] text-xs";
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <label className="flex items-center justify-between gap-2 text-xs">
+    <span className="text-slate-400">{label}</span>
+    <span className="flex items-center gap-2">{children}</span>
+  </label>
+);
+
+const parseKeywords = (text: string) =>
+  text
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+
+/** Project-wide caption effects, shown in the style designer. */
+export default function CaptionEffectsEditor({
+  value = NO_CAPTION_EFFECTS,
+  onChange,
+}: {
+  value?: CaptionEffects;
+  onChange: (effects: CaptionEffects) => void;
+}) {
+  const set = (patch: Partial<CaptionEffects>) =>
+    onChange({ ...value, ...patch });
+
+  return (
+    <>
+      <Row label="Word effect">
+        <select
+          value={value.wordAnimation}
+          onChange={(e) =>
+            set({ wordAnimation: e.target.value as WordAnimation })
+          }
+          className={inputClass}
+        >
+          {WORD_ANIMATIONS.map((a) => (
+            <option key={a} value={a}>
+              {WORD_ANIMATION_LABELS[a]}
+            </option>
+          ))}
+        </select>
+      </Row>
+
+      <Row label="Emoji after keywords">
+        <input
+          type="checkbox"
+          checked={value.emoji}
+          onChange={(e) => set({ emoji: e.target.checked })}
+        />
+      </Row>
+
+      <Row label="Keyword colour">
+        <input
+          type="checkbox"
+          checked={value.emphasis}
+          onChange={(e) => set({ emphasis: e.target.checked })}
+        />
+        <input
+          type="color"
+          value={value.emphasisColor}
+          onChange={(e) => set({ emphasisColor: e.target.value })}
+          className="h-6 w-8 rounded bg-transparent"
+        />
+      </Row>
+
+      <Row label="Extra keywords">
+        {/* applied on blur; remounts when the list changes elsewhere
+            (preset, loaded project) */}
+        <input
+          key={value.keywords.join(",")}
+          type="text"
+          defaultValue={value.keywords.join(", ")}
+          placeholder="launch, sale, …"
+          onBlur={(e) => set({ keywords: parseKeywords(e.target.value) })}
+          className={`w-40 ${inputClass}`}
+          title="Comma-separated; coloured along with the emoji keywords"
+        />
+      </Row>
+    </>
+  );
+}
+
+type Toggle = "default" | "on" | "off";
+
+const toToggle = (v: boolean | undefined): Toggle =>
+  v === undefined ? "default" : v ? "on" : "off";
+
+/** Per-segment overrides of the project's effects; unset follows the project. */
+export function SegmentEffectsEditor({
+  segment,
+  onChange,
+}: {
+  segment: CaptionSegment;
+  onChange: (segment: CaptionSegment) => void;
+}) {
+  const effects = segment.effects ?? {};
+  const set = <K extends keyof CaptionEffectsOverride>(
+    key: K,
+    value: CaptionEffectsOverride[K] | undefined
+  ) => {
+    const next: CaptionEffectsOverride = { ...effects, [key]: value };
+    if (value === undefined) delete next[key];
+    const updated: CaptionSegment = { ...segment, effects: next };
+    if (Object.keys(next).length === 0) delete updated.effects;
+    onChange(updated);
+  };
+  const setToggle = (key: "emoji" | "emphasis", toggle: Toggle) =>
+    set(key, toggle === "default" ? undefined : toggle === "on");
+
+  return (
+    <div className="mt-1.5 flex flex-wrap items-center gap-3 text-[11px]">
+      <label className="flex items-center gap-1">
+        <span className="text-slate-400">Effect</span>
+        <select
+          value={effects.wordAnimation ?? "default"}
+          onChange={(e) =>
+            set(
+              "wordAnimation",
+              e.target.value === "default"
+                ? undefined
+                : (e.target.value as WordAnimation)
+            )
+          }
+          className={inputClass}
+        >
+          <option value="default">Project</option>
+          {WORD_ANIMATIONS.map((a) => (
+            <option key={a} value={a}>
+              {WORD_ANIMATION_LABELS[a]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {(["emoji", "emphasis"] as const).map((key) => (
+        <label key={key} className="flex items-center gap-1">
+          <span className="text-slate-400">
+            {key === "emoji" ? "Emoji" : "Keyword colour"}
+          </span>
+          <select
+            value={toToggle(effects[key])}
+            onChange={(e) => setToggle(key, e.target.value as Toggle)}
+            className={inputClass}
+          >
+            <option value="default">Project</option>
+            <option value="on">On</option>
+            <option value="off">Off</option>
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+// app/components/CaptionStyleDesigner.tsx
+"use client";
+
+import type {
+  CaptionAnimationIn,
+  CaptionPosition,
+  CaptionStyle,
+} from "../../remotion/VideoWithCaptions";
+import CaptionEffectsEditor from "./CaptionEffectsEditor";
+
+type Props = {
+  value: CaptionStyle;
+  onChange: (style: CaptionStyle) => void;
+};
+
+const FONT_FAMILIES: { label: string; value: string }[] = [
+  {
+    label: "Noto Sans",
+    value: `"Noto Sans", "Noto Sans Devanagari", system-ui`,
+  },
+  { label: "System UI", value: "system-ui, sans-serif" },
+  { label: "Impact", value: `Impact, "Arial Black", sans-serif` },
+  { label: "Georgia (serif)", value: "Georgia, serif" },
+  { label: "Monospace", value: `"Courier New", monospace` },
+];
+
+/* colour inputs only speak #rrggbb; our styles also use rgba() */
+const toHexAndAlpha = (color: string): { hex: string; alpha: number } => {
+  const rgba = /rgba?\(([^)]+)\)/.exec(color);
+  if (rgba) {
+    const [r, g, b, a = "1"] = rgba[1].split(",").map((p) => p.trim());
+    const hex = [r, g, b]
+      .map((n) => Number(n).toString(16).padStart(2, "0"))
+      .join("");
+    return { hex: `#${hex}`, alpha: Number(a) };
+  }
+  return { hex: color.length === 7 ? color : "#000000", alpha: 1 };
+};
+
+const fromHexAndAlpha = (hex: string, alpha: number) => {
+  if (alpha >= 1) return hex;
+  const n = parseInt(hex.slice(1), 16);
+  return `rgba(${(n >> 16) & 255},${(n >> 8) & 255},${n & 255},${alpha})`;
+};
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <label className="flex items-center justify-between gap-2 text-xs">
+    <span className="text-slate-400">{label}</span>
+    <span className="flex items-center gap-2">{children}</span>
+  </label>
+);
+
+const ColorField: React.FC<{
+  value: string;
+  onChange: (color: string) => void;
+  withAlpha?: boolean;
+}> = ({ value, onChange, withAlpha }) => {
+  const { hex, alpha } = toHexAndAlpha(value);
+  return (
+    <>
+      <input
+        type="color"
+        value={hex}
+        onChange={(e) => onChange(fromHexAndAlpha(e.target.value, alpha))}
+        className="h-6 w-8 rounded bg-transparent"
+      />
+      {withAlpha && (
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={alpha}
+          onChange={(e) =>
+            onChange(fromHexAndAlpha(hex, Number(e.target.value)))
+          }
+          className="w-20"
+          title="Opacity"
+        />
+      )}
+    </>
+  );
+};
+
+export default function CaptionStyleDesigner({ value, onChange }: Props) {
+  const set = (patch: Partial<CaptionStyle>) =>
+    onChange({ ...value, ...patch });
+  const setBackground = (patch: Partial<CaptionStyle["background"]>) =>
+    onChange({ ...value, background: { ...value.background, ...patch } });
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2 sm:gap-x-6">
+      <Row label="Font">
+        <select
+          value={value.fontFamily}
+          onChange={(e) => set({ fontFamily: e.target.value })}
+          className="rounded px-1 py-0.5 bg-[#0b0b0b] text-xs max-w-[9rem]"
+        >
+          {!FONT_FAMILIES.some((f) => f.value === value.fontFamily) && (
+            <option value={value.fontFamily}>{value.fontFamily}</option>
+          )}
+          {FONT_FAMILIES.map((f) => (
+            <option key={f.value} value={f.value}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </Row>
+
+      <Row label="Weight">
+        <select
+          value={value.fontWeight}
+          onChange={(e) => set({ fontWeight: Number(e.target.value) })}
+          className="rounded px-1 py-0.5 bg-[#0b0b0b] text-xs"
+        >
+          {[400, 500, 600, 700, 800, 900].map((w) => (
+            <option key={w} value={w}>
+              {w}
+            </option>
+          ))}
+        </select>
+      </Row>
+
+      <Row label={`Size (${(value.fontSize * 100).toFixed(1)}% of height)`}>
+        <input
+          type="range"
+          min={0.015}
+          max={0.12}
+          step={0.001}
+          value={value.fontSize}
+          onChange={(e) => set({ fontSize: Number(e.target.value) })}
+          className="w-28"
+        />
+      </Row>
+
+      <Row label="Text / highlight">
+        <ColorField
+          value={value.textColor}
+          onChange={(textColor) => set({ textColor })}
+        />
+        <ColorField
+          value={value.highlightColor}
+          onChange={(highlightColor) => set({ highlightColor })}
+        />
+      </Row>
+
+      <Row label="Stroke">
+        <ColorField
+          value={value.strokeColor}
+          onChange={(strokeColor) => set({ strokeColor })}
+        />
+        <input
+          type="range"
+          min={0}
+          max={0.15}
+          step={0.005}
+          value={value.strokeWidth}
+          onChange={(e) => set({ strokeWidth: Number(e.target.value) })}
+          className="w-20"
+          title="Stroke width"
+        />
+      </Row>
+
+      <Row label="Shadow">
+        <ColorField
+          value={value.shadowColor}
+          onChange={(shadowColor) => set({ shadowColor })}
+          withAlpha
+        />
+        <input
+          type="range"
+          min={0}
+          max={1.5}
+          step={0.05}
+          value={value.shadowBlur}
+          onChange={(e) => set({ shadowBlur: Number(e.target.value) })}
+          className="w-16"
+          title="Shadow blur"
+        />
+      </Row>
+
+      <Row label="Background box">
+        <input
+          type="checkbox"
+          checked={value.background.enabled}
+          onChange={(e) => setBackground({ enabled: e.target.checked })}
+        />
+        <ColorField
+          value={value.background.color}
+          onChange={(color) => setBackground({ color })}
+          withAlpha
+        />
+      </Row>
+
+      <Row label="Box radius">
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={value.background.borderRadius}
+          onChange={(e) =>
+            setBackground({ borderRadius: Number(e.target.value) })
+          }
+          className="w-28"
+        />
+      </Row>
+
+      <Row label="Position">
+        <select
+          value={value.position}
+          onChange={(e) => set({ position: e.target.value as CaptionPosition })}
+          className="rounded px-1 py-0.5 bg-[#0b0b0b] text-xs"
+        >
+          <option value="top">Top</option>
+          <option value="middle">Middle</option>
+          <option value="bottom">Bottom</option>
+        </select>
+      </Row>
+
+      <Row label={`Safe margin (${Math.round(value.safeMargin * 100)}%)`}>
+        <input
+          type="range"
+          min={0}
+          max={0.3}
+          step={0.005}
+          value={value.safeMargin}
+          onChange={(e) => set({ safeMargin: Number(e.target.value) })}
+          className="w-28"
+        />
+      </Row>
+
+      <Row label={`Max width (${Math.round(value.maxWidth * 100)}%)`}>
+        <input
+          type="range"
+          min={0.3}
+          max={1}
+          step={0.01}
+          value={value.maxWidth}
+          onChange={(e) => set({ maxWidth: Number(e.target.value) })}
+          className="w-28"
+        />
+      </Row>
+
+      <Row label="Animation in">
+        <select
+          value={value.animationIn}
+          onChange={(e) =>
+            set({ animationIn: e.target.value as CaptionAnimationIn })
+          }
+          className="rounded px-1 py-0.5 bg-[#0b0b0b] text-xs"
+        >
+          <option value="none">None</option>
+          <option value="fade">Fade</option>
+          <option value="pop">Pop</option>
+          <option value="slide-up">Slide up</option>
+        </select>
+      </Row>
+
+      <Row label="Uppercase">
+        <input
+          type="checkbox"
+          checked={value.uppercase}
+          onChange={(e) => set({ uppercase: e.target.checked })}
+        />
+      </Row>
+
+      <Row label="Highlight spoken word">
+        <input
+          type="checkbox"
+          checked={value.wordHighlight}
+          onChange={(e) => set({ wordHighlight: e.target.checked })}
+        />
+      </Row>
+
+      <CaptionEffectsEditor
+        value={value.effects}
+        onChange={(effects) => set({ effects })}
+      />
+    </div>
+  );
+}
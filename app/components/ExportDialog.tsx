@@ -0,0 +1,271 @@
+// app/components/ExportDialog.tsx
+"use client";
+
+import type { PlayerRef } from "@remotion/player";
+import { RefObject } from "react";
+import {
+  EXPORT_CODECS,
+  EXPORT_FORMATS,
+  ExportCodec,
+  exportExtension,
+  ExportOptions,
+  MAX_GIF_SECONDS,
+  SUBTITLE_MODE_NAMES,
+  SUBTITLE_MODES,
+  SubtitleMode,
+} from "../../lib/export-formats";
+import { fps } from "../../remotion/VideoWithCaptions";
+
+type Props = {
+  value: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  onConfirm: () => void;
+  onClose: () => void;
+  durationInSeconds: number;
+  playerRef: RefObject<PlayerRef | null>;
+};
+
+const SCALES = [
+  { value: 0.25, label: "25%" },
+  { value: 0.5, label: "50%" },
+  { value: 0.75, label: "75%" },
+  { value: 1, label: "100%" },
+  { value: 2, label: "200%" },
+];
+
+const round = (t: number) => Math.round(t * 10) / 10;
+
+export default function ExportDialog({
+  value,
+  onChange,
+  onConfirm,
+  onClose,
+  durationInSeconds,
+  playerRef,
+}: Props) {
+  const format = EXPORT_FORMATS[value.codec];
+  const range = value.range;
+  const rangeSeconds = range ? range.end - range.start : durationInSeconds;
+  const isGif = value.codec === "gif";
+  const rangeError =
+    range && range.end <= range.start
+      ? "End must be after start"
+      : isGif && (!range || rangeSeconds > MAX_GIF_SECONDS)
+      ? `GIFs need a range of at most ${MAX_GIF_SECONDS}s`
+      : null;
+
+  const update = (patch: Partial<ExportOptions>) =>
+    onChange({ ...value, ...patch });
+
+  const playhead = () =>
+    round((playerRef.current?.getCurrentFrame() ?? 0) / fps);
+
+  const setCodec = (codec: ExportCodec) => {
+    const next = EXPORT_FORMATS[codec];
+    // GIFs are short and small: start from the playhead at half size
+    if (codec === "gif") {
+      const start = playhead();
+      update({
+        codec,
+        crf: null,
+        audio: false,
+        subtitles: "burn-in",
+        scale: Math.min(value.scale, 0.5),
+        range: value.range ?? {
+          start,
+          end: round(Math.min(durationInSeconds, start + 5)),
+        },
+      });
+      return;
+    }
+    update({
+      codec,
+      crf: null,
+      audio: value.codec === "gif" ? true : value.audio,
+      subtitles: SUBTITLE_MODES[value.subtitles].codecs.includes(codec)
+        ? value.subtitles
+        : "burn-in",
+      ...(next.crf ? {} : { videoBitrate: null }),
+    });
+  };
+
+  const setRangeEdge = (edge: "start" | "end", seconds: number) => {
+    const current = range ?? { start: 0, end: round(durationInSeconds) };
+    update({ range: { ...current, [edge]: Math.max(0, seconds) } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+        onClick={onClose}
+      />
+      <div className="relative z-10 w-full max-w-md rounded-2xl border border-[#2b2b2e] bg-[#0b0b0d] p-4 shadow-xl text-xs space-y-3">
+        <h3 className="text-sm font-semibold">Export settings</h3>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-slate-400">Format</span>
+          <select
+            value={value.codec}
+            onChange={(e) => setCodec(e.target.value as ExportCodec)}
+            className="rounded px-2 py-1 bg-[#0b0b0b] border border-[#2b2b2e]"
+          >
+            {EXPORT_CODECS.map((codec) => (
+              <option key={codec} value={codec}>
+                {EXPORT_FORMATS[codec].label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-slate-400">Captions</span>
+          <select
+            value={value.subtitles}
+            onChange={(e) =>
+              update({ subtitles: e.target.value as SubtitleMode })
+            }
+            className="rounded px-2 py-1 bg-[#0b0b0b] border border-[#2b2b2e]"
+          >
+            {SUBTITLE_MODE_NAMES.filter((mode) =>
+              SUBTITLE_MODES[mode].codecs.includes(value.codec)
+            ).map((mode) => (
+              <option key={mode} value={mode}>
+                {SUBTITLE_MODES[mode].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {value.subtitles !== "burn-in" && (
+          <p className="text-slate-500">
+            Every language checked for export becomes its own subtitle track in
+            one file.
+          </p>
+        )}
+
+        {format.crf && (
+          <div className="space-y-1">
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-slate-400">
+                Quality (CRF {value.crf ?? format.crf.default}, lower is better)
+              </span>
+              <input
+                type="range"
+                min={format.crf.min}
+                max={format.crf.max}
+                value={value.crf ?? format.crf.default}
+                disabled={!!value.videoBitrate}
+                onChange={(e) => update({ crf: Number(e.target.value) })}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-slate-400">Or bitrate (overrides CRF)</span>
+              <input
+                type="text"
+                placeholder="e.g. 8M"
+                value={value.videoBitrate ?? ""}
+                onChange={(e) =>
+                  update({ videoBitrate: e.target.value.trim() || null })
+                }
+                className="w-24 rounded px-2 py-1 bg-[#0b0b0b] border border-[#2b2b2e]"
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={format.supportsAudio && value.audio}
+              disabled={!format.supportsAudio}
+              onChange={(e) => update({ audio: e.target.checked })}
+            />
+            Include audio
+          </label>
+          <label className="flex items-center gap-1">
+            <span className="text-slate-400">Scale</span>
+            <select
+              value={value.scale}
+              onChange={(e) => update({ scale: Number(e.target.value) })}
+              className="rounded px-2 py-1 bg-[#0b0b0b] border border-[#2b2b2e]"
+            >
+              {SCALES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-1">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={!!range}
+              disabled={isGif}
+              onChange={(e) =>
+                update({
+                  range: e.target.checked
+                    ? { start: 0, end: round(durationInSeconds) }
+                    : null,
+                })
+              }
+            />
+            Only part of the video
+          </label>
+          {range && (
+            <div className="grid grid-cols-2 gap-2">
+              {(["start", "end"] as const).map((edge) => (
+                <label key={edge} className="space-y-1">
+                  <span className="text-slate-400">
+                    {edge === "start" ? "Start (s)" : "End (s)"}
+                  </span>
+                  <div className="flex gap-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={durationInSeconds}
+                      step={0.1}
+                      value={range[edge]}
+                      onChange={(e) =>
+                        setRangeEdge(edge, Number(e.target.value))
+                      }
+                      className="w-full rounded px-2 py-1 bg-[#0b0b0b] border border-[#2b2b2e]"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setRangeEdge(edge, playhead())}
+                      className="rounded px-2 bg-[#1f1f21] hover:bg-[#2a2a2d]"
+                      title="Use the preview's current position"
+                    >
+                      Playhead
+                    </button>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+          {rangeError && <p className="text-rose-400">{rangeError}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-1">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 rounded bg-[#1f1f21] text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={!!rangeError}
+            className="px-3 py-1 rounded bg-emerald-500 text-black text-sm disabled:opacity-50"
+          >
+            Export {exportExtension(value).toUpperCase()}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
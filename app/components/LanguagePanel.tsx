@@ -0,0 +1,227 @@
+// app/components/LanguagePanel.tsx
+"use client";
+
+import { useState } from "react";
+import { LANGUAGE_OPTIONS, TranslatorName } from "../../lib/translation/types";
+import type {
+  CaptionSegment,
+  CaptionTrack,
+} from "../../remotion/VideoWithCaptions";
+
+// key of the untranslated track in captionLanguage/secondaryLanguage
+export const SOURCE_TRACK = "source";
+
+type Props = {
+  captions: CaptionSegment[];
+  sourceLanguage: string;
+  onSourceLanguageChange: (language: string) => void;
+  translations: CaptionTrack[];
+  onTranslationsChange: (tracks: CaptionTrack[]) => void;
+  captionLanguage: string;
+  onCaptionLanguageChange: (language: string) => void;
+  secondaryLanguage: string | null;
+  onSecondaryLanguageChange: (language: string | null) => void;
+  exportLanguages: string[];
+  onExportLanguagesChange: (languages: string[]) => void;
+};
+
+const languageLabel = (code: string) =>
+  LANGUAGE_OPTIONS.find((l) => l.code === code)?.label ?? code;
+
+export default function LanguagePanel({
+  captions,
+  sourceLanguage,
+  onSourceLanguageChange,
+  translations,
+  onTranslationsChange,
+  captionLanguage,
+  onCaptionLanguageChange,
+  secondaryLanguage,
+  onSecondaryLanguageChange,
+  exportLanguages,
+  onExportLanguagesChange,
+}: Props) {
+  const [target, setTarget] = useState("hi");
+  const [translator, setTranslator] = useState<TranslatorName>("openai");
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tracks = [
+    {
+      value: SOURCE_TRACK,
+      label: `Original${
+        sourceLanguage !== "auto" ? ` (${languageLabel(sourceLanguage)})` : ""
+      }`,
+    },
+    ...translations.map((t) => ({
+      value: t.language,
+      label: languageLabel(t.language),
+    })),
+  ];
+
+  const handleTranslate = async () => {
+    if (captions.length === 0) return;
+    setIsTranslating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/translate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          captions,
+          to: target,
+          from: sourceLanguage,
+          translator,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json?.success) {
+        throw new Error(json?.error || `Translation failed (${res.status})`);
+      }
+      // re-translating a language replaces its track
+      const track: CaptionTrack = { language: target, captions: json.captions };
+      onTranslationsChange([
+        ...translations.filter((t) => t.language !== target),
+        track,
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const removeTrack = (language: string) => {
+    onTranslationsChange(translations.filter((t) => t.language !== language));
+    if (captionLanguage === language) onCaptionLanguageChange(SOURCE_TRACK);
+    if (secondaryLanguage === language) onSecondaryLanguageChange(null);
+    onExportLanguagesChange(exportLanguages.filter((l) => l !== language));
+  };
+
+  const toggleExport = (language: string) =>
+    onExportLanguagesChange(
+      exportLanguages.includes(language)
+        ? exportLanguages.filter((l) => l !== language)
+        : [...exportLanguages, language]
+    );
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1">
+          <span className="text-slate-400">Spoken language</span>
+          <select
+            value={sourceLanguage}
+            onChange={(e) => onSourceLanguageChange(e.target.value)}
+            className="rounded px-1 py-0.5 bg-[#0b0b0b]"
+          >
+            <option value="auto">Detect</option>
+            {LANGUAGE_OPTIONS.map((l) => (
+              <option key={l.code} value={l.code}>
+                {l.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-400">Translate to</span>
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="rounded px-1 py-0.5 bg-[#0b0b0b]"
+        >
+          {LANGUAGE_OPTIONS.map((l) => (
+            <option key={l.code} value={l.code}>
+              {l.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={translator}
+          onChange={(e) => setTranslator(e.target.value as TranslatorName)}
+          className="rounded px-1 py-0.5 bg-[#0b0b0b]"
+          title="Translator"
+        >
+          <option value="openai">OpenAI</option>
+          <option value="local">Local model</option>
+          <option value="fake">Dictionary (test)</option>
+        </select>
+        <button
+          onClick={handleTranslate}
+          disabled={captions.length === 0 || isTranslating}
+          className="rounded px-2 py-1 bg-[#1f1f21] hover:bg-[#2a2a2d] disabled:opacity-50"
+        >
+          {isTranslating
+            ? "Translating…"
+            : translations.some((t) => t.language === target)
+            ? "Re-translate"
+            : "Translate"}
+        </button>
+      </div>
+      {error && <div className="text-rose-400">{error}</div>}
+
+      <ul className="space-y-1">
+        {tracks.map((t) => (
+          <li
+            key={t.value}
+            className={`flex items-center gap-2 rounded border px-2 py-1 ${
+              t.value === captionLanguage
+                ? "border-pink-400/70 bg-pink-400/5"
+                : "border-[#2a2a2d] bg-[#0b0b0c]"
+            }`}
+          >
+            <button
+              onClick={() => onCaptionLanguageChange(t.value)}
+              className="flex-1 text-left"
+              title="Show and edit this track"
+            >
+              {t.label}
+            </button>
+            <label className="flex items-center gap-1 text-slate-400">
+              <input
+                type="checkbox"
+                checked={exportLanguages.includes(t.value)}
+                onChange={() => toggleExport(t.value)}
+              />
+              export
+            </label>
+            {t.value !== SOURCE_TRACK && (
+              <button
+                onClick={() => removeTrack(t.value)}
+                className="px-1.5 rounded bg-rose-600 text-white"
+                title="Remove translation"
+              >
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <label className="flex items-center gap-2">
+        <span className="text-slate-400">Second line</span>
+        <select
+          value={secondaryLanguage ?? ""}
+          onChange={(e) => onSecondaryLanguageChange(e.target.value || null)}
+          className="rounded px-1 py-0.5 bg-[#0b0b0b]"
+        >
+          <option value="">None (single language)</option>
+          {tracks
+            .filter((t) => t.value !== captionLanguage)
+            .map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+        </select>
+      </label>
+      <p className="text-[11px] text-slate-500">
+        The selected track is previewed and edited above. Checked tracks are
+        exported as one video each
+        {exportLanguages.length === 0 && " (none checked: the selected one)"}.
+      </p>
+    </div>
+  );
+}
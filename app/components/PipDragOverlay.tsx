@@ -0,0 +1,122 @@
+// app/components/PipDragOverlay.tsx
+"use client";
+
+import type { PlayerRef } from "@remotion/player";
+import { PointerEvent, RefObject, useEffect, useRef, useState } from "react";
+import {
+  bRollBox,
+  BRollEntry,
+  clampPipPosition,
+  fps,
+} from "../../remotion/VideoWithCaptions";
+
+type Props = {
+  bRolls: BRollEntry[];
+  onMove: (id: string, position: { x: number; y: number }) => void;
+  playerRef: RefObject<PlayerRef | null>;
+  // re-subscribe to the Player when it remounts
+  videoUrl: string | null;
+};
+
+type Drag = {
+  id: string;
+  size: number;
+  // pointer position minus card centre, as frame fractions
+  dx: number;
+  dy: number;
+};
+
+/**
+ * Handles over the picture-in-picture cards on screen at the playhead.
+ * Sits on top of the Player with the same box; everything but the handles
+ * lets clicks through to the Player.
+ */
+export default function PipDragOverlay({
+  bRolls,
+  onMove,
+  playerRef,
+  videoUrl,
+}: Props) {
+  const [currentTime, setCurrentTime] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    const onFrame = (e: { detail: { frame: number } }) =>
+      setCurrentTime(e.detail.frame / fps);
+    player.addEventListener("frameupdate", onFrame);
+    player.addEventListener("seeked", onFrame);
+    return () => {
+      player.removeEventListener("frameupdate", onFrame);
+      player.removeEventListener("seeked", onFrame);
+    };
+  }, [playerRef, videoUrl]);
+
+  const pointerPosition = (e: PointerEvent) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const visible = bRolls.filter(
+    (b) =>
+      b.layout?.kind === "pip" &&
+      currentTime >= b.startSeconds &&
+      currentTime < b.startSeconds + b.durationSeconds
+  );
+
+  return (
+    <div ref={containerRef} className="pointer-events-none absolute inset-0">
+      {visible.map((b) => {
+        if (b.layout?.kind !== "pip") return null;
+        const layout = b.layout;
+        const box = bRollBox(layout);
+        return (
+          <div
+            key={b.id}
+            className="pointer-events-auto absolute cursor-move rounded border border-dashed border-emerald-300/70 hover:bg-emerald-300/10"
+            style={{
+              left: `${box.left * 100}%`,
+              top: `${box.top * 100}%`,
+              width: `${box.width * 100}%`,
+              height: `${box.height * 100}%`,
+              touchAction: "none",
+            }}
+            title="Drag to move this B-roll"
+            onPointerDown={(e) => {
+              const at = pointerPosition(e);
+              if (!at) return;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              dragRef.current = {
+                id: b.id,
+                size: layout.size,
+                dx: at.x - (box.left + box.width / 2),
+                dy: at.y - (box.top + box.height / 2),
+              };
+            }}
+            onPointerMove={(e) => {
+              const drag = dragRef.current;
+              const at = drag && pointerPosition(e);
+              if (!drag || !at) return;
+              onMove(
+                drag.id,
+                clampPipPosition(at.x - drag.dx, at.y - drag.dy, drag.size)
+              );
+            }}
+            onPointerUp={() => {
+              dragRef.current = null;
+            }}
+            onPointerCancel={() => {
+              dragRef.current = null;
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+// app/components/ProjectList.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ProjectSummary } from "../../lib/projects";
+
+type Props = {
+  currentId: string | null;
+  // bumped by the page after saves so the list picks up new names/times
+  refreshKey: number;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+};
+
+const formatWhen = (ms: number) => {
+  const d = new Date(ms);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay
+    ? d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : d.toLocaleDateString();
+};
+
+export default function ProjectList({
+  currentId,
+  refreshKey,
+  onOpen,
+  onNew,
+  onDeleted,
+}: Props) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/projects")
+      .then((res) => res.json())
+      .then((json) => {
+        if (cancelled) return;
+        if (!json?.success) throw new Error(json?.error || "Failed to load");
+        setProjects(json.projects);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err?.message || "Failed to load projects");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const handleDelete = async (p: ProjectSummary) => {
+    if (!confirm(`Delete "${p.name}" and its media?`)) return;
+    const res = await fetch(`/api/projects/${p.id}`, { method: "DELETE" });
+    if (!res.ok) {
+      alert("Could not delete project");
+      return;
+    }
+    setProjects((prev) => prev.filter((x) => x.id !== p.id));
+    onDeleted(p.id);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Projects</h2>
+        <button
+          onClick={onNew}
+          className="rounded px-2 py-1 bg-[#1f1f21] text-xs hover:bg-[#2a2a2d]"
+        >
+          + New
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-rose-400">{error}</div>}
+
+      {projects.length === 0 && !error ? (
+        <div className="text-xs text-slate-400">
+          No saved projects yet. Uploading a video starts one.
+        </div>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto space-y-1 pr-1">
+          {projects.map((p) => (
+            <li
+              key={p.id}
+              className={`flex items-center gap-2 rounded-lg border px-2 py-1.5 text-xs ${
+                p.id === currentId
+                  ? "border-pink-400/70 bg-pink-400/5"
+                  : "border-[#2a2a2d] bg-[#0b0b0c]"
+              }`}
+            >
+              <button
+                onClick={() => onOpen(p.id)}
+                className="flex-1 text-left min-w-0"
+                title="Open project"
+              >
+                <div className="truncate font-medium">{p.name}</div>
+                <div className="text-[11px] text-slate-400">
+                  {formatWhen(p.updatedAt)} · {p.captionCount} captions ·{" "}
+                  {p.bRollCount} B-roll
+                  {!p.hasVideo && " · no video"}
+                </div>
+              </button>
+              <button
+                onClick={() => handleDelete(p)}
+                className="px-2 py-0.5 rounded bg-rose-600 text-white"
+                title="Delete project"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
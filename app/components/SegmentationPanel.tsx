@@ -0,0 +1,132 @@
+// app/components/SegmentationPanel.tsx
+"use client";
+
+import {
+  resegmentCaptions,
+  SEGMENTATION_MODES,
+  SEGMENTATION_PRESETS,
+  SegmentationMode,
+  SegmentationOptions,
+} from "../../lib/caption-segmentation";
+import type { CaptionSegment } from "../../remotion/VideoWithCaptions";
+
+type Props = {
+  captions: CaptionSegment[];
+  // held captions never run past the end of the video
+  durationInSeconds: number;
+  onChange: (captions: CaptionSegment[]) => void;
+  // null keeps the transcriber's own segments on the next transcription
+  options: SegmentationOptions | null;
+  onOptionsChange: (options: SegmentationOptions | null) => void;
+};
+
+const MODE_LABELS: Record<SegmentationMode, string> = {
+  standard: "Standard (2 lines)",
+  social: "Social (2–4 words)",
+};
+
+const NUMBER_FIELDS: {
+  key: Exclude<keyof SegmentationOptions, "mode">;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}[] = [
+  { key: "maxCharsPerLine", label: "Chars/line", min: 10, max: 80, step: 1 },
+  { key: "maxLines", label: "Lines", min: 1, max: 3, step: 1 },
+  {
+    key: "minDurationSeconds",
+    label: "Min",
+    min: 0.1,
+    max: 5,
+    step: 0.1,
+    unit: "s",
+  },
+  {
+    key: "maxDurationSeconds",
+    label: "Max",
+    min: 0.5,
+    max: 15,
+    step: 0.5,
+    unit: "s",
+  },
+  { key: "maxCps", label: "CPS", min: 5, max: 40, step: 1 },
+];
+
+const inputClass = "rounded px-1 py-0.5 bg-[#0b0b0b] text-xs";
+
+/**
+ * Line length, duration and reading-speed limits for cutting captions.
+ * They apply after each transcription, and "Re-segment" re-cuts the
+ * track being edited.
+ */
+export default function SegmentationPanel({
+  captions,
+  durationInSeconds,
+  onChange,
+  options,
+  onOptionsChange,
+}: Props) {
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-3 text-xs">
+      <label className="flex items-center gap-1">
+        <span>Segmentation</span>
+        <select
+          value={options?.mode ?? "off"}
+          onChange={(e) =>
+            onOptionsChange(
+              e.target.value === "off"
+                ? null
+                : SEGMENTATION_PRESETS[e.target.value as SegmentationMode]
+            )
+          }
+          className={inputClass}
+        >
+          <option value="off">As transcribed</option>
+          {SEGMENTATION_MODES.map((m) => (
+            <option key={m} value={m}>
+              {MODE_LABELS[m]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {options &&
+        NUMBER_FIELDS.map((f) => (
+          <label key={f.key} className="flex items-center gap-1">
+            <span className="text-slate-400">{f.label}</span>
+            <input
+              type="number"
+              min={f.min}
+              max={f.max}
+              step={f.step}
+              value={options[f.key]}
+              onChange={(e) =>
+                onOptionsChange({
+                  ...options,
+                  [f.key]: Math.min(
+                    f.max,
+                    Math.max(f.min, Number(e.target.value))
+                  ),
+                })
+              }
+              className={`w-14 ${inputClass}`}
+            />
+            {f.unit}
+          </label>
+        ))}
+      <button
+        type="button"
+        onClick={() =>
+          options &&
+          onChange(resegmentCaptions(captions, options, durationInSeconds))
+        }
+        disabled={!options || captions.length === 0}
+        className="rounded px-2 py-1 bg-[#1f1f21] hover:bg-[#2a2a2d] disabled:opacity-50"
+        title="Split and merge the captions with these settings"
+      >
+        Re-segment
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+// app/components/SpeakerPanel.tsx
+"use client";
+
+import {
+  resolveSpeakerStyle,
+  SPEAKER_ALIGNS,
+  SpeakerAlign,
+  SpeakerStyle,
+} from "../../remotion/VideoWithCaptions";
+
+type Props = {
+  // in order of first appearance
+  speakers: string[];
+  styles: SpeakerStyle[];
+  onRename: (from: string, to: string) => void;
+  onStyleChange: (style: SpeakerStyle) => void;
+};
+
+const ALIGN_LABELS: Record<SpeakerAlign, string> = {
+  left: "Left",
+  center: "Centre",
+  right: "Right",
+};
+
+const inputClass = "rounded px-1 py-0.5 bg-[#0b0b0b] text-xs";
+
+/** Names and caption styling of the speakers found by diarization. */
+export default function SpeakerPanel({
+  speakers,
+  styles,
+  onRename,
+  onStyleChange,
+}: Props) {
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className="mb-3 space-y-1.5 text-xs">
+      <div className="text-slate-400">Speakers</div>
+      {speakers.map((name) => {
+        const style = resolveSpeakerStyle(name, speakers, styles);
+        const set = (patch: Partial<SpeakerStyle>) =>
+          onStyleChange({ ...style, ...patch });
+        return (
+          <div key={name} className="flex flex-wrap items-center gap-3">
+            {/* renamed on blur, so every keystroke doesn't relabel the
+                whole transcript */}
+            <input
+              key={name}
+              type="text"
+              defaultValue={name}
+              onBlur={(e) => onRename(name, e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+              className={`w-32 ${inputClass}`}
+              title="Rename this speaker"
+            />
+            <label className="flex items-center gap-1">
+              <span className="text-slate-400">Colour</span>
+              <input
+                type="checkbox"
+                checked={style.color !== null}
+                onChange={(e) =>
+                  set({ color: e.target.checked ? "#7dd3fc" : null })
+                }
+                title="Off keeps the caption text colour"
+              />
+              {style.color !== null && (
+                <input
+                  type="color"
+                  value={style.color}
+                  onChange={(e) => set({ color: e.target.value })}
+                  className="h-6 w-8 rounded bg-transparent"
+                />
+              )}
+            </label>
+            <label className="flex items-center gap-1">
+              <span className="text-slate-400">Side</span>
+              <select
+                value={style.align}
+                onChange={(e) => set({ align: e.target.value as SpeakerAlign })}
+                className={inputClass}
+              >
+                {SPEAKER_ALIGNS.map((a) => (
+                  <option key={a} value={a}>
+                    {ALIGN_LABELS[a]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={style.nameTag}
+                onChange={(e) => set({ nameTag: e.target.checked })}
+              />
+              Name tag
+            </label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
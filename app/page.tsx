@@ -1,49 +1,172 @@
 // app/page.tsx
 "use client";
 
-import { Player } from "@remotion/player";
-import { useEffect, useState } from "react";
+import { Player, PlayerRef } from "@remotion/player";
+import { useEffect, useRef, useState } from "react";
 import type { CaptionStylePreset } from "../remotion/VideoWithCaptions";
 import {
+  ASPECT_PRESETS,
+  AspectPreset,
+  AudioMix,
+  BRollEntry,
+  CAPTION_STYLE_PRESETS,
   CaptionSegment,
+  CaptionStyle,
+  CaptionTrack,
+  DEFAULT_AUDIO_MIX,
+  FitMode,
   fps,
+  getOutputDimensions,
+  listSpeakers,
+  SpeakerStyle,
   VideoWithCaptions,
 } from "../remotion/VideoWithCaptions";
-
-type BRollEntry = {
+import {
+  CAPTION_FORMAT_MIME,
+  CaptionFormat,
+  detectCaptionFormat,
+  parseCaptions,
+  serializeCaptions,
+} from "../lib/caption-formats";
+import type { CutRange, TimeRange } from "../lib/auto-cut";
+import { renameSpeaker } from "../lib/caption-edit";
+import {
+  DEFAULT_SEGMENTATION,
+  SegmentationOptions,
+} from "../lib/caption-segmentation";
+import type { BRollSuggestion } from "../lib/broll-suggestions";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  exportExtension,
+  ExportOptions,
+  exportFilename,
+} from "../lib/export-formats";
+import {
+  STOCK_PROVIDER_OPTIONS,
+  StockMediaResult,
+  StockMediaType,
+  StockOrientation,
+  StockProviderName,
+  StockSize,
+} from "../lib/stock-media/types";
+import type { Project, ProjectState } from "../lib/projects";
+import AudioPanel from "./components/AudioPanel";
+import AutoCutPanel from "./components/AutoCutPanel";
+import BRollLayoutEditor from "./components/BRollLayoutEditor";
+import BRollMotionEditor from "./components/BRollMotionEditor";
+import CaptionEditor from "./components/CaptionEditor";
+import CaptionStyleDesigner from "./components/CaptionStyleDesigner";
+import ExportDialog from "./components/ExportDialog";
+import LanguagePanel, { SOURCE_TRACK } from "./components/LanguagePanel";
+import PipDragOverlay from "./components/PipDragOverlay";
+import ProjectList from "./components/ProjectList";
+import SegmentationPanel from "./components/SegmentationPanel";
+import SpeakerPanel from "./components/SpeakerPanel";
+
+// client view of GET /api/render/:id
+type RenderJobView = {
   id: string;
-  src: string; // remote URL (Pexels) or later server-served /broll URL
-  thumb?: string; // small preview image
-  type: "image" | "video";
-  startSeconds: number;
-  durationSeconds: number;
+  status: "queued" | "rendering" | "done" | "error" | "cancelled";
+  stage: string | null;
+  language: string | null;
+  percentage: number;
+  etaSeconds: number | null;
+  error: string | null;
+  // languages rendered by a multi-language export
+  outputs: string[];
 };
 
+type SaveStatus = "idle" | "saving" | "saved" | "error";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+// JSON with a fixed key order: sent as the autosave body and compared
+// against the last saved value to decide whether to save at all
+const snapshotOf = (s: ProjectState) =>
+  JSON.stringify({
+    name: s.name,
+    captions: s.captions,
+    sourceLanguage: s.sourceLanguage,
+    translations: s.translations,
+    captionLanguage: s.captionLanguage,
+    secondaryLanguage: s.secondaryLanguage,
+    silences: s.silences,
+    cuts: s.cuts,
+    stylePreset: s.stylePreset,
+    captionStyle: s.captionStyle,
+    aspectPreset: s.aspectPreset,
+    fitMode: s.fitMode,
+    audioMix: s.audioMix,
+    bRolls: s.bRolls,
+    allImages: s.allImages,
+    durationInSeconds: s.durationInSeconds,
+    videoWidth: s.videoWidth,
+    videoHeight: s.videoHeight,
+  } satisfies ProjectState);
+
 export default function HomePage() {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [videoWidth, setVideoWidth] = useState<number | null>(null);
   const [videoHeight, setVideoHeight] = useState<number | null>(null);
   const [captions, setCaptions] = useState<CaptionSegment[]>([]);
+  const [sourceLanguage, setSourceLanguage] = useState("auto");
+  const [translations, setTranslations] = useState<CaptionTrack[]>([]);
+  const [captionLanguage, setCaptionLanguage] = useState(SOURCE_TRACK);
+  const [secondaryLanguage, setSecondaryLanguage] = useState<string | null>(
+    null
+  );
+  const [exportLanguages, setExportLanguages] = useState<string[]>([]);
+  const [silences, setSilences] = useState<TimeRange[] | null>(null);
+  const [cuts, setCuts] = useState<CutRange[]>([]);
+  const [segmentation, setSegmentation] = useState<SegmentationOptions | null>(
+    DEFAULT_SEGMENTATION
+  );
+  const [detectSpeakers, setDetectSpeakers] = useState(false);
   const [stylePreset, setStylePreset] = useState<CaptionStylePreset>("bottom");
+  // the style actually rendered; starts as a copy of the preset and is
+  // edited freely in the style designer
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(
+    CAPTION_STYLE_PRESETS.bottom
+  );
   const [durationInSeconds, setDurationInSeconds] = useState<number>(60);
+  const [aspectPreset, setAspectPreset] = useState<AspectPreset>("source");
+  const [fitMode, setFitMode] = useState<FitMode>("fill");
+  const [audioMix, setAudioMix] = useState<AudioMix>(DEFAULT_AUDIO_MIX);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(
+    DEFAULT_EXPORT_OPTIONS
+  );
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [allImages, setAllImages] = useState<string[]>([]);
+  const [renderJob, setRenderJob] = useState<RenderJobView | null>(null);
+  // id of the job being polled; cleared on cancel so stale polls stop
+  const activeJobIdRef = useRef<string | null>(null);
+  const playerRef = useRef<PlayerRef>(null);
+
+  // Project state: created on first upload, then autosaved
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState("Untitled project");
+  const [projectHasVideo, setProjectHasVideo] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
+  const [projectListKey, setProjectListKey] = useState(0);
+  const lastSavedRef = useRef<string | null>(null);
 
   // Search states
   const [query, setQuery] = useState("");
-  const [searchResults, setSearchResults] = useState<
-    {
-      id: number | string;
-      src: string;
-      thumb?: string;
-      type: "image" | "video";
-      meta?: any;
-    }[]
-  >([]);
+  const [searchResults, setSearchResults] = useState<StockMediaResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
-  const [searchType, setSearchType] = useState<"photos" | "videos">("photos");
+  const [searchType, setSearchType] = useState<StockMediaType>("photos");
+  const [searchProvider, setSearchProvider] =
+    useState<StockProviderName>("pexels");
+  const [searchOrientation, setSearchOrientation] =
+    useState<StockOrientation>("any");
+  const [searchSize, setSearchSize] = useState<StockSize>("any");
+  // paging of the last successful search
+  const [searchPage, setSearchPage] = useState(1);
+  const [searchHasMore, setSearchHasMore] = useState(false);
+  const [searchTotal, setSearchTotal] = useState<number | null>(null);
 
   // B-roll states
   const [bRolls, setBRolls] = useState<BRollEntry[]>([]);
@@ -54,17 +177,23 @@ export default function HomePage() {
   } | null>(null);
   const [brStartSeconds, setBrStartSeconds] = useState<number>(0);
   const [brDurationSeconds, setBrDurationSeconds] = useState<number>(4);
+  // placements proposed by /api/broll-suggestions, pending accept/reject
+  const [suggestions, setSuggestions] = useState<BRollSuggestion[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState<string | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    // Configure maximum allowed dimensions
-    const MAX_WIDTH = 1920;
-    const MAX_HEIGHT = 1080;
-
-    // store file and create object URL
+    // store file and create object URL; the project copy is uploaded in
+    // the background and used for generate/export once it lands
     setVideoFile(file);
+    setProjectHasVideo(false);
+    // cuts refer to the previous video's timeline
+    setSilences(null);
+    setCuts([]);
+    persistVideo(file);
     const url = URL.createObjectURL(file);
     setVideoUrl(url);
 
@@ -78,40 +207,27 @@ export default function HomePage() {
       vid.onerror = null;
     };
 
-    const makeEven = (n: number) => (n % 2 === 0 ? n : n - 1); // encoders like even dims
-
     const applyDimensions = (
       intrinsicWidth: number,
       intrinsicHeight: number,
       duration: number
     ) => {
-      // sanitize inputs
+      // sanitize inputs; the output size (scaling, even dims, aspect preset)
+      // is derived from these by getOutputDimensions, same as in Root.tsx
       const iw = intrinsicWidth > 0 ? intrinsicWidth : 1920;
       const ih = intrinsicHeight > 0 ? intrinsicHeight : 1080;
       const dur = isFinite(duration) && duration > 0 ? duration : 60;
 
-      // compute scale so both width and height are within limits
-      const scaleForWidth = MAX_WIDTH / iw;
-      const scaleForHeight = MAX_HEIGHT / ih;
-      const scale = Math.min(1, scaleForWidth, scaleForHeight);
-
-      let finalW = Math.max(2, Math.round(iw * scale));
-      let finalH = Math.max(2, Math.round(ih * scale));
-
-      // ensure even numbers (helps video encoders)
-      finalW = makeEven(finalW);
-      finalH = makeEven(finalH);
-
       setDurationInSeconds(dur);
-      setVideoWidth(finalW);
-      setVideoHeight(finalH);
+      setVideoWidth(iw);
+      setVideoHeight(ih);
     };
 
     // when metadata loads, capture intrinsic dimensions & duration
     vid.onloadedmetadata = () => {
       try {
         applyDimensions(vid.videoWidth, vid.videoHeight, vid.duration);
-      } catch (err) {
+      } catch {
         // fallback values in case of strange metadata
         applyDimensions(1920, 1080, 60);
       } finally {
@@ -146,12 +262,85 @@ export default function HomePage() {
     // URL.revokeObjectURL(url);
   };
 
+  // composition size for the Player; render.mjs/Root derive the same from
+  // the probed source size
+  const outputDimensions = getOutputDimensions(
+    videoWidth && videoHeight
+      ? { width: videoWidth, height: videoHeight }
+      : null,
+    aspectPreset
+  );
+
+  // --- caption tracks: the transcript plus its translations ---
+  const trackCaptions = (language: string) =>
+    language === SOURCE_TRACK
+      ? captions
+      : translations.find((t) => t.language === language)?.captions ?? [];
+  // the track being previewed and edited
+  const activeCaptions = trackCaptions(captionLanguage);
+  const setActiveCaptions = (next: CaptionSegment[]) => {
+    if (captionLanguage === SOURCE_TRACK) {
+      setCaptions(next);
+      return;
+    }
+    setTranslations((prev) =>
+      prev.map((t) =>
+        t.language === captionLanguage ? { ...t, captions: next } : t
+      )
+    );
+  };
+  const secondaryFor = (language: string) =>
+    secondaryLanguage && secondaryLanguage !== language
+      ? trackCaptions(secondaryLanguage)
+      : null;
+
+  // --- speakers: names live on the segments of every track ---
+  const speakers = listSpeakers(captions);
+  const handleRenameSpeaker = (from: string, to: string) => {
+    const name = to.trim();
+    if (!name || name === from) return;
+    setCaptions((prev) => renameSpeaker(prev, from, name));
+    setTranslations((prev) =>
+      prev.map((t) => ({
+        ...t,
+        captions: renameSpeaker(t.captions, from, name),
+      }))
+    );
+    // the style follows the name, unless the target already has one
+    setCaptionStyle((prev) => {
+      const taken = prev.speakers?.some((s) => s.name === name);
+      return {
+        ...prev,
+        speakers: prev.speakers
+          ?.filter((s) => !(taken && s.name === from))
+          .map((s) => (s.name === from ? { ...s, name } : s)),
+      };
+    });
+  };
+  const handleSpeakerStyle = (style: SpeakerStyle) =>
+    setCaptionStyle((prev) => ({
+      ...prev,
+      speakers: [
+        ...(prev.speakers ?? []).filter((s) => s.name !== style.name),
+        style,
+      ],
+    }));
+
+  const applyStylePreset = (preset: CaptionStylePreset) => {
+    setStylePreset(preset);
+    setCaptionStyle(CAPTION_STYLE_PRESETS[preset]);
+  };
+
   // --- captions generation (unchanged) ---
   const handleGenerateCaptions = async () => {
-    if (!videoFile) return;
+    if (!hasVideo) return;
     setIsGenerating(true);
     const formData = new FormData();
-    formData.append("file", videoFile);
+    if (serverHasVideo && projectId) formData.append("projectId", projectId);
+    else if (videoFile) formData.append("file", videoFile);
+    if (sourceLanguage !== "auto") formData.append("language", sourceLanguage);
+    formData.append("segmentation", JSON.stringify(segmentation ?? "off"));
+    if (detectSpeakers) formData.append("diarize", "true");
     const res = await fetch("/api/generate-captions", {
       method: "POST",
       body: formData,
@@ -162,78 +351,221 @@ export default function HomePage() {
     setIsGenerating(false);
     if (data.success) {
       setCaptions(data.captions);
+      if (data.silences) setSilences(data.silences);
     } else {
       alert("Failed to generate captions: " + data.error);
     }
   };
 
-  // --- export ---
+  // --- auto-cut: silencedetect without transcribing again ---
+  const handleDetectSilences = async () => {
+    if (!hasVideo) return;
+    const formData = new FormData();
+    if (serverHasVideo && projectId) formData.append("projectId", projectId);
+    else if (videoFile) formData.append("file", videoFile);
+    const res = await fetch("/api/silences", {
+      method: "POST",
+      body: formData,
+    });
+    const data = await res
+      .json()
+      .catch(() => ({ success: false, error: "invalid json" }));
+    if (data.success) {
+      setSilences(data.silences);
+    } else {
+      alert("Failed to detect silences: " + data.error);
+    }
+  };
+
+  // --- export (queued render job, polled for progress) ---
+  const pollRenderJob = async (jobId: string) => {
+    if (activeJobIdRef.current !== jobId) return;
+    const res = await fetch(`/api/render/${jobId}`).catch(() => null);
+    if (activeJobIdRef.current !== jobId) return;
+    if (!res || !res.ok) {
+      // job was cancelled/deleted or the server went away
+      setRenderJob(null);
+      return;
+    }
+    const { job } = (await res.json()) as { job: RenderJobView };
+    setRenderJob(job);
+
+    if (job.status === "done") {
+      const languages = job.outputs.length > 0 ? job.outputs : [null];
+      languages.forEach((language, i) => {
+        // spaced out so browsers don't drop all but the first download
+        setTimeout(() => {
+          const a = document.createElement("a");
+          a.href = language
+            ? `/api/render/${jobId}/output?language=${encodeURIComponent(
+                language
+              )}`
+            : `/api/render/${jobId}/output`;
+          // the format chosen when this export was started
+          a.download = exportFilename(
+            exportExtension(exportOptions),
+            languages.length > 1 ? language : null
+          );
+          document.body.appendChild(a);
+          a.click();
+          a.remove();
+        }, i * 500);
+      });
+      setRenderJob(null);
+    } else if (job.status === "error") {
+      alert(
+        "Cloud export failed (likely due to time/memory limits on the free backend server).\n\n" +
+          "Export works locally or via Docker as described in the README.\n\n" +
+          "Details: " +
+          job.error
+      );
+      setRenderJob(null);
+    } else if (job.status !== "cancelled") {
+      setTimeout(() => pollRenderJob(jobId), 1000);
+    }
+  };
+
   const handleExport = async () => {
-    if (!videoFile || captions.length === 0) return;
+    if (!hasVideo || activeCaptions.length === 0) return;
+    setShowExportDialog(false);
     const formData = new FormData();
-    formData.append("file", videoFile);
+    if (serverHasVideo && projectId) formData.append("projectId", projectId);
+    else if (videoFile) formData.append("file", videoFile);
     // we keep backward compatibility: captions array is sent; to include bRolls we send 'bRolls' field too
-    formData.append("captions", JSON.stringify(captions));
+    formData.append("captions", JSON.stringify(activeCaptions));
+    // one output video per checked track, each with its own second line
+    const languages =
+      exportLanguages.length > 0 ? exportLanguages : [captionLanguage];
+    formData.append(
+      "variants",
+      JSON.stringify(
+        languages.map((language) => ({
+          language,
+          captions: trackCaptions(language),
+          secondaryCaptions: secondaryFor(language),
+        }))
+      )
+    );
     formData.append("stylePreset", stylePreset);
+    formData.append("captionStyle", JSON.stringify(captionStyle));
+    formData.append("aspectPreset", aspectPreset);
+    formData.append("fitMode", fitMode);
     formData.append("durationInSeconds", String(durationInSeconds));
     formData.append("bRolls", JSON.stringify(bRolls));
+    formData.append("audioMix", JSON.stringify(audioMix));
+    // range is in source time like the captions
+    formData.append("exportOptions", JSON.stringify(exportOptions));
+    // tags the original track when subtitles are muxed instead of burned in
+    formData.append("sourceLanguage", sourceLanguage);
+    // captions and B-roll stay in source time; the server re-times them
+    if (cuts.length > 0) formData.append("cuts", JSON.stringify(cuts));
 
     const res = await fetch("/api/render", {
       method: "POST",
       body: formData,
     });
+    const data = await res.json().catch(() => null);
+
+    if (!res.ok || !data?.jobId) {
+      alert("Could not start export: " + (data?.error || res.status));
+      return;
+    }
+
+    activeJobIdRef.current = data.jobId;
+    setRenderJob(data.job);
+    pollRenderJob(data.jobId);
+  };
+
+  const handleCancelExport = async () => {
+    if (!renderJob) return;
+    activeJobIdRef.current = null;
+    await fetch(`/api/render/${renderJob.id}`, { method: "DELETE" }).catch(
+      () => {}
+    );
+    setRenderJob(null);
+  };
 
-    if (!res.ok) {
-      const errorJson = await res.json().catch(() => null);
+  // --- subtitle import / export (SRT, VTT, ASS) ---
+  const handleImportSubtitles = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const parsed = parseCaptions(text, detectCaptionFormat(text, file.name));
+      setActiveCaptions(parsed.captions);
+      if (parsed.stylePreset) applyStylePreset(parsed.stylePreset);
+    } catch (err) {
       alert(
-        "Cloud export failed (likely due to time/memory limits on the free backend server).\n\n" +
-          "Export works locally or via Docker as described in the README.\n\n" +
-          "Details: " +
-          errorJson?.error
+        "Failed to import subtitles: " +
+          (err instanceof Error ? err.message : String(err))
       );
-      return;
     }
+  };
 
-    const blob = await res.blob();
+  const handleDownloadSubtitles = (format: CaptionFormat) => {
+    if (activeCaptions.length === 0) return;
+    const text = serializeCaptions(activeCaptions, format, stylePreset);
+    const blob = new Blob([text], { type: CAPTION_FORMAT_MIME[format] });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    // if there are video b-rolls, final output is still mp4
-    a.download = "captioned.mp4";
+    a.download =
+      captionLanguage === SOURCE_TRACK
+        ? `captions.${format}`
+        : `captions.${captionLanguage}.${format}`;
     document.body.appendChild(a);
     a.click();
     a.remove();
     URL.revokeObjectURL(url);
   };
 
-  // --- search (calls server proxy /api/pexels) ---
+  // --- search (calls server proxy /api/stock-media) ---
   const handleSearch = async (page = 1, per_page = 12) => {
     if (!query || query.trim().length === 0) return;
     setIsSearching(true);
     setSearchError(null);
     try {
-      const res = await fetch(
-        `/api/pexels?query=${encodeURIComponent(
-          query
-        )}&per_page=${per_page}&page=${page}&type=${searchType}`
-      );
+      const params = new URLSearchParams({
+        provider: searchProvider,
+        query,
+        type: searchType,
+        orientation: searchOrientation,
+        size: searchSize,
+        page: String(page),
+        per_page: String(per_page),
+      });
+      const res = await fetch(`/api/stock-media?${params}`);
       if (!res.ok) {
         const err = await res.json().catch(() => ({}));
         throw new Error(err?.error || `Search failed (${res.status})`);
       }
       const json = await res.json();
       // normalize results:
-      const normalized = (json.results || []).map((it: any) => ({
-        id: it.id,
-        src: it.src || it.video || it.link || "",
-        thumb: it.thumb || it.src || "",
-        type: it.type === "video" ? "video" : "image",
-        meta: it.meta || null,
-      }));
+      const normalized = (json.results || []).map(
+        (
+          it: Pick<StockMediaResult, "id"> &
+            Partial<StockMediaResult> & { video?: string; link?: string }
+        ): StockMediaResult => ({
+          id: it.id,
+          src: it.src || it.video || it.link || "",
+          // video srcs are not images; the grid shows a placeholder instead
+          thumb: it.thumb || (it.type === "video" ? "" : it.src) || "",
+          type: it.type === "video" ? "video" : "image",
+          meta: it.meta || null,
+        })
+      );
       setSearchResults(normalized);
-    } catch (err: any) {
-      setSearchError(err?.message || "Unknown error");
+      setSearchPage(json.page || page);
+      setSearchHasMore(Boolean(json.hasMore));
+      setSearchTotal(typeof json.total === "number" ? json.total : null);
+    } catch (err) {
+      setSearchError(err instanceof Error ? err.message : "Unknown error");
       setSearchResults([]);
+      setSearchHasMore(false);
+      setSearchTotal(null);
     } finally {
       setIsSearching(false);
     }
@@ -302,13 +634,261 @@ export default function HomePage() {
 
   const cancelAddBRoll = () => setSelectedForBRoll(null);
 
+  // --- automatic suggestions from caption keywords ---
+  const handleSuggestBRolls = async () => {
+    if (captions.length === 0) return;
+    setIsSuggesting(true);
+    setSuggestError(null);
+    try {
+      const res = await fetch("/api/broll-suggestions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          captions,
+          provider: searchProvider,
+          type: searchType,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json?.success) {
+        throw new Error(json?.error || `Suggestion failed (${res.status})`);
+      }
+      // hide anything already on the timeline
+      const used = new Set(bRolls.map((b) => b.src));
+      setSuggestions(
+        (json.suggestions as BRollSuggestion[]).filter((s) => !used.has(s.src))
+      );
+    } catch (err) {
+      setSuggestError(err instanceof Error ? err.message : "Unknown error");
+      setSuggestions([]);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const acceptSuggestion = (s: BRollSuggestion) => {
+    const entry: BRollEntry = {
+      id: `${Date.now().toString(36)}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}`,
+      src: s.src,
+      thumb: s.thumb,
+      type: s.type === "video" ? "video" : "image",
+      startSeconds: s.startSeconds,
+      durationSeconds: Math.min(
+        s.durationSeconds,
+        Math.max(0.1, durationInSeconds - s.startSeconds)
+      ),
+    };
+    setBRolls((prev) => [...prev, entry]);
+    const toStore =
+      entry.type === "video" && entry.thumb ? entry.thumb : entry.src;
+    setAllImages((prev) =>
+      prev.includes(toStore) ? prev : [toStore, ...prev]
+    );
+    setSuggestions((prev) => prev.filter((p) => p.id !== s.id));
+  };
+
+  const rejectSuggestion = (id: string) =>
+    setSuggestions((prev) => prev.filter((p) => p.id !== id));
+
   // editor helpers
   const removeBRoll = (id: string) =>
     setBRolls((s) => s.filter((b) => b.id !== id));
   const updateBRoll = (id: string, patch: Partial<BRollEntry>) =>
     setBRolls((s) => s.map((b) => (b.id === id ? { ...b, ...patch } : b)));
+  // dragging a picture-in-picture card in the preview
+  const moveBRoll = (id: string, position: { x: number; y: number }) =>
+    setBRolls((s) =>
+      s.map((b) =>
+        b.id === id && b.layout?.kind === "pip"
+          ? { ...b, layout: { ...b.layout, ...position } }
+          : b
+      )
+    );
+
+  // --- projects: lib/projects.ts store, created on first upload ---
+  const projectState: ProjectState = {
+    name: projectName,
+    captions,
+    sourceLanguage,
+    translations,
+    captionLanguage,
+    secondaryLanguage,
+    silences,
+    cuts,
+    stylePreset,
+    captionStyle,
+    aspectPreset,
+    fitMode,
+    audioMix,
+    bRolls,
+    allImages,
+    durationInSeconds,
+    videoWidth,
+    videoHeight,
+  };
+  const projectSnapshot = snapshotOf(projectState);
 
-  useEffect(() => {}, []);
+  // debounced autosave of everything in projectState
+  useEffect(() => {
+    if (!projectId || projectSnapshot === lastSavedRef.current) return;
+    const timer = setTimeout(async () => {
+      setSaveStatus("saving");
+      try {
+        const res = await fetch(`/api/projects/${projectId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: projectSnapshot,
+        });
+        if (!res.ok) throw new Error(`Save failed (${res.status})`);
+        lastSavedRef.current = projectSnapshot;
+        setSaveStatus("saved");
+        setProjectListKey((k) => k + 1);
+      } catch (err) {
+        console.error("autosave failed:", err);
+        setSaveStatus("error");
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, projectSnapshot]);
+
+  // stores an upload with the current project, creating one if needed
+  const persistVideo = async (file: File) => {
+    setSaveStatus("saving");
+    try {
+      let id = projectId;
+      if (!id) {
+        const name = file.name.replace(/\.[^.]+$/, "") || "Untitled project";
+        const res = await fetch("/api/projects", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...projectState, name }),
+        });
+        const json = await res.json().catch(() => null);
+        if (!json?.success) {
+          throw new Error(json?.error || "Could not create project");
+        }
+        id = json.project.id as string;
+        setProjectId(id);
+        setProjectName(name);
+      }
+
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`/api/projects/${id}/media`, {
+        method: "PUT",
+        body: formData,
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.success) {
+        throw new Error(json?.error || "Could not store video");
+      }
+      setProjectHasVideo(true);
+      setSaveStatus("saved");
+      setProjectListKey((k) => k + 1);
+    } catch (err) {
+      console.error("project upload failed:", err);
+      setSaveStatus("error");
+    }
+  };
+
+  const openProject = async (id: string) => {
+    const res = await fetch(`/api/projects/${id}`).catch(() => null);
+    const json = await res?.json().catch(() => null);
+    if (!json?.success) {
+      alert("Could not open project: " + (json?.error || "request failed"));
+      return;
+    }
+    const p = json.project as Project;
+    const loadedBRolls: BRollEntry[] = p.bRolls.map((b) => ({
+      ...b,
+      type: b.type === "video" ? "video" : "image",
+    }));
+    const loaded: ProjectState = {
+      name: p.name,
+      captions: p.captions,
+      sourceLanguage: p.sourceLanguage ?? "auto",
+      translations: p.translations ?? [],
+      captionLanguage: p.captionLanguage ?? SOURCE_TRACK,
+      secondaryLanguage: p.secondaryLanguage ?? null,
+      silences: p.silences ?? null,
+      cuts: p.cuts ?? [],
+      stylePreset: p.stylePreset,
+      captionStyle: p.captionStyle ?? CAPTION_STYLE_PRESETS[p.stylePreset],
+      aspectPreset: p.aspectPreset,
+      fitMode: p.fitMode,
+      audioMix: p.audioMix ?? DEFAULT_AUDIO_MIX,
+      bRolls: loadedBRolls,
+      allImages: p.allImages,
+      durationInSeconds: p.durationInSeconds || 60,
+      videoWidth: p.videoWidth,
+      videoHeight: p.videoHeight,
+    };
+    // opening is not an edit; only save once something changes
+    lastSavedRef.current = snapshotOf(loaded);
+
+    setProjectId(p.id);
+    setProjectName(loaded.name);
+    setCaptions(loaded.captions);
+    setSourceLanguage(loaded.sourceLanguage);
+    setTranslations(loaded.translations);
+    setCaptionLanguage(loaded.captionLanguage);
+    setSecondaryLanguage(loaded.secondaryLanguage);
+    setExportLanguages([]);
+    setSilences(loaded.silences);
+    setCuts(loaded.cuts);
+    setStylePreset(loaded.stylePreset);
+    setCaptionStyle(loaded.captionStyle ?? CAPTION_STYLE_PRESETS.bottom);
+    setAspectPreset(loaded.aspectPreset);
+    setFitMode(loaded.fitMode);
+    setAudioMix(loaded.audioMix);
+    setBRolls(loadedBRolls);
+    setAllImages(loaded.allImages);
+    setDurationInSeconds(loaded.durationInSeconds);
+    setVideoWidth(loaded.videoWidth);
+    setVideoHeight(loaded.videoHeight);
+    setVideoFile(null);
+    setProjectHasVideo(Boolean(p.video));
+    // updatedAt busts the Player's cache when the video was replaced
+    setVideoUrl(
+      p.video ? `/api/projects/${p.id}/media?v=${p.updatedAt}` : null
+    );
+    setSuggestions([]);
+    setSaveStatus("saved");
+  };
+
+  const startNewProject = () => {
+    lastSavedRef.current = null;
+    setProjectId(null);
+    setProjectName("Untitled project");
+    setProjectHasVideo(false);
+    setSaveStatus("idle");
+    setVideoFile(null);
+    setVideoUrl(null);
+    setVideoWidth(null);
+    setVideoHeight(null);
+    setDurationInSeconds(60);
+    setCaptions([]);
+    setSourceLanguage("auto");
+    setTranslations([]);
+    setCaptionLanguage(SOURCE_TRACK);
+    setSecondaryLanguage(null);
+    setExportLanguages([]);
+    setSilences(null);
+    setCuts([]);
+    applyStylePreset("bottom");
+    setAspectPreset("source");
+    setFitMode("fill");
+    setAudioMix(DEFAULT_AUDIO_MIX);
+    setBRolls([]);
+    setAllImages([]);
+    setSuggestions([]);
+  };
+
+  // a saved video lets generate/export skip re-uploading the file
+  const serverHasVideo = Boolean(projectId && projectHasVideo);
+  const hasVideo = Boolean(videoFile) || serverHasVideo;
 
   // helper: detect if a URL looks like a video file
   const looksLikeVideoFile = (url: string) =>
@@ -339,6 +919,42 @@ export default function HomePage() {
 
         <section className="grid gap-6 lg:grid-cols-[minmax(0,1.05fr)_minmax(0,1.45fr)] items-start">
           <div className="space-y-4">
+            {/* Projects */}
+            <div className="rounded-2xl border border-[#252528] bg-[rgba(20,20,22,0.82)] backdrop-blur-2xl shadow-[0_18px_60px_rgba(0,0,0,0.7)] p-5 space-y-3">
+              <ProjectList
+                currentId={projectId}
+                refreshKey={projectListKey}
+                onOpen={openProject}
+                onNew={startNewProject}
+                onDeleted={(id) => {
+                  if (id === projectId) startNewProject();
+                }}
+              />
+              <div className="flex items-center gap-2 text-xs">
+                <input
+                  type="text"
+                  value={projectName}
+                  onChange={(e) => setProjectName(e.target.value)}
+                  disabled={!projectId}
+                  placeholder="Project name"
+                  className="flex-1 rounded px-2 py-1 bg-[#121214] border border-[#2a2a2d] disabled:opacity-50"
+                />
+                <span
+                  className={
+                    saveStatus === "error" ? "text-rose-400" : "text-slate-400"
+                  }
+                >
+                  {!projectId
+                    ? "Upload a video to start saving"
+                    : saveStatus === "saving"
+                    ? "Saving…"
+                    : saveStatus === "error"
+                    ? "Save failed"
+                    : "All changes saved"}
+                </span>
+              </div>
+            </div>
+
             {/* Upload + caption UI (unchanged markup & styles) */}
             <div className="rounded-2xl border border-[#252528] bg-[rgba(20,20,22,0.82)] backdrop-blur-2xl shadow-[0_18px_60px_rgba(0,0,0,0.7)] p-5 transition-transform duration-300 motion-safe:hover:-translate-y-0.5">
               <div className="space-y-1.5 mb-4">
@@ -357,7 +973,11 @@ export default function HomePage() {
               <label className="group relative flex flex-col items-center justify-center gap-2 rounded-xl border border-dashed border-[#3a3a3d] bg-[#161617]/70 hover:bg-[#18181a]/90 transition p-6 text-[#d4d4d4] cursor-pointer overflow-hidden">
                 <div className="pointer-events-none absolute inset-0 opacity-0 group-hover:opacity-100 bg-[radial-gradient(circle_at_top_left,rgba(236,72,153,0.22),transparent_55%),radial-gradient(circle_at_bottom_right,rgba(59,130,246,0.22),transparent_55%)] transition-opacity duration-500" />
                 <span className="relative text-sm font-medium line-clamp-1">
-                  {videoFile ? videoFile.name : "Click to choose a video file"}
+                  {videoFile
+                    ? videoFile.name
+                    : projectHasVideo
+                    ? "Project video (click to replace)"
+                    : "Click to choose a video file"}
                 </span>
                 <span className="relative text-xs text-slate-400/90">
                   Or drag &amp; drop into this area
@@ -380,7 +1000,7 @@ export default function HomePage() {
                       <select
                         value={stylePreset}
                         onChange={(e) =>
-                          setStylePreset(e.target.value as CaptionStylePreset)
+                          applyStylePreset(e.target.value as CaptionStylePreset)
                         }
                         className="w-full rounded-[0.55rem] border border-[#29292d] bg-[#111114] text-[#e6e6e6] px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-pink-400/70 focus-visible:ring-offset-2 focus-visible:ring-offset-[#050509] transition"
                       >
@@ -392,9 +1012,21 @@ export default function HomePage() {
                   </div>
                 </div>
 
+                <label
+                  className="flex items-center gap-1.5 text-xs text-slate-300"
+                  title="Label captions by speaker (interviews, podcasts)"
+                >
+                  <input
+                    type="checkbox"
+                    checked={detectSpeakers}
+                    onChange={(e) => setDetectSpeakers(e.target.checked)}
+                  />
+                  Detect speakers
+                </label>
+
                 <button
                   className="relative inline-flex items-center justify-center w-full sm:w-auto rounded-lg px-4 py-2 text-sm font-medium text-slate-50 overflow-hidden disabled:opacity-60 disabled:cursor-not-allowed focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-pink-400/80 focus-visible:ring-offset-2 focus-visible:ring-offset-[#050509] transition-shadow duration-300 shadow-[0_10px_35px_rgba(15,23,42,0.8)] hover:shadow-[0_16px_55px_rgba(15,23,42,0.95)]"
-                  disabled={!videoFile || isGenerating}
+                  disabled={!hasVideo || isGenerating}
                   onClick={handleGenerateCaptions}
                 >
                   <span className="absolute inset-0 bg-[linear-gradient(135deg,#f97316,#ec4899,#6366f1)] bg-[length:160%_160%] animate-button-gradient" />
@@ -422,39 +1054,162 @@ export default function HomePage() {
                   Review &amp; edit captions
                 </h2>
                 <span className="text-[11px] px-2 py-1 rounded-full bg-slate-900/85 text-slate-300 border border-white/10 shadow-sm shadow-black/40">
-                  Advanced · JSON
+                  Timeline
                 </span>
               </div>
               <p className="text-xs text-slate-300/80 mb-3">
-                Edit the caption data directly in JSON format.
+                Fix text, drag segment edges on the timeline, split or merge
+                segments. Click a segment to jump the preview to it.
               </p>
-              <textarea
-                className="w-full h-44 bg-[#121214] border border-[#2a2a2d] text-[#dcdcdc] rounded-xl p-3 font-mono text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-pink-400/75 focus-visible:ring-offset-2 focus-visible:ring-offset-[#050509] shadow-inner shadow-black/40"
-                value={JSON.stringify(captions, null, 2)}
-                onChange={(e) => {
-                  try {
-                    const parsed = JSON.parse(e.target.value);
-                    setCaptions(parsed);
-                  } catch {
-                    // ignore invalid JSON while typing
-                  }
-                }}
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <label className="cursor-pointer rounded px-2 py-1 bg-[#1f1f21] text-xs hover:bg-[#2a2a2d]">
+                  Import SRT / VTT / ASS
+                  <input
+                    type="file"
+                    accept=".srt,.vtt,.ass,.ssa,.json"
+                    onChange={handleImportSubtitles}
+                    className="hidden"
+                  />
+                </label>
+                {(["srt", "vtt", "ass"] as CaptionFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => handleDownloadSubtitles(format)}
+                    disabled={activeCaptions.length === 0}
+                    className="rounded px-2 py-1 bg-[#1f1f21] text-xs hover:bg-[#2a2a2d] disabled:opacity-50"
+                  >
+                    Download .{format}
+                  </button>
+                ))}
+              </div>
+              <SegmentationPanel
+                captions={activeCaptions}
+                durationInSeconds={durationInSeconds}
+                onChange={setActiveCaptions}
+                options={segmentation}
+                onOptionsChange={setSegmentation}
+              />
+              <SpeakerPanel
+                speakers={speakers}
+                styles={captionStyle.speakers ?? []}
+                onRename={handleRenameSpeaker}
+                onStyleChange={handleSpeakerStyle}
+              />
+              <CaptionEditor
+                captions={activeCaptions}
+                onChange={setActiveCaptions}
+                durationInSeconds={durationInSeconds}
+                playerRef={playerRef}
+                videoUrl={videoUrl}
+              />
+            </div>
+
+            <div className="rounded-2xl border border-[#252528] bg-[rgba(20,20,22,0.82)] backdrop-blur-2xl shadow-[0_18px_60px_rgba(0,0,0,0.7)] p-5">
+              <h2 className="text-lg font-semibold mb-1">Jump cuts</h2>
+              <p className="text-xs text-slate-300/80 mb-3">
+                Remove dead air and filler words. Review the marked parts, keep
+                any you want, then export; captions and B-roll follow the cut.
+              </p>
+              <AutoCutPanel
+                captions={captions}
+                durationInSeconds={durationInSeconds}
+                silences={silences}
+                onDetectSilences={handleDetectSilences}
+                cuts={cuts}
+                onChange={setCuts}
+                playerRef={playerRef}
+                videoUrl={videoUrl}
               />
             </div>
 
-            <div className="flex justify-end">
+            <div className="rounded-2xl border border-[#252528] bg-[rgba(20,20,22,0.82)] backdrop-blur-2xl shadow-[0_18px_60px_rgba(0,0,0,0.7)] p-5">
+              <h2 className="text-lg font-semibold mb-3">Languages</h2>
+              <LanguagePanel
+                captions={captions}
+                sourceLanguage={sourceLanguage}
+                onSourceLanguageChange={setSourceLanguage}
+                translations={translations}
+                onTranslationsChange={setTranslations}
+                captionLanguage={captionLanguage}
+                onCaptionLanguageChange={setCaptionLanguage}
+                secondaryLanguage={secondaryLanguage}
+                onSecondaryLanguageChange={setSecondaryLanguage}
+                exportLanguages={exportLanguages}
+                onExportLanguagesChange={setExportLanguages}
+              />
+            </div>
+
+            <div className="rounded-2xl border border-[#252528] bg-[rgba(20,20,22,0.82)] backdrop-blur-2xl shadow-[0_18px_60px_rgba(0,0,0,0.7)] p-5">
+              <div className="flex items-center justify-between gap-2 mb-3">
+                <h2 className="text-lg font-semibold">Caption style</h2>
+                <button
+                  onClick={() => applyStylePreset(stylePreset)}
+                  className="text-[11px] px-2 py-1 rounded bg-[#1f1f21]"
+                  title="Discard custom changes"
+                >
+                  Reset to preset
+                </button>
+              </div>
+              <CaptionStyleDesigner
+                value={captionStyle}
+                onChange={setCaptionStyle}
+              />
+            </div>
+
+            <div className="rounded-2xl border border-[#252528] bg-[rgba(20,20,22,0.82)] backdrop-blur-2xl shadow-[0_18px_60px_rgba(0,0,0,0.7)] p-5">
+              <h2 className="text-lg font-semibold mb-3">Audio</h2>
+              <AudioPanel
+                value={audioMix}
+                onChange={setAudioMix}
+                projectId={projectId}
+              />
+            </div>
+
+            <div className="flex flex-col items-end gap-3">
               <button
                 className="group relative w-full sm:w-auto inline-flex items-center justify-center px-5 py-2.5 rounded-xl text-sm font-semibold text-slate-50 overflow-hidden disabled:opacity-60 disabled:cursor-not-allowed focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-pink-400/80 focus-visible:ring-offset-2 focus-visible:ring-offset-[#050509] shadow-[0_16px_50px_rgba(88,28,135,0.85)] hover:shadow-[0_22px_70px_rgba(88,28,135,1)] transition-shadow duration-300"
-                disabled={!videoFile || captions.length === 0}
-                onClick={handleExport}
+                disabled={
+                  !hasVideo || activeCaptions.length === 0 || !!renderJob
+                }
+                onClick={() => setShowExportDialog(true)}
               >
                 <span className="absolute inset-0 bg-[linear-gradient(140deg,#fb923c,#ec4899,#6366f1)] bg-[length:150%_150%]animate-button-gradient-slow" />
                 <span className="absolute inset-0 rounded-xl border border-white/15" />
                 <span className="relative flex items-center gap-2">
                   <span className="h-1.5 w-1.5 rounded-full bg-rose-100 shadow-[0_0_14px_rgba(251,113,133,0.9)]" />
-                  Export video
+                  {renderJob ? "Exporting..." : "Export video"}
                 </span>
               </button>
+
+              {renderJob && (
+                <div className="w-full rounded-xl border border-[#252528] bg-[rgba(20,20,22,0.82)] p-3 text-xs text-slate-300">
+                  <div className="flex items-center justify-between mb-2">
+                    <span>
+                      {renderJob.status === "queued"
+                        ? "Waiting for a render slot..."
+                        : `${renderJob.stage ?? "starting"}${
+                            renderJob.language && renderJob.outputs.length > 1
+                              ? ` (${renderJob.language})`
+                              : ""
+                          } · ${renderJob.percentage}%`}
+                      {renderJob.etaSeconds !== null &&
+                        ` · ~${renderJob.etaSeconds}s left`}
+                    </span>
+                    <button
+                      onClick={handleCancelExport}
+                      className="px-2 py-0.5 rounded bg-rose-600 text-white"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                  <div className="h-2 w-full rounded-full bg-[#121214] overflow-hidden">
+                    <div
+                      className="h-full bg-[linear-gradient(90deg,#fb923c,#ec4899,#6366f1)] transition-[width] duration-500"
+                      style={{ width: `${renderJob.percentage}%` }}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -476,33 +1231,75 @@ export default function HomePage() {
                 )}
               </div>
 
+              <div className="flex flex-wrap items-center gap-3 mb-3 text-xs">
+                <label className="flex items-center gap-1">
+                  <span className="text-slate-400">Aspect</span>
+                  <select
+                    value={aspectPreset}
+                    onChange={(e) =>
+                      setAspectPreset(e.target.value as AspectPreset)
+                    }
+                    className="rounded px-1 py-0.5 bg-[#0b0b0b]"
+                  >
+                    {ASPECT_PRESETS.map((p) => (
+                      <option key={p.value} value={p.value}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1">
+                  <span className="text-slate-400">Reframe</span>
+                  <select
+                    value={fitMode}
+                    onChange={(e) => setFitMode(e.target.value as FitMode)}
+                    className="rounded px-1 py-0.5 bg-[#0b0b0b]"
+                  >
+                    <option value="fill">Fill (crop)</option>
+                    <option value="fit">Fit (bars)</option>
+                    <option value="blur">Blur background</option>
+                  </select>
+                </label>
+                <span className="text-slate-500">
+                  {outputDimensions.width}×{outputDimensions.height}
+                </span>
+              </div>
+
               {videoUrl ? (
-                <div className="w-full rounded-xl overflow-hidden bg-black/90 border border-slate-800/80 shadow-[0_18px_60px_rgba(0,0,0,0.9)] animate-card-rise">
+                <div className="relative w-full rounded-xl overflow-hidden bg-black/90 border border-slate-800/80 shadow-[0_18px_60px_rgba(0,0,0,0.9)] animate-card-rise">
                   <Player
+                    ref={playerRef}
                     component={VideoWithCaptions}
                     inputProps={{
                       videoSrc: videoUrl,
-                      captions,
+                      captions: activeCaptions,
+                      secondaryCaptions: secondaryFor(captionLanguage),
                       stylePreset,
+                      captionStyle,
+                      fitMode,
                       allImages,
                       bRolls,
+                      music: audioMix.music,
                     }}
                     durationInFrames={Math.round(durationInSeconds * fps)}
                     fps={fps}
                     autoPlay
-                    compositionWidth={videoWidth || 1920}
-                    compositionHeight={videoHeight || 1080}
+                    compositionWidth={outputDimensions.width}
+                    compositionHeight={outputDimensions.height}
                     controls
                     style={{
                       width: "100%",
                       height: "auto",
-                      // CSS aspect-ratio string using intrinsic dimensions when available
-                      aspectRatio:
-                        videoWidth && videoHeight
-                          ? `${videoWidth} / ${videoHeight}`
-                          : undefined,
+                      // CSS aspect-ratio string matching the output frame
+                      aspectRatio: `${outputDimensions.width} / ${outputDimensions.height}`,
                     }}
                   />
+                  <PipDragOverlay
+                    bRolls={bRolls}
+                    onMove={moveBRoll}
+                    playerRef={playerRef}
+                    videoUrl={videoUrl}
+                  />
                 </div>
               ) : (
                 <div className="flex h-64 items-center justify-center rounded-xl overflow-hidden bg-[#0f0f11] border border-[#2d2d30] shadow-[0_10px_40px_rgba(0,0,0,0.5)] text-center text-sm text-slate-500 animate-pulse-subtle">
@@ -518,23 +1315,80 @@ export default function HomePage() {
                   <span className="inline-flex h-7 w-7 items-center justify-center rounded-full bg-emerald-400/12 text-[11px] text-emerald-200 border border-emerald-400/40">
                     +
                   </span>
-                  Media search (Pexels)
+                  Media search
                 </h2>
               </div>
 
               <p className="text-xs text-slate-300/80 mb-3">
-                Search free photos or videos from Pexels. Click a result to add
-                as B-roll.
+                Search free photos or videos from a stock library, or files in
+                your local library folder. Click a result to add as B-roll.
               </p>
 
+              <div className="flex flex-wrap gap-2 mb-2 items-center text-xs">
+                <select
+                  value={searchProvider}
+                  onChange={(e) => {
+                    const provider = e.target.value as StockProviderName;
+                    setSearchProvider(provider);
+                    const option = STOCK_PROVIDER_OPTIONS.find(
+                      (o) => o.value === provider
+                    );
+                    if (!option?.videos) setSearchType("photos");
+                  }}
+                  className="rounded px-2 py-1 bg-[#0b0b0b]"
+                  title="Provider"
+                >
+                  {STOCK_PROVIDER_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={searchOrientation}
+                  onChange={(e) =>
+                    setSearchOrientation(e.target.value as StockOrientation)
+                  }
+                  className="rounded px-2 py-1 bg-[#0b0b0b]"
+                  title="Orientation"
+                >
+                  <option value="any">Any orientation</option>
+                  <option value="landscape">Landscape</option>
+                  <option value="portrait">Portrait</option>
+                  <option value="square">Square</option>
+                </select>
+                <select
+                  value={searchSize}
+                  onChange={(e) => setSearchSize(e.target.value as StockSize)}
+                  className="rounded px-2 py-1 bg-[#0b0b0b]"
+                  title="Size"
+                >
+                  <option value="any">Any size</option>
+                  <option value="small">Small</option>
+                  <option value="medium">Medium</option>
+                  <option value="large">Large</option>
+                </select>
+              </div>
+
               <div className="flex gap-2 mb-3 items-center">
                 <select
                   value={searchType}
-                  onChange={(e) => setSearchType(e.target.value as any)}
+                  onChange={(e) =>
+                    setSearchType(e.target.value as StockMediaType)
+                  }
                   className="rounded px-2 py-2 bg-[#0b0b0b] text-sm"
                 >
                   <option value="photos">Photos</option>
-                  <option value="videos">Videos</option>
+                  <option
+                    value="videos"
+                    disabled={
+                      !STOCK_PROVIDER_OPTIONS.find(
+                        (o) => o.value === searchProvider
+                      )?.videos
+                    }
+                  >
+                    Videos
+                  </option>
                 </select>
 
                 <input
@@ -599,6 +1453,29 @@ export default function HomePage() {
                 ))}
               </div>
 
+              {(searchPage > 1 || searchHasMore) && (
+                <div className="mt-3 flex items-center justify-between text-xs text-slate-400">
+                  <button
+                    onClick={() => handleSearch(searchPage - 1)}
+                    disabled={isSearching || searchPage <= 1}
+                    className="rounded px-2 py-1 bg-[#1f1f21] disabled:opacity-40"
+                  >
+                    ← Prev
+                  </button>
+                  <span>
+                    Page {searchPage}
+                    {searchTotal !== null && ` · ${searchTotal} results`}
+                  </span>
+                  <button
+                    onClick={() => handleSearch(searchPage + 1)}
+                    disabled={isSearching || !searchHasMore}
+                    className="rounded px-2 py-1 bg-[#1f1f21] disabled:opacity-40"
+                  >
+                    Next →
+                  </button>
+                </div>
+              )}
+
               {allImages.length > 0 && (
                 <div className="mt-4">
                   <h3 className="text-sm font-semibold mb-2">
@@ -637,8 +1514,66 @@ export default function HomePage() {
             <div className="my-4 rounded-2xl border border-[#252528] bg-[rgba(20,20,22,0.9)] p-5">
               <div className="flex items-center justify-between mb-3">
                 <h3 className="text-lg font-semibold">B-roll timeline</h3>
+                <button
+                  onClick={handleSuggestBRolls}
+                  disabled={captions.length === 0 || isSuggesting}
+                  className="rounded px-3 py-1 bg-[#1f1f21] text-xs hover:bg-[#2a2a2d] disabled:opacity-50"
+                  title={`Find ${searchType} for keywords in the captions`}
+                >
+                  {isSuggesting ? "Suggesting…" : "Suggest B-roll"}
+                </button>
               </div>
 
+              {suggestError && (
+                <div className="mb-2 text-xs text-rose-400">{suggestError}</div>
+              )}
+
+              {suggestions.length > 0 && (
+                <div className="mb-3 space-y-2">
+                  <div className="text-[11px] text-slate-400">
+                    Suggestions ({suggestions.length})
+                  </div>
+                  {suggestions.map((s) => (
+                    <div
+                      key={s.id}
+                      className="flex items-center gap-3 p-2 rounded border border-dashed border-sky-400/50 bg-sky-400/5"
+                    >
+                      <div className="w-20 h-12 overflow-hidden rounded border">
+                        <img
+                          src={s.thumb || s.src}
+                          alt={s.keyword}
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+                      <div className="flex-1 text-xs">
+                        <div className="font-medium">
+                          &ldquo;{s.keyword}&rdquo;
+                        </div>
+                        <div className="text-slate-400">
+                          {s.type} · {s.startSeconds.toFixed(2)}s for{" "}
+                          {s.durationSeconds.toFixed(1)}s · segment{" "}
+                          {s.segmentIndex + 1}
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => acceptSuggestion(s)}
+                          className="px-2 py-0.5 rounded bg-emerald-600 text-white text-xs"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => rejectSuggestion(s.id)}
+                          className="px-2 py-0.5 rounded bg-[#1f1f21] text-xs"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {bRolls.length === 0 ? (
                 <div className="text-xs text-slate-400">
                   No b-roll items added yet.
@@ -713,10 +1648,10 @@ export default function HomePage() {
                           <label className="text-xs flex items-center gap-1">
                             <span>Type</span>
                             <select
-                              value={b.type}
+                              value={b.type ?? "image"}
                               onChange={(e) =>
                                 updateBRoll(b.id, {
-                                  type: e.target.value as any,
+                                  type: e.target.value as BRollEntry["type"],
                                 })
                               }
                               className="rounded px-1 py-0.5 bg-[#0b0b0b] text-xs"
@@ -726,6 +1661,49 @@ export default function HomePage() {
                             </select>
                           </label>
                         </div>
+                        {b.type === "video" && (
+                          <div className="mt-1 flex items-center gap-3 text-xs">
+                            <label className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={Boolean(b.muted)}
+                                onChange={(e) =>
+                                  updateBRoll(b.id, {
+                                    muted: e.target.checked,
+                                  })
+                                }
+                              />
+                              Mute
+                            </label>
+                            <label className="flex items-center gap-1">
+                              <span>Volume</span>
+                              <input
+                                type="range"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={b.volume ?? 1}
+                                disabled={b.muted}
+                                onChange={(e) =>
+                                  updateBRoll(b.id, {
+                                    volume: Number(e.target.value),
+                                  })
+                                }
+                              />
+                              <span className="w-8 text-right">
+                                {Math.round((b.volume ?? 1) * 100)}%
+                              </span>
+                            </label>
+                          </div>
+                        )}
+                        <BRollMotionEditor
+                          entry={b}
+                          onChange={(patch) => updateBRoll(b.id, patch)}
+                        />
+                        <BRollLayoutEditor
+                          entry={b}
+                          onChange={(patch) => updateBRoll(b.id, patch)}
+                        />
                         <div className="mt-1 text-xs text-slate-400 truncate">
                           {b.src}
                         </div>
@@ -748,6 +1726,17 @@ export default function HomePage() {
         </section>
       </div>
 
+      {showExportDialog && (
+        <ExportDialog
+          value={exportOptions}
+          onChange={setExportOptions}
+          onConfirm={handleExport}
+          onClose={() => setShowExportDialog(false)}
+          durationInSeconds={durationInSeconds}
+          playerRef={playerRef}
+        />
+      )}
+
       {/* Add B-roll modal */}
       {selectedForBRoll && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -0,0 +1,251 @@
+// lib/auto-cut.ts
+// Jump-cut editing: turns detected silences and filler words into a cut
+// list, and maps captions/B-roll from source time onto the edited timeline.
+// Pure functions, shared by the editor (review) and the render route.
+import type { CaptionSegment } from "../remotion/VideoWithCaptions";
+import { getSegmentWords } from "../remotion/VideoWithCaptions";
+import { roundTime } from "./caption-edit";
+
+export type TimeRange = { start: number; end: number };
+export type CutReason = "silence" | "filler";
+export type CutRange = TimeRange & { reason: CutReason };
+
+export type AutoCutOptions = {
+  // silences shorter than this are natural pauses and stay
+  minSilenceSeconds?: number;
+  // audio kept on each side of a silence so words aren't clipped
+  paddingSeconds?: number;
+  removeFillers?: boolean;
+  fillerWords?: string[];
+};
+
+export const FILLER_WORDS = [
+  "um",
+  "umm",
+  "uh",
+  "uhh",
+  "uhm",
+  "erm",
+  "er",
+  "ah",
+  "hmm",
+  "mm",
+  "हम्म",
+  "अं",
+];
+
+// cuts/keeps shorter than this aren't worth a jump
+const MIN_RANGE_SECONDS = 0.05;
+
+const normalizeWord = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+
+/** Sorted, merged ranges; an overlapping cut keeps the first one's reason. */
+function mergeRanges<T extends TimeRange>(ranges: T[]): T[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const out: T[] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    if (last && r.start <= last.end) {
+      last.end = Math.max(last.end, r.end);
+    } else {
+      out.push({ ...r });
+    }
+  }
+  return out;
+}
+
+/**
+ * Gaps between caption segments, used as silences when ffmpeg's
+ * silencedetect output is not available (e.g. imported subtitles).
+ */
+export function captionGaps(
+  captions: CaptionSegment[],
+  durationInSeconds: number
+): TimeRange[] {
+  const sorted = [...captions].sort((a, b) => a.start - b.start);
+  const gaps: TimeRange[] = [];
+  let cursor = 0;
+  for (const seg of sorted) {
+    if (seg.start > cursor) gaps.push({ start: cursor, end: seg.start });
+    cursor = Math.max(cursor, seg.end);
+  }
+  if (durationInSeconds > cursor) {
+    gaps.push({ start: cursor, end: durationInSeconds });
+  }
+  return gaps;
+}
+
+const fillerSet = (fillerWords: string[]) =>
+  new Set(fillerWords.map(normalizeWord));
+
+/**
+ * Computes what to cut from the source: silences longer than
+ * `minSilenceSeconds` (shrunk by `paddingSeconds` on both sides) and the
+ * words listed in `fillerWords`. Fillers are only cut where the segment
+ * has real word timings; see untimedFillerSegments for the rest.
+ */
+export function findCuts(
+  captions: CaptionSegment[],
+  silences: TimeRange[],
+  durationInSeconds: number,
+  {
+    minSilenceSeconds = 0.6,
+    paddingSeconds = 0.15,
+    removeFillers = true,
+    fillerWords = FILLER_WORDS,
+  }: AutoCutOptions = {}
+): CutRange[] {
+  const cuts: CutRange[] = [];
+
+  for (const s of silences) {
+    if (s.end - s.start < minSilenceSeconds) continue;
+    // no padding against the very start/end of the video
+    const start = s.start <= 0 ? 0 : s.start + paddingSeconds;
+    const end =
+      s.end >= durationInSeconds ? durationInSeconds : s.end - paddingSeconds;
+    if (end - start >= MIN_RANGE_SECONDS) {
+      cuts.push({ start, end, reason: "silence" });
+    }
+  }
+
+  if (removeFillers) {
+    const fillers = fillerSet(fillerWords);
+    for (const seg of captions) {
+      // estimated word timings would cut into the words around the filler
+      for (const word of seg.words ?? []) {
+        if (fillers.has(normalizeWord(word.text))) {
+          cuts.push({ start: word.start, end: word.end, reason: "filler" });
+        }
+      }
+    }
+  }
+
+  return mergeRanges(
+    cuts
+      .map((c) => ({
+        ...c,
+        start: Math.max(0, c.start),
+        end: Math.min(durationInSeconds, c.end),
+      }))
+      .filter((c) => c.end - c.start >= MIN_RANGE_SECONDS)
+  );
+}
+
+/**
+ * Segments whose text has filler words but no word timings to cut them
+ * by (imported subtitles, retyped text). findCuts leaves these alone;
+ * the editor flags them for a manual look.
+ */
+export function untimedFillerSegments(
+  captions: CaptionSegment[],
+  fillerWords: string[] = FILLER_WORDS
+): TimeRange[] {
+  const fillers = fillerSet(fillerWords);
+  return captions
+    .filter(
+      (seg) =>
+        !seg.words?.length &&
+        seg.text.split(/\s+/).some((t) => fillers.has(normalizeWord(t)))
+    )
+    .map((seg) => ({ start: seg.start, end: seg.end }));
+}
+
+/** The complement of `cuts` within the video: what ends up in the edit. */
+export function keepRangesFor(
+  cuts: TimeRange[],
+  durationInSeconds: number
+): TimeRange[] {
+  const keeps: TimeRange[] = [];
+  let cursor = 0;
+  for (const cut of mergeRanges(cuts)) {
+    if (cut.start - cursor >= MIN_RANGE_SECONDS) {
+      keeps.push({ start: cursor, end: cut.start });
+    }
+    cursor = Math.max(cursor, cut.end);
+  }
+  if (durationInSeconds - cursor >= MIN_RANGE_SECONDS) {
+    keeps.push({ start: cursor, end: durationInSeconds });
+  }
+  return keeps;
+}
+
+export const keptDuration = (keeps: TimeRange[]) =>
+  keeps.reduce((sum, k) => sum + (k.end - k.start), 0);
+
+/**
+ * Maps a source time range onto the edited timeline: from the first kept
+ * moment inside it to the last. Null when the range was cut entirely.
+ */
+export function mapRange(
+  range: TimeRange,
+  keeps: TimeRange[]
+): TimeRange | null {
+  let offset = 0;
+  let start: number | null = null;
+  let end: number | null = null;
+  for (const k of keeps) {
+    const from = Math.max(range.start, k.start);
+    const to = Math.min(range.end, k.end);
+    if (to > from) {
+      if (start === null) start = offset + (from - k.start);
+      end = offset + (to - k.start);
+    }
+    offset += k.end - k.start;
+  }
+  return start === null || end === null
+    ? null
+    : { start: roundTime(start), end: roundTime(end) };
+}
+
+/**
+ * Re-times captions onto the edited timeline. Words that fall into a cut
+ * (filler words) are dropped from the segment's text as well.
+ */
+export function retimeCaptions(
+  captions: CaptionSegment[],
+  keeps: TimeRange[]
+): CaptionSegment[] {
+  const out: CaptionSegment[] = [];
+  for (const seg of captions) {
+    const mapped = mapRange(seg, keeps);
+    if (!mapped) continue;
+
+    const words = getSegmentWords(seg);
+    const keptWords = words.flatMap((w) => {
+      const m = mapRange(w, keeps);
+      return m ? [{ ...w, ...m }] : [];
+    });
+    if (words.length > 0 && keptWords.length === 0) continue;
+    const lostWords = keptWords.length < words.length;
+
+    out.push({
+      ...seg,
+      ...mapped,
+      text: lostWords ? keptWords.map((w) => w.text).join(" ") : seg.text,
+      ...(seg.words || lostWords ? { words: keptWords } : {}),
+    });
+  }
+  return out;
+}
+
+/** Re-times B-roll placements; ones that were cut entirely are dropped. */
+export function retimeBRolls<
+  T extends { startSeconds: number; durationSeconds: number }
+>(bRolls: T[], keeps: TimeRange[]): T[] {
+  return bRolls.flatMap((b) => {
+    const mapped = mapRange(
+      { start: b.startSeconds, end: b.startSeconds + b.durationSeconds },
+      keeps
+    );
+    return mapped
+      ? [
+          {
+            ...b,
+            startSeconds: mapped.start,
+            durationSeconds: mapped.end - mapped.start,
+          },
+        ]
+      : [];
+  });
+}
@@ -0,0 +1,156 @@
+// lib/broll-fetch.mjs
+// Guarded B-roll downloads for render.mjs. B-roll URLs come from the client,
+// so downloads are http(s) only, never reach private, loopback or link-local
+// addresses (checked on every DNS answer and redirect hop), are capped in
+// size and can be limited to an allow-list of hosts. Plain Node ESM, since
+// render.mjs imports it unbundled.
+import dns from "dns";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import net from "net";
+import path from "path";
+import { pipeline } from "stream/promises";
+
+// keep in sync with lib/stock-media/local.ts
+export const LOCAL_STOCK_URL_PREFIX = "/api/stock-media/local/";
+
+const BROLL_MAX_BYTES = (Number(process.env.BROLL_MAX_DOWNLOAD_MB) || 500) * 1024 * 1024;
+const BROLL_MAX_REDIRECTS = 3;
+const BROLL_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Parses a comma-separated host list; "*.example.com" matches subdomains.
+ * Listed hosts may resolve to private addresses (e.g. 127.0.0.1 for
+ * scripts/stock-fixture-server.mjs).
+ */
+export const parseAllowedHosts = (value) =>
+    (value || "")
+        .split(",")
+        .map((h) => h.trim().toLowerCase())
+        .filter(Boolean);
+
+const BROLL_ALLOWED_HOSTS = parseAllowedHosts(process.env.BROLL_ALLOWED_HOSTS);
+
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [address, prefix] of [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 3],
+]) {
+    PRIVATE_NETWORKS.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+    ["::", 128],
+    ["::1", 128],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+]) {
+    PRIVATE_NETWORKS.addSubnet(address, prefix, "ipv6");
+}
+
+// rejected by policy; fails the render instead of skipping the item
+export class BlockedSourceError extends Error {}
+
+// BlockList matches IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) against the IPv4 subnets
+export const isPrivateAddress = (address) => PRIVATE_NETWORKS.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+
+const isListedHost = (hostname, allowedHosts) =>
+    allowedHosts.some((h) => (h.startsWith("*.") ? hostname.endsWith(h.slice(1)) : hostname === h));
+
+/** Throws for URLs B-roll may not be fetched from; true when the host is allow-listed. */
+export function checkBRollUrl(target, allowedHosts = BROLL_ALLOWED_HOSTS) {
+    if (target.protocol !== "http:" && target.protocol !== "https:") {
+        throw new BlockedSourceError(`B-roll must be an http(s) URL: ${target.href}`);
+    }
+    const hostname = target.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+    const listed = isListedHost(hostname, allowedHosts);
+    if (allowedHosts.length > 0 && !listed) {
+        throw new BlockedSourceError(`B-roll host is not in BROLL_ALLOWED_HOSTS: ${hostname}`);
+    }
+    if (!listed && net.isIP(hostname) && isPrivateAddress(hostname)) {
+        throw new BlockedSourceError(`B-roll address is private: ${hostname}`);
+    }
+    return listed;
+}
+
+/** dns.lookup that refuses private answers, so the address checked is the one connected to. */
+export function guardedLookup(hostname, options, callback) {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err);
+        const blocked = addresses.find((a) => isPrivateAddress(a.address));
+        if (blocked) {
+            return callback(new BlockedSourceError(`B-roll host ${hostname} resolves to a private address (${blocked.address})`));
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}
+
+/**
+ * Streams `src` to `outPath`, following at most `maxRedirects` checked
+ * redirects. Options default to the BROLL_* environment settings.
+ */
+export async function fetchBRoll(
+    src,
+    outPath,
+    { allowedHosts = BROLL_ALLOWED_HOSTS, maxBytes = BROLL_MAX_BYTES, maxRedirects = BROLL_MAX_REDIRECTS, timeoutMs = BROLL_TIMEOUT_MS } = {},
+) {
+    let target;
+    try {
+        target = new URL(src);
+    } catch {
+        throw new BlockedSourceError(`B-roll must be an http(s) URL: ${src}`);
+    }
+    const listed = checkBRollUrl(target, allowedHosts);
+    const client = target.protocol === "https:" ? https : http;
+    return new Promise((resolve, reject) => {
+        const req = client.get(target, { lookup: listed ? undefined : guardedLookup, timeout: timeoutMs }, (res) => {
+            const status = res.statusCode || 0;
+            if (status >= 300 && status < 400 && res.headers.location) {
+                res.resume();
+                if (maxRedirects <= 0) return reject(new Error(`Too many redirects downloading ${src}`));
+                const next = new URL(res.headers.location, target).href;
+                resolve(fetchBRoll(next, outPath, { allowedHosts, maxBytes, maxRedirects: maxRedirects - 1, timeoutMs }));
+                return;
+            }
+            if (status !== 200) {
+                res.resume();
+                return reject(new Error(`Failed to download ${src}: ${status}`));
+            }
+            if (Number(res.headers["content-length"]) > maxBytes) {
+                res.destroy();
+                return reject(new Error(`B-roll is larger than ${maxBytes} bytes: ${src}`));
+            }
+            let received = 0;
+            res.on("data", (chunk) => {
+                received += chunk.length;
+                if (received > maxBytes) res.destroy(new Error(`B-roll is larger than ${maxBytes} bytes: ${src}`));
+            });
+            pipeline(res, fs.createWriteStream(outPath)).then(resolve, reject);
+        });
+        req.on("timeout", () => req.destroy(new Error(`Timed out downloading ${src}`)));
+        req.on("error", reject);
+    });
+}
+
+/** Maps a local stock library URL to its file, refusing anything outside STOCK_LOCAL_DIR. */
+export function localStockPath(src, root = path.resolve(process.env.STOCK_LOCAL_DIR || "./stock-library")) {
+    let rel;
+    try {
+        rel = src.slice(LOCAL_STOCK_URL_PREFIX.length).split("/").map(decodeURIComponent);
+    } catch {
+        throw new BlockedSourceError("Invalid local stock path: " + src);
+    }
+    const abs = path.resolve(root, ...rel);
+    if (!abs.startsWith(root + path.sep)) throw new BlockedSourceError("Invalid local stock path: " + src);
+    return abs;
+}
@@ -0,0 +1,173 @@
+// lib/broll-suggestions.ts
+// Proposes B-roll placements from caption text: pick the most "visual"
+// keyword of each segment, search stock media for it and place the result
+// over the segment that mentioned it.
+import type { BRollEntry, CaptionSegment } from "../remotion/VideoWithCaptions";
+import type { StockMediaResult, StockMediaType } from "./stock-media";
+
+export type BRollSuggestion = BRollEntry & {
+  keyword: string;
+  segmentIndex: number;
+  score: number;
+};
+
+export type KeywordCandidate = { keyword: string; score: number };
+
+// English function words plus the Hinglish ones Whisper emits for our
+// Hindi/English clips; none of these make useful stock searches.
+const STOPWORDS = new Set(
+  `a about above after again against all also am an and any are as at be
+  because been before being below between both but by can could did do does
+  doing down during each even few for from further get gets got had has have
+  having he her here hers him his how i if in into is it its itself just
+  know like make many me more most much my myself no nor not now of off on
+  once one only or other our ours out over own really right same say she
+  should so some such than that the their theirs them then there these they
+  thing things think this those through to too under until up us very want
+  was way we well were what when where which while who whom why will with
+  would yeah yes you your yours going gonna actually basically okay ok let
+  lets see look go come something anything everything people time today
+  aap aur bhi bahut hai hain ham hum haan ho hoga hota hoti hum jo ka kahan
+  kaise ke ki kis kya ko kuch lekin main mein mera meri mere na nahi par pe
+  phir raha rahe rahi se sab sirf tab tha the thi toh tum unka uska vo woh
+  ye yeh ek do teen accha acha matlab`.split(/\s+/)
+);
+
+const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}']+/u)
+    .map((t) => t.replace(/^'+|'+$/g, ""));
+
+const isContentWord = (t: string) =>
+  t.length >= 3 && !STOPWORDS.has(t) && !/^\d+$/.test(t);
+
+/**
+ * Ranked search terms for one caption. Runs of consecutive content words
+ * (cut at stopwords and punctuation) are treated as noun-phrase-ish
+ * candidates; multi-word phrases and longer words score higher.
+ */
+export function extractKeywords(text: string, limit = 2): KeywordCandidate[] {
+  const scores = new Map<string, number>();
+  // split on punctuation first so phrases never span clauses
+  for (const clause of text.split(/[.,!?;:()"\n]+/)) {
+    let run: string[] = [];
+    const flush = () => {
+      for (let size = Math.min(3, run.length); size >= 1; size--) {
+        for (let i = 0; i + size <= run.length; i++) {
+          const phrase = run.slice(i, i + size).join(" ");
+          const letters = phrase.replace(/\s/g, "").length;
+          const score = Math.min(letters, 12) * (size > 1 ? 1.5 : 1);
+          scores.set(phrase, Math.max(scores.get(phrase) ?? 0, score));
+        }
+      }
+      run = [];
+    };
+    for (const token of tokenize(clause)) {
+      if (isContentWord(token)) run.push(token);
+      else flush();
+    }
+    flush();
+  }
+
+  return [...scores.entries()]
+    .map(([keyword, score]) => ({ keyword, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export type SuggestOptions = {
+  type?: StockMediaType;
+  maxSuggestions?: number;
+  // suggestions are kept at least this far apart
+  minGapSeconds?: number;
+  minDurationSeconds?: number;
+  maxDurationSeconds?: number;
+  search: (query: string, type: StockMediaType) => Promise<StockMediaResult[]>;
+};
+
+/**
+ * Picks the highest-scoring segments, searches for their keyword and
+ * returns one BRollEntry per placement, best first. Placements never
+ * overlap and the same media is never suggested twice. Failed searches
+ * are skipped unless no suggestion could be made at all.
+ */
+export async function suggestBRolls(
+  captions: CaptionSegment[],
+  {
+    type = "videos",
+    maxSuggestions = 6,
+    minGapSeconds = 1,
+    minDurationSeconds = 1.5,
+    maxDurationSeconds = 6,
+    search,
+  }: SuggestOptions
+): Promise<BRollSuggestion[]> {
+  const ranked = captions
+    .map((seg, segmentIndex) => ({
+      seg,
+      segmentIndex,
+      candidates: extractKeywords(seg.text, 2),
+    }))
+    .filter((c) => c.candidates.length > 0)
+    .sort((a, b) => b.candidates[0].score - a.candidates[0].score);
+
+  const placed: { start: number; end: number }[] = [];
+  const usedSrc = new Set<string>();
+  const cache = new Map<string, StockMediaResult[]>();
+  const suggestions: BRollSuggestion[] = [];
+  let searches = 0;
+  let firstError: unknown = null;
+
+  for (const { seg, segmentIndex, candidates } of ranked) {
+    if (suggestions.length >= maxSuggestions) break;
+
+    const startSeconds = seg.start;
+    const durationSeconds = Math.min(
+      maxDurationSeconds,
+      Math.max(minDurationSeconds, seg.end - seg.start)
+    );
+    const clashes = placed.some(
+      (p) =>
+        startSeconds < p.end + minGapSeconds &&
+        startSeconds + durationSeconds > p.start - minGapSeconds
+    );
+    if (clashes) continue;
+
+    for (const { keyword, score } of candidates) {
+      let results = cache.get(keyword);
+      if (!results) {
+        results = await search(keyword, type).catch((err) => {
+          console.error("[broll-suggestions] search failed for", keyword, err);
+          firstError ??= err;
+          return [];
+        });
+        searches++;
+        cache.set(keyword, results);
+      }
+      const pick = results.find((r) => r.src && !usedSrc.has(r.src));
+      if (!pick) continue;
+
+      usedSrc.add(pick.src);
+      placed.push({ start: startSeconds, end: startSeconds + durationSeconds });
+      suggestions.push({
+        id: `suggest-${segmentIndex}-${pick.id}`,
+        src: pick.src,
+        thumb: pick.thumb,
+        type: pick.type,
+        startSeconds,
+        durationSeconds,
+        keyword,
+        segmentIndex,
+        score,
+      });
+      break;
+    }
+  }
+
+  // one bad keyword is fine, but if nothing got through (missing API key,
+  // provider down) the caller should hear about it
+  if (suggestions.length === 0 && searches > 0 && firstError) throw firstError;
+
+  return suggestions.sort((a, b) => b.score - a.score);
+}
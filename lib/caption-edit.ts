@@ -0,0 +1,183 @@
+// lib/caption-edit.ts
+// Pure helpers behind the caption timeline editor.
+import type {
+  CaptionSegment,
+  CaptionWord,
+} from "../remotion/VideoWithCaptions";
+
+export type CaptionIssue = {
+  index: number;
+  kind: "negative-duration" | "overlap" | "empty-text" | "out-of-range";
+  message: string;
+};
+
+// Editor times are kept to the millisecond; anything finer is drag noise.
+export const roundTime = (t: number) => Math.round(t * 1000) / 1000;
+
+/**
+ * Flags segments the renderer would mishandle: zero/negative durations,
+ * overlaps with the previous segment, empty text and times past the end
+ * of the video. Returns one issue per problem, in segment order.
+ */
+export function validateCaptions(
+  captions: CaptionSegment[],
+  durationInSeconds?: number
+): CaptionIssue[] {
+  const issues: CaptionIssue[] = [];
+  captions.forEach((seg, index) => {
+    if (!(seg.end > seg.start)) {
+      issues.push({
+        index,
+        kind: "negative-duration",
+        message: `ends at ${seg.end}s, not after its start ${seg.start}s`,
+      });
+    }
+    const prev = captions[index - 1];
+    if (prev && seg.start < prev.end) {
+      issues.push({
+        index,
+        kind: "overlap",
+        message: `overlaps the previous segment by ${roundTime(
+          prev.end - seg.start
+        )}s`,
+      });
+    }
+    if (!seg.text.trim()) {
+      issues.push({ index, kind: "empty-text", message: "has no text" });
+    }
+    if (
+      seg.start < 0 ||
+      (durationInSeconds !== undefined && seg.end > durationInSeconds + 0.05)
+    ) {
+      issues.push({
+        index,
+        kind: "out-of-range",
+        message: "falls outside the video",
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Moves a segment to a new start/end, stretching any word timings
+ * proportionally so karaoke highlighting follows the new range.
+ */
+export function retimeSegment(
+  seg: CaptionSegment,
+  start: number,
+  end: number
+): CaptionSegment {
+  start = roundTime(start);
+  end = roundTime(end);
+  if (!seg.words || seg.words.length === 0) return { ...seg, start, end };
+
+  const oldLen = seg.end - seg.start;
+  const scale = oldLen > 0 ? (end - start) / oldLen : 0;
+  const map = (t: number) => roundTime(start + (t - seg.start) * scale);
+  return {
+    ...seg,
+    start,
+    end,
+    words: seg.words.map((w) => ({
+      ...w,
+      start: map(w.start),
+      end: map(w.end),
+    })),
+  };
+}
+
+/** Replaces a segment's text; word timings no longer match so they go. */
+export function setSegmentText(
+  seg: CaptionSegment,
+  text: string
+): CaptionSegment {
+  const next: CaptionSegment = { ...seg, text };
+  delete next.words;
+  return next;
+}
+
+/**
+ * Splits a segment at `at` seconds. With word timings the cut falls
+ * between the words on either side of `at`; without them the text is cut
+ * at the word nearest the same fraction of the duration.
+ */
+export function splitSegment(
+  seg: CaptionSegment,
+  at: number
+): [CaptionSegment, CaptionSegment] | null {
+  if (at <= seg.start || at >= seg.end) return null;
+  at = roundTime(at);
+
+  if (seg.words && seg.words.length > 1) {
+    let cut = seg.words.findIndex((w) => (w.start + w.end) / 2 >= at);
+    // `at` before the middle of the first word (or after the last one's):
+    // cut after the first word (before the last) at its boundary instead
+    if (cut === 0) {
+      cut = 1;
+      at = Math.max(at, seg.words[0].end);
+    } else if (cut === -1) {
+      cut = seg.words.length - 1;
+      at = Math.min(at, seg.words[cut].start);
+    }
+    if (at <= seg.start || at >= seg.end) return null;
+    // clamp the words next to the cut so neither half spills over `at`
+    const left = seg.words
+      .slice(0, cut)
+      .map((w) => ({ ...w, end: Math.min(w.end, at) }));
+    const right = seg.words
+      .slice(cut)
+      .map((w) => ({ ...w, start: Math.max(w.start, at) }));
+    const join = (ws: CaptionWord[]) => ws.map((w) => w.text).join(" ");
+    return [
+      { ...seg, end: at, text: join(left), words: left },
+      { ...seg, start: at, text: join(right), words: right },
+    ];
+  }
+
+  const tokens = seg.text.split(/\s+/).filter(Boolean);
+  const fraction = (at - seg.start) / (seg.end - seg.start);
+  const cut = Math.min(
+    Math.max(1, Math.round(tokens.length * fraction)),
+    Math.max(1, tokens.length - 1)
+  );
+  const rest: CaptionSegment = { ...seg };
+  delete rest.words;
+  return [
+    { ...rest, end: at, text: tokens.slice(0, cut).join(" ") },
+    { ...rest, start: at, text: tokens.slice(cut).join(" ") },
+  ];
+}
+
+/** Joins two segments into one spanning both, keeping word timings. */
+export function mergeSegments(
+  a: CaptionSegment,
+  b: CaptionSegment
+): CaptionSegment {
+  const merged: CaptionSegment = {
+    ...a,
+    start: Math.min(a.start, b.start),
+    end: Math.max(a.end, b.end),
+    text: `${a.text} ${b.text}`.trim(),
+  };
+  if (a.words?.length && b.words?.length) {
+    merged.words = [...a.words, ...b.words];
+  } else {
+    delete merged.words;
+  }
+  return merged;
+}
+
+/**
+ * Relabels every segment of speaker `from` as `to`. Renaming onto another
+ * speaker's name merges the two.
+ */
+export function renameSpeaker(
+  captions: CaptionSegment[],
+  from: string,
+  to: string
+): CaptionSegment[] {
+  return captions.map((seg) =>
+    seg.speaker === from ? { ...seg, speaker: to } : seg
+  );
+}
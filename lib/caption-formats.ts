@@ -0,0 +1,511 @@
+// lib/caption-formats.ts
+// Subtitle file import/export: SRT, WebVTT and ASS <-> CaptionSegment[].
+import type {
+  CaptionSegment,
+  CaptionStylePreset,
+  CaptionWord,
+} from "../remotion/VideoWithCaptions";
+import { getLineStarts, getSegmentWords } from "../remotion/VideoWithCaptions";
+
+export type CaptionFormat = "srt" | "vtt" | "ass" | "json";
+
+export const CAPTION_FORMATS: CaptionFormat[] = ["srt", "vtt", "ass", "json"];
+
+export const CAPTION_FORMAT_MIME: Record<CaptionFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  ass: "text/x-ssa",
+  json: "application/json",
+};
+
+export type ParsedCaptions = {
+  captions: CaptionSegment[];
+  // only set when the file carries styling we can map onto a preset (ASS, VTT cue settings)
+  stylePreset?: CaptionStylePreset;
+};
+
+/* ---------------- Timestamps ---------------- */
+
+// All times go through integer milliseconds so a parse -> serialize round
+// trip never drifts by float noise.
+const toMs = (seconds: number) => Math.max(0, Math.round(seconds * 1000));
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+const splitMs = (ms: number) => {
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor((ms % 3_600_000) / 60_000);
+  const s = Math.floor((ms % 60_000) / 1000);
+  return { h, m, s, ms: ms % 1000 };
+};
+
+const TIMESTAMP_RE = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/;
+
+/**
+ * Parses `HH:MM:SS,mmm`, `HH:MM:SS.mmm`, `MM:SS.mmm` and ASS-style
+ * `H:MM:SS.cc` into seconds. Fractions are read as decimal fractions, so
+ * `.5`, `.50` and `.500` all mean half a second.
+ */
+export function parseTimestamp(value: string): number {
+  const match = TIMESTAMP_RE.exec(value.trim());
+  if (!match) throw new Error(`Invalid timestamp: "${value}"`);
+  const [, h, m, s, frac] = match;
+  const ms = frac ? Math.round(Number(`0.${frac}`) * 1000) : 0;
+  return (
+    (Number(h || 0) * 3600 + Number(m) * 60 + Number(s)) * 1000 + ms
+  ) / 1000;
+}
+
+const formatSrtTime = (seconds: number) => {
+  const t = splitMs(toMs(seconds));
+  return `${pad(t.h)}:${pad(t.m)}:${pad(t.s)},${pad(t.ms, 3)}`;
+};
+
+const formatVttTime = (seconds: number) => {
+  const t = splitMs(toMs(seconds));
+  return `${pad(t.h)}:${pad(t.m)}:${pad(t.s)}.${pad(t.ms, 3)}`;
+};
+
+// ASS only stores centiseconds; this is the one format that cannot keep
+// millisecond precision.
+const formatAssTime = (seconds: number) => {
+  const cs = Math.round(toMs(seconds) / 10);
+  const t = splitMs(cs * 10);
+  return `${t.h}:${pad(t.m)}:${pad(t.s)}.${pad(Math.floor(t.ms / 10))}`;
+};
+
+const normalizeInput = (text: string) =>
+  text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+const splitBlocks = (text: string) =>
+  normalizeInput(text)
+    .split(/\n{2,}/)
+    .map((b) => b.trim())
+    .filter(Boolean);
+
+const stripMarkup = (text: string) =>
+  text
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .trim();
+
+/* ---------------- SRT ---------------- */
+
+// SRT has no speaker field; the name goes in front of the text, as in
+// transcripts ("Ana: Hello"). It is marked with a zero-width space, which
+// players do not show, and only a marked prefix is read back on import:
+// plain "Step one: ..." or "Warning: ..." cues are text.
+const SRT_SPEAKER_MARK = "\u200B";
+const SRT_SPEAKER_RE = /^\u200B([^:\n]+): /;
+
+// a colon in the name would end it early on import
+const srtSpeakerPrefix = (seg: CaptionSegment) => {
+  const name = seg.speaker?.replace(/:/g, " ").trim();
+  return name ? `${SRT_SPEAKER_MARK}${name}: ` : "";
+};
+
+export function parseSrt(text: string): ParsedCaptions {
+  const captions: CaptionSegment[] = [];
+  for (const block of splitBlocks(text)) {
+    const lines = block.split("\n");
+    const timeIdx = lines.findIndex((l) => l.includes("-->"));
+    if (timeIdx === -1) continue;
+    const [startStr, endStr] = lines[timeIdx].split("-->");
+    const raw = stripMarkup(lines.slice(timeIdx + 1).join("\n"));
+    const match = SRT_SPEAKER_RE.exec(raw);
+    const speaker = match?.[1].trim();
+    const body = match ? raw.slice(match[0].length) : raw;
+    captions.push({
+      start: parseTimestamp(startStr),
+      end: parseTimestamp(endStr.trim().split(/\s+/)[0]),
+      text: body,
+      ...(speaker ? { speaker } : {}),
+    });
+  }
+  return { captions };
+}
+
+export function serializeSrt(captions: CaptionSegment[]): string {
+  return (
+    captions
+      .map(
+        (seg, i) =>
+          `${i + 1}\n${formatSrtTime(seg.start)} --> ${formatSrtTime(
+            seg.end
+          )}\n${srtSpeakerPrefix(seg)}${seg.text}`
+      )
+      .join("\n\n") + "\n"
+  );
+}
+
+/* ---------------- WebVTT ---------------- */
+
+// Inline cue timestamps (`<00:00:01.250>word`) are how VTT expresses
+// karaoke timing; we read them back into CaptionSegment.words.
+const VTT_INLINE_TS_RE = /<((?:\d+:)?\d{1,2}:\d{2}\.\d{3})>/g;
+// the speaker of a cue: `<v Name>text` (classes like `<v.loud Name>` allowed)
+const VTT_VOICE_RE = /<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+
+const parseVttWords = (
+  body: string,
+  start: number,
+  end: number
+): CaptionWord[] | undefined => {
+  if (!VTT_INLINE_TS_RE.test(body)) return undefined;
+  VTT_INLINE_TS_RE.lastIndex = 0;
+
+  const parts = body.split(VTT_INLINE_TS_RE);
+  // parts = [text, ts, text, ts, text, ...]
+  const chunks: { start: number; text: string }[] = [
+    { start, text: parts[0] },
+  ];
+  for (let i = 1; i < parts.length; i += 2) {
+    chunks.push({ start: parseTimestamp(parts[i]), text: parts[i + 1] ?? "" });
+  }
+  const words = chunks
+    .map((c) => ({ start: c.start, text: stripMarkup(c.text) }))
+    .filter((c) => c.text.length > 0);
+  return words.map((w, i) => ({
+    start: w.start,
+    end: i + 1 < words.length ? words[i + 1].start : end,
+    text: w.text,
+  }));
+};
+
+export function parseVtt(text: string): ParsedCaptions {
+  const blocks = splitBlocks(text);
+  if (!blocks[0]?.startsWith("WEBVTT")) {
+    throw new Error("Not a WebVTT file: missing WEBVTT header");
+  }
+
+  const captions: CaptionSegment[] = [];
+  let topCues = 0;
+  for (const block of blocks.slice(1)) {
+    if (/^(NOTE|STYLE|REGION)\b/.test(block)) continue;
+    const lines = block.split("\n");
+    const timeIdx = lines.findIndex((l) => l.includes("-->"));
+    if (timeIdx === -1) continue;
+
+    const [startStr, rest] = lines[timeIdx].split("-->");
+    const [endStr, ...settings] = rest.trim().split(/\s+/);
+    const lineSetting = settings.find((s) => s.startsWith("line:"));
+    if (lineSetting && parseFloat(lineSetting.slice(5)) < 50) topCues++;
+
+    const start = parseTimestamp(startStr);
+    const end = parseTimestamp(endStr);
+    const rawBody = lines.slice(timeIdx + 1).join("\n");
+    const words = parseVttWords(rawBody, start, end);
+    const speaker = VTT_VOICE_RE.exec(rawBody)?.[1].trim();
+    captions.push({
+      start,
+      end,
+      text: stripMarkup(rawBody.replace(VTT_INLINE_TS_RE, "")),
+      ...(words ? { words } : {}),
+      ...(speaker ? { speaker } : {}),
+    });
+  }
+
+  let stylePreset: CaptionStylePreset | undefined;
+  if (captions.some((c) => c.words)) stylePreset = "karaoke";
+  else if (captions.length > 0 && topCues > captions.length / 2)
+    stylePreset = "top";
+
+  return { captions, stylePreset };
+}
+
+export function serializeVtt(
+  captions: CaptionSegment[],
+  stylePreset: CaptionStylePreset = "bottom"
+): string {
+  const settings = stylePreset === "top" ? " line:10%" : "";
+  const cues = captions.map((seg) => {
+    const lineStarts = getLineStarts(seg);
+    const body =
+      stylePreset === "karaoke"
+        ? getSegmentWords(seg)
+            .map(
+              (w, i) =>
+                (i === 0 ? "" : lineStarts.has(i) ? "\n" : " ") +
+                (toMs(w.start) === toMs(seg.start)
+                  ? w.text
+                  : `<${formatVttTime(w.start)}>${w.text}`)
+            )
+            .join("")
+        : seg.text;
+    // ">" would end the voice tag early
+    const voice = seg.speaker ? `<v ${seg.speaker.replace(/>/g, "")}>` : "";
+    return `${formatVttTime(seg.start)} --> ${formatVttTime(
+      seg.end
+    )}${settings}\n${voice}${body}`;
+  });
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+/* ---------------- ASS ---------------- */
+
+type AssSection = { name: string; lines: string[] };
+
+const readAssSections = (text: string): AssSection[] => {
+  const sections: AssSection[] = [];
+  for (const raw of normalizeInput(text).split("\n")) {
+    const line = raw.trim();
+    const header = /^\[(.+)\]$/.exec(line);
+    if (header) {
+      sections.push({ name: header[1].toLowerCase(), lines: [] });
+    } else if (line && !line.startsWith(";") && sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections;
+};
+
+// Splits a `Key: a, b, c` row into at most `count` fields; the last field
+// (Text for events) keeps its commas.
+const splitAssRow = (line: string, count: number) => {
+  const value = line.slice(line.indexOf(":") + 1).trim();
+  const fields: string[] = [];
+  let rest = value;
+  for (let i = 0; i < count - 1; i++) {
+    const idx = rest.indexOf(",");
+    if (idx === -1) break;
+    fields.push(rest.slice(0, idx).trim());
+    rest = rest.slice(idx + 1);
+  }
+  fields.push(rest);
+  return fields;
+};
+
+const readAssTable = (section: AssSection | undefined, rowKey: string) => {
+  if (!section) return [];
+  const formatLine = section.lines.find((l) => l.startsWith("Format:"));
+  if (!formatLine) return [];
+  const columns = splitAssRow(formatLine, Infinity).map((c) =>
+    c.trim().toLowerCase()
+  );
+  return section.lines
+    .filter((l) => l.startsWith(`${rowKey}:`))
+    .map((l) => {
+      const fields = splitAssRow(l, columns.length);
+      return Object.fromEntries(columns.map((c, i) => [c, fields[i] ?? ""]));
+    });
+};
+
+const ASS_KARAOKE_RE = /\\[kK][fo]?(\d+)/;
+
+const parseAssText = (raw: string, start: number) => {
+  const text = raw.replace(/\\N/gi, "\n").replace(/\\h/g, " ");
+  const alignMatch = /\\an(\d)/.exec(text);
+  const alignment = alignMatch ? Number(alignMatch[1]) : undefined;
+
+  if (!ASS_KARAOKE_RE.test(text)) {
+    return { text: stripMarkup(text), alignment };
+  }
+
+  // Each {\kNN} starts a syllable lasting NN centiseconds.
+  const words: CaptionWord[] = [];
+  let cursorCs = 0;
+  const syllables = text.split(/(\{[^}]*\})/);
+  let pendingCs = 0;
+  for (const part of syllables) {
+    if (part.startsWith("{")) {
+      const k = ASS_KARAOKE_RE.exec(part);
+      if (k) pendingCs = Number(k[1]);
+      continue;
+    }
+    const word = part.trim();
+    if (word) {
+      words.push({
+        start: (Math.round(start * 100) + cursorCs) / 100,
+        end: (Math.round(start * 100) + cursorCs + pendingCs) / 100,
+        text: word,
+      });
+    }
+    cursorCs += pendingCs;
+    pendingCs = 0;
+  }
+  return { text: stripMarkup(text), alignment, words };
+};
+
+export function parseAss(text: string): ParsedCaptions {
+  const sections = readAssSections(text);
+  const styles = readAssTable(
+    sections.find((s) => s.name === "v4+ styles" || s.name === "v4 styles"),
+    "Style"
+  );
+  const events = readAssTable(
+    sections.find((s) => s.name === "events"),
+    "Dialogue"
+  );
+  if (events.length === 0 && !sections.some((s) => s.name === "events")) {
+    throw new Error("Not an ASS file: missing [Events] section");
+  }
+
+  const styleAlignment = new Map(
+    styles.map((s) => [s.name, Number(s.alignment) || 2])
+  );
+
+  let topCount = 0;
+  let hasKaraoke = false;
+  const captions: CaptionSegment[] = events.map((ev) => {
+    const start = parseTimestamp(ev.start);
+    const end = parseTimestamp(ev.end);
+    const parsed = parseAssText(ev.text ?? "", start);
+    const alignment =
+      parsed.alignment ?? styleAlignment.get(ev.style) ?? 2;
+    if (alignment >= 7) topCount++;
+    if (parsed.words) hasKaraoke = true;
+    const speaker = ev.name?.trim();
+    return {
+      start,
+      end,
+      text: parsed.text,
+      ...(parsed.words && parsed.words.length > 0
+        ? { words: parsed.words }
+        : {}),
+      ...(speaker ? { speaker } : {}),
+    };
+  });
+
+  captions.sort((a, b) => a.start - b.start);
+
+  // ASS styling has far more knobs than our presets; map to the closest one
+  const stylePreset: CaptionStylePreset = hasKaraoke
+    ? "karaoke"
+    : topCount > captions.length / 2
+      ? "top"
+      : "bottom";
+
+  return { captions, stylePreset };
+}
+
+// ASS colours are &HAABBGGRR with alpha 00 = opaque
+const ASS_STYLES: Record<CaptionStylePreset, string> = {
+  bottom:
+    "Style: Default,Noto Sans,36,&H00FFFFFF,&H00FFFFFF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,3,2,0,2,40,40,60,1",
+  top: "Style: Default,Noto Sans,28,&H00FFFFFF,&H00FFFFFF,&H00000000,&H66000000,-1,0,0,0,100,100,0,0,3,2,0,8,40,40,20,1",
+  karaoke:
+    "Style: Default,Noto Sans,36,&H003BEBFF,&H66FFFFFF,&H00000000,&H99000000,-1,0,0,0,100,100,0,0,3,2,0,2,40,40,50,1",
+};
+
+const assKaraokeText = (seg: CaptionSegment) => {
+  const segStartCs = Math.round(toMs(seg.start) / 10);
+  const lineStarts = getLineStarts(seg);
+  let cursorCs = 0;
+  return getSegmentWords(seg)
+    .map((w, i) => {
+      const startCs = Math.round(toMs(w.start) / 10) - segStartCs;
+      const endCs = Math.round(toMs(w.end) / 10) - segStartCs;
+      const gap = startCs > cursorCs ? `{\\k${startCs - cursorCs}}` : "";
+      const dur = Math.max(0, endCs - Math.max(startCs, cursorCs));
+      cursorCs = Math.max(cursorCs, endCs);
+      const sep = i === 0 ? "" : lineStarts.has(i) ? "\\N" : " ";
+      return `${sep}${gap}{\\k${dur}}${w.text}`;
+    })
+    .join("");
+};
+
+export function serializeAss(
+  captions: CaptionSegment[],
+  stylePreset: CaptionStylePreset = "bottom"
+): string {
+  const events = captions.map((seg) => {
+    const text =
+      stylePreset === "karaoke"
+        ? assKaraokeText(seg)
+        : seg.text.replace(/\n/g, "\\N");
+    // the Name field holds the speaker; a comma would shift the fields
+    const name = (seg.speaker ?? "").replace(/,/g, " ");
+    return `Dialogue: 0,${formatAssTime(seg.start)},${formatAssTime(
+      seg.end
+    )},Default,${name},0,0,0,,${text}`;
+  });
+
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    "PlayResX: 1920",
+    "PlayResY: 1080",
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    ASS_STYLES[stylePreset],
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...events,
+    "",
+  ].join("\n");
+}
+
+/* ---------------- JSON ---------------- */
+
+// Accepts both a bare CaptionSegment[] and the `{ captions, bRolls }`
+// payload render.mjs reads.
+export function parseJsonCaptions(text: string): ParsedCaptions {
+  const data = JSON.parse(text);
+  const captions = Array.isArray(data) ? data : data?.captions;
+  if (!Array.isArray(captions)) {
+    throw new Error("JSON does not contain a captions array");
+  }
+  return {
+    captions,
+    stylePreset: Array.isArray(data) ? undefined : data?.stylePreset,
+  };
+}
+
+/* ---------------- Dispatch ---------------- */
+
+export function detectCaptionFormat(
+  text: string,
+  filename?: string
+): CaptionFormat {
+  const ext = filename?.split(".").pop()?.toLowerCase();
+  if (ext === "srt" || ext === "vtt" || ext === "json") return ext;
+  if (ext === "ass" || ext === "ssa") return "ass";
+
+  const head = normalizeInput(text).trimStart();
+  if (head.startsWith("WEBVTT")) return "vtt";
+  if (/^\[Script Info\]/im.test(head) || /^\[Events\]/im.test(head))
+    return "ass";
+  if (head.startsWith("[") || head.startsWith("{")) return "json";
+  if (head.includes("-->")) return "srt";
+  throw new Error("Could not detect caption format");
+}
+
+export function parseCaptions(
+  text: string,
+  format: CaptionFormat
+): ParsedCaptions {
+  switch (format) {
+    case "srt":
+      return parseSrt(text);
+    case "vtt":
+      return parseVtt(text);
+    case "ass":
+      return parseAss(text);
+    case "json":
+      return parseJsonCaptions(text);
+  }
+}
+
+export function serializeCaptions(
+  captions: CaptionSegment[],
+  format: CaptionFormat,
+  stylePreset: CaptionStylePreset = "bottom"
+): string {
+  switch (format) {
+    case "srt":
+      return serializeSrt(captions);
+    case "vtt":
+      return serializeVtt(captions, stylePreset);
+    case "ass":
+      return serializeAss(captions, stylePreset);
+    case "json":
+      return JSON.stringify(captions, null, 2);
+  }
+}
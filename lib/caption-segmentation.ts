@@ -0,0 +1,330 @@
+// lib/caption-segmentation.ts
+// Re-cuts captions into readable chunks: whisper's segments often run 15+
+// words and wrap into 3-4 lines over the speaker. Works on the word stream
+// (word timings, or an even spread when a segment has none), so it can be
+// run again on its own output with different settings. Captions never span
+// two speakers, or segments with different effect overrides.
+import { roundTime } from "./caption-edit";
+import type { CaptionEffectsOverride } from "../remotion/caption-effects";
+import {
+  CaptionSegment,
+  CaptionWord,
+  getSegmentWords,
+} from "../remotion/VideoWithCaptions";
+
+// "social" cuts 2-4 word chunks for shorts; "standard" follows subtitle
+// conventions (two balanced lines)
+export type SegmentationMode = "standard" | "social";
+
+export type SegmentationOptions = {
+  mode: SegmentationMode;
+  maxCharsPerLine: number;
+  maxLines: number;
+  minDurationSeconds: number;
+  maxDurationSeconds: number;
+  // reading speed: characters per second of on-screen time
+  maxCps: number;
+};
+
+export const SEGMENTATION_MODES: SegmentationMode[] = ["standard", "social"];
+
+export const SEGMENTATION_PRESETS: Record<
+  SegmentationMode,
+  SegmentationOptions
+> = {
+  standard: {
+    mode: "standard",
+    maxCharsPerLine: 42,
+    maxLines: 2,
+    minDurationSeconds: 0.8,
+    maxDurationSeconds: 6,
+    maxCps: 17,
+  },
+  social: {
+    mode: "social",
+    maxCharsPerLine: 24,
+    maxLines: 2,
+    minDurationSeconds: 0.4,
+    maxDurationSeconds: 2.5,
+    maxCps: 22,
+  },
+};
+
+export const DEFAULT_SEGMENTATION = SEGMENTATION_PRESETS.standard;
+
+// words per chunk in social mode
+const SOCIAL_MIN_WORDS = 2;
+const SOCIAL_MAX_WORDS = 4;
+// a pause this long always ends a caption
+const MAX_GAP_SECONDS = 1;
+// ...and one this long is a good place to end one
+const BREAK_GAP_SECONDS = 0.3;
+
+// words a line or caption should not end on: they belong to what follows
+const WEAK_ENDINGS = new Set([
+  "a",
+  "an",
+  "the",
+  "and",
+  "or",
+  "but",
+  "nor",
+  "so",
+  "to",
+  "of",
+  "in",
+  "on",
+  "at",
+  "for",
+  "with",
+  "from",
+  "by",
+  "as",
+  "if",
+  "that",
+  "my",
+  "your",
+  "his",
+  "her",
+  "our",
+  "their",
+  "its",
+  "i",
+  "we",
+  "you",
+  "is",
+  "are",
+  "was",
+]);
+
+const SENTENCE_END_RE = /[.!?…]["')\]]*$/;
+const CLAUSE_END_RE = /[,;:—–-]["')\]]*$/;
+
+const bare = (word: string) =>
+  word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+
+/** 0 after a full stop, more the worse a place `word` is to end a line. */
+function breakPenalty(word: string): number {
+  if (SENTENCE_END_RE.test(word)) return 0;
+  if (CLAUSE_END_RE.test(word)) return 1;
+  return WEAK_ENDINGS.has(bare(word)) ? 5 : 3;
+}
+
+const lineLength = (tokens: string[]) =>
+  tokens.reduce((n, t) => n + t.length, 0) + Math.max(0, tokens.length - 1);
+
+/**
+ * Splits `tokens` into as few lines of at most `maxChars` as possible (up
+ * to `maxLines`), balancing their lengths and preferring to break after
+ * punctuation. A word longer than a line gets a line of its own. Returns
+ * null when the text does not fit.
+ */
+export function breakLines(
+  tokens: string[],
+  maxChars: number,
+  maxLines: number
+): string[] | null {
+  if (tokens.length === 0) return [];
+  if (lineLength(tokens) <= maxChars) return [tokens.join(" ")];
+
+  const n = tokens.length;
+  const fits = (i: number, j: number) =>
+    j - i === 1 || lineLength(tokens.slice(i, j)) <= maxChars;
+
+  for (let lines = 2; lines <= Math.min(maxLines, n); lines++) {
+    const target = lineLength(tokens) / lines;
+    // cost[k][j]: best split of tokens[0..j) into k lines; from[k][j] is
+    // where the last of those lines starts
+    const cost = Array.from({ length: lines + 1 }, () =>
+      new Array<number>(n + 1).fill(Infinity)
+    );
+    const from = Array.from({ length: lines + 1 }, () =>
+      new Array<number>(n + 1).fill(-1)
+    );
+    cost[0][0] = 0;
+    for (let k = 1; k <= lines; k++) {
+      for (let j = k; j <= n; j++) {
+        for (let i = k - 1; i < j; i++) {
+          if (cost[k - 1][i] === Infinity || !fits(i, j)) continue;
+          const len = lineLength(tokens.slice(i, j));
+          const ending = j < n ? breakPenalty(tokens[j - 1]) * 4 : 0;
+          const c = cost[k - 1][i] + (len - target) ** 2 + ending;
+          if (c < cost[k][j]) {
+            cost[k][j] = c;
+            from[k][j] = i;
+          }
+        }
+      }
+    }
+    if (cost[lines][n] === Infinity) continue;
+
+    const out: string[] = [];
+    for (let k = lines, j = n; k > 0; k--) {
+      const i = from[k][j];
+      out.unshift(tokens.slice(i, j).join(" "));
+      j = i;
+    }
+    return out;
+  }
+  return null;
+}
+
+type TimedWord = CaptionWord & {
+  timed: boolean;
+  speaker?: string;
+  effects?: CaptionEffectsOverride;
+  // compares the overrides of words from different segments
+  effectsKey: string;
+};
+
+function flattenWords(captions: CaptionSegment[]): TimedWord[] {
+  return [...captions]
+    .sort((a, b) => a.start - b.start)
+    .flatMap((seg) => {
+      const timed = Boolean(seg.words?.length);
+      const effectsKey = JSON.stringify(seg.effects ?? null);
+      return getSegmentWords(seg)
+        .map((w) => ({
+          ...w,
+          text: w.text.trim(),
+          timed,
+          speaker: seg.speaker,
+          effects: seg.effects,
+          effectsKey,
+        }))
+        .filter((w) => w.text.length > 0);
+    });
+}
+
+/**
+ * Splits and merges captions by the options' line length, line count,
+ * duration and reading speed. Chunks end at pauses and punctuation where
+ * they can, lines are balanced, and captions shorter than the minimum (or
+ * too fast to read) are held on screen into the following gap, but never
+ * past the next caption or `durationInSeconds` (by default the end of the
+ * last input caption).
+ */
+export function resegmentCaptions(
+  captions: CaptionSegment[],
+  options: SegmentationOptions = DEFAULT_SEGMENTATION,
+  durationInSeconds = Math.max(0, ...captions.map((c) => c.end))
+): CaptionSegment[] {
+  const words = flattenWords(captions);
+  const n = words.length;
+  if (n === 0) return [];
+
+  const social = options.mode === "social";
+  const capacity = options.maxCharsPerLine * options.maxLines;
+
+  // cost of showing words[i..j) as one caption; Infinity when not allowed
+  const chunkCost = (i: number, j: number): number => {
+    const count = j - i;
+    const tokens = words.slice(i, j).map((w) => w.text);
+    const single = count === 1;
+    if (social && count > SOCIAL_MAX_WORDS) return Infinity;
+    let inner = 0;
+    for (let k = i + 1; k < j; k++) {
+      if (words[k].start - words[k - 1].end > MAX_GAP_SECONDS) return Infinity;
+      if (words[k].speaker !== words[i].speaker) return Infinity;
+      if (words[k].effectsKey !== words[i].effectsKey) return Infinity;
+      // social chunks stay within a sentence and avoid running over a comma
+      if (social && SENTENCE_END_RE.test(words[k - 1].text)) return Infinity;
+      if (social && CLAUSE_END_RE.test(words[k - 1].text)) inner += 2;
+    }
+    const duration = words[j - 1].end - words[i].start;
+    if (!single && duration > options.maxDurationSeconds) return Infinity;
+    if (
+      !single &&
+      !breakLines(tokens, options.maxCharsPerLine, options.maxLines)
+    ) {
+      return Infinity;
+    }
+
+    const chars = lineLength(tokens);
+    let cost = (social ? 0.5 : 1) + inner;
+    if (social && count < SOCIAL_MIN_WORDS) cost += 3;
+    if (!social) cost += 1.5 * (1 - Math.min(1, chars / capacity)) ** 2;
+    if (duration < options.minDurationSeconds) {
+      cost +=
+        (2 * (options.minDurationSeconds - duration)) /
+        options.minDurationSeconds;
+    }
+    const cps = chars / Math.max(duration, options.minDurationSeconds);
+    if (cps > options.maxCps) cost += (cps - options.maxCps) * 0.25;
+    if (j < n) {
+      // a pause does not make "the" or "we" a good last word; social
+      // chunks break often, so where they break weighs more
+      const last = tokens[count - 1];
+      const pause =
+        words[j].start - words[j - 1].end >= BREAK_GAP_SECONDS &&
+        !WEAK_ENDINGS.has(bare(last));
+      cost += pause ? 0 : breakPenalty(last) * (social ? 2 : 1);
+    }
+    return cost;
+  };
+
+  // longest chunk worth trying: past the line capacity nothing fits anyway
+  const maxWords = social ? SOCIAL_MAX_WORDS : capacity;
+  const best = new Array<number>(n + 1).fill(Infinity);
+  const from = new Array<number>(n + 1).fill(-1);
+  best[0] = 0;
+  for (let j = 1; j <= n; j++) {
+    for (let i = j - 1; i >= Math.max(0, j - maxWords); i--) {
+      if (best[i] === Infinity) continue;
+      const c = chunkCost(i, j);
+      // every limit only gets harder to meet with more words
+      if (c === Infinity) break;
+      if (best[i] + c < best[j]) {
+        best[j] = best[i] + c;
+        from[j] = i;
+      }
+    }
+  }
+
+  const chunks: [number, number][] = [];
+  for (let j = n; j > 0; j = from[j]) chunks.unshift([from[j], j]);
+
+  return chunks.map(([i, j], index) => {
+    const chunk = words.slice(i, j);
+    const tokens = chunk.map((w) => w.text);
+    const lines = breakLines(
+      tokens,
+      options.maxCharsPerLine,
+      options.maxLines
+    ) ?? [tokens.join(" ")];
+    const start = roundTime(chunk[0].start);
+    let end = chunk[chunk.length - 1].end;
+
+    // hold short or fast captions on screen into the gap that follows
+    const next = chunks[index + 1]
+      ? words[chunks[index + 1][0]].start
+      : durationInSeconds;
+    const wanted = Math.max(
+      options.minDurationSeconds,
+      lineLength(tokens) / options.maxCps
+    );
+    if (end - start < wanted) {
+      end = Math.max(
+        end,
+        Math.min(start + wanted, next, start + options.maxDurationSeconds)
+      );
+    }
+
+    const seg: CaptionSegment = {
+      start,
+      end: roundTime(Math.max(end, start + 0.01)),
+      text: lines.join("\n"),
+    };
+    if (chunk[0].speaker) seg.speaker = chunk[0].speaker;
+    if (chunk[0].effects) seg.effects = chunk[0].effects;
+    // evenly spread stand-ins are not kept as if they were real timings
+    if (chunk.every((w) => w.timed)) {
+      seg.words = chunk.map((w) => ({
+        start: roundTime(w.start),
+        end: roundTime(w.end),
+        text: w.text,
+      }));
+    }
+    return seg;
+  });
+}
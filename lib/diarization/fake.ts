@@ -0,0 +1,43 @@
+// lib/diarization/fake.ts
+import type { Diarizer, SpeakerTurn } from "./types";
+
+// Speakers take turns this long, matching the fake transcriber's lines
+const TURN_SECONDS = 2;
+// ...for this long, which covers any FAKE_TRANSCRIPT in practice
+const SCRIPT_SECONDS = 600;
+
+/**
+ * Deterministic diarizer for tests and offline development. Ignores the
+ * audio: FAKE_DIARIZATION ("0:alice|2.5:bob|6:alice", turn start times in
+ * seconds) sets the turns, each lasting until the next; otherwise
+ * `speakers` (default 2) voices alternate every two seconds.
+ */
+export const fakeDiarizer: Diarizer = {
+  name: "fake",
+  audioFormat: "mp3",
+
+  async diarize(_audioPath, options) {
+    if (process.env.FAKE_DIARIZATION) {
+      const starts = process.env.FAKE_DIARIZATION.split("|").map((part) => {
+        const [at, ...label] = part.split(":");
+        return { start: Number(at), speaker: label.join(":").trim() };
+      });
+      return starts.map(
+        (t, i): SpeakerTurn => ({
+          ...t,
+          end: starts[i + 1]?.start ?? t.start + SCRIPT_SECONDS,
+        })
+      );
+    }
+
+    const voices = options?.speakers ?? 2;
+    return Array.from(
+      { length: SCRIPT_SECONDS / TURN_SECONDS },
+      (_, i): SpeakerTurn => ({
+        start: i * TURN_SECONDS,
+        end: (i + 1) * TURN_SECONDS,
+        speaker: `SPEAKER_${String(i % voices).padStart(2, "0")}`,
+      })
+    );
+  },
+};
@@ -0,0 +1,128 @@
+// lib/diarization/index.ts
+import type {
+  CaptionSegment,
+  CaptionWord,
+} from "../../remotion/VideoWithCaptions";
+import { roundTime } from "../caption-edit";
+import { fakeDiarizer } from "./fake";
+import { localDiarizer } from "./local";
+import type { Diarizer, DiarizerName, SpeakerTurn } from "./types";
+
+export type {
+  DiarizeOptions,
+  Diarizer,
+  DiarizerName,
+  SpeakerTurn,
+} from "./types";
+
+const diarizers: Record<DiarizerName, Diarizer> = {
+  local: localDiarizer,
+  fake: fakeDiarizer,
+};
+
+export const DIARIZERS = Object.keys(diarizers) as DiarizerName[];
+
+export const isDiarizerName = (name: unknown): name is DiarizerName =>
+  typeof name === "string" && Object.hasOwn(diarizers, name);
+
+/**
+ * Picks the diarizer named in the request, falling back to the DIARIZER
+ * env var and then the local command.
+ */
+export function getDiarizer(requested?: string | null): Diarizer {
+  const name = requested || process.env.DIARIZER || "local";
+  if (!isDiarizerName(name)) {
+    throw new Error(
+      `Unknown diarizer "${name}". Expected one of: ${DIARIZERS.join(", ")}`
+    );
+  }
+  return diarizers[name];
+}
+
+// a one-word run shorter than this is put down to jitter at a turn edge
+const MIN_RUN_SECONDS = 0.4;
+
+/**
+ * Labels captions with the speaker whose turns cover them most, named
+ * "Speaker 1", "Speaker 2", ... in order of first appearance. Segments
+ * with word timings are split where the speaker changes mid-segment.
+ */
+export function applySpeakers(
+  captions: CaptionSegment[],
+  turns: SpeakerTurn[]
+): CaptionSegment[] {
+  if (turns.length === 0) return captions;
+
+  const names = new Map<string, string>();
+  const nameOf = (label: string) => {
+    if (!names.has(label)) names.set(label, `Speaker ${names.size + 1}`);
+    return names.get(label)!;
+  };
+
+  // the turn overlapping [start, end) most, else the nearest one
+  const speakerAt = (start: number, end: number): string => {
+    let best: SpeakerTurn | null = null;
+    let bestOverlap = 0;
+    for (const t of turns) {
+      const overlap = Math.min(end, t.end) - Math.max(start, t.start);
+      if (overlap > bestOverlap) {
+        best = t;
+        bestOverlap = overlap;
+      }
+    }
+    if (best) return best.speaker;
+    const mid = (start + end) / 2;
+    const distance = (t: SpeakerTurn) =>
+      Math.min(Math.abs(mid - t.start), Math.abs(mid - t.end));
+    return turns.reduce((a, b) => (distance(b) < distance(a) ? b : a)).speaker;
+  };
+
+  const runLength = (words: CaptionWord[]) =>
+    words[words.length - 1].end - words[0].start;
+
+  return [...captions]
+    .sort((a, b) => a.start - b.start)
+    .flatMap((seg): CaptionSegment[] => {
+      if (!seg.words?.length) {
+        return [{ ...seg, speaker: nameOf(speakerAt(seg.start, seg.end)) }];
+      }
+
+      const runs: { label: string; words: CaptionWord[] }[] = [];
+      for (const word of seg.words) {
+        const label = speakerAt(word.start, word.end);
+        const last = runs[runs.length - 1];
+        if (last?.label === label) last.words.push(word);
+        else runs.push({ label, words: [word] });
+      }
+      // fold stray single words into the run before them (or after, for
+      // the first), then join runs that now share a speaker
+      const merged: typeof runs = [];
+      runs.forEach((run, i) => {
+        const stray =
+          run.words.length === 1 && runLength(run.words) < MIN_RUN_SECONDS;
+        const last = merged[merged.length - 1];
+        if (last && (stray || last.label === run.label)) {
+          last.words.push(...run.words);
+        } else if (!last && stray && runs[i + 1]) {
+          runs[i + 1].words.unshift(...run.words);
+        } else {
+          merged.push(run);
+        }
+      });
+
+      if (merged.length === 1) {
+        return [{ ...seg, speaker: nameOf(merged[0].label) }];
+      }
+      return merged.map((run, i) => ({
+        ...seg,
+        start: i === 0 ? seg.start : roundTime(run.words[0].start),
+        end:
+          i === merged.length - 1
+            ? seg.end
+            : roundTime(run.words[run.words.length - 1].end),
+        text: run.words.map((w) => w.text).join(" "),
+        words: run.words,
+        speaker: nameOf(run.label),
+      }));
+    });
+}
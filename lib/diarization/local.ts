@@ -0,0 +1,78 @@
+// lib/diarization/local.ts
+// Offline diarization through a local command, e.g. a pyannote.audio
+// script. The command gets the audio path (plus `--num-speakers N` when
+// the request knows it) and prints RTTM on stdout.
+//
+//   DIARIZATION_BIN   executable, defaults to "diarize"
+//   DIARIZATION_ARGS  extra arguments placed before the audio path
+import { spawn } from "node:child_process";
+import type { Diarizer, SpeakerTurn } from "./types";
+
+const TIMEOUT_MS = 30 * 60 * 1000;
+
+function runForStdout(bin: string, args: string[]): Promise<string> {
+  console.log("[diarization]", bin, args.join(" "));
+  return new Promise((resolve, reject) => {
+    const child = spawn(bin, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    const timer = setTimeout(() => child.kill("SIGKILL"), TIMEOUT_MS);
+
+    child.stdout.on("data", (data) => {
+      stdout += data.toString();
+    });
+    child.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(new Error(`Could not start ${bin}: ${err.message}`));
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(stdout);
+      else
+        reject(
+          new Error(`${bin} exited with code ${code}: ${stderr.slice(-2000)}`)
+        );
+    });
+  });
+}
+
+/**
+ * Reads the SPEAKER rows of an RTTM file:
+ * `SPEAKER <file> <chan> <start> <duration> <NA> <NA> <speaker> <NA> <NA>`.
+ */
+function parseRttm(text: string): SpeakerTurn[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/))
+    .filter((f) => f[0] === "SPEAKER" && f.length >= 8)
+    .map((f) => {
+      const start = Number(f[3]);
+      return { start, end: start + Number(f[4]), speaker: f[7] };
+    })
+    .filter((t) => Number.isFinite(t.start) && t.end > t.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+export const localDiarizer: Diarizer = {
+  name: "local",
+  // pyannote and most diarization models want 16 kHz mono PCM
+  audioFormat: "wav",
+
+  async diarize(audioPath, options) {
+    const bin = process.env.DIARIZATION_BIN || "diarize";
+    const extra = (process.env.DIARIZATION_ARGS || "")
+      .split(/\s+/)
+      .filter(Boolean);
+    const stdout = await runForStdout(bin, [
+      ...extra,
+      audioPath,
+      ...(options?.speakers
+        ? ["--num-speakers", String(options.speakers)]
+        : []),
+    ]);
+    return parseRttm(stdout);
+  },
+};
@@ -0,0 +1,23 @@
+// lib/diarization/types.ts
+
+export type DiarizerName = "local" | "fake";
+
+// one stretch of speech by one voice; `speaker` is the backend's own label
+// (e.g. "SPEAKER_00"), renamed to "Speaker 1", ... when applied
+export type SpeakerTurn = { start: number; end: number; speaker: string };
+
+export type DiarizeOptions = {
+  // number of speakers when known; backends estimate it otherwise
+  speakers?: number;
+};
+
+/**
+ * A speaker diarization backend: who speaks when. Gets the audio the route
+ * extracted in its `audioFormat`; the transcript is matched up afterwards
+ * by applySpeakers.
+ */
+export interface Diarizer {
+  name: DiarizerName;
+  audioFormat: "mp3" | "wav";
+  diarize(audioPath: string, options?: DiarizeOptions): Promise<SpeakerTurn[]>;
+}
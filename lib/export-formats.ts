@@ -0,0 +1,141 @@
+// lib/export-formats.ts
+// Output formats for /api/render. The options travel from the export
+// dialog through the route to render.mjs, which maps them onto
+// renderMedia; the table here decides file names and Content-Type.
+import type { TimeRange } from "./auto-cut";
+import type { CaptionFormat } from "./caption-formats";
+
+export type ExportCodec = "h264" | "h265" | "vp9" | "prores" | "gif";
+
+// "burn-in" draws the captions into the picture; the others mux them as
+// subtitle tracks the viewer can switch on and off
+export type SubtitleMode = "burn-in" | "mov_text" | "webvtt" | "ass";
+
+export type ExportOptions = {
+  codec: ExportCodec;
+  // constant quality; null uses the format's default. Ignored when
+  // videoBitrate is set and for formats without a CRF
+  crf: number | null;
+  // target bitrate like "8M" or "2500k"; overrides crf
+  videoBitrate: string | null;
+  audio: boolean;
+  // output size relative to the composition (0.5 = half width and height)
+  scale: number;
+  // part of the video to render, in source seconds (what the Player shows);
+  // null renders everything
+  range: TimeRange | null;
+  subtitles: SubtitleMode;
+};
+
+export type ExportFormat = {
+  label: string;
+  extension: string;
+  mimeType: string;
+  // [min, max] and default; null when the encoder has no CRF
+  crf: { min: number; max: number; default: number } | null;
+  supportsAudio: boolean;
+};
+
+export const EXPORT_FORMATS: Record<ExportCodec, ExportFormat> = {
+  h264: {
+    label: "MP4 (H.264)",
+    extension: "mp4",
+    mimeType: "video/mp4",
+    crf: { min: 1, max: 51, default: 18 },
+    supportsAudio: true,
+  },
+  h265: {
+    label: "MP4 (H.265)",
+    extension: "mp4",
+    mimeType: "video/mp4",
+    crf: { min: 0, max: 51, default: 23 },
+    supportsAudio: true,
+  },
+  vp9: {
+    label: "WebM (VP9)",
+    extension: "webm",
+    mimeType: "video/webm",
+    crf: { min: 0, max: 63, default: 28 },
+    supportsAudio: true,
+  },
+  prores: {
+    label: "ProRes (MOV)",
+    extension: "mov",
+    mimeType: "video/quicktime",
+    crf: null,
+    supportsAudio: true,
+  },
+  gif: {
+    label: "GIF",
+    extension: "gif",
+    mimeType: "image/gif",
+    crf: null,
+    supportsAudio: false,
+  },
+};
+
+export const EXPORT_CODECS = Object.keys(EXPORT_FORMATS) as ExportCodec[];
+
+export type SubtitleModeInfo = {
+  label: string;
+  // video codecs whose container can carry this subtitle codec
+  codecs: ExportCodec[];
+  // what the captions are serialized to before muxing
+  format: CaptionFormat | null;
+};
+
+export const SUBTITLE_MODES: Record<SubtitleMode, SubtitleModeInfo> = {
+  "burn-in": {
+    label: "Burned in",
+    codecs: EXPORT_CODECS,
+    format: null,
+  },
+  mov_text: {
+    label: "Soft, MP4/MOV (mov_text)",
+    codecs: ["h264", "h265", "prores"],
+    format: "srt",
+  },
+  webvtt: {
+    label: "Soft, WebVTT (WebM/MKV)",
+    codecs: ["h264", "h265", "vp9"],
+    format: "vtt",
+  },
+  ass: {
+    label: "Soft, ASS (MKV)",
+    codecs: ["h264", "h265", "vp9"],
+    format: "ass",
+  },
+};
+
+export const SUBTITLE_MODE_NAMES = Object.keys(
+  SUBTITLE_MODES
+) as SubtitleMode[];
+
+// GIFs get big fast; they are for short teasers
+export const MAX_GIF_SECONDS = 30;
+// GIFs are rendered at every second frame (15 fps)
+export const GIF_FRAME_STEP = 2;
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  codec: "h264",
+  crf: null,
+  videoBitrate: null,
+  audio: true,
+  scale: 1,
+  range: null,
+  subtitles: "burn-in",
+};
+
+/**
+ * File extension of an export. Soft subtitles other than mov_text need a
+ * container that takes them: WebM for VP9 + WebVTT, MKV otherwise.
+ */
+export function exportExtension({ codec, subtitles }: ExportOptions): string {
+  if (subtitles === "ass") return "mkv";
+  if (subtitles === "webvtt") return codec === "vp9" ? "webm" : "mkv";
+  return EXPORT_FORMATS[codec].extension;
+}
+
+/** "captioned.mp4", or "captioned-hi.webm" for one language of several. */
+export const exportFilename = (extension: string, language?: string | null) =>
+  `captioned${language ? `-${language}` : ""}.${extension}`;
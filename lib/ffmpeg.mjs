@@ -0,0 +1,118 @@
+// lib/ffmpeg.mjs
+// ffmpeg/ffprobe helpers for render.mjs. FFMPEG_PATH and FFPROBE_PATH win
+// over the binaries shipped by ffmpeg-static and ffprobe-static (as in
+// lib/transcription/audio.ts). Plain Node ESM, since render.mjs imports it
+// unbundled.
+import { spawn, spawnSync } from "child_process";
+import path from "path";
+import ffmpegStatic from "ffmpeg-static";
+import ffprobeStatic from "ffprobe-static";
+
+export const ffmpegPath = process.env.FFMPEG_PATH || ffmpegStatic;
+export const ffprobePath = process.env.FFPROBE_PATH || ffprobeStatic.path;
+
+function log(...args) {
+    console.log("[ffmpeg]", ...args);
+}
+
+// keep in sync with SUBTITLE_MODES in lib/export-formats.ts
+export const SUBTITLE_CODECS = { mov_text: "mov_text", webvtt: "webvtt", ass: "ass" };
+export const SUBTITLE_EXTENSIONS = { mov_text: "srt", webvtt: "vtt", ass: "ass" };
+
+// a job's cancel signal stopped ffmpeg; the job fails rather than carrying on without the step
+export class FfmpegCancelledError extends Error {}
+
+/**
+ * Run ffmpeg without blocking the event loop, so IPC cancel messages and
+ * SIGTERM are handled while it works. It is killed when `cancelSignal`
+ * (from makeCancelSignal) fires or after `timeoutMs`, and the promise then
+ * rejects. Resolves to { status, stderr }; stderr is only collected with
+ * `captureStderr`, otherwise it goes to ours.
+ *
+ * @param {string[]} args
+ * @param {{ cancelSignal?: (callback: () => void) => void; timeoutMs?: number; captureStderr?: boolean }} [options]
+ */
+export function runFfmpeg(args, { cancelSignal, timeoutMs, captureStderr = false } = {}) {
+    return new Promise((resolve, reject) => {
+        const child = spawn(ffmpegPath, args, { stdio: ["ignore", "inherit", captureStderr ? "pipe" : "inherit"] });
+        let stderr = "";
+        if (captureStderr) {
+            child.stderr.setEncoding("utf8");
+            child.stderr.on("data", (chunk) => {
+                stderr += chunk;
+            });
+        }
+        let stopped = null;
+        const stop = (err) => {
+            if (stopped || child.exitCode !== null || child.signalCode !== null) return;
+            stopped = err;
+            child.kill("SIGKILL");
+        };
+        const timer = timeoutMs ? setTimeout(() => stop(new Error(`ffmpeg timed out after ${timeoutMs / 1000}s`)), timeoutMs) : null;
+        if (cancelSignal) cancelSignal(() => stop(new FfmpegCancelledError("ffmpeg was cancelled")));
+        child.on("error", (err) => {
+            clearTimeout(timer);
+            reject(err);
+        });
+        child.on("close", (status) => {
+            clearTimeout(timer);
+            if (stopped) reject(stopped);
+            else resolve({ status, stderr });
+        });
+    });
+}
+
+/** Run ffprobe and return its stdout. */
+export async function runFfprobe(args) {
+    const r = spawnSync(ffprobePath, args, { encoding: "utf8", timeout: 60 * 1000 });
+    if (r.error) throw r.error;
+    if (r.status !== 0) throw new Error("ffprobe failed: " + r.stderr);
+    return r.stdout;
+}
+
+/** The subtitle streams of a file as ffprobe reports them: [{ codec_name, tags: { language, title } }]. */
+export async function probeSubtitleStreams(filePath) {
+    const probe = JSON.parse(
+        await runFfprobe([
+            "-v",
+            "error",
+            "-select_streams",
+            "s",
+            "-show_entries",
+            "stream=codec_name:stream_tags=language,title",
+            "-of",
+            "json",
+            path.resolve(filePath),
+        ]),
+    );
+    return probe.streams || [];
+}
+
+/**
+ * Mux subtitle files ({ path, language, title }) into a rendered video
+ * without re-encoding it, then check with ffprobe that every track made it
+ * in with the right codec. (Language tags are only logged: MOV stores the
+ * bibliographic variant, e.g. "fre" for "fra".) `cancelSignal` stops
+ * ffmpeg as in runFfmpeg.
+ */
+export async function muxSubtitles(videoPath, tracks, outPath, mode, cancelSignal) {
+    const args = ["-y", "-i", videoPath];
+    for (const t of tracks) args.push("-i", t.path);
+    args.push("-map", "0:v", "-map", "0:a?");
+    tracks.forEach((_, i) => args.push("-map", `${i + 1}:0`));
+    args.push("-c:v", "copy", "-c:a", "copy", "-c:s", SUBTITLE_CODECS[mode]);
+    tracks.forEach((t, i) => {
+        args.push(`-metadata:s:s:${i}`, `language=${t.language}`, `-metadata:s:s:${i}`, `title=${t.title}`);
+    });
+    if (tracks.length > 0) args.push("-disposition:s:0", "default");
+    args.push(outPath);
+    log("subtitle mux args:", ffmpegPath, args.join(" "));
+    const r = await runFfmpeg(args, { cancelSignal, timeoutMs: 10 * 60 * 1000 });
+    if (r.status !== 0) throw new Error(`ffmpeg subtitle mux exited with code ${r.status}`);
+
+    const streams = await probeSubtitleStreams(outPath);
+    if (streams.length !== tracks.length || streams.some((s) => s.codec_name !== SUBTITLE_CODECS[mode])) {
+        throw new Error(`Subtitle tracks missing after mux: expected ${tracks.length}, ffprobe found ${JSON.stringify(streams)}`);
+    }
+    log("Muxed", streams.length, "subtitle track(s):", streams.map((s) => `${s.codec_name}/${(s.tags && s.tags.language) || "und"}`).join(", "));
+}
@@ -0,0 +1,81 @@
+// lib/file-response.ts
+// Streams a file from disk as a route response, honouring single byte
+// ranges so <video> elements (and the Player) can seek.
+import fs from "fs";
+import fsPromises from "fs/promises";
+import path from "path";
+import { NextResponse } from "next/server";
+import { Readable } from "stream";
+
+export const MEDIA_MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".mp4": "video/mp4",
+  ".m4v": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".mkv": "video/x-matroska",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".aac": "audio/aac",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".flac": "audio/flac",
+};
+
+export const mimeTypeFor = (filePath: string) =>
+  MEDIA_MIME_TYPES[path.extname(filePath).toLowerCase()];
+
+/**
+ * Response for `filePath`, or null when it is not a readable file so the
+ * caller can answer with its own 404.
+ */
+export async function fileResponse(
+  req: Request,
+  filePath: string,
+  contentType: string,
+  headers: Record<string, string> = {}
+): Promise<NextResponse | null> {
+  const stat = await fsPromises.stat(filePath).catch(() => null);
+  if (!stat?.isFile()) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(req.headers.get("range") || "");
+  const range = match && (match[1] || match[2]) ? match : null;
+  let start = 0;
+  let end = stat.size - 1;
+  if (range) {
+    if (range[1]) {
+      start = Number(range[1]);
+      if (range[2]) end = Math.min(end, Number(range[2]));
+    } else {
+      // "bytes=-N" is the last N bytes
+      start = Math.max(0, stat.size - Number(range[2]));
+    }
+    if (start > end) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${stat.size}` },
+      });
+    }
+  }
+
+  const stream = Readable.toWeb(
+    fs.createReadStream(filePath, { start, end })
+  ) as ReadableStream<Uint8Array>;
+
+  return new NextResponse(stream, {
+    status: range ? 206 : 200,
+    headers: {
+      ...headers,
+      "Content-Type": contentType,
+      "Content-Length": String(end - start + 1),
+      "Accept-Ranges": "bytes",
+      ...(range
+        ? { "Content-Range": `bytes ${start}-${end}/${stat.size}` }
+        : {}),
+    },
+  });
+}
@@ -0,0 +1,90 @@
+// lib/music-library.ts
+// Background music you keep on the server: every audio file under
+// MUSIC_LIBRARY_DIR (default ./music-library) can be picked as a project's
+// music bed. Files are served by /api/music/[...path]; the render route
+// maps the same URLs back to disk.
+import fs from "fs/promises";
+import path from "path";
+import { getProjectMusicPath } from "./projects";
+
+export const MUSIC_LIBRARY_URL_PREFIX = "/api/music/";
+
+const AUDIO_EXTS = new Set([".mp3", ".m4a", ".aac", ".wav", ".ogg", ".flac"]);
+
+export type MusicLibraryTrack = {
+  // display name: the path without extension
+  name: string;
+  src: string;
+  size: number;
+};
+
+export const getMusicLibraryDir = () =>
+  path.resolve(process.env.MUSIC_LIBRARY_DIR || "./music-library");
+
+async function walk(root: string, dir: string, out: MusicLibraryTrack[]) {
+  const dirents = await fs.readdir(dir, { withFileTypes: true });
+  for (const d of dirents) {
+    if (d.name.startsWith(".")) continue;
+    const abs = path.join(dir, d.name);
+    if (d.isDirectory()) {
+      await walk(root, abs, out);
+      continue;
+    }
+    const ext = path.extname(d.name).toLowerCase();
+    if (!AUDIO_EXTS.has(ext)) continue;
+    const rel = path.relative(root, abs).split(path.sep).join("/");
+    const stat = await fs.stat(abs);
+    out.push({
+      name: rel.slice(0, rel.length - ext.length),
+      src:
+        MUSIC_LIBRARY_URL_PREFIX +
+        rel.split("/").map(encodeURIComponent).join("/"),
+      size: stat.size,
+    });
+  }
+}
+
+/** All tracks in the library, sorted by name. Empty when the folder is missing. */
+export async function listMusicLibrary(): Promise<MusicLibraryTrack[]> {
+  const out: MusicLibraryTrack[] = [];
+  try {
+    await walk(getMusicLibraryDir(), getMusicLibraryDir(), out);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  return out.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Absolute path for URL path segments, or null if it escapes the library. */
+export function resolveMusicPath(segments: string[]): string | null {
+  const root = getMusicLibraryDir();
+  const abs = path.resolve(root, ...segments);
+  return abs.startsWith(root + path.sep) &&
+    AUDIO_EXTS.has(path.extname(abs).toLowerCase())
+    ? abs
+    : null;
+}
+
+/**
+ * Maps a music bed `src` from the editor to a file on disk: either a
+ * library URL or a project's uploaded track. Anything else (remote URLs)
+ * is not accepted for rendering.
+ */
+export async function resolveMusicSource(src: string): Promise<string | null> {
+  const pathname = src.split("?")[0];
+  if (pathname.startsWith(MUSIC_LIBRARY_URL_PREFIX)) {
+    let segments: string[];
+    try {
+      segments = pathname
+        .slice(MUSIC_LIBRARY_URL_PREFIX.length)
+        .split("/")
+        .map((s) => decodeURIComponent(s));
+    } catch {
+      // malformed escapes ("%E0%A4") can't name a library file
+      return null;
+    }
+    return resolveMusicPath(segments);
+  }
+  const upload = /^\/api\/projects\/([^/]+)\/music$/.exec(pathname);
+  return upload ? getProjectMusicPath(upload[1]) : null;
+}
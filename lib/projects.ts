@@ -0,0 +1,346 @@
+// lib/projects.ts
+// File-backed project store. Each project is a folder under PROJECTS_DIR
+// (default ./data/projects):
+//   <id>/project.json   editor state
+//   <id>/media/<file>   the uploaded source video and music bed
+import fsPromises from "fs/promises";
+import path from "path";
+import type { CutRange, TimeRange } from "./auto-cut";
+import { moveFile, UploadedFile } from "./uploads";
+import type {
+  AspectPreset,
+  AudioMix,
+  BRollEntry,
+  CaptionSegment,
+  CaptionTrack,
+  CaptionStyle,
+  CaptionStylePreset,
+  FitMode,
+} from "../remotion/VideoWithCaptions";
+
+export type ProjectMedia = {
+  filename: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+};
+
+// everything the editor autosaves
+export type ProjectState = {
+  name: string;
+  captions: CaptionSegment[];
+  // language of `captions` ("auto" when unknown)
+  sourceLanguage: string;
+  translations: CaptionTrack[];
+  // track shown in the preview and edited: "source" or a translation's code
+  captionLanguage: string;
+  // stacked under the main track when set (bilingual layout)
+  secondaryLanguage: string | null;
+  // auto-cut: detected silences and the reviewed cut list, in source time
+  silences: TimeRange[] | null;
+  cuts: CutRange[];
+  stylePreset: CaptionStylePreset;
+  captionStyle: CaptionStyle | null;
+  aspectPreset: AspectPreset;
+  fitMode: FitMode;
+  audioMix: AudioMix;
+  bRolls: BRollEntry[];
+  allImages: string[];
+  durationInSeconds: number;
+  videoWidth: number | null;
+  videoHeight: number | null;
+};
+
+export type Project = ProjectState & {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  video: ProjectMedia | null;
+  // uploaded background music; audioMix.music points at it when in use
+  music: ProjectMedia | null;
+};
+
+export type ProjectSummary = Pick<
+  Project,
+  "id" | "name" | "createdAt" | "updatedAt" | "durationInSeconds"
+> & { hasVideo: boolean; captionCount: number; bRollCount: number };
+
+const STATE_KEYS: (keyof ProjectState)[] = [
+  "name",
+  "captions",
+  "sourceLanguage",
+  "translations",
+  "captionLanguage",
+  "secondaryLanguage",
+  "silences",
+  "cuts",
+  "stylePreset",
+  "captionStyle",
+  "aspectPreset",
+  "fitMode",
+  "audioMix",
+  "bRolls",
+  "allImages",
+  "durationInSeconds",
+  "videoWidth",
+  "videoHeight",
+];
+
+const DEFAULT_STATE: ProjectState = {
+  name: "Untitled project",
+  captions: [],
+  sourceLanguage: "auto",
+  translations: [],
+  captionLanguage: "source",
+  secondaryLanguage: null,
+  silences: null,
+  cuts: [],
+  stylePreset: "bottom",
+  captionStyle: null,
+  aspectPreset: "source",
+  fitMode: "fill",
+  audioMix: { music: null, loudnessLufs: null },
+  bRolls: [],
+  allImages: [],
+  durationInSeconds: 0,
+  videoWidth: null,
+  videoHeight: null,
+};
+
+export const getProjectsDir = () =>
+  path.resolve(process.env.PROJECTS_DIR || "./data/projects");
+
+// ids are generated here; anything else could be a path traversal attempt
+const isProjectId = (id: string) => /^[a-z0-9-]{1,64}$/.test(id);
+
+const projectDir = (id: string) => path.join(getProjectsDir(), id);
+const projectFile = (id: string) => path.join(projectDir(id), "project.json");
+const mediaDir = (id: string) => path.join(projectDir(id), "media");
+
+const pickState = (input: Partial<ProjectState>): Partial<ProjectState> => {
+  const out: Partial<ProjectState> = {};
+  for (const key of STATE_KEYS) {
+    if (input[key] !== undefined) {
+      (out as Record<string, unknown>)[key] = input[key];
+    }
+  }
+  return out;
+};
+
+// Autosave can fire while a media upload is finishing; run writes to the
+// same project one at a time so neither overwrites the other.
+const locks = new Map<string, Promise<unknown>>();
+function withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const prev = locks.get(id) ?? Promise.resolve();
+  const next = prev.catch(() => {}).then(fn);
+  locks.set(id, next);
+  next
+    .finally(() => {
+      if (locks.get(id) === next) locks.delete(id);
+    })
+    .catch(() => {});
+  return next;
+}
+
+async function writeProject(project: Project) {
+  await fsPromises.mkdir(projectDir(project.id), { recursive: true });
+  // write-then-rename so a crash never leaves half a project.json
+  const tmp = `${projectFile(project.id)}.${process.pid}.tmp`;
+  await fsPromises.writeFile(tmp, JSON.stringify(project, null, 2));
+  await fsPromises.rename(tmp, projectFile(project.id));
+}
+
+export async function getProject(id: string): Promise<Project | null> {
+  if (!isProjectId(id)) return null;
+  try {
+    const raw = await fsPromises.readFile(projectFile(id), "utf8");
+    return { ...DEFAULT_STATE, music: null, ...JSON.parse(raw), id };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+export const summarizeProject = (p: Project): ProjectSummary => ({
+  id: p.id,
+  name: p.name,
+  createdAt: p.createdAt,
+  updatedAt: p.updatedAt,
+  durationInSeconds: p.durationInSeconds,
+  hasVideo: Boolean(p.video),
+  captionCount: p.captions.length,
+  bRollCount: p.bRolls.length,
+});
+
+/** Most recently edited first. Unreadable project folders are skipped. */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const dirents = await fsPromises
+    .readdir(getProjectsDir(), { withFileTypes: true })
+    .catch(() => []);
+  const projects = await Promise.all(
+    dirents
+      .filter((d) => d.isDirectory() && isProjectId(d.name))
+      .map((d) =>
+        getProject(d.name).catch((err) => {
+          console.error("[projects] failed to read", d.name, err);
+          return null;
+        })
+      )
+  );
+  return projects
+    .filter((p): p is Project => p !== null)
+    .map(summarizeProject)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function createProject(
+  input: Partial<ProjectState> = {}
+): Promise<Project> {
+  const now = Date.now();
+  const id = `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const project: Project = {
+    ...DEFAULT_STATE,
+    ...pickState(input),
+    id,
+    createdAt: now,
+    updatedAt: now,
+    video: null,
+    music: null,
+  };
+  await writeProject(project);
+  return project;
+}
+
+export function updateProject(
+  id: string,
+  patch: Partial<ProjectState>
+): Promise<Project | null> {
+  return withLock(id, async () => {
+    const project = await getProject(id);
+    if (!project) return null;
+    const updated: Project = {
+      ...project,
+      ...pickState(patch),
+      updatedAt: Date.now(),
+    };
+    await writeProject(updated);
+    return updated;
+  });
+}
+
+export async function deleteProject(id: string): Promise<boolean> {
+  if (!(await getProject(id))) return false;
+  await withLock(id, () =>
+    fsPromises.rm(projectDir(id), { recursive: true, force: true })
+  );
+  return true;
+}
+
+type MediaKind = "video" | "music";
+
+// stored as media/<basename><ext>
+const MEDIA_BASENAMES: Record<MediaKind, string> = {
+  video: "source",
+  music: "music",
+};
+const DEFAULT_EXTS: Record<MediaKind, string> = {
+  video: ".mp4",
+  music: ".mp3",
+};
+
+/**
+ * Moves an upload (already on disk, see lib/uploads) into the project as
+ * one of its media files, replacing any previous one.
+ */
+function saveProjectMedia(
+  id: string,
+  kind: MediaKind,
+  file: UploadedFile
+): Promise<Project | null> {
+  return withLock(id, async () => {
+    const project = await getProject(id);
+    if (!project) return null;
+
+    const fallbackExt = DEFAULT_EXTS[kind];
+    const ext = (path.extname(file.originalName) || fallbackExt).toLowerCase();
+    const filename = `${MEDIA_BASENAMES[kind]}${
+      /^\.[a-z0-9]{1,5}$/.test(ext) ? ext : fallbackExt
+    }`;
+    await fsPromises.mkdir(mediaDir(id), { recursive: true });
+    const target = path.join(mediaDir(id), filename);
+    const tmp = `${target}.upload`;
+
+    await moveFile(file.path, tmp);
+    const previous = project[kind];
+    if (previous && previous.filename !== filename) {
+      await fsPromises
+        .unlink(path.join(mediaDir(id), previous.filename))
+        .catch(() => {});
+    }
+    await fsPromises.rename(tmp, target);
+
+    const updated: Project = {
+      ...project,
+      [kind]: {
+        filename,
+        originalName: file.originalName,
+        mimeType: file.mimeType,
+        size: file.size,
+      },
+      updatedAt: Date.now(),
+    };
+    await writeProject(updated);
+    return updated;
+  });
+}
+
+/** Stores the project's source video, replacing any previous one. */
+export const saveProjectVideo = (id: string, file: UploadedFile) =>
+  saveProjectMedia(id, "video", file);
+
+/** Stores the project's background music, replacing any previous one. */
+export const saveProjectMusic = (id: string, file: UploadedFile) =>
+  saveProjectMedia(id, "music", file);
+
+/** Removes the uploaded music and unsets it from the mix if it was in use. */
+export function deleteProjectMusic(id: string): Promise<Project | null> {
+  return withLock(id, async () => {
+    const project = await getProject(id);
+    if (!project) return null;
+    if (project.music) {
+      await fsPromises
+        .unlink(path.join(mediaDir(id), project.music.filename))
+        .catch(() => {});
+    }
+    const usesUpload = project.audioMix.music?.src.startsWith(
+      projectMusicUrl(id)
+    );
+    const updated: Project = {
+      ...project,
+      music: null,
+      audioMix: usesUpload
+        ? { ...project.audioMix, music: null }
+        : project.audioMix,
+      updatedAt: Date.now(),
+    };
+    await writeProject(updated);
+    return updated;
+  });
+}
+
+/** Absolute path of the stored source video, if the project has one. */
+export async function getProjectVideoPath(id: string): Promise<string | null> {
+  const project = await getProject(id);
+  if (!project?.video) return null;
+  return path.join(mediaDir(id), project.video.filename);
+}
+
+/** URL the editor and the render route use for a project's uploaded music. */
+export const projectMusicUrl = (id: string) => `/api/projects/${id}/music`;
+
+/** Absolute path of the uploaded music, if the project has one. */
+export async function getProjectMusicPath(id: string): Promise<string | null> {
+  const project = await getProject(id);
+  if (!project?.music) return null;
+  return path.join(mediaDir(id), project.music.filename);
+}
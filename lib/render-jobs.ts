@@ -0,0 +1,423 @@
+// lib/render-jobs.ts
+// In-process render job queue. Jobs are handed over IPC to a pool of
+// long-lived `render.mjs --worker` processes, which keep the Remotion
+// bundle and a browser warm between jobs and report progress back.
+import { ChildProcess, spawn } from "child_process";
+import fsPromises from "fs/promises";
+import path from "path";
+
+export type RenderJobStatus =
+  | "queued"
+  | "rendering"
+  | "done"
+  | "error"
+  | "cancelled";
+
+// one rendered file per caption language
+export type RenderJobOutput = { language: string; path: string };
+
+export type RenderJobFiles = {
+  videoPath: string;
+  captionsPath: string;
+  // the first (or only) output
+  outPath: string;
+  // set when one job renders several languages; outPath is outputs[0].path
+  outputs?: RenderJobOutput[];
+  // the video belongs to a saved project and must survive the job
+  keepVideo?: boolean;
+};
+
+export type RenderJob = {
+  id: string;
+  status: RenderJobStatus;
+  // what render.mjs is doing right now ("bundling", "broll", "rendering", ...)
+  stage: string | null;
+  // caption language being rendered, for multi-language jobs
+  language: string | null;
+  progress: number; // 0..1
+  renderedFrames: number;
+  totalFrames: number | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: string | null;
+  stylePreset: string;
+  durationInSeconds: number;
+  files: RenderJobFiles;
+  worker: RenderWorker | null;
+};
+
+// One `render.mjs --worker` process; it renders one job at a time
+type RenderWorker = {
+  child: ChildProcess;
+  // job it is busy with; stays set after a cancel until the worker confirms
+  jobId: string | null;
+  // stderr since the current job started, for error messages
+  stderr: string;
+  // idle and exiting on its own; takes no more jobs
+  retiring: boolean;
+  // a job cancelled while on this worker; its files are removed once the
+  // worker confirms or exits, as it may still be reading or writing them
+  cancelledJob: RenderJob | null;
+};
+
+// Shape of what render.mjs sends through process.send()
+type RenderWorkerMessage =
+  | { type: "ready" }
+  | { type: "retiring" }
+  | {
+      type: "progress";
+      jobId: string;
+      stage: string;
+      progress?: number;
+      renderedFrames?: number;
+      totalFrames?: number;
+      language?: string | null;
+    }
+  | { type: "done" | "cancelled"; jobId: string }
+  | { type: "failed"; jobId: string; error: string };
+
+const MAX_CONCURRENT_RENDERS = Math.max(
+  1,
+  Number(process.env.RENDER_CONCURRENCY) || 1
+);
+// finished jobs (and their files) are kept this long for download
+const JOB_TTL_MS = 60 * 60 * 1000;
+// a worker that has not stopped this long after a cancel is killed
+const CANCEL_GRACE_MS = 5000;
+// stderr kept per job for the error message
+const MAX_STDERR_CHARS = 8000;
+
+// Next's dev server re-evaluates route modules on change; keep the registry
+// and the workers on globalThis so running jobs are not orphaned by a reload.
+const globalForJobs = globalThis as unknown as {
+  __renderJobs?: Map<string, RenderJob>;
+  __renderWorkers?: Set<RenderWorker>;
+};
+const jobs = (globalForJobs.__renderJobs ??= new Map<string, RenderJob>());
+const workers = (globalForJobs.__renderWorkers ??= new Set<RenderWorker>());
+
+const isActive = (job: RenderJob) =>
+  job.status === "queued" || job.status === "rendering";
+
+async function removeJobFiles(job: RenderJob, includeOutput = true) {
+  const { videoPath, captionsPath, outPath, outputs, keepVideo } = job.files;
+  const paths = [captionsPath];
+  if (!keepVideo) paths.push(videoPath);
+  if (includeOutput) {
+    paths.push(outPath, ...(outputs ?? []).map((o) => o.path));
+  }
+  await Promise.all(paths.map((p) => fsPromises.unlink(p).catch(() => {})));
+}
+
+function sweepExpiredJobs() {
+  const now = Date.now();
+  for (const job of jobs.values()) {
+    if (!isActive(job) && job.finishedAt && now - job.finishedAt > JOB_TTL_MS) {
+      removeJobFiles(job);
+      jobs.delete(job.id);
+    }
+  }
+}
+
+function finishJob(
+  job: RenderJob,
+  status: Exclude<RenderJobStatus, "queued" | "rendering">,
+  error: string | null = null
+) {
+  job.status = status;
+  job.error = error;
+  job.finishedAt = Date.now();
+  const worker = job.worker;
+  job.worker = null;
+  if (status === "done") job.progress = 1;
+  // inputs are no longer needed; output stays until the job expires
+  if (worker?.cancelledJob !== job) removeJobFiles(job, status !== "done");
+  startQueuedJobs();
+}
+
+function releaseWorker(worker: RenderWorker) {
+  worker.jobId = null;
+  worker.stderr = "";
+  if (worker.cancelledJob) {
+    removeJobFiles(worker.cancelledJob);
+    worker.cancelledJob = null;
+  }
+}
+
+// A job handed to a worker that was already retiring never reached it;
+// it goes back to the queue for another worker.
+function retireWorker(worker: RenderWorker) {
+  worker.retiring = true;
+  const job = worker.jobId ? jobs.get(worker.jobId) : undefined;
+  releaseWorker(worker);
+  if (job?.status === "rendering" && job.worker === worker) {
+    console.log(
+      "[render-jobs] requeueing job",
+      job.id,
+      "from a retiring worker"
+    );
+    job.status = "queued";
+    job.startedAt = null;
+    job.worker = null;
+  }
+  startQueuedJobs();
+}
+
+function spawnWorker(): RenderWorker {
+  const scriptPath = path.join(process.cwd(), "render.mjs");
+  const child = spawn(process.execPath, [scriptPath, "--worker"], {
+    stdio: ["ignore", "pipe", "pipe", "ipc"],
+  });
+  const worker: RenderWorker = {
+    child,
+    jobId: null,
+    stderr: "",
+    retiring: false,
+    cancelledJob: null,
+  };
+  workers.add(worker);
+  console.log("[render-jobs] started render worker", child.pid);
+
+  child.stdout?.on("data", (data) => {
+    console.log(`[render.mjs ${child.pid}]`, data.toString().trim());
+  });
+
+  child.stderr?.on("data", (data) => {
+    const text = data.toString();
+    worker.stderr = (worker.stderr + text).slice(-MAX_STDERR_CHARS);
+    console.error(`[render.mjs ${child.pid} stderr]`, text.trim());
+  });
+
+  child.on("message", (msg: RenderWorkerMessage) => {
+    if (!msg || msg.type === "ready") return;
+    if (msg.type === "retiring") return retireWorker(worker);
+    const job = jobs.get(msg.jobId);
+    // progress of a job that was cancelled meanwhile is dropped
+    const current = job?.status === "rendering" && job.worker === worker;
+
+    switch (msg.type) {
+      case "progress":
+        if (!job || !current) return;
+        job.stage = msg.stage;
+        if (msg.language !== undefined) job.language = msg.language;
+        if (typeof msg.progress === "number") job.progress = msg.progress;
+        if (typeof msg.renderedFrames === "number")
+          job.renderedFrames = msg.renderedFrames;
+        if (typeof msg.totalFrames === "number")
+          job.totalFrames = msg.totalFrames;
+        return;
+      case "done":
+        releaseWorker(worker);
+        if (job && current) {
+          console.log("[render-jobs] job", job.id, "finished");
+          finishJob(job, "done");
+        } else {
+          startQueuedJobs();
+        }
+        return;
+      case "failed":
+        releaseWorker(worker);
+        if (job && current) {
+          console.error("[render-jobs] job", job.id, "failed:", msg.error);
+          finishJob(job, "error", msg.error);
+        } else {
+          startQueuedJobs();
+        }
+        return;
+      case "cancelled":
+        releaseWorker(worker);
+        startQueuedJobs();
+        return;
+    }
+  });
+
+  child.on("close", (code, signal) => {
+    workers.delete(worker);
+    const job = worker.jobId ? jobs.get(worker.jobId) : undefined;
+    if (worker.cancelledJob) {
+      removeJobFiles(worker.cancelledJob);
+      worker.cancelledJob = null;
+    }
+    if (job?.status === "rendering" && job.worker === worker) {
+      console.error(
+        "[render-jobs] worker",
+        child.pid,
+        "exited during job",
+        job.id,
+        "with code",
+        code,
+        "signal",
+        signal,
+        "stderr:",
+        worker.stderr || "<empty>"
+      );
+      finishJob(
+        job,
+        "error",
+        `render.mjs exited with code ${code}. stderr: ${
+          worker.stderr || "<empty>"
+        }`
+      );
+    } else {
+      console.log("[render-jobs] render worker", child.pid, "exited");
+      startQueuedJobs();
+    }
+  });
+
+  child.on("error", (err) => {
+    console.error("[render-jobs] render worker error:", err);
+    const job = worker.jobId ? jobs.get(worker.jobId) : undefined;
+    workers.delete(worker);
+    if (job?.status === "rendering" && job.worker === worker) {
+      finishJob(job, "error", err.message);
+    }
+  });
+
+  return worker;
+}
+
+function runJob(job: RenderJob) {
+  const idle = [...workers].find(
+    (w) => w.jobId === null && !w.retiring && w.child.connected
+  );
+  const worker = idle ?? spawnWorker();
+  console.log(
+    "[render-jobs] starting job",
+    job.id,
+    "on worker",
+    worker.child.pid
+  );
+
+  job.status = "rendering";
+  job.startedAt = Date.now();
+  job.worker = worker;
+  worker.jobId = job.id;
+  worker.stderr = "";
+
+  worker.child.send({
+    type: "job",
+    jobId: job.id,
+    job: {
+      videoPath: job.files.videoPath,
+      captionsPath: job.files.captionsPath,
+      stylePreset: job.stylePreset,
+      outPath: job.files.outPath,
+      durationSeconds: job.durationInSeconds || 0,
+    },
+  });
+}
+
+function startQueuedJobs() {
+  // a worker still stopping a cancelled job counts against the limit
+  let running = [...workers].filter((w) => w.jobId !== null).length;
+  const queued = [...jobs.values()]
+    .filter((j) => j.status === "queued")
+    .sort((a, b) => a.createdAt - b.createdAt);
+  for (const job of queued) {
+    if (running >= MAX_CONCURRENT_RENDERS) break;
+    runJob(job);
+    running++;
+  }
+}
+
+export function createRenderJob(options: {
+  id: string;
+  files: RenderJobFiles;
+  stylePreset: string;
+  durationInSeconds: number;
+}): RenderJob {
+  sweepExpiredJobs();
+
+  const job: RenderJob = {
+    id: options.id,
+    status: "queued",
+    stage: null,
+    language: null,
+    progress: 0,
+    renderedFrames: 0,
+    totalFrames: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+    error: null,
+    stylePreset: options.stylePreset,
+    durationInSeconds: options.durationInSeconds,
+    files: options.files,
+    worker: null,
+  };
+  jobs.set(job.id, job);
+  startQueuedJobs();
+  return job;
+}
+
+export function getRenderJob(id: string): RenderJob | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Cancels a queued or running job (stopping its render) and drops its
+ * files, once its worker has stopped. Returns false when the job does not
+ * exist.
+ */
+export function cancelRenderJob(id: string): boolean {
+  const job = jobs.get(id);
+  if (!job) return false;
+
+  if (isActive(job)) {
+    const worker = job.worker;
+    if (worker) {
+      worker.cancelledJob = job;
+      worker.child.send({ type: "cancel", jobId: job.id });
+      // the worker stops renderMedia and ffmpeg on "cancel"; this is the
+      // backstop for one that does not confirm in time
+      setTimeout(() => {
+        if (worker.jobId === job.id) worker.child.kill("SIGTERM");
+      }, CANCEL_GRACE_MS).unref();
+    }
+    finishJob(job, "cancelled");
+  } else {
+    removeJobFiles(job);
+  }
+  jobs.delete(id);
+  return true;
+}
+
+/** The output file for `language`, or the primary output when omitted. */
+export function getRenderJobOutput(
+  job: RenderJob,
+  language?: string | null
+): RenderJobOutput | null {
+  const outputs = job.files.outputs ?? [
+    { language: "default", path: job.files.outPath },
+  ];
+  if (!language) return outputs[0];
+  return outputs.find((o) => o.language === language) ?? null;
+}
+
+/** Public view of a job, safe to serialize into an API response. */
+export function describeRenderJob(job: RenderJob) {
+  const now = Date.now();
+  let etaSeconds: number | null = null;
+  if (job.status === "rendering" && job.startedAt && job.progress > 0.01) {
+    const elapsed = now - job.startedAt;
+    etaSeconds = Math.round((elapsed / job.progress - elapsed) / 1000);
+  }
+  return {
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    language: job.language,
+    progress: job.progress,
+    percentage: Math.round(job.progress * 100),
+    renderedFrames: job.renderedFrames,
+    totalFrames: job.totalFrames,
+    etaSeconds,
+    error: job.error,
+    // languages that can be fetched from /api/render/:id/output?language=
+    outputs: (job.files.outputs ?? []).map((o) => o.language),
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+}
@@ -0,0 +1,835 @@
+// lib/schemas.ts
+// Runtime schemas for what clients send to the API routes. A schema checks
+// an unknown value and returns it as the shared type from
+// remotion/VideoWithCaptions (unknown keys dropped); problems are collected
+// with their field path and thrown together as a ValidationError, which the
+// routes answer with a 400.
+import type { CutRange, TimeRange } from "./auto-cut";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_CODECS,
+  EXPORT_FORMATS,
+  ExportOptions,
+  MAX_GIF_SECONDS,
+  SUBTITLE_MODE_NAMES,
+  SUBTITLE_MODES,
+} from "./export-formats";
+import type { ProjectState } from "./projects";
+import {
+  DEFAULT_SEGMENTATION,
+  SEGMENTATION_MODES,
+  SEGMENTATION_PRESETS,
+  SegmentationOptions,
+} from "./caption-segmentation";
+import { LOCAL_STOCK_URL_PREFIX } from "./stock-media/local";
+import type {
+  StockMediaType,
+  StockOrientation,
+  StockSize,
+} from "./stock-media";
+import type {
+  AspectPreset,
+  AudioMix,
+  BRollEntry,
+  BRollLayout,
+  BRollMotion,
+  BRollTransition,
+  CaptionEffects,
+  CaptionEffectsOverride,
+  CaptionSegment,
+  CaptionStyle,
+  CaptionStylePreset,
+  CaptionTrack,
+  CaptionWord,
+  FitMode,
+  MotionRect,
+  MusicBed,
+  SpeakerStyle,
+} from "../remotion/VideoWithCaptions";
+import {
+  BROLL_DIRECTIONS,
+  BROLL_TRANSITION_KINDS,
+} from "../remotion/broll-motion";
+import { WORD_ANIMATIONS } from "../remotion/caption-effects";
+import { SPEAKER_ALIGNS } from "../remotion/speakers";
+
+export type FieldIssue = { path: string; message: string };
+
+export class ValidationError extends Error {
+  issues: FieldIssue[];
+
+  constructor(issues: FieldIssue[]) {
+    super(
+      `Invalid request: ${issues
+        .slice(0, 5)
+        .map((i) => `${i.path}: ${i.message}`)
+        .join("; ")}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ""}`
+    );
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Returns the checked value, or undefined after pushing an issue. The
+ * result of a schema that reported issues is never used (parse throws).
+ */
+export type Schema<T> = (
+  value: unknown,
+  path: string,
+  issues: FieldIssue[]
+) => T;
+
+const fail = <T>(issues: FieldIssue[], path: string, message: string): T => {
+  issues.push({ path, message });
+  return undefined as T;
+};
+
+/* ---------------- building blocks ---------------- */
+
+/** Finite number in [min, max]; `coerce` accepts numeric strings (query/form fields). */
+export const num =
+  ({
+    min = -Infinity,
+    max = Infinity,
+    integer = false,
+    coerce = false,
+  }: {
+    min?: number;
+    max?: number;
+    integer?: boolean;
+    coerce?: boolean;
+  } = {}): Schema<number> =>
+  (value, path, issues) => {
+    const n =
+      coerce && typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : value;
+    if (typeof n !== "number" || !Number.isFinite(n)) {
+      return fail(issues, path, "must be a number");
+    }
+    if (integer && !Number.isInteger(n)) {
+      return fail(issues, path, "must be an integer");
+    }
+    if (n < min || n > max) {
+      return fail(issues, path, `must be between ${min} and ${max}`);
+    }
+    return n;
+  };
+
+export const str =
+  ({
+    maxLength = 10_000,
+    pattern,
+  }: { maxLength?: number; pattern?: RegExp } = {}): Schema<string> =>
+  (value, path, issues) => {
+    if (typeof value !== "string")
+      return fail(issues, path, "must be a string");
+    if (value.length > maxLength) {
+      return fail(issues, path, `must be at most ${maxLength} characters`);
+    }
+    if (pattern && !pattern.test(value)) {
+      return fail(issues, path, "has an invalid format");
+    }
+    return value;
+  };
+
+export const bool = (): Schema<boolean> => (value, path, issues) =>
+  typeof value === "boolean" ? value : fail(issues, path, "must be a boolean");
+
+export const oneOf =
+  <T extends string | number>(values: readonly T[]): Schema<T> =>
+  (value, path, issues) =>
+    values.includes(value as T)
+      ? (value as T)
+      : fail(issues, path, `must be one of: ${values.join(", ")}`);
+
+export const arrayOf =
+  <T>(item: Schema<T>, { max = 10_000 }: { max?: number } = {}): Schema<T[]> =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) return fail(issues, path, "must be an array");
+    if (value.length > max) {
+      return fail(issues, path, `must have at most ${max} items`);
+    }
+    return value.map((v, i) => item(v, `${path}[${i}]`, issues));
+  };
+
+export const object =
+  <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  (value, path, issues) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return fail(issues, path, "must be an object");
+    }
+    const input = value as Record<string, unknown>;
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const parsed = shape[key](
+        input[key],
+        path ? `${path}.${key}` : key,
+        issues
+      );
+      if (parsed !== undefined) out[key] = parsed;
+    }
+    return out as T;
+  };
+
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path, issues) =>
+    value === undefined ? undefined : schema(value, path, issues);
+
+export const nullable =
+  <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path, issues) =>
+    value === undefined || value === null ? null : schema(value, path, issues);
+
+/** Union of object shapes told apart by their `key` field (e.g. "kind"). */
+export const tagged =
+  <T>(key: string, shapes: Record<string, Schema<T>>): Schema<T> =>
+  (value, path, issues) => {
+    const tag =
+      value && typeof value === "object"
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+    const schema =
+      typeof tag === "string" && Object.hasOwn(shapes, tag)
+        ? shapes[tag]
+        : undefined;
+    if (!schema) {
+      return fail(
+        issues,
+        path ? `${path}.${key}` : key,
+        `must be one of: ${Object.keys(shapes).join(", ")}`
+      );
+    }
+    return schema(value, path, issues);
+  };
+
+/** Missing, null and empty form fields become `fallback`. */
+export const withDefault =
+  <T>(schema: Schema<T>, fallback: T): Schema<T> =>
+  (value, path, issues) =>
+    value === undefined || value === null || value === ""
+      ? fallback
+      : schema(value, path, issues);
+
+/**
+ * Adds a cross-field check once the value itself is valid. `field` reports
+ * the issue on a child of an object instead of the object itself.
+ */
+export const refine =
+  <T>(
+    schema: Schema<T>,
+    check: (value: T) => boolean,
+    message: string,
+    field?: string
+  ): Schema<T> =>
+  (value, path, issues) => {
+    const before = issues.length;
+    const parsed = schema(value, path, issues);
+    if (issues.length === before && !check(parsed)) {
+      const at = field ? (path ? `${path}.${field}` : field) : path;
+      return fail(issues, at, message);
+    }
+    return parsed;
+  };
+
+/** Runs a schema and throws a ValidationError listing every issue. */
+export function parse<T>(schema: Schema<T>, value: unknown, path = ""): T {
+  const issues: FieldIssue[] = [];
+  const parsed = schema(value, path, issues);
+  if (issues.length > 0) throw new ValidationError(issues);
+  return parsed;
+}
+
+/**
+ * Collects multipart form fields into a plain object for `parse`. Fields
+ * named in `json` are JSON-decoded; a File where text is expected is
+ * reported instead of being cast.
+ */
+export function formFields(
+  formData: FormData,
+  names: string[],
+  json: string[] = []
+): Record<string, unknown> {
+  const issues: FieldIssue[] = [];
+  const out: Record<string, unknown> = {};
+  for (const name of names) {
+    const value = formData.get(name);
+    if (value === null) continue;
+    if (typeof value !== "string") {
+      issues.push({ path: name, message: "must be a text field" });
+      continue;
+    }
+    if (!json.includes(name)) {
+      out[name] = value;
+      continue;
+    }
+    try {
+      out[name] = JSON.parse(value);
+    } catch {
+      issues.push({ path: name, message: "must be valid JSON" });
+    }
+  }
+  if (issues.length > 0) throw new ValidationError(issues);
+  return out;
+}
+
+/** The uploaded file in `name`, or null when the field is absent. */
+export function formFile(formData: FormData, name: string): File | null {
+  const value = formData.get(name);
+  if (value === null) return null;
+  if (typeof value === "string") {
+    throw new ValidationError([{ path: name, message: "must be a file" }]);
+  }
+  return value;
+}
+
+/* ---------------- shared schemas ---------------- */
+
+// four hours; anything longer is a client bug, not a video
+export const MAX_DURATION_SECONDS = 4 * 60 * 60;
+
+const seconds = num({ min: 0, max: MAX_DURATION_SECONDS });
+
+export const durationSchema = num({ min: 0.1, max: MAX_DURATION_SECONDS });
+
+// "hi", "en-US", or the "source" track; also ends up in output file names
+export const languageSchema = str({
+  maxLength: 20,
+  pattern: /^[A-Za-z0-9-]{1,20}$/,
+});
+
+export const projectIdSchema = str({ maxLength: 64, pattern: /^[a-z0-9-]+$/ });
+
+const timeRange = <T extends TimeRange>(
+  schema: Schema<T>,
+  message = "end must not be before start"
+) => refine(schema, (r) => r.end >= r.start, message);
+
+export const timeRangeSchema: Schema<TimeRange> = timeRange(
+  object<TimeRange>({ start: seconds, end: seconds })
+);
+
+// CSS colours: names, #hex, rgb()/rgba()/hsl()
+const color = str({ maxLength: 64, pattern: /^[#(),.%\w\s-]+$/ });
+
+const captionEffectsShape = {
+  wordAnimation: oneOf(WORD_ANIMATIONS),
+  emoji: bool(),
+  emphasis: bool(),
+  emphasisColor: color,
+  keywords: arrayOf(str({ maxLength: 60 }), { max: 200 }),
+};
+
+export const captionEffectsSchema: Schema<CaptionEffects> =
+  object<CaptionEffects>(captionEffectsShape);
+
+// every field optional: a segment overrides only what it sets
+export const captionEffectsOverrideSchema: Schema<CaptionEffectsOverride> =
+  object<CaptionEffectsOverride>({
+    wordAnimation: optional(captionEffectsShape.wordAnimation),
+    emoji: optional(captionEffectsShape.emoji),
+    emphasis: optional(captionEffectsShape.emphasis),
+    emphasisColor: optional(captionEffectsShape.emphasisColor),
+    keywords: optional(captionEffectsShape.keywords),
+  });
+
+export const captionWordSchema: Schema<CaptionWord> = timeRange(
+  object<CaptionWord>({
+    start: seconds,
+    end: seconds,
+    text: str({ maxLength: 200 }),
+  })
+);
+
+export const captionSegmentSchema: Schema<CaptionSegment> = timeRange(
+  object<CaptionSegment>({
+    start: seconds,
+    end: seconds,
+    text: str({ maxLength: 2000 }),
+    words: optional(arrayOf(captionWordSchema, { max: 500 })),
+    effects: optional(captionEffectsOverrideSchema),
+    speaker: optional(str({ maxLength: 60 })),
+  })
+);
+
+export const captionsSchema = arrayOf(captionSegmentSchema, { max: 10_000 });
+
+export const captionTrackSchema: Schema<CaptionTrack> = object<CaptionTrack>({
+  language: languageSchema,
+  captions: captionsSchema,
+});
+
+const isBRollSource = (src: string) => {
+  if (src.startsWith(LOCAL_STOCK_URL_PREFIX)) {
+    return !src.split("/").some((segment) => {
+      try {
+        return decodeURIComponent(segment) === "..";
+      } catch {
+        return true;
+      }
+    });
+  }
+  try {
+    const { protocol } = new URL(src);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+// render.mjs fetches these server-side; it also blocks private addresses
+// and applies BROLL_ALLOWED_HOSTS when it downloads them
+export const bRollSourceSchema = refine(
+  str({ maxLength: 2048 }),
+  isBRollSource,
+  "must be an http(s) URL or a local stock library path"
+);
+
+export const bRollTransitionSchema: Schema<BRollTransition> =
+  object<BRollTransition>({
+    kind: oneOf(BROLL_TRANSITION_KINDS),
+    durationSeconds: num({ min: 0, max: 5 }),
+    direction: optional(oneOf(BROLL_DIRECTIONS)),
+  });
+
+const fraction = num({ min: 0, max: 1 });
+
+export const motionRectSchema: Schema<MotionRect> = refine(
+  object<MotionRect>({
+    x: fraction,
+    y: fraction,
+    width: num({ min: 0.05, max: 1 }),
+    height: num({ min: 0.05, max: 1 }),
+  }),
+  (r) => r.x + r.width <= 1.0001 && r.y + r.height <= 1.0001,
+  "must lie inside the image"
+);
+
+export const bRollMotionSchema: Schema<BRollMotion> = tagged<BRollMotion>(
+  "kind",
+  {
+    static: object({ kind: oneOf(["static"] as const) }),
+    "ken-burns": object({
+      kind: oneOf(["ken-burns"] as const),
+      from: motionRectSchema,
+      to: motionRectSchema,
+    }),
+    pan: object({
+      kind: oneOf(["pan"] as const),
+      direction: oneOf(BROLL_DIRECTIONS),
+    }),
+  }
+);
+
+export const bRollLayoutSchema: Schema<BRollLayout> = tagged<BRollLayout>(
+  "kind",
+  {
+    full: object({ kind: oneOf(["full"] as const) }),
+    pip: refine(
+      object({
+        kind: oneOf(["pip"] as const),
+        x: fraction,
+        y: fraction,
+        size: num({ min: 0.1, max: 0.9 }),
+        borderRadius: num({ min: 0, max: 0.5 }),
+        shadow: bool(),
+      }),
+      (l) =>
+        l.x >= l.size / 2 - 0.0001 &&
+        l.x <= 1 - l.size / 2 + 0.0001 &&
+        l.y >= l.size / 2 - 0.0001 &&
+        l.y <= 1 - l.size / 2 + 0.0001,
+      "must lie inside the frame"
+    ),
+    split: object({
+      kind: oneOf(["split"] as const),
+      orientation: oneOf(["vertical", "horizontal"] as const),
+      bRollFirst: bool(),
+      ratio: num({ min: 0.2, max: 0.8 }),
+    }),
+    overlay: object({
+      kind: oneOf(["overlay"] as const),
+      opacity: num({ min: 0.05, max: 1 }),
+    }),
+  }
+);
+
+export const bRollEntrySchema: Schema<BRollEntry> = object<BRollEntry>({
+  id: str({ maxLength: 200 }),
+  src: bRollSourceSchema,
+  thumb: optional(str({ maxLength: 2048 })),
+  type: optional(oneOf(["image", "video"] as const)),
+  startSeconds: seconds,
+  durationSeconds: num({ min: 0.05, max: MAX_DURATION_SECONDS }),
+  volume: optional(num({ min: 0, max: 1 })),
+  muted: optional(bool()),
+  transitionIn: optional(bRollTransitionSchema),
+  transitionOut: optional(bRollTransitionSchema),
+  motion: optional(bRollMotionSchema),
+  layout: optional(bRollLayoutSchema),
+});
+
+export const stylePresetSchema = oneOf<CaptionStylePreset>([
+  "bottom",
+  "top",
+  "karaoke",
+]);
+
+export const aspectPresetSchema = oneOf<AspectPreset>([
+  "source",
+  "9:16",
+  "1:1",
+  "4:5",
+  "16:9",
+]);
+
+export const fitModeSchema = oneOf<FitMode>(["fit", "fill", "blur"]);
+
+const em = num({ min: 0, max: 10 });
+
+export const captionStyleSchema: Schema<CaptionStyle> = object<CaptionStyle>({
+  fontFamily: str({ maxLength: 200 }),
+  fontWeight: num({ min: 100, max: 1000 }),
+  fontSize: num({ min: 0.005, max: 0.5 }),
+  lineHeight: num({ min: 0.5, max: 4 }),
+  textColor: color,
+  highlightColor: color,
+  strokeColor: color,
+  strokeWidth: em,
+  shadowColor: color,
+  shadowBlur: em,
+  background: object<CaptionStyle["background"]>({
+    enabled: bool(),
+    color,
+    paddingX: em,
+    paddingY: em,
+    borderRadius: em,
+  }),
+  position: oneOf(["top", "middle", "bottom"] as const),
+  safeMargin: num({ min: 0, max: 0.5 }),
+  maxWidth: num({ min: 0.1, max: 1 }),
+  uppercase: bool(),
+  wordHighlight: bool(),
+  animationIn: oneOf(["none", "fade", "pop", "slide-up"] as const),
+  effects: optional(captionEffectsSchema),
+  speakers: optional(
+    arrayOf(
+      object<SpeakerStyle>({
+        name: str({ maxLength: 60 }),
+        color: nullable(color),
+        align: oneOf(SPEAKER_ALIGNS),
+        nameTag: bool(),
+      }),
+      { max: 50 }
+    )
+  ),
+});
+
+export const cutRangeSchema: Schema<CutRange> = timeRange(
+  object<CutRange>({
+    start: seconds,
+    end: seconds,
+    reason: oneOf(["silence", "filler"] as const),
+  })
+);
+
+export const musicBedSchema: Schema<MusicBed> = object<MusicBed>({
+  src: str({ maxLength: 2048 }),
+  name: str({ maxLength: 300 }),
+  volume: num({ min: 0, max: 1 }),
+  duckedVolume: num({ min: 0, max: 1 }),
+  fadeSeconds: num({ min: 0, max: 10 }),
+});
+
+export const audioMixSchema: Schema<AudioMix> = object<AudioMix>({
+  music: nullable(musicBedSchema),
+  loudnessLufs: nullable(num({ min: -70, max: -5 })),
+});
+
+const crfFits = ({ codec, crf }: ExportOptions) => {
+  const range = EXPORT_FORMATS[codec].crf;
+  return (
+    crf === null || (range !== null && crf >= range.min && crf <= range.max)
+  );
+};
+
+const gifRangeFits = ({ codec, range }: ExportOptions) =>
+  codec !== "gif" ||
+  (range !== null && range.end - range.start <= MAX_GIF_SECONDS);
+
+const subtitlesFit = ({ codec, subtitles }: ExportOptions) =>
+  SUBTITLE_MODES[subtitles].codecs.includes(codec);
+
+/** Export format settings; missing keys take DEFAULT_EXPORT_OPTIONS. */
+export const exportOptionsSchema: Schema<ExportOptions> = refine(
+  refine(
+    refine(
+      object<ExportOptions>({
+        codec: withDefault(oneOf(EXPORT_CODECS), DEFAULT_EXPORT_OPTIONS.codec),
+        crf: nullable(num({ min: 0, max: 63, integer: true })),
+        videoBitrate: nullable(
+          str({ maxLength: 12, pattern: /^\d+(\.\d+)?[kKmM]?$/ })
+        ),
+        audio: withDefault(bool(), DEFAULT_EXPORT_OPTIONS.audio),
+        scale: withDefault(
+          num({ min: 0.1, max: 2 }),
+          DEFAULT_EXPORT_OPTIONS.scale
+        ),
+        range: nullable(
+          refine(timeRangeSchema, (r) => r.end > r.start, "must not be empty")
+        ),
+        subtitles: withDefault(
+          oneOf(SUBTITLE_MODE_NAMES),
+          DEFAULT_EXPORT_OPTIONS.subtitles
+        ),
+      }),
+      crfFits,
+      "is out of range for this codec",
+      "crf"
+    ),
+    gifRangeFits,
+    `is required for GIF and at most ${MAX_GIF_SECONDS}s long`,
+    "range"
+  ),
+  subtitlesFit,
+  "cannot be muxed with this codec",
+  "subtitles"
+);
+
+/* ---------------- per-route request schemas ---------------- */
+
+export type RenderVariantInput = {
+  language: string;
+  captions: CaptionSegment[];
+  secondaryCaptions: CaptionSegment[] | null;
+};
+
+export type RenderOptions = {
+  captions: CaptionSegment[];
+  stylePreset: CaptionStylePreset;
+  captionStyle: CaptionStyle | null;
+  aspectPreset: AspectPreset;
+  fitMode: FitMode;
+  // source duration; required when `cuts` is sent
+  durationInSeconds: number | undefined;
+  bRolls: BRollEntry[];
+  variants: RenderVariantInput[];
+  cuts: CutRange[];
+  audioMix: AudioMix | null;
+  exportOptions: ExportOptions;
+  // transcription language of the "source" track, for subtitle tags
+  sourceLanguage: string;
+};
+
+/** Multipart fields of POST /api/render (see RENDER_FORM_FIELDS). */
+export const renderOptionsSchema: Schema<RenderOptions> = refine(
+  object<RenderOptions>({
+    captions: captionsSchema,
+    stylePreset: withDefault(stylePresetSchema, "bottom"),
+    captionStyle: nullable(captionStyleSchema),
+    aspectPreset: withDefault(aspectPresetSchema, "source"),
+    fitMode: withDefault(fitModeSchema, "fill"),
+    durationInSeconds: optional(
+      num({ min: 0, max: MAX_DURATION_SECONDS, coerce: true })
+    ),
+    bRolls: withDefault(arrayOf(bRollEntrySchema, { max: 200 }), []),
+    variants: withDefault(
+      arrayOf(
+        object<RenderVariantInput>({
+          language: languageSchema,
+          captions: captionsSchema,
+          secondaryCaptions: nullable(captionsSchema),
+        }),
+        { max: 10 }
+      ),
+      []
+    ),
+    cuts: withDefault(arrayOf(cutRangeSchema, { max: 5000 }), []),
+    audioMix: nullable(audioMixSchema),
+    exportOptions: withDefault(exportOptionsSchema, DEFAULT_EXPORT_OPTIONS),
+    sourceLanguage: withDefault(languageSchema, "auto"),
+  }),
+  (o) => o.cuts.length === 0 || Boolean(o.durationInSeconds),
+  "is required when cuts are sent",
+  "durationInSeconds"
+);
+
+export const RENDER_FORM_FIELDS = {
+  names: [
+    "captions",
+    "stylePreset",
+    "captionStyle",
+    "aspectPreset",
+    "fitMode",
+    "durationInSeconds",
+    "bRolls",
+    "variants",
+    "cuts",
+    "audioMix",
+    "exportOptions",
+    "sourceLanguage",
+  ],
+  json: [
+    "captions",
+    "captionStyle",
+    "bRolls",
+    "variants",
+    "cuts",
+    "audioMix",
+    "exportOptions",
+  ],
+};
+
+export const segmentationOptionsSchema: Schema<SegmentationOptions> = refine(
+  object<SegmentationOptions>({
+    mode: oneOf(SEGMENTATION_MODES),
+    maxCharsPerLine: num({ min: 10, max: 80, integer: true }),
+    maxLines: num({ min: 1, max: 3, integer: true }),
+    minDurationSeconds: num({ min: 0.1, max: 5 }),
+    maxDurationSeconds: num({ min: 0.5, max: 15 }),
+    maxCps: num({ min: 5, max: 40 }),
+  }),
+  (o) => o.maxDurationSeconds > o.minDurationSeconds,
+  "must be longer than minDurationSeconds",
+  "maxDurationSeconds"
+);
+
+// full options, a preset name, or "off" to keep the provider's own segments
+const segmentationRequestSchema: Schema<SegmentationOptions | null> = (
+  value,
+  path,
+  issues
+) => {
+  if (value === "off") return null;
+  if (typeof value === "string") {
+    const mode = oneOf(SEGMENTATION_MODES)(value, path, issues);
+    return mode ? SEGMENTATION_PRESETS[mode] : null;
+  }
+  return segmentationOptionsSchema(value, path, issues);
+};
+
+export type TranscribeRequest = {
+  projectId: string | undefined;
+  // registry name; getTranscriptionProvider checks it and applies the default
+  provider: string | undefined;
+  language: string | undefined;
+  segmentation: SegmentationOptions | null;
+  // label segments with speakers (see lib/diarization)
+  diarize: boolean;
+  // registry name; getDiarizer checks it and applies the default
+  diarizer: string | undefined;
+  // number of speakers when known; helps the backend split voices
+  speakerCount: number | undefined;
+};
+
+/** Text fields of POST /api/generate-captions. */
+export const transcribeRequestSchema: Schema<TranscribeRequest> =
+  object<TranscribeRequest>({
+    projectId: withDefault(projectIdSchema, undefined),
+    provider: withDefault(str({ maxLength: 40 }), undefined),
+    language: withDefault(languageSchema, undefined),
+    segmentation: withDefault(segmentationRequestSchema, DEFAULT_SEGMENTATION),
+    diarize: withDefault(bool(), false),
+    diarizer: withDefault(str({ maxLength: 40 }), undefined),
+    speakerCount: withDefault(
+      num({ min: 1, max: 20, integer: true, coerce: true }),
+      undefined
+    ),
+  });
+
+export type TranslateRequest = {
+  captions: CaptionSegment[];
+  to: string;
+  from: string | undefined;
+  translator: string | undefined;
+};
+
+/** JSON body of POST /api/translate. */
+export const translateRequestSchema: Schema<TranslateRequest> =
+  object<TranslateRequest>({
+    captions: captionsSchema,
+    to: languageSchema,
+    // "auto" lets the translator detect it
+    from: withDefault(languageSchema, undefined),
+    translator: withDefault(str({ maxLength: 40 }), undefined),
+  });
+
+export type BRollSuggestionsRequest = {
+  captions: CaptionSegment[];
+  provider: string | undefined;
+  type: StockMediaType | undefined;
+  maxSuggestions: number;
+};
+
+/** JSON body of POST /api/broll-suggestions. */
+export const bRollSuggestionsRequestSchema: Schema<BRollSuggestionsRequest> =
+  object<BRollSuggestionsRequest>({
+    captions: captionsSchema,
+    provider: withDefault(str({ maxLength: 40 }), undefined),
+    type: withDefault(oneOf<StockMediaType>(["photos", "videos"]), undefined),
+    maxSuggestions: withDefault(num({ min: 1, max: 20, integer: true }), 6),
+  });
+
+export type StockQueryInput = {
+  provider: string | undefined;
+  query: string;
+  type: StockMediaType;
+  orientation: StockOrientation;
+  size: StockSize;
+  page: number;
+  per_page: number;
+};
+
+/** Query string of GET /api/stock-media (Object.fromEntries(searchParams)). */
+export const stockQuerySchema: Schema<StockQueryInput> =
+  object<StockQueryInput>({
+    provider: optional(str({ maxLength: 40 })),
+    query: refine(
+      str({ maxLength: 200 }),
+      (q) => q.trim() !== "",
+      "must not be empty"
+    ),
+    type: withDefault(oneOf<StockMediaType>(["photos", "videos"]), "photos"),
+    orientation: withDefault(
+      oneOf<StockOrientation>(["any", "landscape", "portrait", "square"]),
+      "any"
+    ),
+    size: withDefault(
+      oneOf<StockSize>(["any", "small", "medium", "large"]),
+      "any"
+    ),
+    page: withDefault(
+      num({ min: 1, max: 1000, integer: true, coerce: true }),
+      1
+    ),
+    per_page: withDefault(
+      num({ min: 1, max: 80, integer: true, coerce: true }),
+      12
+    ),
+  });
+
+/** Editor state accepted by PATCH /api/projects/:id; every key optional. */
+export const projectPatchSchema: Schema<Partial<ProjectState>> = object<
+  Partial<ProjectState>
+>({
+  name: optional(str({ maxLength: 200 })),
+  captions: optional(captionsSchema),
+  sourceLanguage: optional(languageSchema),
+  translations: optional(arrayOf(captionTrackSchema, { max: 20 })),
+  captionLanguage: optional(languageSchema),
+  secondaryLanguage: optional(nullable(languageSchema)),
+  silences: optional(nullable(arrayOf(timeRangeSchema, { max: 20_000 }))),
+  cuts: optional(arrayOf(cutRangeSchema, { max: 5000 })),
+  stylePreset: optional(stylePresetSchema),
+  captionStyle: optional(nullable(captionStyleSchema)),
+  aspectPreset: optional(aspectPresetSchema),
+  fitMode: optional(fitModeSchema),
+  audioMix: optional(audioMixSchema),
+  bRolls: optional(arrayOf(bRollEntrySchema, { max: 200 })),
+  allImages: optional(arrayOf(str({ maxLength: 2048 }), { max: 1000 })),
+  durationInSeconds: optional(num({ min: 0, max: MAX_DURATION_SECONDS })),
+  videoWidth: optional(nullable(num({ min: 1, max: 16_384, integer: true }))),
+  videoHeight: optional(nullable(num({ min: 1, max: 16_384, integer: true }))),
+});
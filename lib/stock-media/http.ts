@@ -0,0 +1,40 @@
+// lib/stock-media/http.ts
+import { StockSearchError } from "./types";
+
+export const requireKey = (envVar: string, label: string) => {
+  const key = process.env[envVar];
+  if (!key) {
+    throw new StockSearchError(
+      `${label} API key not configured on server`,
+      500
+    );
+  }
+  return key;
+};
+
+/**
+ * GET a provider API and parse JSON, mapping failures to a 502. `T` is the
+ * provider's documented response; fields are read defensively all the same.
+ */
+export async function fetchProviderJson<T>(
+  label: string,
+  url: string,
+  headers?: Record<string, string>
+): Promise<T> {
+  const res = await fetch(url, { headers }).catch((err) => {
+    throw new StockSearchError(
+      `${label} request failed`,
+      502,
+      err?.message || String(err)
+    );
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new StockSearchError(
+      `${label} responded with ${res.status}`,
+      502,
+      text
+    );
+  }
+  return (await res.json()) as T;
+}
@@ -0,0 +1,81 @@
+// lib/stock-media/index.ts
+import { localProvider } from "./local";
+import { pexelsProvider } from "./pexels";
+import { pixabayProvider } from "./pixabay";
+import { unsplashProvider } from "./unsplash";
+import { StockSearchError } from "./types";
+import type {
+  StockMediaProvider,
+  StockProviderName,
+  StockSearchPage,
+  StockSearchParams,
+} from "./types";
+
+export { StockSearchError } from "./types";
+export type {
+  StockMediaProvider,
+  StockMediaResult,
+  StockMediaType,
+  StockOrientation,
+  StockProviderName,
+  StockSearchPage,
+  StockSearchParams,
+  StockSize,
+} from "./types";
+
+const providers: Record<StockProviderName, StockMediaProvider> = {
+  pexels: pexelsProvider,
+  pixabay: pixabayProvider,
+  unsplash: unsplashProvider,
+  local: localProvider,
+};
+
+export const STOCK_PROVIDERS = Object.keys(providers) as StockProviderName[];
+
+export const isStockProviderName = (name: unknown): name is StockProviderName =>
+  typeof name === "string" && Object.hasOwn(providers, name);
+
+/**
+ * Picks the provider named in the request, falling back to the
+ * STOCK_PROVIDER env var and then Pexels.
+ */
+export function getStockProvider(
+  requested?: string | null
+): StockMediaProvider {
+  const name = requested || process.env.STOCK_PROVIDER || "pexels";
+  if (!isStockProviderName(name)) {
+    throw new StockSearchError(
+      `Unknown stock provider "${name}". Expected one of: ${STOCK_PROVIDERS.join(
+        ", "
+      )}`,
+      400
+    );
+  }
+  return providers[name];
+}
+
+/** Validates the query and clamps paging before calling the provider. */
+export async function searchStockMedia(
+  provider: StockMediaProvider,
+  params: Partial<StockSearchParams> & { query: string }
+): Promise<StockSearchPage> {
+  const query = params.query.trim();
+  if (!query) throw new StockSearchError("query required", 400);
+
+  const type = params.type ?? "photos";
+  if (!provider.supports.includes(type)) {
+    throw new StockSearchError(
+      `${provider.name} does not provide ${type}`,
+      400
+    );
+  }
+
+  return provider.search({
+    query,
+    type,
+    orientation: params.orientation ?? "any",
+    size: params.size ?? "any",
+    page: Math.max(1, Math.floor(params.page ?? 1)),
+    perPage: Math.min(80, Math.max(1, Math.floor(params.perPage ?? 12))),
+  });
+}
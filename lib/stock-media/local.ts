@@ -0,0 +1,144 @@
+// lib/stock-media/local.ts
+// Indexes a folder of your own photos/clips (STOCK_LOCAL_DIR) and matches
+// queries against file and folder names. Files are served to the browser
+// by /api/stock-media/local/[...path]; render.mjs maps the same URLs back
+// to disk.
+import fs from "fs/promises";
+import path from "path";
+import type { StockMediaProvider, StockMediaResult } from "./types";
+
+export const LOCAL_STOCK_URL_PREFIX = "/api/stock-media/local/";
+
+const IMAGE_EXTS = new Set([".jpg", ".jpeg", ".png", ".webp", ".gif"]);
+const VIDEO_EXTS = new Set([".mp4", ".mov", ".webm", ".m4v"]);
+
+// rebuilt at most this often so new files show up without a restart
+const INDEX_TTL_MS = 30_000;
+
+type LocalEntry = {
+  // path relative to the library root, always with "/" separators
+  rel: string;
+  type: "image" | "video";
+  tokens: string[];
+  size: number;
+};
+
+export const getLocalStockDir = () =>
+  path.resolve(process.env.STOCK_LOCAL_DIR || "./stock-library");
+
+const tokenize = (s: string) =>
+  s
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+let cached: { dir: string; builtAt: number; entries: LocalEntry[] } | null =
+  null;
+
+async function walk(root: string, dir: string, out: LocalEntry[]) {
+  const dirents = await fs.readdir(dir, { withFileTypes: true });
+  for (const d of dirents) {
+    if (d.name.startsWith(".")) continue;
+    const abs = path.join(dir, d.name);
+    if (d.isDirectory()) {
+      await walk(root, abs, out);
+      continue;
+    }
+    const ext = path.extname(d.name).toLowerCase();
+    const type = IMAGE_EXTS.has(ext)
+      ? "image"
+      : VIDEO_EXTS.has(ext)
+      ? "video"
+      : null;
+    if (!type) continue;
+    const rel = path.relative(root, abs).split(path.sep).join("/");
+    const stat = await fs.stat(abs);
+    out.push({
+      rel,
+      type,
+      tokens: tokenize(rel.slice(0, rel.length - ext.length)),
+      size: stat.size,
+    });
+  }
+}
+
+async function getIndex(): Promise<LocalEntry[]> {
+  const dir = getLocalStockDir();
+  if (
+    cached &&
+    cached.dir === dir &&
+    Date.now() - cached.builtAt < INDEX_TTL_MS
+  ) {
+    return cached.entries;
+  }
+  const entries: LocalEntry[] = [];
+  await walk(dir, dir, entries).catch((err) => {
+    // a missing library just means no results
+    if (err?.code !== "ENOENT") throw err;
+  });
+  entries.sort((a, b) => a.rel.localeCompare(b.rel));
+  cached = { dir, builtAt: Date.now(), entries };
+  return entries;
+}
+
+const toUrl = (rel: string) =>
+  LOCAL_STOCK_URL_PREFIX + rel.split("/").map(encodeURIComponent).join("/");
+
+/**
+ * Absolute path for a URL path under the library, or null when it would
+ * escape the library root.
+ */
+export function resolveLocalStockPath(segments: string[]): string | null {
+  const root = getLocalStockDir();
+  const abs = path.resolve(root, ...segments);
+  return abs.startsWith(root + path.sep) ? abs : null;
+}
+
+export const localProvider: StockMediaProvider = {
+  name: "local",
+  supports: ["photos", "videos"],
+
+  // orientation/size are not known without decoding the files, so those
+  // filters are ignored here
+  async search({ query, type, page, perPage }) {
+    const wanted = type === "videos" ? "video" : "image";
+    const terms = query.trim() === "*" ? [] : tokenize(query);
+    const entries = await getIndex();
+
+    // "clip.mp4" uses "clip.jpg" next to it as its poster when present
+    const posters = new Map(
+      entries
+        .filter((e) => e.type === "image")
+        .map((e) => [e.rel.replace(/\.[^.]+$/, ""), e.rel])
+    );
+
+    const matches = entries.filter(
+      (e) =>
+        e.type === wanted &&
+        terms.every((t) => e.tokens.some((tok) => tok.startsWith(t)))
+    );
+
+    const start = (page - 1) * perPage;
+    const results: StockMediaResult[] = matches
+      .slice(start, start + perPage)
+      .map((e) => {
+        const poster = posters.get(e.rel.replace(/\.[^.]+$/, ""));
+        return {
+          id: e.rel,
+          type: e.type,
+          src: toUrl(e.rel),
+          thumb:
+            e.type === "image" ? toUrl(e.rel) : poster ? toUrl(poster) : "",
+          meta: { path: e.rel, bytes: e.size },
+        };
+      });
+
+    return {
+      results,
+      page,
+      perPage,
+      total: matches.length,
+      hasMore: start + perPage < matches.length,
+    };
+  },
+};
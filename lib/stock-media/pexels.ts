@@ -0,0 +1,114 @@
+// lib/stock-media/pexels.ts
+import { fetchProviderJson, requireKey } from "./http";
+import type { StockMediaProvider, StockSize } from "./types";
+
+// PEXELS_API_BASE lets the fixture server stand in for the real API
+const apiBase = () =>
+  (process.env.PEXELS_API_BASE || "https://api.pexels.com").replace(/\/$/, "");
+
+// Pexels' own "size" filter is the minimum size: large=24MP, medium=12MP,
+// small=4MP
+const SIZE_FILTER: Record<StockSize, string | null> = {
+  any: null,
+  small: "small",
+  medium: "medium",
+  large: "large",
+};
+
+// the parts of https://www.pexels.com/api/documentation/ responses we read
+type PexelsVideoFile = {
+  link?: string;
+  file_type?: string;
+  quality?: string | null;
+  width?: number | null;
+};
+
+type PexelsVideo = {
+  id: number;
+  image?: string;
+  video_files?: PexelsVideoFile[];
+};
+
+type PexelsPhoto = {
+  id: number;
+  src?: Partial<
+    Record<"original" | "large2x" | "large" | "medium" | "small", string>
+  >;
+};
+
+type PexelsSearchResponse = {
+  total_results?: number;
+  next_page?: string;
+  videos?: PexelsVideo[];
+  photos?: PexelsPhoto[];
+};
+
+const pickVideoFile = (files: PexelsVideoFile[], size: StockSize) => {
+  const mp4 = files
+    .filter(
+      (f): f is PexelsVideoFile & { link: string } =>
+        f.file_type === "video/mp4" && Boolean(f.link)
+    )
+    .sort((a, b) => (a.width || 0) - (b.width || 0));
+  if (mp4.length === 0) return files[0]?.link || "";
+  if (size === "small") return mp4[0].link;
+  if (size === "large") return mp4[mp4.length - 1].link;
+  // medium/any: first HD file (usually 1280 or 1920 wide), else the largest
+  return mp4.find((f) => f.quality === "hd")?.link || mp4[mp4.length - 1].link;
+};
+
+export const pexelsProvider: StockMediaProvider = {
+  name: "pexels",
+  supports: ["photos", "videos"],
+
+  async search({ query, type, orientation, size, page, perPage }) {
+    const key = requireKey("PEXELS_API_KEY", "Pexels");
+
+    const params = new URLSearchParams({
+      query,
+      per_page: String(perPage),
+      page: String(page),
+    });
+    if (orientation !== "any") params.set("orientation", orientation);
+    const sizeFilter = SIZE_FILTER[size];
+    if (sizeFilter) params.set("size", sizeFilter);
+
+    const endpoint = type === "videos" ? "/videos/search" : "/v1/search";
+    const json = await fetchProviderJson<PexelsSearchResponse>(
+      "Pexels",
+      `${apiBase()}${endpoint}?${params}`,
+      { Authorization: key }
+    );
+
+    const results =
+      type === "videos"
+        ? (json?.videos || []).map((v) => ({
+            id: v.id,
+            type: "video" as const,
+            thumb: v.image || "",
+            src: pickVideoFile(v.video_files || [], size),
+            meta: v,
+          }))
+        : (json?.photos || []).map((p) => ({
+            id: p.id,
+            type: "image" as const,
+            thumb: p.src?.medium || p.src?.small || p.src?.original || "",
+            src:
+              (size === "small" ? p.src?.large : p.src?.original) ||
+              p.src?.large2x ||
+              p.src?.medium ||
+              "",
+            meta: p,
+          }));
+
+    const total =
+      typeof json?.total_results === "number" ? json.total_results : null;
+    return {
+      results,
+      page,
+      perPage,
+      total,
+      hasMore: Boolean(json?.next_page) || (total ?? 0) > page * perPage,
+    };
+  },
+};
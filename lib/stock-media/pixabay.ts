@@ -0,0 +1,150 @@
+// lib/stock-media/pixabay.ts
+import { fetchProviderJson, requireKey } from "./http";
+import type { StockMediaProvider, StockOrientation, StockSize } from "./types";
+
+const apiBase = () =>
+  (process.env.PIXABAY_API_BASE || "https://pixabay.com").replace(/\/$/, "");
+
+// Pixabay has no size classes for photos, only a minimum width
+const MIN_WIDTH: Record<StockSize, number> = {
+  any: 0,
+  small: 0,
+  medium: 1280,
+  large: 1920,
+};
+
+// the parts of https://pixabay.com/api/docs/ responses we read
+type PixabayRendition = {
+  url?: string;
+  width?: number;
+  height?: number;
+  thumbnail?: string;
+};
+
+type PixabayHit = {
+  id: number;
+  // photos
+  imageWidth?: number;
+  imageHeight?: number;
+  previewURL?: string;
+  webformatURL?: string;
+  largeImageURL?: string;
+  // videos
+  picture_id?: string;
+  videos?: Partial<
+    Record<"large" | "medium" | "small" | "tiny", PixabayRendition>
+  >;
+};
+
+type PixabaySearchResponse = {
+  totalHits?: number;
+  hits?: PixabayHit[];
+};
+
+// the API rejects per_page below 3
+const MIN_PER_PAGE = 3;
+
+const matchesOrientation = (
+  width: number | undefined,
+  height: number | undefined,
+  orientation: StockOrientation
+) => {
+  if (orientation === "any" || !width || !height) return true;
+  const ratio = width / height;
+  if (orientation === "square") return ratio > 0.9 && ratio < 1.1;
+  return orientation === "landscape" ? ratio >= 1.1 : ratio <= 0.9;
+};
+
+export const pixabayProvider: StockMediaProvider = {
+  name: "pixabay",
+  supports: ["photos", "videos"],
+
+  async search({ query, type, orientation, size, page, perPage }) {
+    const key = requireKey("PIXABAY_API_KEY", "Pixabay");
+
+    // Small pages are read out of a bigger API page. It is a multiple of
+    // perPage, so our page never straddles two of the API's.
+    const apiPerPage =
+      perPage >= MIN_PER_PAGE
+        ? perPage
+        : perPage * Math.ceil(MIN_PER_PAGE / perPage);
+    const first = (page - 1) * perPage;
+    const params = new URLSearchParams({
+      key,
+      q: query,
+      per_page: String(apiPerPage),
+      page: String(Math.floor(first / apiPerPage) + 1),
+      safesearch: "true",
+    });
+    if (MIN_WIDTH[size]) params.set("min_width", String(MIN_WIDTH[size]));
+    // photos support horizontal/vertical server-side; square and all video
+    // orientations are filtered on our side below
+    if (type === "photos" && orientation === "landscape")
+      params.set("orientation", "horizontal");
+    if (type === "photos" && orientation === "portrait")
+      params.set("orientation", "vertical");
+    if (type === "photos") params.set("image_type", "photo");
+
+    const endpoint = type === "videos" ? "/api/videos/" : "/api/";
+    const json = await fetchProviderJson<PixabaySearchResponse>(
+      "Pixabay",
+      `${apiBase()}${endpoint}?${params}`
+    );
+    const offset = first % apiPerPage;
+    const hits = (json?.hits || []).slice(offset, offset + perPage);
+
+    const results =
+      type === "videos"
+        ? hits
+            .map((h) => {
+              const renditions = h.videos || {};
+              const file =
+                size === "small"
+                  ? renditions.small || renditions.tiny
+                  : size === "large"
+                  ? renditions.large?.url
+                    ? renditions.large
+                    : renditions.medium
+                  : renditions.medium || renditions.small;
+              return { h, file: file || ({} as PixabayRendition) };
+            })
+            .filter(({ file }) =>
+              matchesOrientation(file.width, file.height, orientation)
+            )
+            .map(({ h, file }) => ({
+              id: h.id,
+              type: "video" as const,
+              thumb:
+                file.thumbnail ||
+                h.videos?.tiny?.thumbnail ||
+                (h.picture_id
+                  ? `https://i.vimeocdn.com/video/${h.picture_id}_640x360.jpg`
+                  : ""),
+              src: file.url || "",
+              meta: h,
+            }))
+        : hits
+            .filter((h) =>
+              matchesOrientation(h.imageWidth, h.imageHeight, orientation)
+            )
+            .map((h) => ({
+              id: h.id,
+              type: "image" as const,
+              thumb: h.webformatURL || h.previewURL || "",
+              src:
+                (size === "small" ? h.webformatURL : h.largeImageURL) ||
+                h.webformatURL ||
+                "",
+              meta: h,
+            }));
+
+    const total = typeof json?.totalHits === "number" ? json.totalHits : null;
+    return {
+      results,
+      page,
+      perPage,
+      total,
+      hasMore: (total ?? 0) > page * perPage,
+    };
+  },
+};
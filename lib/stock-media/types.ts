@@ -0,0 +1,72 @@
+// lib/stock-media/types.ts
+
+export type StockProviderName = "pexels" | "pixabay" | "unsplash" | "local";
+
+// for the search panel; kept here so the client can import it without
+// pulling in the providers
+export const STOCK_PROVIDER_OPTIONS: {
+  value: StockProviderName;
+  label: string;
+  videos: boolean;
+}[] = [
+  { value: "pexels", label: "Pexels", videos: true },
+  { value: "pixabay", label: "Pixabay", videos: true },
+  { value: "unsplash", label: "Unsplash", videos: false },
+  { value: "local", label: "Local library", videos: true },
+];
+
+export type StockMediaType = "photos" | "videos";
+export type StockOrientation = "any" | "landscape" | "portrait" | "square";
+// which rendition to pick; providers map it to their own size classes
+export type StockSize = "any" | "small" | "medium" | "large";
+
+export type StockSearchParams = {
+  query: string;
+  type: StockMediaType;
+  orientation: StockOrientation;
+  size: StockSize;
+  page: number;
+  perPage: number;
+};
+
+// normalized result shape the page consumes
+export type StockMediaResult = {
+  id: number | string;
+  type: "image" | "video";
+  src: string;
+  thumb: string;
+  meta: unknown;
+};
+
+export type StockSearchPage = {
+  results: StockMediaResult[];
+  page: number;
+  perPage: number;
+  // null when the provider does not report a total
+  total: number | null;
+  hasMore: boolean;
+};
+
+/**
+ * A stock photo/video source. `search` resolves to one page of normalized
+ * results and throws StockSearchError for anything the route should pass
+ * on to the client.
+ */
+export interface StockMediaProvider {
+  name: StockProviderName;
+  supports: StockMediaType[];
+  search(params: StockSearchParams): Promise<StockSearchPage>;
+}
+
+/** Carries the HTTP status a route should answer with. */
+export class StockSearchError extends Error {
+  status: number;
+  details?: string;
+
+  constructor(message: string, status: number, details?: string) {
+    super(message);
+    this.name = "StockSearchError";
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,77 @@
+// lib/stock-media/unsplash.ts
+import { fetchProviderJson, requireKey } from "./http";
+import type { StockMediaProvider, StockSize } from "./types";
+
+const apiBase = () =>
+  (process.env.UNSPLASH_API_BASE || "https://api.unsplash.com").replace(
+    /\/$/,
+    ""
+  );
+
+// the parts of https://unsplash.com/documentation#search-photos we read
+type UnsplashUrlSize = "raw" | "full" | "regular" | "small" | "thumb";
+
+type UnsplashPhoto = {
+  id: string;
+  urls?: Partial<Record<UnsplashUrlSize, string>>;
+};
+
+type UnsplashSearchResponse = {
+  total?: number;
+  total_pages?: number;
+  results?: UnsplashPhoto[];
+};
+
+const URL_FOR_SIZE: Record<StockSize, UnsplashUrlSize> = {
+  any: "full",
+  small: "small",
+  medium: "regular",
+  large: "full",
+};
+
+export const unsplashProvider: StockMediaProvider = {
+  name: "unsplash",
+  // Unsplash has no video library
+  supports: ["photos"],
+
+  async search({ query, orientation, size, page, perPage }) {
+    const key = requireKey("UNSPLASH_ACCESS_KEY", "Unsplash");
+
+    const params = new URLSearchParams({
+      query,
+      // the API caps per_page at 30
+      per_page: String(Math.min(30, perPage)),
+      page: String(page),
+    });
+    if (orientation !== "any") {
+      params.set(
+        "orientation",
+        orientation === "square" ? "squarish" : orientation
+      );
+    }
+
+    const json = await fetchProviderJson<UnsplashSearchResponse>(
+      "Unsplash",
+      `${apiBase()}/search/photos?${params}`,
+      { Authorization: `Client-ID ${key}`, "Accept-Version": "v1" }
+    );
+
+    const results = (json?.results || []).map((p) => ({
+      id: p.id,
+      type: "image" as const,
+      thumb: p.urls?.small || p.urls?.thumb || "",
+      src: p.urls?.[URL_FOR_SIZE[size]] || p.urls?.full || p.urls?.raw || "",
+      meta: p,
+    }));
+
+    const totalPages =
+      typeof json?.total_pages === "number" ? json.total_pages : 0;
+    return {
+      results,
+      page,
+      perPage,
+      total: typeof json?.total === "number" ? json.total : null,
+      hasMore: page < totalPages,
+    };
+  },
+};
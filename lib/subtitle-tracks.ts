@@ -0,0 +1,65 @@
+// lib/subtitle-tracks.ts
+// Soft subtitle tracks for an export: each caption language serialized to
+// the subtitle mode's format, with the tags render.mjs writes into the
+// container.
+import { retimeCaptions, TimeRange } from "./auto-cut";
+import { serializeCaptions } from "./caption-formats";
+import { SUBTITLE_MODES, SubtitleMode } from "./export-formats";
+import { LANGUAGE_OPTIONS } from "./translation/types";
+import type {
+  CaptionSegment,
+  CaptionStylePreset,
+} from "../remotion/VideoWithCaptions";
+
+export type SubtitleTrack = {
+  // ISO 639-2, "und" when unknown
+  language: string;
+  title: string;
+  text: string;
+};
+
+// key of the untranslated track (SOURCE_TRACK in the Languages panel)
+const SOURCE_TRACK = "source";
+
+const languageOption = (code: string) =>
+  LANGUAGE_OPTIONS.find((l) => l.code === code.toLowerCase().split("-")[0]);
+
+/**
+ * One track per caption language, on the timeline of the exported file:
+ * `range` (when only part of the video is exported) shifts and clips the
+ * cues. `sourceLanguage` names the "source" track; "auto" leaves it "und".
+ */
+export function buildSubtitleTracks(
+  languages: { language: string; captions: CaptionSegment[] }[],
+  {
+    mode,
+    stylePreset,
+    sourceLanguage,
+    range,
+  }: {
+    mode: SubtitleMode;
+    stylePreset: CaptionStylePreset;
+    sourceLanguage: string;
+    range: TimeRange | null;
+  }
+): SubtitleTrack[] {
+  const format = SUBTITLE_MODES[mode].format;
+  if (!format) return [];
+
+  return languages.map(({ language, captions }) => {
+    const isSource = language === SOURCE_TRACK;
+    const code = isSource ? sourceLanguage : language;
+    const option = code === "auto" ? undefined : languageOption(code);
+    return {
+      language: option?.iso639_2 ?? "und",
+      title: isSource
+        ? `Original${option ? ` (${option.label})` : ""}`
+        : option?.label ?? language,
+      text: serializeCaptions(
+        range ? retimeCaptions(captions, [range]) : captions,
+        format,
+        stylePreset
+      ),
+    };
+  });
+}
@@ -0,0 +1,66 @@
+// lib/transcription/audio.ts
+import ffmpegStatic from "ffmpeg-static";
+import ffmpeg from "fluent-ffmpeg";
+
+// FFMPEG_PATH wins (e.g. a system ffmpeg on Windows), otherwise use the
+// binary shipped by ffmpeg-static like render.mjs does.
+const ffmpegPath = process.env.FFMPEG_PATH || ffmpegStatic;
+if (ffmpegPath) ffmpeg.setFfmpegPath(ffmpegPath);
+
+/**
+ * Extracts the audio track of `inputPath` into `outPath`. mp3 is what the
+ * OpenAI API takes; wav is 16 kHz mono PCM as whisper.cpp requires.
+ */
+export function extractAudio(
+  inputPath: string,
+  outPath: string,
+  format: "mp3" | "wav"
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const command = ffmpeg(inputPath).noVideo();
+    if (format === "wav") {
+      command.audioCodec("pcm_s16le").audioChannels(1).audioFrequency(16000);
+    } else {
+      command.audioCodec("libmp3lame");
+    }
+    command
+      .format(format)
+      .on("end", () => resolve())
+      .on("error", (err: Error) => reject(err))
+      .save(outPath);
+  });
+}
+
+/**
+ * Runs ffmpeg's silencedetect over an audio (or video) file and returns the
+ * silent stretches in seconds. `noiseDb` is the level below which audio
+ * counts as silence.
+ */
+export function detectSilences(
+  inputPath: string,
+  {
+    noiseDb = -35,
+    minSeconds = 0.3,
+  }: { noiseDb?: number; minSeconds?: number } = {}
+): Promise<{ start: number; end: number }[]> {
+  return new Promise((resolve, reject) => {
+    const silences: { start: number; end: number }[] = [];
+    let openStart: number | null = null;
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioFilters(`silencedetect=noise=${noiseDb}dB:d=${minSeconds}`)
+      .format("null")
+      .on("stderr", (line: string) => {
+        const start = /silence_start:\s*(-?[\d.]+)/.exec(line);
+        if (start) openStart = Math.max(0, Number(start[1]));
+        const end = /silence_end:\s*([\d.]+)/.exec(line);
+        if (end && openStart !== null) {
+          silences.push({ start: openStart, end: Number(end[1]) });
+          openStart = null;
+        }
+      })
+      .on("end", () => resolve(silences))
+      .on("error", (err: Error) => reject(err))
+      .save("-");
+  });
+}
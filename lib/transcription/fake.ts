@@ -0,0 +1,44 @@
+// lib/transcription/fake.ts
+import type { CaptionSegment } from "../../remotion/VideoWithCaptions";
+import type { TranscriptionProvider } from "./types";
+
+const DEFAULT_SCRIPT = [
+  "Hello world",
+  "Yeh ek sample caption hai.",
+  "This transcript comes from the fake provider.",
+];
+
+// Each line lasts this long; words are spaced evenly inside it.
+const SEGMENT_SECONDS = 2;
+
+/**
+ * Deterministic provider for tests and offline development. Ignores the
+ * audio and returns FAKE_TRANSCRIPT (lines separated by "|") or a fixed
+ * sample script, with word timings, so the route runs without network.
+ */
+export const fakeProvider: TranscriptionProvider = {
+  name: "fake",
+  audioFormat: "mp3",
+
+  async transcribe() {
+    const lines = process.env.FAKE_TRANSCRIPT
+      ? process.env.FAKE_TRANSCRIPT.split("|").map((l) => l.trim())
+      : DEFAULT_SCRIPT;
+
+    return lines.filter(Boolean).map((text, i): CaptionSegment => {
+      const start = i * SEGMENT_SECONDS;
+      const tokens = text.split(/\s+/);
+      const step = SEGMENT_SECONDS / tokens.length;
+      return {
+        start,
+        end: start + SEGMENT_SECONDS,
+        text,
+        words: tokens.map((word, j) => ({
+          start: start + j * step,
+          end: start + (j + 1) * step,
+          text: word,
+        })),
+      };
+    });
+  },
+};
@@ -0,0 +1,44 @@
+// lib/transcription/index.ts
+import { fakeProvider } from "./fake";
+import { localWhisperProvider } from "./local-whisper";
+import { openaiProvider } from "./openai";
+import type { TranscriptionProvider, TranscriptionProviderName } from "./types";
+
+export type {
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionProviderName,
+} from "./types";
+
+const providers: Record<TranscriptionProviderName, TranscriptionProvider> = {
+  openai: openaiProvider,
+  "local-whisper": localWhisperProvider,
+  fake: fakeProvider,
+};
+
+export const TRANSCRIPTION_PROVIDERS = Object.keys(
+  providers
+) as TranscriptionProviderName[];
+
+export const isTranscriptionProviderName = (
+  name: unknown
+): name is TranscriptionProviderName =>
+  typeof name === "string" && Object.hasOwn(providers, name);
+
+/**
+ * Picks the provider named in the request, falling back to the
+ * TRANSCRIPTION_PROVIDER env var and then OpenAI.
+ */
+export function getTranscriptionProvider(
+  requested?: string | null
+): TranscriptionProvider {
+  const name = requested || process.env.TRANSCRIPTION_PROVIDER || "openai";
+  if (!isTranscriptionProviderName(name)) {
+    throw new Error(
+      `Unknown transcription provider "${name}". Expected one of: ${TRANSCRIPTION_PROVIDERS.join(
+        ", "
+      )}`
+    );
+  }
+  return providers[name];
+}
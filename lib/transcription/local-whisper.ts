@@ -0,0 +1,134 @@
+// lib/transcription/local-whisper.ts
+// Offline transcription through a locally installed whisper binary.
+//
+//   LOCAL_WHISPER_FLAVOR  whisper.cpp (default) | faster-whisper
+//   LOCAL_WHISPER_BIN     executable, defaults to whisper-cli / whisper-ctranslate2
+//   LOCAL_WHISPER_MODEL   whisper.cpp: path to a ggml model file
+//                         faster-whisper: model name or directory (default "small")
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { toCaptionSegments } from "./segments";
+import type {
+  TranscriptionProvider,
+  WhisperSegment,
+  WhisperWord,
+} from "./types";
+
+type Flavor = "whisper.cpp" | "faster-whisper";
+
+const FLAVORS: Flavor[] = ["whisper.cpp", "faster-whisper"];
+
+const TIMEOUT_MS = 30 * 60 * 1000;
+
+function runBinary(bin: string, args: string[]): Promise<void> {
+  console.log("[local-whisper]", bin, args.join(" "));
+  return new Promise((resolve, reject) => {
+    const child = spawn(bin, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stderr = "";
+    const timer = setTimeout(() => child.kill("SIGKILL"), TIMEOUT_MS);
+
+    child.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(new Error(`Could not start ${bin}: ${err.message}`));
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else
+        reject(
+          new Error(`${bin} exited with code ${code}: ${stderr.slice(-2000)}`)
+        );
+    });
+  });
+}
+
+async function transcribeWhisperCpp(audioPath: string, language?: string) {
+  const model = process.env.LOCAL_WHISPER_MODEL;
+  if (!model) {
+    throw new Error("LOCAL_WHISPER_MODEL must point at a ggml model file");
+  }
+  const bin = process.env.LOCAL_WHISPER_BIN || "whisper-cli";
+  const outPrefix = path.join(path.dirname(audioPath), "whisper-cpp");
+
+  await runBinary(bin, [
+    "-m",
+    model,
+    "-f",
+    audioPath,
+    "-l",
+    language || "auto",
+    "-oj",
+    "-of",
+    outPrefix,
+    "-np",
+  ]);
+
+  const json = JSON.parse(await fs.readFile(`${outPrefix}.json`, "utf8"));
+  // whisper.cpp reports offsets in milliseconds
+  const segments: WhisperSegment[] = (json?.transcription || []).map(
+    (t: { offsets: { from: number; to: number }; text?: string }) => ({
+      start: t.offsets.from / 1000,
+      end: t.offsets.to / 1000,
+      text: t.text,
+    })
+  );
+  return toCaptionSegments(segments);
+}
+
+async function transcribeFasterWhisper(audioPath: string, language?: string) {
+  const bin = process.env.LOCAL_WHISPER_BIN || "whisper-ctranslate2";
+  const outDir = await fs.mkdtemp(path.join(os.tmpdir(), "faster-whisper-"));
+  try {
+    await runBinary(bin, [
+      audioPath,
+      "--model",
+      process.env.LOCAL_WHISPER_MODEL || "small",
+      "--output_format",
+      "json",
+      "--output_dir",
+      outDir,
+      "--word_timestamps",
+      "True",
+      ...(language ? ["--language", language] : []),
+    ]);
+
+    const base = path.basename(audioPath, path.extname(audioPath));
+    const json = JSON.parse(
+      await fs.readFile(path.join(outDir, `${base}.json`), "utf8")
+    );
+    const segments: (WhisperSegment & { words?: WhisperWord[] })[] =
+      json?.segments || [];
+    return toCaptionSegments(
+      segments,
+      segments.flatMap((s) => s.words || [])
+    );
+  } finally {
+    fs.rm(outDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+export const localWhisperProvider: TranscriptionProvider = {
+  name: "local-whisper",
+  // both binaries want 16 kHz mono PCM
+  audioFormat: "wav",
+
+  async transcribe(audioPath, options) {
+    const flavor = process.env.LOCAL_WHISPER_FLAVOR || "whisper.cpp";
+    if (!(FLAVORS as string[]).includes(flavor)) {
+      throw new Error(
+        `Unknown LOCAL_WHISPER_FLAVOR "${flavor}". Expected one of: ${FLAVORS.join(
+          ", "
+        )}`
+      );
+    }
+    if (flavor === "faster-whisper") {
+      return transcribeFasterWhisper(audioPath, options?.language);
+    }
+    return transcribeWhisperCpp(audioPath, options?.language);
+  },
+};
@@ -0,0 +1,40 @@
+// lib/transcription/openai.ts
+import fs from "node:fs/promises";
+import OpenAI, { toFile } from "openai";
+import type { TranscriptionVerbose } from "openai/resources/audio/transcriptions";
+import { toCaptionSegments } from "./segments";
+import type { TranscriptionProvider } from "./types";
+
+let client: OpenAI | null = null;
+
+// created on first use so the other providers work without an API key
+const getClient = () => {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is not configured on the server");
+  }
+  client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+};
+
+export const openaiProvider: TranscriptionProvider = {
+  name: "openai",
+  audioFormat: "mp3",
+
+  async transcribe(audioPath, options) {
+    const audioBuffer = await fs.readFile(audioPath);
+    const openaiFile = await toFile(audioBuffer, "audio.mp3", {
+      type: "audio/mpeg",
+    });
+
+    const transcription = await getClient().audio.transcriptions.create({
+      file: openaiFile,
+      model: process.env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1",
+      response_format: "verbose_json",
+      timestamp_granularities: ["word", "segment"],
+      ...(options?.language ? { language: options.language } : {}),
+    });
+
+    const verbose = transcription as TranscriptionVerbose;
+    return toCaptionSegments(verbose.segments || [], verbose.words || []);
+  },
+};
@@ -0,0 +1,32 @@
+// lib/transcription/segments.ts
+import type { CaptionSegment } from "../../remotion/VideoWithCaptions";
+import type { WhisperSegment, WhisperWord } from "./types";
+
+/**
+ * Turns whisper segments plus a flat word list into CaptionSegments.
+ * A word belongs to the segment it starts in; the last segment also takes
+ * anything whisper timestamped past its end.
+ */
+export function toCaptionSegments(
+  segments: WhisperSegment[],
+  words: WhisperWord[] = []
+): CaptionSegment[] {
+  return segments.map((seg, i) => {
+    const isLast = i === segments.length - 1;
+    const segWords = words
+      .filter((w) => w.start >= seg.start && (isLast || w.start < seg.end))
+      .map((w) => ({
+        start: w.start,
+        end: w.end,
+        text: (w.word || "").trim(),
+      }))
+      .filter((w) => w.text.length > 0);
+
+    return {
+      start: seg.start,
+      end: seg.end,
+      text: (seg.text || "").trim(),
+      ...(segWords.length > 0 ? { words: segWords } : {}),
+    };
+  });
+}
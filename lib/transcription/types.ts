@@ -0,0 +1,26 @@
+// lib/transcription/types.ts
+import type { CaptionSegment } from "../../remotion/VideoWithCaptions";
+
+export type TranscriptionProviderName = "openai" | "local-whisper" | "fake";
+
+export type TranscriptionOptions = {
+  // ISO-639-1 hint; providers auto-detect when omitted
+  language?: string;
+};
+
+/**
+ * A speech-to-text backend. The route extracts the audio track in the
+ * provider's preferred `audioFormat` and hands over the file path.
+ */
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  audioFormat: "mp3" | "wav";
+  transcribe(
+    audioPath: string,
+    options?: TranscriptionOptions
+  ): Promise<CaptionSegment[]>;
+}
+
+// Whisper-style output shared by the OpenAI API and faster-whisper's JSON
+export type WhisperSegment = { start: number; end: number; text?: string };
+export type WhisperWord = { start: number; end: number; word?: string };
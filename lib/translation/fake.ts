@@ -0,0 +1,68 @@
+// lib/translation/fake.ts
+import type { Translator } from "./types";
+
+// target language -> lowercase word -> translation
+const DICTIONARIES: Record<string, Record<string, string>> = {
+  hi: {
+    hello: "नमस्ते",
+    world: "दुनिया",
+    this: "यह",
+    is: "है",
+    a: "एक",
+    sample: "नमूना",
+    caption: "कैप्शन",
+    video: "वीडियो",
+    thank: "धन्यवाद",
+    you: "आप",
+  },
+  en: {
+    namaste: "hello",
+    yeh: "this",
+    ek: "a",
+    hai: "is",
+    aur: "and",
+    nahi: "no",
+    haan: "yes",
+    dhanyavaad: "thanks",
+  },
+  es: {
+    hello: "hola",
+    world: "mundo",
+    this: "esto",
+    is: "es",
+    a: "un",
+    sample: "ejemplo",
+    caption: "subtítulo",
+    video: "vídeo",
+  },
+};
+
+const loadDictionary = (to: string): Record<string, string> => {
+  const extra = process.env.FAKE_TRANSLATIONS
+    ? JSON.parse(process.env.FAKE_TRANSLATIONS)?.[to]
+    : null;
+  return { ...(DICTIONARIES[to] || {}), ...(extra || {}) };
+};
+
+/**
+ * Deterministic word-by-word dictionary lookup for tests and offline
+ * development. Unknown words pass through unchanged; FAKE_TRANSLATIONS
+ * ('{"hi": {"word": "शब्द"}}') extends the built-in dictionaries.
+ */
+export const fakeTranslator: Translator = {
+  name: "fake",
+
+  async translate(texts, { to }) {
+    const dictionary = loadDictionary(to);
+    return texts.map((text) =>
+      text.replace(/[\p{L}\p{N}']+/gu, (word) => {
+        const hit = dictionary[word.toLowerCase()];
+        if (!hit) return word;
+        return word[0] === word[0].toUpperCase() &&
+          word[0] !== word[0].toLowerCase()
+          ? hit[0].toUpperCase() + hit.slice(1)
+          : hit;
+      })
+    );
+  },
+};
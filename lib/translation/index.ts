@@ -0,0 +1,66 @@
+// lib/translation/index.ts
+import type { CaptionSegment } from "../../remotion/VideoWithCaptions";
+import { fakeTranslator } from "./fake";
+import { localTranslator } from "./local";
+import { openaiTranslator } from "./openai";
+import type { TranslateOptions, Translator, TranslatorName } from "./types";
+
+export type { TranslateOptions, Translator, TranslatorName } from "./types";
+export { LANGUAGE_OPTIONS } from "./types";
+
+const translators: Record<TranslatorName, Translator> = {
+  openai: openaiTranslator,
+  local: localTranslator,
+  fake: fakeTranslator,
+};
+
+export const TRANSLATORS = Object.keys(translators) as TranslatorName[];
+
+export const isTranslatorName = (name: unknown): name is TranslatorName =>
+  typeof name === "string" && Object.hasOwn(translators, name);
+
+/**
+ * Picks the translator named in the request, falling back to the
+ * TRANSLATOR env var and then OpenAI.
+ */
+export function getTranslator(requested?: string | null): Translator {
+  const name = requested || process.env.TRANSLATOR || "openai";
+  if (!isTranslatorName(name)) {
+    throw new Error(
+      `Unknown translator "${name}". Expected one of: ${TRANSLATORS.join(", ")}`
+    );
+  }
+  return translators[name];
+}
+
+// captions per translator call; keeps prompts and payloads small
+const BATCH_SIZE = 40;
+
+/**
+ * Translates a caption track. Timing and speakers are copied from the
+ * source segments; word timings are dropped since they do not carry over
+ * to another language.
+ */
+export async function translateCaptions(
+  captions: CaptionSegment[],
+  translator: Translator,
+  options: TranslateOptions
+): Promise<CaptionSegment[]> {
+  const out: CaptionSegment[] = [];
+  for (let i = 0; i < captions.length; i += BATCH_SIZE) {
+    const batch = captions.slice(i, i + BATCH_SIZE);
+    const texts = await translator.translate(
+      batch.map((seg) => seg.text),
+      options
+    );
+    batch.forEach((seg, j) =>
+      out.push({
+        start: seg.start,
+        end: seg.end,
+        text: texts[j].trim(),
+        ...(seg.speaker ? { speaker: seg.speaker } : {}),
+      })
+    );
+  }
+  return out;
+}
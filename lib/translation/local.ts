@@ -0,0 +1,51 @@
+// lib/translation/local.ts
+// Offline translation through a self-hosted LibreTranslate (or any server
+// speaking its /translate API), e.g. `docker run -p 5000:5000
+// libretranslate/libretranslate`.
+//
+//   LOCAL_TRANSLATOR_URL      base URL (default http://127.0.0.1:5000)
+//   LOCAL_TRANSLATOR_API_KEY  only if the server requires one
+import type { Translator } from "./types";
+
+export const localTranslator: Translator = {
+  name: "local",
+
+  async translate(texts, { from, to }) {
+    const base = (
+      process.env.LOCAL_TRANSLATOR_URL || "http://127.0.0.1:5000"
+    ).replace(/\/$/, "");
+
+    const res = await fetch(`${base}/translate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        q: texts,
+        source: from || "auto",
+        target: to,
+        format: "text",
+        ...(process.env.LOCAL_TRANSLATOR_API_KEY
+          ? { api_key: process.env.LOCAL_TRANSLATOR_API_KEY }
+          : {}),
+      }),
+    }).catch((err) => {
+      throw new Error(
+        `Local translator unreachable at ${base}: ${err.message}`
+      );
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(`Local translator responded with ${res.status}: ${text}`);
+    }
+
+    const json = await res.json();
+    const translated = Array.isArray(json?.translatedText)
+      ? json.translatedText
+      : [json?.translatedText];
+    if (translated.length !== texts.length) {
+      throw new Error(
+        `Local translator returned ${translated.length} captions for ${texts.length} inputs`
+      );
+    }
+    return translated.map((t: unknown) => String(t ?? ""));
+  },
+};
@@ -0,0 +1,51 @@
+// lib/translation/openai.ts
+import OpenAI from "openai";
+import type { Translator } from "./types";
+
+let client: OpenAI | null = null;
+
+// created on first use so the other translators work without an API key
+const getClient = () => {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is not configured on the server");
+  }
+  client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+};
+
+export const openaiTranslator: Translator = {
+  name: "openai",
+
+  async translate(texts, { from, to }) {
+    const completion = await getClient().chat.completions.create({
+      model: process.env.OPENAI_TRANSLATION_MODEL || "gpt-4o-mini",
+      temperature: 0.2,
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content:
+            `You translate video captions${
+              from ? ` from ${from}` : ""
+            } into ${to}. ` +
+            "Keep each caption short enough to read on screen, keep names " +
+            "and numbers, and do not merge or split captions. Reply with " +
+            'JSON {"translations": string[]} holding exactly one entry per ' +
+            "input caption, in the same order.",
+        },
+        { role: "user", content: JSON.stringify({ captions: texts }) },
+      ],
+    });
+
+    const content = completion.choices[0]?.message?.content || "{}";
+    const translations = JSON.parse(content)?.translations;
+    if (!Array.isArray(translations) || translations.length !== texts.length) {
+      throw new Error(
+        `Translation returned ${
+          Array.isArray(translations) ? translations.length : "no"
+        } captions for ${texts.length} inputs`
+      );
+    }
+    return translations.map((t) => String(t ?? ""));
+  },
+};
@@ -0,0 +1,36 @@
+// lib/translation/types.ts
+
+export type TranslatorName = "openai" | "local" | "fake";
+
+export type TranslateOptions = {
+  // ISO-639-1; omitted means "detect"
+  from?: string;
+  to: string;
+};
+
+/**
+ * A text translation backend. Receives a batch of caption texts and must
+ * return exactly one translation per input, in the same order.
+ */
+export interface Translator {
+  name: TranslatorName;
+  translate(texts: string[], options: TranslateOptions): Promise<string[]>;
+}
+
+// languages offered in the editor; any ISO-639-1 code works with the API
+export const LANGUAGE_OPTIONS: {
+  code: string;
+  label: string;
+  // three-letter tag for subtitle tracks in MP4/MKV
+  iso639_2: string;
+}[] = [
+  { code: "en", label: "English", iso639_2: "eng" },
+  { code: "hi", label: "Hindi", iso639_2: "hin" },
+  { code: "es", label: "Spanish", iso639_2: "spa" },
+  { code: "fr", label: "French", iso639_2: "fra" },
+  { code: "de", label: "German", iso639_2: "deu" },
+  { code: "pt", label: "Portuguese", iso639_2: "por" },
+  { code: "ar", label: "Arabic", iso639_2: "ara" },
+  { code: "bn", label: "Bengali", iso639_2: "ben" },
+  { code: "ja", label: "Japanese", iso639_2: "jpn" },
+];
@@ -0,0 +1,236 @@
+// lib/uploads.ts
+// Multipart uploads streamed straight to disk with size caps, and
+// magic-byte sniffing of what arrived. Routes use this instead of
+// req.formData(), which holds the whole body in memory.
+import formidable from "formidable";
+import fsPromises from "fs/promises";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+
+export type MediaKind = "video" | "audio" | "image";
+
+export type UploadedFile = {
+  path: string;
+  originalName: string;
+  // from the file's content, not the client's Content-Type
+  mimeType: string;
+  size: number;
+};
+
+const MB = 1024 * 1024;
+const envMb = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return (Number.isFinite(value) && value > 0 ? value : fallback) * MB;
+};
+
+export const UPLOAD_LIMITS = {
+  videoBytes: envMb("MAX_VIDEO_UPLOAD_MB", 1024),
+  musicBytes: envMb("MAX_MUSIC_UPLOAD_MB", 100),
+  // captions, B-roll and the other JSON fields together
+  fieldsBytes: envMb("MAX_FORM_FIELDS_MB", 20),
+};
+
+/** Carries the HTTP status a route should answer with. */
+export class UploadError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "UploadError";
+    this.status = status;
+  }
+}
+
+type Sniffed = { mimeType: string; kinds: MediaKind[] };
+
+const ascii = (head: Buffer, start: number, end: number) =>
+  head.toString("latin1", start, end);
+
+/**
+ * Identifies common video, audio and image containers from their first
+ * bytes. Generic containers (MP4, WebM, Ogg) count as both video and
+ * audio since either can be inside.
+ */
+export function sniffMediaType(head: Buffer): Sniffed | null {
+  if (ascii(head, 4, 8) === "ftyp") {
+    const brand = ascii(head, 8, 12);
+    if (brand === "qt  ")
+      return { mimeType: "video/quicktime", kinds: ["video"] };
+    if (/^M4[ABP] $/.test(brand))
+      return { mimeType: "audio/mp4", kinds: ["audio"] };
+    if (brand === "avif") return { mimeType: "image/avif", kinds: ["image"] };
+    if (/^(heic|heix|mif1)$/.test(brand)) {
+      return { mimeType: "image/heic", kinds: ["image"] };
+    }
+    return { mimeType: "video/mp4", kinds: ["video", "audio"] };
+  }
+  if (head.readUInt32BE(0) === 0x1a45dfa3) {
+    const docType = ascii(head, 0, 64).includes("webm") ? "webm" : "x-matroska";
+    return { mimeType: `video/${docType}`, kinds: ["video", "audio"] };
+  }
+  if (ascii(head, 0, 4) === "OggS") {
+    return { mimeType: "audio/ogg", kinds: ["video", "audio"] };
+  }
+  if (ascii(head, 0, 4) === "RIFF") {
+    const format = ascii(head, 8, 12);
+    if (format === "AVI ")
+      return { mimeType: "video/x-msvideo", kinds: ["video"] };
+    if (format === "WAVE") return { mimeType: "audio/wav", kinds: ["audio"] };
+    if (format === "WEBP") return { mimeType: "image/webp", kinds: ["image"] };
+    return null;
+  }
+  // MPEG transport stream: a sync byte every 188 bytes
+  if (head[0] === 0x47 && head.length > 188 && head[188] === 0x47) {
+    return { mimeType: "video/mp2t", kinds: ["video"] };
+  }
+  if (head.readUInt32BE(0) === 0x000001ba) {
+    return { mimeType: "video/mpeg", kinds: ["video"] };
+  }
+  if (ascii(head, 0, 3) === "ID3")
+    return { mimeType: "audio/mpeg", kinds: ["audio"] };
+  if (ascii(head, 0, 4) === "fLaC")
+    return { mimeType: "audio/flac", kinds: ["audio"] };
+  if (head[0] === 0xff && (head[1] & 0xf6) === 0xf0) {
+    return { mimeType: "audio/aac", kinds: ["audio"] };
+  }
+  if (head[0] === 0xff && (head[1] & 0xe0) === 0xe0) {
+    return { mimeType: "audio/mpeg", kinds: ["audio"] };
+  }
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) {
+    return { mimeType: "image/jpeg", kinds: ["image"] };
+  }
+  if (head.readUInt32BE(0) === 0x89504e47) {
+    return { mimeType: "image/png", kinds: ["image"] };
+  }
+  if (ascii(head, 0, 4) === "GIF8")
+    return { mimeType: "image/gif", kinds: ["image"] };
+  if (
+    /^\uFEFF?\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/.test(
+      ascii(head, 0, head.length)
+    )
+  ) {
+    return { mimeType: "image/svg+xml", kinds: ["image"] };
+  }
+  return null;
+}
+
+/** Sniffs a file on disk; throws a 415 unless it is one of `accept`. */
+export async function checkMediaFile(
+  filePath: string,
+  accept: MediaKind[]
+): Promise<string> {
+  const handle = await fsPromises.open(filePath, "r");
+  const head = Buffer.alloc(512);
+  try {
+    const { bytesRead } = await handle.read(head, 0, head.length, 0);
+    const sniffed =
+      bytesRead >= 12 ? sniffMediaType(head.subarray(0, bytesRead)) : null;
+    if (!sniffed || !sniffed.kinds.some((k) => accept.includes(k))) {
+      throw new UploadError(
+        `Unsupported file type; expected ${accept.join(" or ")}`,
+        415
+      );
+    }
+    return sniffed.mimeType;
+  } finally {
+    await handle.close();
+  }
+}
+
+// what we read of formidable's files and errors (the package is untyped here)
+type FormidableFile = {
+  filepath: string;
+  originalFilename: string | null;
+  size: number;
+};
+type FormidableError = Error & { httpCode?: number };
+
+/**
+ * Streams a multipart request into `dir`. Text fields come back as
+ * FormData (for lib/schemas' formFields); the one file part, which must be
+ * named `file`, is capped at `maxFileBytes` and sniffed against `accept`.
+ * The caller owns the returned file and removes it when done.
+ */
+export async function parseUpload(
+  req: Request,
+  {
+    dir,
+    maxFileBytes,
+    accept,
+  }: { dir: string; maxFileBytes: number; accept: MediaKind[] }
+): Promise<{ fields: FormData; file: UploadedFile | null }> {
+  if (!req.body) throw new UploadError("Empty request body", 400);
+  const body = Object.assign(
+    Readable.fromWeb(req.body as NodeReadableStream),
+    // formidable reads a body with neither length header as empty
+    {
+      headers: {
+        "transfer-encoding": "chunked",
+        ...Object.fromEntries(req.headers),
+      },
+    }
+  );
+  const form = formidable({
+    uploadDir: dir,
+    keepExtensions: true,
+    maxFiles: 1,
+    maxFileSize: maxFileBytes,
+    maxFieldsSize: UPLOAD_LIMITS.fieldsBytes,
+    filter: (part: { name: string | null }) => part.name === "file",
+  });
+
+  // formidable leaves partial files behind when it gives up
+  const started: string[] = [];
+  form.on("fileBegin", (_name: string, file: { filepath: string }) =>
+    started.push(file.filepath)
+  );
+
+  let parsed: [Record<string, string[]>, Record<string, FormidableFile[]>];
+  try {
+    parsed = await form.parse(body);
+  } catch (err) {
+    await Promise.all(started.map((p) => fsPromises.unlink(p).catch(() => {})));
+    const tooLarge = (err as FormidableError).httpCode === 413;
+    throw new UploadError(
+      tooLarge
+        ? `Upload is larger than ${Math.round(maxFileBytes / MB)} MB`
+        : `Invalid upload: ${(err as FormidableError).message || err}`,
+      tooLarge ? 413 : 400
+    );
+  }
+
+  const [rawFields, files] = parsed;
+  const fields = new FormData();
+  for (const [name, values] of Object.entries(rawFields)) {
+    if (values?.[0] !== undefined) fields.append(name, values[0]);
+  }
+
+  const part = files.file?.[0];
+  if (!part) return { fields, file: null };
+  try {
+    const mimeType = await checkMediaFile(part.filepath, accept);
+    return {
+      fields,
+      file: {
+        path: part.filepath,
+        originalName: part.originalFilename || "upload",
+        mimeType,
+        size: part.size,
+      },
+    };
+  } catch (err) {
+    await fsPromises.unlink(part.filepath).catch(() => {});
+    throw err;
+  }
+}
+
+/** rename(), falling back to copy + unlink across filesystems. */
+export async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fsPromises.rename(from, to);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EXDEV") throw err;
+    await fsPromises.copyFile(from, to);
+    await fsPromises.unlink(from).catch(() => {});
+  }
+}
@@ -6,15 +6,29 @@ import {
   fps,
   CaptionSegment,
   CaptionStylePreset,
+  CaptionStyle,
   BRollEntry,
+  AspectPreset,
+  FitMode,
+  getOutputDimensions,
+  MusicBed,
 } from "./VideoWithCaptions";
 
 type InputProps = {
   videoSrc: string;
   captions: CaptionSegment[];
+  secondaryCaptions?: CaptionSegment[] | null;
   bRolls: BRollEntry[];
   stylePreset: CaptionStylePreset;
+  captionStyle?: CaptionStyle | null;
   durationInSeconds?: number;
+  // probed from the source by render.mjs
+  sourceWidth?: number;
+  sourceHeight?: number;
+  aspectPreset?: AspectPreset;
+  fitMode?: FitMode;
+  music?: MusicBed | null;
+  hideCaptions?: boolean;
 };
 
 export const RemotionRoot: React.FC = () => {
@@ -22,20 +36,29 @@ export const RemotionRoot: React.FC = () => {
 
   const durationInSeconds = inputProps?.durationInSeconds ?? 60;
   const durationInFrames = Math.max(1, Math.round(durationInSeconds * fps));
+  const { width, height } = getOutputDimensions(
+    { width: inputProps?.sourceWidth, height: inputProps?.sourceHeight },
+    inputProps?.aspectPreset ?? "source"
+  );
 
   return (
     <Composition
       id="VideoWithCaptions"
       component={VideoWithCaptions}
-      width={1920}
-      height={1080}
+      width={width}
+      height={height}
       fps={fps}
       durationInFrames={durationInFrames}
       defaultProps={{
         videoSrc: inputProps?.videoSrc ?? "",
         captions: inputProps?.captions ?? [],
+        secondaryCaptions: inputProps?.secondaryCaptions ?? null,
         bRolls: inputProps?.bRolls ?? [],
         stylePreset: inputProps?.stylePreset ?? "bottom",
+        captionStyle: inputProps?.captionStyle ?? null,
+        fitMode: inputProps?.fitMode ?? "fill",
+        music: inputProps?.music ?? null,
+        hideCaptions: inputProps?.hideCaptions ?? false,
       }}
     />
   );
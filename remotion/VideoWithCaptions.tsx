@@ -1,18 +1,131 @@
 // remotion/VideoWithCaptions.tsx
-import React from "react";
+import React, { useMemo } from "react";
 import {
   AbsoluteFill,
+  Audio,
   Img,
   interpolate,
   Video as RemotionVideo,
   Sequence,
   useCurrentFrame,
+  useVideoConfig,
 } from "remotion";
+import {
+  CaptionStyle,
+  CaptionStylePreset,
+  resolveCaptionStyle,
+} from "./caption-style";
+import {
+  CaptionEffects,
+  CaptionEffectsOverride,
+  emojiFor,
+  hasWordEffects,
+  isKeyword,
+  resolveCaptionEffects,
+  wordEffectStyle,
+} from "./caption-effects";
+import { listSpeakers, resolveSpeakerStyle } from "./speakers";
+
+export type {
+  CaptionAnimationIn,
+  CaptionPosition,
+  CaptionStyle,
+  CaptionStylePreset,
+} from "./caption-style";
+import type { FitMode } from "./layout";
+import { MusicBed, musicVolumeAt, speechRanges } from "./audio-mix";
+import {
+  BRollMotion,
+  bRollMotionTransform,
+  bRollShown,
+  BRollTransition,
+  bRollTransitionStyle,
+} from "./broll-motion";
+import {
+  BRollLayout,
+  bRollLayoutOpacity,
+  bRollLayoutStyle,
+  baseVideoBox,
+  layoutBoxStyle,
+} from "./broll-layout";
+
+export { CAPTION_STYLE_PRESETS, resolveCaptionStyle } from "./caption-style";
+export type {
+  CaptionEffects,
+  CaptionEffectsOverride,
+  WordAnimation,
+} from "./caption-effects";
+export {
+  EMOJI_KEYWORDS,
+  NO_CAPTION_EFFECTS,
+  resolveCaptionEffects,
+  WORD_ANIMATIONS,
+} from "./caption-effects";
+export type { SpeakerAlign, SpeakerStyle } from "./speakers";
+export {
+  listSpeakers,
+  resolveSpeakerStyle,
+  SPEAKER_ALIGNS,
+  SPEAKER_COLORS,
+} from "./speakers";
+export type { AspectPreset, FitMode } from "./layout";
+export { ASPECT_PRESETS, getOutputDimensions } from "./layout";
+export type { AudioMix, MusicBed } from "./audio-mix";
+export {
+  DEFAULT_AUDIO_MIX,
+  DEFAULT_MUSIC_LEVELS,
+  LOUDNESS_TARGETS,
+} from "./audio-mix";
+export type {
+  BRollDirection,
+  BRollMotion,
+  BRollTransition,
+  BRollTransitionKind,
+  MotionRect,
+} from "./broll-motion";
+export {
+  BROLL_DIRECTIONS,
+  BROLL_TRANSITION_KINDS,
+  DEFAULT_BROLL_MOTION,
+  DEFAULT_BROLL_TRANSITION,
+  FULL_RECT,
+} from "./broll-motion";
+export type {
+  BRollLayout,
+  LayoutBox,
+  PipCorner,
+  SplitOrientation,
+} from "./broll-layout";
+export {
+  BROLL_LAYOUT_KINDS,
+  bRollBox,
+  clampPipPosition,
+  DEFAULT_BROLL_LAYOUT,
+  DEFAULT_PIP_LAYOUT,
+  PIP_CORNERS,
+  pipCornerPosition,
+} from "./broll-layout";
 
 export const fps = 30;
 
-export type CaptionSegment = { start: number; end: number; text: string };
-export type CaptionStylePreset = "bottom" | "top" | "karaoke";
+export type CaptionWord = { start: number; end: number; text: string };
+export type CaptionSegment = {
+  start: number;
+  end: number;
+  text: string;
+  words?: CaptionWord[];
+  // overrides the style's effects for this segment only
+  effects?: CaptionEffectsOverride;
+  // display name from diarization ("Speaker 1") or as renamed in the editor
+  speaker?: string;
+};
+
+// One language's captions. The source transcript is a track too; the rest
+// are translations with the same timing.
+export type CaptionTrack = {
+  language: string;
+  captions: CaptionSegment[];
+};
 
 export type BRollEntry = {
   id: string;
@@ -21,84 +134,307 @@ export type BRollEntry = {
   type?: "image" | "video";
   startSeconds: number;
   durationSeconds: number;
+  // video B-roll only: level of the clip's own audio (default 1)
+  volume?: number;
+  muted?: boolean;
+  // default to DEFAULT_BROLL_TRANSITION (a short fade)
+  transitionIn?: BRollTransition;
+  transitionOut?: BRollTransition;
+  // image B-roll only; defaults to DEFAULT_BROLL_MOTION (slow push in)
+  motion?: BRollMotion;
+  // defaults to DEFAULT_BROLL_LAYOUT (full frame, covering the speaker)
+  layout?: BRollLayout;
 };
 
 type Props = {
   videoSrc: string;
   captions: CaptionSegment[];
+  // second language stacked under the main captions (bilingual layout)
+  secondaryCaptions?: CaptionSegment[] | null;
   stylePreset?: CaptionStylePreset;
+  // overrides the preset when set (custom style from the designer)
+  captionStyle?: CaptionStyle | null;
+  // how the base video is reframed when its aspect differs from the frame
+  fitMode?: FitMode;
   bRolls?: BRollEntry[];
+  // background music, ducked under the captions' speech
+  music?: MusicBed | null;
+  // captions still duck the music but are not drawn (soft subtitle exports)
+  hideCaptions?: boolean;
+};
+
+/**
+ * Word timings for a segment. Uses the transcription's word timestamps when
+ * present, otherwise spreads the segment duration evenly over its words so
+ * captions saved before word-level timing still animate.
+ */
+export const getSegmentWords = (seg: CaptionSegment): CaptionWord[] => {
+  if (Array.isArray(seg.words) && seg.words.length > 0) return seg.words;
+  const tokens = (seg.text || "").split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return [];
+  const step = Math.max(0, seg.end - seg.start) / tokens.length;
+  return tokens.map((text, i) => ({
+    start: seg.start + i * step,
+    end: seg.start + (i + 1) * step,
+    text,
+  }));
+};
+
+/**
+ * Indexes into getSegmentWords(seg) of the words that start a new line of
+ * `seg.text`. Empty when the text's words don't line up with the timings
+ * (edited text over stale word timestamps), so karaoke just wraps.
+ */
+export const getLineStarts = (seg: CaptionSegment): Set<number> => {
+  const lines = (seg.text || "").split("\n");
+  const starts = new Set<number>();
+  if (lines.length < 2) return starts;
+  let count = 0;
+  for (const line of lines) {
+    const tokens = line.split(/\s+/).filter(Boolean).length;
+    if (tokens > 0 && count > 0) starts.add(count);
+    count += tokens;
+  }
+  return count === getSegmentWords(seg).length ? starts : new Set();
+};
+
+const clamp = {
+  extrapolateLeft: "clamp",
+  extrapolateRight: "clamp",
+} as const;
+
+// One word of a caption drawn on its own: the karaoke highlight
+// (style.wordHighlight) plus any per-word effects.
+const CaptionWordView: React.FC<{
+  word: CaptionWord;
+  frame: number;
+  fps: number;
+  style: CaptionStyle;
+  effects: CaptionEffects;
+}> = ({ word, frame, fps, style, effects }) => {
+  const time = frame / fps;
+  const isActive = time >= word.start && time < word.end;
+  const isSpoken = time >= word.end;
+  const animation = effects.wordAnimation;
+  const fx = wordEffectStyle(animation, word, frame, fps);
+
+  // karaoke pop + bounce of the active word, unless an effect moves words
+  let transform = fx.transform;
+  if (style.wordHighlight && animation === "none") {
+    const local = Math.max(0, (time - word.start) * fps);
+    const scale = isActive
+      ? interpolate(local, [0, 4, 8], [1, 1.18, 1.08], clamp)
+      : 1;
+    const lift = isActive
+      ? interpolate(local, [0, 4, 8], [0, -0.17, 0], clamp)
+      : 0;
+    transform = `translateY(${lift}em) scale(${scale})`;
+  }
+
+  // the highlight box already marks the active word in highlightColor
+  const color =
+    style.wordHighlight && isActive && animation !== "highlight-box"
+      ? style.highlightColor
+      : effects.emphasis && isKeyword(word.text, effects)
+      ? effects.emphasisColor
+      : style.textColor;
+  const dimmed = style.wordHighlight && !isActive && !isSpoken;
+  const emoji = effects.emoji ? emojiFor(word.text) : null;
+  const box = fx.boxProgress ?? 0;
+
+  // typewriter keeps the untyped rest in place (hidden) so lines don't reflow
+  const chars = Array.from(word.text);
+  const shown = fx.visibleChars ?? chars.length;
+  const typed = chars.slice(0, shown).join("");
+  const untyped = chars.slice(shown).join("");
+
+  return (
+    <span
+      style={{
+        display: "inline-block",
+        ...(animation === "highlight-box"
+          ? {
+              margin: "0 0.05em",
+              padding: "0 0.1em",
+              borderRadius: "0.15em",
+              background:
+                box > 0
+                  ? `linear-gradient(${style.highlightColor}, ${
+                      style.highlightColor
+                    }) left / ${box * 100}% 100% no-repeat`
+                  : undefined,
+            }
+          : { margin: "0 0.15em" }),
+        color,
+        opacity: fx.opacity * (dimmed ? 0.6 : 1),
+        transform,
+      }}
+    >
+      {typed}
+      {untyped && <span style={{ visibility: "hidden" }}>{untyped}</span>}
+      {emoji && (
+        <span style={{ visibility: untyped ? "hidden" : undefined }}>
+          {" "}
+          {emoji}
+        </span>
+      )}
+    </span>
+  );
+};
+
+// Entrance of a segment over its first few frames, per CaptionStyle.animationIn
+const ENTER_FRAMES = 8;
+const getEnterStyle = (
+  animation: CaptionStyle["animationIn"],
+  framesSinceStart: number
+): React.CSSProperties => {
+  const t = interpolate(framesSinceStart, [0, ENTER_FRAMES], [0, 1], clamp);
+  switch (animation) {
+    case "fade":
+      return { opacity: t };
+    case "pop":
+      return {
+        opacity: t,
+        transform: `scale(${interpolate(t, [0, 0.7, 1], [0.6, 1.08, 1])})`,
+      };
+    case "slide-up":
+      return { opacity: t, transform: `translateY(${(1 - t) * 0.8}em)` };
+    default:
+      return {};
+  }
 };
 
+// size of the stacked second-language line relative to the main one
+const SECONDARY_SCALE = 0.75;
+// size of a speaker's name tag relative to their caption
+const NAME_TAG_SCALE = 0.6;
+
 const CaptionsRenderer: React.FC<{
   captions: CaptionSegment[];
+  secondaryCaptions?: CaptionSegment[] | null;
   fps: number;
-  stylePreset?: CaptionStylePreset;
-}> = ({ captions, fps, stylePreset }) => {
+  captionStyle: CaptionStyle;
+}> = ({ captions, secondaryCaptions, fps, captionStyle: style }) => {
   const frame = useCurrentFrame();
+  const { width, height } = useVideoConfig();
   const time = frame / fps;
-  const active = captions.find((c) => time >= c.start && time <= c.end);
-  if (!active) return null;
+  const speakers = useMemo(() => listSpeakers(captions), [captions]);
+  const findActive = (list: CaptionSegment[]) =>
+    list.find((c) => time >= c.start && time <= c.end);
+  const active = findActive(captions);
+  const secondary = secondaryCaptions ? findActive(secondaryCaptions) : null;
+  if (!active && !secondary) return null;
+  const activeEffects = resolveCaptionEffects(style.effects, active?.effects);
+  const speakerStyleOf = (seg: CaptionSegment | null | undefined) =>
+    seg?.speaker
+      ? resolveSpeakerStyle(seg.speaker, speakers, style.speakers)
+      : null;
+  const activeSpeaker = speakerStyleOf(active);
+  // the speaker's colour stands in for the text colour, so the karaoke
+  // highlight and keyword colours still apply on top of it
+  const activeStyle = activeSpeaker?.color
+    ? { ...style, textColor: activeSpeaker.color }
+    : style;
+
+  const margin = style.safeMargin * height;
+  const sideInset = ((1 - style.maxWidth) / 2) * width;
+  const positionStyle: React.CSSProperties =
+    style.position === "top"
+      ? { top: margin }
+      : style.position === "middle"
+      ? { top: "50%", transform: "translateY(-50%)" }
+      : { bottom: margin };
 
-  const baseStyle: React.CSSProperties = {
+  const containerStyle: React.CSSProperties = {
     position: "absolute",
-    left: 40,
-    right: 40,
+    left: sideInset,
+    right: sideInset,
     pointerEvents: "none",
     textAlign: "center",
-    fontSize: 36,
-    fontWeight: 600,
-    textShadow: "0 4px 18px rgba(0,0,0,0.6)",
-    lineHeight: 1.2,
+    fontFamily: style.fontFamily,
+    fontSize: style.fontSize * height,
+    fontWeight: style.fontWeight,
+    lineHeight: style.lineHeight,
+    color: style.textColor,
+    textTransform: style.uppercase ? "uppercase" : "none",
+    textShadow:
+      style.shadowBlur > 0
+        ? `0 0.11em ${style.shadowBlur}em ${style.shadowColor}`
+        : "none",
+    WebkitTextStroke:
+      style.strokeWidth > 0
+        ? `${style.strokeWidth}em ${style.strokeColor}`
+        : undefined,
+    paintOrder: "stroke fill",
     zIndex: 50,
+    ...positionStyle,
   };
 
-  if (stylePreset === "top") {
-    return (
-      <div style={{ ...baseStyle, top: 20 }}>
-        <div
-          style={{
-            display: "inline-block",
-            padding: "8px 16px",
-            background: "rgba(0,0,0,0.6)",
-            borderRadius: 6,
-          }}
-        >
-          <span style={{ color: "white", fontSize: 28 }}>{active.text}</span>
-        </div>
-      </div>
-    );
-  }
+  const boxStyle = (seg: CaptionSegment): React.CSSProperties => ({
+    display: "inline-block",
+    ...(style.background.enabled
+      ? {
+          padding: `${style.background.paddingY}em ${style.background.paddingX}em`,
+          background: style.background.color,
+          borderRadius: `${style.background.borderRadius}em`,
+        }
+      : {}),
+    ...getEnterStyle(style.animationIn, frame - Math.round(seg.start * fps)),
+  });
 
-  if (stylePreset === "karaoke") {
-    return (
-      <div style={{ ...baseStyle, bottom: 50 }}>
+  return (
+    <div style={containerStyle}>
+      {active && (
+        <div style={{ textAlign: activeSpeaker?.align ?? "center" }}>
+          {activeSpeaker?.nameTag && (
+            <div
+              style={{
+                fontSize: `${NAME_TAG_SCALE}em`,
+                marginBottom: "0.2em",
+                color: activeSpeaker.color ?? style.highlightColor,
+              }}
+            >
+              {active.speaker}
+            </div>
+          )}
+          <div style={{ ...boxStyle(active), color: activeStyle.textColor }}>
+            {style.wordHighlight || hasWordEffects(activeEffects) ? (
+              (() => {
+                const lineStarts = getLineStarts(active);
+                return getSegmentWords(active).map((w, i) => (
+                  <React.Fragment key={i}>
+                    {lineStarts.has(i) && <br />}
+                    <CaptionWordView
+                      word={w}
+                      frame={frame}
+                      fps={fps}
+                      style={activeStyle}
+                      effects={activeEffects}
+                    />
+                  </React.Fragment>
+                ));
+              })()
+            ) : (
+              <span style={{ whiteSpace: "pre-line" }}>{active.text}</span>
+            )}
+          </div>
+        </div>
+      )}
+      {/* translated line: smaller, no word highlight (its timing is per
+          segment only) */}
+      {secondary && (
         <div
           style={{
-            display: "inline-block",
-            padding: "8px 12px",
-            background: "rgba(0,0,0,0.4)",
-            borderRadius: 6,
+            fontSize: `${SECONDARY_SCALE}em`,
+            marginTop: "0.3em",
+            textAlign: speakerStyleOf(secondary)?.align ?? "center",
           }}
         >
-          <span style={{ color: "white" }}>{active.text}</span>
+          <div style={boxStyle(secondary)}>
+            <span style={{ whiteSpace: "pre-line" }}>{secondary.text}</span>
+          </div>
         </div>
-      </div>
-    );
-  }
-
-  return (
-    <div style={{ ...baseStyle, bottom: 60 }}>
-      <div
-        style={{
-          display: "inline-block",
-          padding: "10px 18px",
-          background: "rgba(0,0,0,0.5)",
-          borderRadius: 8,
-        }}
-      >
-        <span style={{ color: "white" }}>{active.text}</span>
-      </div>
+      )}
     </div>
   );
 };
@@ -135,72 +471,137 @@ const isLikelyLocalBrollUrl = (u?: string) => {
 };
 
 /* ---------------- B-roll renderers ---------------- */
-const ImageBroll: React.FC<{ src: string; durationInFrames: number }> = ({
-  src,
+type BRollLayerProps = {
+  durationInFrames: number;
+  transitionIn?: BRollTransition;
+  transitionOut?: BRollTransition;
+  layout?: BRollLayout;
+};
+
+// places an entry by its layout and runs its in/out transition on that box
+const BRollLayer: React.FC<BRollLayerProps & { children: React.ReactNode }> = ({
   durationInFrames,
+  transitionIn,
+  transitionOut,
+  layout,
+  children,
 }) => {
   const frame = useLocalSeqFrame();
-  const inFrames = Math.min(10, Math.round(durationInFrames * 0.15));
-  const outFrames = Math.min(10, Math.round(durationInFrames * 0.15));
-  let opacity = 1;
-  if (frame < inFrames) {
-    opacity = interpolate(frame, [0, inFrames], [0, 1], {
-      extrapolateLeft: "clamp",
-      extrapolateRight: "clamp",
-    });
-  } else if (frame >= durationInFrames - outFrames) {
-    opacity = interpolate(
-      frame,
-      [durationInFrames - outFrames, durationInFrames],
-      [1, 0],
-      { extrapolateLeft: "clamp", extrapolateRight: "clamp" }
-    );
-  }
-  const zoom =
-    1 + Math.sin((frame / Math.max(1, durationInFrames)) * Math.PI) * 0.02;
+  const { width, height } = useVideoConfig();
+  const transition = bRollTransitionStyle(
+    frame,
+    durationInFrames,
+    fps,
+    transitionIn,
+    transitionOut
+  );
   return (
-    <AbsoluteFill style={{ opacity }}>
+    <div
+      style={{
+        ...bRollLayoutStyle(layout, width, height),
+        ...transition,
+        opacity: transition.opacity * bRollLayoutOpacity(layout),
+      }}
+    >
+      {children}
+    </div>
+  );
+};
+
+const ImageBroll: React.FC<
+  BRollLayerProps & { src: string; motion?: BRollMotion }
+> = ({ src, motion, ...layer }) => {
+  const frame = useLocalSeqFrame();
+  const progress = frame / Math.max(1, layer.durationInFrames - 1);
+  return (
+    <BRollLayer {...layer}>
       <Img
         src={src}
         style={{
           width: "100%",
           height: "100%",
           objectFit: "cover",
-          transform: `scale(${zoom})`,
+          transform: bRollMotionTransform(motion, progress),
         }}
       />
-    </AbsoluteFill>
+    </BRollLayer>
   );
 };
 
-const VideoBroll: React.FC<{
-  src: string;
-  poster?: string;
-  durationInFrames: number;
-}> = ({ src, poster, durationInFrames }) => {
-  const frame = useLocalSeqFrame();
-  const inFrames = Math.min(8, Math.round(durationInFrames * 0.12));
-  const outFrames = Math.min(8, Math.round(durationInFrames * 0.12));
-  let opacity = 1;
-  if (frame < inFrames) {
-    opacity = interpolate(frame, [0, inFrames], [0, 1], {
-      extrapolateLeft: "clamp",
-      extrapolateRight: "clamp",
-    });
-  } else if (frame >= durationInFrames - outFrames) {
-    opacity = interpolate(
-      frame,
-      [durationInFrames - outFrames, durationInFrames],
-      [1, 0],
-      { extrapolateLeft: "clamp", extrapolateRight: "clamp" }
+const VideoBroll: React.FC<
+  BRollLayerProps & {
+    src: string;
+    volume: number;
+    muted: boolean;
+  }
+> = ({ src, volume, muted, ...layer }) => {
+  return (
+    <BRollLayer {...layer}>
+      <RemotionVideo
+        src={src}
+        volume={volume}
+        muted={muted}
+        style={{ width: "100%", height: "100%", objectFit: "cover" }}
+      />
+    </BRollLayer>
+  );
+};
+
+/* ---------------- Music bed ---------------- */
+const MusicTrack: React.FC<{ music: MusicBed; captions: CaptionSegment[] }> = ({
+  music,
+  captions,
+}) => {
+  const speech = useMemo(
+    () => speechRanges(captions, music.fadeSeconds),
+    [captions, music.fadeSeconds]
+  );
+  return (
+    <Audio
+      src={music.src}
+      loop
+      volume={(f) => musicVolumeAt(f / fps, speech, music)}
+    />
+  );
+};
+
+/* ---------------- Base video ---------------- */
+const BaseVideo: React.FC<{ src: string; fitMode: FitMode }> = ({
+  src,
+  fitMode,
+}) => {
+  if (fitMode === "blur") {
+    return (
+      <AbsoluteFill>
+        {/* muted, blurred cover copy behind the fitted video */}
+        <AbsoluteFill
+          style={{ filter: "blur(40px)", transform: "scale(1.15)" }}
+        >
+          <RemotionVideo
+            src={src}
+            muted
+            style={{ width: "100%", height: "100%", objectFit: "cover" }}
+          />
+        </AbsoluteFill>
+        <AbsoluteFill>
+          <RemotionVideo
+            src={src}
+            style={{ width: "100%", height: "100%", objectFit: "contain" }}
+          />
+        </AbsoluteFill>
+      </AbsoluteFill>
     );
   }
 
   return (
-    <AbsoluteFill style={{ opacity }}>
+    <AbsoluteFill>
       <RemotionVideo
         src={src}
-        style={{ width: "100%", height: "100%", objectFit: "cover" }}
+        style={{
+          width: "100%",
+          height: "100%",
+          objectFit: fitMode === "fit" ? "contain" : "cover",
+        }}
       />
     </AbsoluteFill>
   );
@@ -210,18 +611,53 @@ const VideoBroll: React.FC<{
 export const VideoWithCaptions: React.FC<Props> = ({
   videoSrc,
   captions,
+  secondaryCaptions,
   stylePreset = "bottom",
+  captionStyle,
+  fitMode = "fill",
   bRolls = [],
+  music,
+  hideCaptions = false,
 }) => {
+  const frame = useCurrentFrame();
+  const { width, height } = useVideoConfig();
+
+  // a split-screen B-roll on screen now squeezes the speaker aside; the
+  // last one wins, like the drawing order below
+  const split = (Array.isArray(bRolls) ? bRolls : [])
+    .filter((b) => b.layout?.kind === "split")
+    .map((b) => {
+      const from = Math.round((b.startSeconds || 0) * fps);
+      const durationInFrames = Math.max(
+        1,
+        Math.round((b.durationSeconds || 0.1) * fps)
+      );
+      return {
+        layout: b.layout,
+        shown: bRollShown(
+          frame - from,
+          durationInFrames,
+          fps,
+          b.transitionIn,
+          b.transitionOut
+        ),
+      };
+    })
+    .filter((s) => s.shown > 0)
+    .pop();
+
   return (
     <AbsoluteFill style={{ background: "black", overflow: "hidden" }}>
       {/* base video */}
-      <AbsoluteFill>
-        <RemotionVideo
-          src={videoSrc}
-          style={{ width: "100%", height: "100%", objectFit: "cover" }}
-        />
-      </AbsoluteFill>
+      <div
+        style={layoutBoxStyle(
+          baseVideoBox(split?.layout, split?.shown ?? 0),
+          width,
+          height
+        )}
+      >
+        <BaseVideo src={videoSrc} fitMode={fitMode} />
+      </div>
 
       {/* b-roll sequences */}
       {Array.isArray(bRolls) &&
@@ -245,23 +681,39 @@ export const VideoWithCaptions: React.FC<Props> = ({
                 {type === "video" ? (
                   <VideoBroll
                     src={b.src}
-                    poster={b.thumb}
                     durationInFrames={durationInFrames}
+                    transitionIn={b.transitionIn}
+                    transitionOut={b.transitionOut}
+                    layout={b.layout}
+                    volume={b.volume ?? 1}
+                    muted={Boolean(b.muted)}
                   />
                 ) : (
-                  <ImageBroll src={b.src} durationInFrames={durationInFrames} />
+                  <ImageBroll
+                    src={b.src}
+                    durationInFrames={durationInFrames}
+                    transitionIn={b.transitionIn}
+                    transitionOut={b.transitionOut}
+                    layout={b.layout}
+                    motion={b.motion}
+                  />
                 )}
               </AbsoluteFill>
             </Sequence>
           );
         })}
 
+      {music?.src && <MusicTrack music={music} captions={captions || []} />}
+
       {/* captions on top */}
-      <CaptionsRenderer
-        captions={captions || []}
-        fps={fps}
-        stylePreset={stylePreset}
-      />
+      {!hideCaptions && (
+        <CaptionsRenderer
+          captions={captions || []}
+          secondaryCaptions={secondaryCaptions}
+          fps={fps}
+          captionStyle={resolveCaptionStyle(stylePreset, captionStyle)}
+        />
+      )}
     </AbsoluteFill>
   );
 };
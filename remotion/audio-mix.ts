@@ -0,0 +1,81 @@
+// remotion/audio-mix.ts
+// Background music and loudness settings. The music bed and its ducking
+// are part of the composition (so the Player previews them); loudness
+// normalization runs in render.mjs on the finished file.
+
+export type MusicBed = {
+  // URL the Player and renderer load the track from
+  src: string;
+  name: string;
+  // 0..1 while nobody is speaking
+  volume: number;
+  // 0..1 under speech
+  duckedVolume: number;
+  // ramp into and out of a duck
+  fadeSeconds: number;
+};
+
+export type AudioMix = {
+  music: MusicBed | null;
+  // EBU R128 integrated loudness target of the export; null leaves the
+  // mix as rendered
+  loudnessLufs: number | null;
+};
+
+export const DEFAULT_AUDIO_MIX: AudioMix = { music: null, loudnessLufs: null };
+
+export const DEFAULT_MUSIC_LEVELS: Pick<
+  MusicBed,
+  "volume" | "duckedVolume" | "fadeSeconds"
+> = { volume: 0.3, duckedVolume: 0.08, fadeSeconds: 0.4 };
+
+export const LOUDNESS_TARGETS: { value: number; label: string }[] = [
+  { value: -14, label: "-14 LUFS (YouTube, social)" },
+  { value: -16, label: "-16 LUFS (Apple, podcasts)" },
+  { value: -23, label: "-23 LUFS (EBU R128 broadcast)" },
+];
+
+type Range = { start: number; end: number };
+
+/**
+ * Speech stretches from caption timing, merged when the gap between them
+ * is too short for the music to come back up in between.
+ */
+export function speechRanges(captions: Range[], fadeSeconds: number): Range[] {
+  const sorted = captions
+    .filter((c) => c.end > c.start)
+    .map((c) => ({ start: c.start, end: c.end }))
+    .sort((a, b) => a.start - b.start);
+  const out: Range[] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    if (last && r.start - last.end <= fadeSeconds * 2) {
+      last.end = Math.max(last.end, r.end);
+    } else {
+      out.push(r);
+    }
+  }
+  return out;
+}
+
+/**
+ * Music volume at `t` seconds: `duckedVolume` inside speech, `volume`
+ * away from it, with a linear ramp over `fadeSeconds` either side.
+ */
+export function musicVolumeAt(
+  t: number,
+  speech: Range[],
+  bed: Pick<MusicBed, "volume" | "duckedVolume" | "fadeSeconds">
+): number {
+  let distance = Infinity;
+  for (const r of speech) {
+    if (t >= r.start && t <= r.end) {
+      distance = 0;
+      break;
+    }
+    distance = Math.min(distance, Math.abs(t - r.start), Math.abs(t - r.end));
+  }
+  const fade = Math.max(0.01, bed.fadeSeconds);
+  const k = Math.min(1, distance / fade);
+  return bed.duckedVolume + (bed.volume - bed.duckedVolume) * k;
+}
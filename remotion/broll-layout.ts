@@ -0,0 +1,210 @@
+// remotion/broll-layout.ts
+// Where a B-roll entry sits in the frame: over everything, in a corner
+// card, beside the speaker or see-through on top. Positions are fractions
+// of the output frame so a layout survives aspect and scale changes.
+
+export type PipCorner =
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right";
+
+// "vertical" stacks B-roll and speaker top/bottom (the usual vertical
+// shorts layout), "horizontal" puts them side by side
+export type SplitOrientation = "vertical" | "horizontal";
+
+export type BRollLayout =
+  | { kind: "full" }
+  | {
+      kind: "pip";
+      // centre of the card; dragging in the preview moves it freely
+      x: number;
+      y: number;
+      // width and height as a fraction of the frame's (same aspect)
+      size: number;
+      // fraction of the card's shorter side
+      borderRadius: number;
+      shadow: boolean;
+    }
+  | {
+      kind: "split";
+      orientation: SplitOrientation;
+      // B-roll in the top/left part instead of the bottom/right one
+      bRollFirst: boolean;
+      // the B-roll's share of the frame
+      ratio: number;
+    }
+  | { kind: "overlay"; opacity: number };
+
+export type LayoutBox = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export const BROLL_LAYOUT_KINDS: BRollLayout["kind"][] = [
+  "full",
+  "pip",
+  "split",
+  "overlay",
+];
+
+export const PIP_CORNERS: PipCorner[] = [
+  "top-left",
+  "top-right",
+  "bottom-left",
+  "bottom-right",
+];
+
+export const FULL_BOX: LayoutBox = { left: 0, top: 0, width: 1, height: 1 };
+
+export const DEFAULT_BROLL_LAYOUT: BRollLayout = { kind: "full" };
+
+// gap between a corner card and the frame edges
+const PIP_MARGIN = 0.04;
+
+const clamp = (v: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, v));
+
+/** Centre of a `size` card tucked into `corner`. */
+export function pipCornerPosition(
+  corner: PipCorner,
+  size: number
+): { x: number; y: number } {
+  const near = size / 2 + PIP_MARGIN;
+  const far = 1 - near;
+  return {
+    x: corner.endsWith("left") ? near : far,
+    y: corner.startsWith("top") ? near : far,
+  };
+}
+
+/** Keeps a card's centre where the whole card stays inside the frame. */
+export function clampPipPosition(
+  x: number,
+  y: number,
+  size: number
+): { x: number; y: number } {
+  const half = size / 2;
+  return { x: clamp(x, half, 1 - half), y: clamp(y, half, 1 - half) };
+}
+
+export const DEFAULT_PIP_LAYOUT: BRollLayout = {
+  kind: "pip",
+  ...pipCornerPosition("top-right", 0.35),
+  size: 0.35,
+  borderRadius: 0.08,
+  shadow: true,
+};
+
+const splitBoxes = (
+  layout: Extract<BRollLayout, { kind: "split" }>
+): { bRoll: LayoutBox; base: LayoutBox } => {
+  const ratio = clamp(layout.ratio, 0.1, 0.9);
+  const first = layout.bRollFirst ? ratio : 1 - ratio;
+  const [a, b] =
+    layout.orientation === "vertical"
+      ? [
+          { left: 0, top: 0, width: 1, height: first },
+          { left: 0, top: first, width: 1, height: 1 - first },
+        ]
+      : [
+          { left: 0, top: 0, width: first, height: 1 },
+          { left: first, top: 0, width: 1 - first, height: 1 },
+        ];
+  return layout.bRollFirst ? { bRoll: a, base: b } : { bRoll: b, base: a };
+};
+
+/** Part of the frame the B-roll itself covers. */
+export function bRollBox(
+  layout: BRollLayout = DEFAULT_BROLL_LAYOUT
+): LayoutBox {
+  switch (layout.kind) {
+    case "full":
+    case "overlay":
+      return FULL_BOX;
+    case "pip": {
+      const size = clamp(layout.size, 0.05, 1);
+      const { x, y } = clampPipPosition(layout.x, layout.y, size);
+      return {
+        left: x - size / 2,
+        top: y - size / 2,
+        width: size,
+        height: size,
+      };
+    }
+    case "split":
+      return splitBoxes(layout).bRoll;
+  }
+}
+
+/**
+ * Part of the frame left to the speaker while the entry is `shown` of the
+ * way in (0..1). Only a split moves the base video; it squeezes in step
+ * with the B-roll's transition.
+ */
+export function baseVideoBox(
+  layout: BRollLayout | undefined,
+  shown: number
+): LayoutBox {
+  if (layout?.kind !== "split") return FULL_BOX;
+  const to = splitBoxes(layout).base;
+  const t = clamp(shown, 0, 1);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  return {
+    left: lerp(FULL_BOX.left, to.left),
+    top: lerp(FULL_BOX.top, to.top),
+    width: lerp(FULL_BOX.width, to.width),
+    height: lerp(FULL_BOX.height, to.height),
+  };
+}
+
+export type LayoutBoxStyle = {
+  position: "absolute";
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  overflow: "hidden";
+  borderRadius?: number;
+  boxShadow?: string;
+};
+
+/** Absolute pixel placement of `box` in a `width`×`height` frame. */
+export function layoutBoxStyle(
+  box: LayoutBox,
+  width: number,
+  height: number
+): LayoutBoxStyle {
+  return {
+    position: "absolute",
+    left: box.left * width,
+    top: box.top * height,
+    width: box.width * width,
+    height: box.height * height,
+    overflow: "hidden",
+  };
+}
+
+/** Box, corner rounding and shadow of the B-roll's layer. */
+export function bRollLayoutStyle(
+  layout: BRollLayout = DEFAULT_BROLL_LAYOUT,
+  width: number,
+  height: number
+): LayoutBoxStyle {
+  const style = layoutBoxStyle(bRollBox(layout), width, height);
+  if (layout.kind !== "pip") return style;
+  const shorter = Math.min(style.width, style.height);
+  return {
+    ...style,
+    borderRadius: clamp(layout.borderRadius, 0, 0.5) * shorter,
+    boxShadow: layout.shadow
+      ? `0 ${height * 0.01}px ${height * 0.03}px rgba(0,0,0,0.6)`
+      : undefined,
+  };
+}
+
+/** How see-through the layout makes the B-roll (1 = opaque). */
+export const bRollLayoutOpacity = (layout?: BRollLayout) =>
+  layout?.kind === "overlay" ? clamp(layout.opacity, 0, 1) : 1;
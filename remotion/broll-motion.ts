@@ -0,0 +1,271 @@
+// remotion/broll-motion.ts
+// Per-entry B-roll transitions and image motion. Everything here is a pure
+// function of the frame so the Player preview and render.mjs draw the
+// same thing.
+
+export type BRollTransitionKind =
+  | "none"
+  | "fade"
+  | "slide"
+  | "wipe"
+  | "zoom-punch"
+  | "whip-pan";
+
+export type BRollDirection = "left" | "right" | "up" | "down";
+
+export type BRollTransition = {
+  kind: BRollTransitionKind;
+  durationSeconds: number;
+  // side the B-roll comes in from (transitionIn) or leaves towards
+  // (transitionOut); used by slide, wipe and whip-pan
+  direction?: BRollDirection;
+};
+
+// Visible part of the image as fractions of it: 0,0,1,1 is the whole image
+export type MotionRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type BRollMotion =
+  | { kind: "static" }
+  | { kind: "ken-burns"; from: MotionRect; to: MotionRect }
+  | { kind: "pan"; direction: BRollDirection };
+
+export const BROLL_TRANSITION_KINDS: BRollTransitionKind[] = [
+  "none",
+  "fade",
+  "slide",
+  "wipe",
+  "zoom-punch",
+  "whip-pan",
+];
+
+export const BROLL_DIRECTIONS: BRollDirection[] = [
+  "left",
+  "right",
+  "up",
+  "down",
+];
+
+export const DEFAULT_BROLL_TRANSITION: BRollTransition = {
+  kind: "fade",
+  durationSeconds: 0.33,
+};
+
+export const FULL_RECT: MotionRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// a slow push in towards the centre
+export const DEFAULT_BROLL_MOTION: BRollMotion = {
+  kind: "ken-burns",
+  from: FULL_RECT,
+  to: { x: 0.04, y: 0.04, width: 0.92, height: 0.92 },
+};
+
+// how far a pan travels: the image is zoomed by this much and slides
+// across the extra
+const PAN_ZOOM = 1.15;
+
+export type LayerStyle = {
+  opacity: number;
+  transform: string;
+  clipPath?: string;
+  filter?: string;
+};
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+const offset = (direction: BRollDirection, amount: number) => {
+  const pct = `${amount * 100}%`;
+  switch (direction) {
+    case "left":
+      return `translateX(-${pct})`;
+    case "right":
+      return `translateX(${pct})`;
+    case "up":
+      return `translateY(-${pct})`;
+    case "down":
+      return `translateY(${pct})`;
+  }
+};
+
+// hides `hidden` (0..1) of the layer from the `direction` side
+const wipeClip = (direction: BRollDirection, hidden: number) => {
+  const h = `${hidden * 100}%`;
+  switch (direction) {
+    case "left":
+      return `inset(0 ${h} 0 0)`;
+    case "right":
+      return `inset(0 0 0 ${h})`;
+    case "up":
+      return `inset(0 0 ${h} 0)`;
+    case "down":
+      return `inset(${h} 0 0 0)`;
+  }
+};
+
+/**
+ * Look of a transition `shown` of the way in (0 = gone, 1 = fully on
+ * screen). Out transitions run the same curve backwards.
+ */
+function transitionLayer(
+  transition: BRollTransition,
+  shown: number
+): LayerStyle {
+  const p = clamp01(shown);
+  const direction = transition.direction ?? "left";
+  switch (transition.kind) {
+    case "none":
+      return { opacity: 1, transform: "none" };
+    case "fade":
+      return { opacity: p, transform: "none" };
+    case "slide":
+      return {
+        opacity: 1,
+        transform: offset(direction, 1 - easeOutCubic(p)),
+      };
+    case "wipe":
+      return {
+        opacity: 1,
+        transform: "none",
+        clipPath: wipeClip(direction, 1 - easeInOutCubic(p)),
+      };
+    case "zoom-punch":
+      return {
+        opacity: clamp01(p * 3),
+        transform: `scale(${1 + (1 - easeOutCubic(p)) * 0.4})`,
+      };
+    case "whip-pan": {
+      const e = easeInOutCubic(p);
+      return {
+        opacity: 1,
+        transform: offset(direction, 1 - e),
+        // motion blur peaks mid-whip
+        filter: `blur(${Math.sin(e * Math.PI) * 24 + (1 - e) * 8}px)`,
+      };
+    }
+  }
+}
+
+const transitionFrames = (
+  transition: BRollTransition,
+  fps: number,
+  durationInFrames: number
+) =>
+  transition.kind === "none"
+    ? 0
+    : // in and out share the entry, so neither gets more than half
+      Math.min(
+        Math.floor(durationInFrames / 2),
+        Math.max(1, Math.round(transition.durationSeconds * fps))
+      );
+
+// the transition running at `frame` of the entry and how far in it is,
+// or null between the two
+const transitionPhase = (
+  frame: number,
+  durationInFrames: number,
+  fps: number,
+  transitionIn: BRollTransition,
+  transitionOut: BRollTransition
+): { transition: BRollTransition; shown: number } | null => {
+  const inFrames = transitionFrames(transitionIn, fps, durationInFrames);
+  const outFrames = transitionFrames(transitionOut, fps, durationInFrames);
+  if (frame < inFrames) {
+    return { transition: transitionIn, shown: frame / inFrames };
+  }
+  if (frame >= durationInFrames - outFrames) {
+    return {
+      transition: transitionOut,
+      shown: (durationInFrames - frame) / outFrames,
+    };
+  }
+  return null;
+};
+
+/** Opacity/transform/clip of a B-roll entry at `frame` of its Sequence. */
+export function bRollTransitionStyle(
+  frame: number,
+  durationInFrames: number,
+  fps: number,
+  transitionIn: BRollTransition = DEFAULT_BROLL_TRANSITION,
+  transitionOut: BRollTransition = DEFAULT_BROLL_TRANSITION
+): LayerStyle {
+  const phase = transitionPhase(
+    frame,
+    durationInFrames,
+    fps,
+    transitionIn,
+    transitionOut
+  );
+  return phase
+    ? transitionLayer(phase.transition, phase.shown)
+    : { opacity: 1, transform: "none" };
+}
+
+/**
+ * How far in (0..1) an entry is at `frame` of its Sequence, whatever its
+ * transitions look like. Cuts are in from the first frame.
+ */
+export function bRollShown(
+  frame: number,
+  durationInFrames: number,
+  fps: number,
+  transitionIn: BRollTransition = DEFAULT_BROLL_TRANSITION,
+  transitionOut: BRollTransition = DEFAULT_BROLL_TRANSITION
+): number {
+  if (frame < 0 || frame >= durationInFrames) return 0;
+  const phase = transitionPhase(
+    frame,
+    durationInFrames,
+    fps,
+    transitionIn,
+    transitionOut
+  );
+  return phase ? easeInOutCubic(clamp01(phase.shown)) : 1;
+}
+
+const panRects = (direction: BRollDirection) => {
+  const size = 1 / PAN_ZOOM;
+  const far = 1 - size;
+  const mid = far / 2;
+  const rect = (x: number, y: number) => ({ x, y, width: size, height: size });
+  // the camera moves towards `direction`
+  switch (direction) {
+    case "left":
+      return { from: rect(far, mid), to: rect(0, mid) };
+    case "right":
+      return { from: rect(0, mid), to: rect(far, mid) };
+    case "up":
+      return { from: rect(mid, far), to: rect(mid, 0) };
+    case "down":
+      return { from: rect(mid, 0), to: rect(mid, far) };
+  }
+};
+
+/**
+ * CSS transform that shows the motion's rect of an image (object-fit:
+ * cover, transform-origin centre) at `progress` 0..1 through the entry.
+ * The larger side of the rect sets the zoom; its centre is kept centred.
+ */
+export function bRollMotionTransform(
+  motion: BRollMotion = DEFAULT_BROLL_MOTION,
+  progress: number
+): string {
+  if (motion.kind === "static") return "none";
+  const { from, to } =
+    motion.kind === "pan" ? panRects(motion.direction) : motion;
+  const t = easeInOutCubic(clamp01(progress));
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  const width = lerp(from.width, to.width);
+  const height = lerp(from.height, to.height);
+  const cx = lerp(from.x, to.x) + width / 2;
+  const cy = lerp(from.y, to.y) + height / 2;
+  const zoom = 1 / Math.max(0.05, Math.max(width, height));
+  return `scale(${zoom}) translate(${(0.5 - cx) * 100}%, ${(0.5 - cy) * 100}%)`;
+}
@@ -0,0 +1,223 @@
+// remotion/caption-effects.ts
+// Social-video caption effects: per-word entrances and motion, emoji after
+// keywords and keyword colouring. Everything here is a pure function of the
+// frame and the word timings (no clocks, no randomness), so the Player
+// preview and render.mjs draw the same thing on every frame.
+import { interpolate, spring } from "remotion";
+
+export type WordAnimation =
+  | "none"
+  // each word springs in as it is spoken
+  | "pop"
+  // each word types out letter by letter as it is spoken
+  | "typewriter"
+  // all words shown; the spoken one jumps and settles
+  | "bounce"
+  // a box in the highlight colour sweeps in behind the spoken word
+  | "highlight-box";
+
+export type CaptionEffects = {
+  wordAnimation: WordAnimation;
+  // append an emoji after words listed in EMOJI_KEYWORDS
+  emoji: boolean;
+  // draw keywords (the emoji words plus `keywords`) in emphasisColor
+  emphasis: boolean;
+  emphasisColor: string;
+  keywords: string[];
+};
+
+// per-segment override: fields left out follow the project's effects
+export type CaptionEffectsOverride = Partial<CaptionEffects>;
+
+export const WORD_ANIMATIONS: WordAnimation[] = [
+  "none",
+  "pop",
+  "typewriter",
+  "bounce",
+  "highlight-box",
+];
+
+export const NO_CAPTION_EFFECTS: CaptionEffects = {
+  wordAnimation: "none",
+  emoji: false,
+  emphasis: false,
+  emphasisColor: "#ffd400",
+  keywords: [],
+};
+
+/** Project effects with a segment's overrides applied. */
+export const resolveCaptionEffects = (
+  project?: CaptionEffects,
+  segment?: CaptionEffectsOverride
+): CaptionEffects => ({ ...NO_CAPTION_EFFECTS, ...project, ...segment });
+
+/** Whether the effects need the caption drawn word by word. */
+export const hasWordEffects = (effects: CaptionEffects) =>
+  effects.wordAnimation !== "none" || effects.emoji || effects.emphasis;
+
+// Lower-case keyword -> emoji. Kept to words that carry a clear image; a
+// trailing "s" is also tried, so plurals match.
+export const EMOJI_KEYWORDS: Record<string, string> = {
+  fire: "🔥",
+  hot: "🔥",
+  love: "❤️",
+  heart: "❤️",
+  money: "💰",
+  cash: "💰",
+  rich: "💰",
+  dollar: "💵",
+  idea: "💡",
+  tip: "💡",
+  secret: "🤫",
+  funny: "😂",
+  laugh: "😂",
+  crazy: "🤯",
+  insane: "🤯",
+  wow: "😮",
+  amazing: "🤩",
+  awesome: "🤩",
+  win: "🏆",
+  winner: "🏆",
+  goal: "🎯",
+  target: "🎯",
+  fast: "⚡",
+  energy: "⚡",
+  rocket: "🚀",
+  launch: "🚀",
+  growth: "📈",
+  grow: "📈",
+  stop: "🛑",
+  warning: "⚠️",
+  mistake: "❌",
+  wrong: "❌",
+  correct: "✅",
+  happy: "😊",
+  sad: "😢",
+  music: "🎵",
+  food: "🍔",
+  coffee: "☕",
+  phone: "📱",
+  camera: "📸",
+  world: "🌍",
+  think: "🤔",
+  question: "❓",
+  celebrate: "🎉",
+  party: "🎉",
+  strong: "💪",
+  gym: "💪",
+  book: "📚",
+  learn: "📚",
+  free: "🆓",
+  magic: "✨",
+  star: "⭐",
+  king: "👑",
+  eyes: "👀",
+  car: "🚗",
+  home: "🏠",
+  sun: "☀️",
+};
+
+const bare = (word: string) =>
+  word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+
+/** Emoji for a keyword, or null. */
+export function emojiFor(word: string): string | null {
+  const w = bare(word);
+  if (!w) return null;
+  return (
+    EMOJI_KEYWORDS[w] ??
+    (w.endsWith("s") ? EMOJI_KEYWORDS[w.slice(0, -1)] : undefined) ??
+    null
+  );
+}
+
+/** Whether `word` gets the emphasis colour under `effects`. */
+export function isKeyword(word: string, effects: CaptionEffects): boolean {
+  const w = bare(word);
+  if (!w) return false;
+  return emojiFor(w) !== null || effects.keywords.some((k) => bare(k) === w);
+}
+
+export type WordEffectStyle = {
+  opacity: number;
+  transform?: string;
+  // typewriter: characters of the word shown so far
+  visibleChars?: number;
+  // highlight-box: how far the box has swept in (0 = no box)
+  boxProgress?: number;
+};
+
+type TimedWord = { start: number; end: number; text: string };
+
+const clamp = {
+  extrapolateLeft: "clamp",
+  extrapolateRight: "clamp",
+} as const;
+
+// frames for the highlight box to sweep across a word
+const BOX_SWEEP_FRAMES = 5;
+// typewriter speed cap: frames per character, so long words don't crawl
+const TYPE_FRAMES_PER_CHAR = 2;
+
+/**
+ * How `animation` draws `word` at `frame`. Times are snapped to frames
+ * the same way everywhere, so a given frame always looks the same.
+ */
+export function wordEffectStyle(
+  animation: WordAnimation,
+  word: TimedWord,
+  frame: number,
+  fps: number
+): WordEffectStyle {
+  const startFrame = Math.round(word.start * fps);
+  const endFrame = Math.max(startFrame + 1, Math.round(word.end * fps));
+  const local = frame - startFrame;
+
+  switch (animation) {
+    case "pop": {
+      if (local < 0) return { opacity: 0, transform: "scale(0.5)" };
+      const s = spring({
+        frame: local,
+        fps,
+        config: { damping: 11, stiffness: 220, mass: 0.6 },
+      });
+      return {
+        opacity: interpolate(local, [0, 3], [0, 1], clamp),
+        transform: `scale(${interpolate(s, [0, 1], [0.5, 1])})`,
+      };
+    }
+    case "typewriter": {
+      const chars = Array.from(word.text).length;
+      if (local < 0) return { opacity: 1, visibleChars: 0 };
+      const typeFrames = Math.max(
+        1,
+        Math.min(endFrame - startFrame, chars * TYPE_FRAMES_PER_CHAR)
+      );
+      const progress = interpolate(local + 1, [0, typeFrames], [0, 1], clamp);
+      return {
+        opacity: 1,
+        visibleChars: Math.max(1, Math.ceil(progress * chars)),
+      };
+    }
+    case "bounce": {
+      if (local < 0) return { opacity: 1 };
+      // starts lifted and falls back with a little overshoot, then rests
+      const s = spring({
+        frame: local,
+        fps,
+        config: { damping: 7, stiffness: 260, mass: 0.5 },
+      });
+      return { opacity: 1, transform: `translateY(${(1 - s) * -0.35}em)` };
+    }
+    case "highlight-box":
+      return {
+        opacity: 1,
+        boxProgress:
+          local < 0 || frame >= endFrame
+            ? 0
+            : interpolate(local, [0, BOX_SWEEP_FRAMES], [0.15, 1], clamp),
+      };
+    default:
+      return { opacity: 1 };
+  }
+}
@@ -0,0 +1,142 @@
+// remotion/caption-style.ts
+// Serializable caption styling shared by the Player preview, the style
+// designer in app/page.tsx and render.mjs (via inputProps).
+import type { CaptionEffects } from "./caption-effects";
+import type { SpeakerStyle } from "./speakers";
+
+export type CaptionStylePreset = "bottom" | "top" | "karaoke";
+
+export type CaptionPosition = "top" | "middle" | "bottom";
+export type CaptionAnimationIn = "none" | "fade" | "pop" | "slide-up";
+
+export type CaptionStyle = {
+  fontFamily: string;
+  fontWeight: number;
+  // font size as a fraction of the frame height, so 1080p and vertical
+  // 1920p frames keep the same proportions
+  fontSize: number;
+  lineHeight: number;
+  textColor: string;
+  // colour of the word being spoken when wordHighlight is on
+  highlightColor: string;
+  strokeColor: string;
+  // outline width in em
+  strokeWidth: number;
+  shadowColor: string;
+  // shadow blur in em
+  shadowBlur: number;
+  background: {
+    enabled: boolean;
+    color: string;
+    // padding and radius in em
+    paddingX: number;
+    paddingY: number;
+    borderRadius: number;
+  };
+  position: CaptionPosition;
+  // distance from the frame edge, as a fraction of the frame height
+  safeMargin: number;
+  // widest a caption line may get, as a fraction of the frame width
+  maxWidth: number;
+  uppercase: boolean;
+  wordHighlight: boolean;
+  animationIn: CaptionAnimationIn;
+  // per-word effects for the whole project; segments can override them.
+  // Absent on styles saved before effects existed (= no effects)
+  effects?: CaptionEffects;
+  // colour, side and name tag per speaker; speakers without an entry get
+  // resolveSpeakerStyle's defaults
+  speakers?: SpeakerStyle[];
+};
+
+const BASE_FONT = `"Noto Sans", "Noto Sans Devanagari", system-ui`;
+
+// The original hard-coded presets, expressed as CaptionStyle instances
+// (sizes were tuned on a 1080px-tall frame).
+export const CAPTION_STYLE_PRESETS: Record<CaptionStylePreset, CaptionStyle> = {
+  bottom: {
+    fontFamily: BASE_FONT,
+    fontWeight: 600,
+    fontSize: 36 / 1080,
+    lineHeight: 1.2,
+    textColor: "#ffffff",
+    highlightColor: "#ffeb3b",
+    strokeColor: "#000000",
+    strokeWidth: 0,
+    shadowColor: "rgba(0,0,0,0.6)",
+    shadowBlur: 0.5,
+    background: {
+      enabled: true,
+      color: "rgba(0,0,0,0.5)",
+      paddingX: 0.5,
+      paddingY: 0.28,
+      borderRadius: 0.22,
+    },
+    position: "bottom",
+    safeMargin: 60 / 1080,
+    maxWidth: 0.95,
+    uppercase: false,
+    wordHighlight: false,
+    animationIn: "none",
+  },
+  top: {
+    fontFamily: BASE_FONT,
+    fontWeight: 600,
+    fontSize: 28 / 1080,
+    lineHeight: 1.2,
+    textColor: "#ffffff",
+    highlightColor: "#ffeb3b",
+    strokeColor: "#000000",
+    strokeWidth: 0,
+    shadowColor: "rgba(0,0,0,0.6)",
+    shadowBlur: 0.5,
+    background: {
+      enabled: true,
+      color: "rgba(0,0,0,0.6)",
+      paddingX: 0.57,
+      paddingY: 0.29,
+      borderRadius: 0.21,
+    },
+    position: "top",
+    safeMargin: 20 / 1080,
+    maxWidth: 0.95,
+    uppercase: false,
+    wordHighlight: false,
+    animationIn: "none",
+  },
+  karaoke: {
+    fontFamily: BASE_FONT,
+    fontWeight: 600,
+    fontSize: 36 / 1080,
+    lineHeight: 1.2,
+    textColor: "#ffffff",
+    highlightColor: "#ffeb3b",
+    strokeColor: "#000000",
+    strokeWidth: 0,
+    shadowColor: "rgba(0,0,0,0.6)",
+    shadowBlur: 0.5,
+    background: {
+      enabled: true,
+      color: "rgba(0,0,0,0.4)",
+      paddingX: 0.33,
+      paddingY: 0.22,
+      borderRadius: 0.17,
+    },
+    position: "bottom",
+    safeMargin: 50 / 1080,
+    maxWidth: 0.95,
+    uppercase: false,
+    wordHighlight: true,
+    animationIn: "none",
+  },
+};
+
+/**
+ * The style to render with: an explicit CaptionStyle wins, otherwise the
+ * named preset (defaulting to "bottom").
+ */
+export const resolveCaptionStyle = (
+  stylePreset?: CaptionStylePreset,
+  captionStyle?: CaptionStyle | null
+): CaptionStyle =>
+  captionStyle ?? CAPTION_STYLE_PRESETS[stylePreset ?? "bottom"];
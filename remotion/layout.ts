@@ -0,0 +1,70 @@
+// remotion/layout.ts
+// Output frame size and base-video reframing. Used by the Player in
+// app/page.tsx and by Root.tsx for render.mjs, so both pick the same
+// composition size from the same inputs.
+
+export type AspectPreset = "source" | "9:16" | "1:1" | "4:5" | "16:9";
+
+// How the base video is placed when its aspect differs from the output:
+//  - fit:  letterbox/pillarbox on black
+//  - fill: crop to cover the frame
+//  - blur: fit, over a blurred cover-cropped copy of itself
+export type FitMode = "fit" | "fill" | "blur";
+
+export const ASPECT_PRESETS: { value: AspectPreset; label: string }[] = [
+  { value: "source", label: "Source" },
+  { value: "9:16", label: "9:16 (vertical)" },
+  { value: "1:1", label: "1:1 (square)" },
+  { value: "4:5", label: "4:5 (portrait)" },
+  { value: "16:9", label: "16:9 (landscape)" },
+];
+
+const RATIOS: Record<Exclude<AspectPreset, "source">, [number, number]> = {
+  "9:16": [9, 16],
+  "1:1": [1, 1],
+  "4:5": [4, 5],
+  "16:9": [16, 9],
+};
+
+// long edge / short edge limits of the output (1080p in either orientation)
+const MAX_LONG_EDGE = 1920;
+const MAX_SHORT_EDGE = 1080;
+
+const DEFAULT_SOURCE = { width: 1920, height: 1080 };
+
+const makeEven = (n: number) => Math.max(2, n % 2 === 0 ? n : n - 1); // encoders like even dims
+
+/**
+ * Composition size for a source video and aspect preset. "source" keeps the
+ * source aspect; presets use their ratio. Either way the result is scaled
+ * down to fit 1920x1080 (or 1080x1920 for portrait) and rounded to even
+ * numbers.
+ */
+export function getOutputDimensions(
+  source: { width?: number | null; height?: number | null } | null,
+  aspectPreset: AspectPreset = "source"
+): { width: number; height: number } {
+  const sw = source?.width && source.width > 0 ? source.width : 0;
+  const sh = source?.height && source.height > 0 ? source.height : 0;
+  const [rw, rh] =
+    aspectPreset === "source"
+      ? sw && sh
+        ? [sw, sh]
+        : [DEFAULT_SOURCE.width, DEFAULT_SOURCE.height]
+      : RATIOS[aspectPreset];
+
+  const landscape = rw >= rh;
+  const maxW = landscape ? MAX_LONG_EDGE : MAX_SHORT_EDGE;
+  const maxH = landscape ? MAX_SHORT_EDGE : MAX_LONG_EDGE;
+
+  // presets are sized to fill the limit box; source keeps its resolution
+  // unless it is larger than the box
+  const baseW = aspectPreset === "source" && sw ? sw : maxW;
+  const baseH = aspectPreset === "source" && sh ? sh : (maxW * rh) / rw;
+  const scale = Math.min(1, maxW / baseW, maxH / baseH);
+
+  return {
+    width: makeEven(Math.round(baseW * scale)),
+    height: makeEven(Math.round(baseH * scale)),
+  };
+}
@@ -0,0 +1,59 @@
+// remotion/speakers.ts
+// Per-speaker caption styling. Segments carry the speaker's display name
+// (CaptionSegment.speaker), so renaming a speaker is a relabel of the
+// segments plus their style entry, and exports need no lookup table.
+
+export type SpeakerAlign = "left" | "center" | "right";
+
+export type SpeakerStyle = {
+  // the segments' `speaker` this entry applies to
+  name: string;
+  // null keeps the caption style's text colour
+  color: string | null;
+  align: SpeakerAlign;
+  // show the speaker's name above their captions
+  nameTag: boolean;
+};
+
+export const SPEAKER_ALIGNS: SpeakerAlign[] = ["left", "center", "right"];
+
+// colours handed out to the second, third, ... speaker; the first keeps
+// the caption text colour
+export const SPEAKER_COLORS = [
+  "#7dd3fc",
+  "#fda4af",
+  "#bef264",
+  "#fcd34d",
+  "#c4b5fd",
+  "#5eead4",
+];
+
+/** Speakers in order of their first caption. */
+export function listSpeakers(captions: { speaker?: string }[]): string[] {
+  const seen = new Set<string>();
+  for (const seg of captions) {
+    if (seg.speaker) seen.add(seg.speaker);
+  }
+  return [...seen];
+}
+
+/**
+ * The style for `speaker`: its entry in `styles`, otherwise a default
+ * colour picked by the speaker's place in `speakers`.
+ */
+export function resolveSpeakerStyle(
+  speaker: string,
+  speakers: string[],
+  styles: SpeakerStyle[] = []
+): SpeakerStyle {
+  const saved = styles.find((s) => s.name === speaker);
+  if (saved) return saved;
+  const index = speakers.indexOf(speaker);
+  return {
+    name: speaker,
+    color:
+      index > 0 ? SPEAKER_COLORS[(index - 1) % SPEAKER_COLORS.length] : null,
+    align: "center",
+    nameTag: false,
+  };
+}
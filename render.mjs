@@ -1,20 +1,43 @@
 // render.mjs
 import { bundle } from "@remotion/bundler";
-import { renderMedia, selectComposition } from "@remotion/renderer";
+import { makeCancelSignal, openBrowser, renderMedia, selectComposition } from "@remotion/renderer";
+import crypto from "crypto";
 import path from "path";
 import fs from "fs";
 import fsPromises from "fs/promises";
 import http from "http";
 import url from "url";
 import os from "os";
-import { spawnSync } from "child_process";
-import ffmpegPath from "ffmpeg-static";
+import { BlockedSourceError, fetchBRoll, LOCAL_STOCK_URL_PREFIX, localStockPath } from "./lib/broll-fetch.mjs";
+import { FfmpegCancelledError, ffmpegPath, muxSubtitles, runFfmpeg, runFfprobe, SUBTITLE_CODECS, SUBTITLE_EXTENSIONS } from "./lib/ffmpeg.mjs";
 
 const __dirname = path.dirname(url.fileURLToPath(import.meta.url));
 function log(...args) {
     console.log("[render.mjs]", ...args);
 }
 
+/**
+ * Report progress of a one-shot render. With an IPC channel (spawned by a
+ * parent process) it is sent as a message; run by hand from a shell we
+ * just log a line instead. Worker jobs report through their own function.
+ */
+function reportProgress(stage, extra = {}) {
+    const message = { type: "progress", stage, ...extra };
+    if (typeof process.send === "function") {
+        process.send(message);
+    } else if (stage !== "rendering") {
+        log("stage:", stage);
+    }
+}
+
+// frames rendered in parallel by each job: a number or a share of the
+// cores like "50%"; 1 keeps a small server responsive
+const FRAME_CONCURRENCY = (() => {
+    const value = (process.env.RENDER_FRAME_CONCURRENCY || "").trim();
+    if (/^\d+%$/.test(value)) return value;
+    return Math.max(1, Math.floor(Number(value)) || 1);
+})();
+
 /**
  * Start a tiny HTTP server that serves the given video file at /video
  * and serves b-roll files from brollDir under /broll/<filename>
@@ -78,7 +101,7 @@ async function startVideoServer(videoPath, brollDir) {
                     const name = decodeURIComponent(pathname.replace("/broll/", ""));
                     const filePath = path.join(brollDir, name);
 
-                    if (!fs.existsSync(filePath)) {
+                    if (path.dirname(filePath) !== brollDir || !fs.existsSync(filePath)) {
                         res.statusCode = 404;
                         res.end("Not found");
                         return;
@@ -86,7 +109,10 @@ async function startVideoServer(videoPath, brollDir) {
 
                     const ext = path.extname(filePath).slice(1).toLowerCase();
                     const videoExts = new Set(["mp4", "mov", "webm", "mkv", "ogg", "ogv", "m4v"]);
-                    const isVideo = videoExts.has(ext);
+                    // the music bed is served from here too
+                    const audioMimes = { mp3: "audio/mpeg", m4a: "audio/mp4", aac: "audio/aac", wav: "audio/wav", flac: "audio/flac" };
+                    const isVideo = videoExts.has(ext) || ext in audioMimes;
+                    const streamMime = audioMimes[ext] || "video/mp4";
 
                     res.setHeader("Access-Control-Allow-Origin", "*");
 
@@ -99,7 +125,7 @@ async function startVideoServer(videoPath, brollDir) {
                         if (!range) {
                             res.writeHead(200, {
                                 "Content-Length": total,
-                                "Content-Type": "video/mp4",
+                                "Content-Type": streamMime,
                             });
                             fs.createReadStream(filePath).pipe(res);
                             return;
@@ -112,7 +138,7 @@ async function startVideoServer(videoPath, brollDir) {
                             "Content-Range": `bytes ${start}-${end}/${total}`,
                             "Accept-Ranges": "bytes",
                             "Content-Length": chunkSize,
-                            "Content-Type": "video/mp4",
+                            "Content-Type": streamMime,
                         });
                         const stream = fs.createReadStream(filePath, { start, end });
                         stream.on("error", (err) => res.destroy(err));
@@ -124,6 +150,7 @@ async function startVideoServer(videoPath, brollDir) {
                         if (ext === "png") mime = "image/png";
                         if (ext === "svg") mime = "image/svg+xml";
                         if (ext === "webp") mime = "image/webp";
+                        if (ext === "gif") mime = "image/gif";
                         res.setHeader("Content-Type", mime);
                         fs.createReadStream(filePath).pipe(res);
                         return;
@@ -164,20 +191,20 @@ async function startVideoServer(videoPath, brollDir) {
  * If stream copy fails (container incompatibility), fall back to re-encode
  * with preserved fps (by not forcing different framerate).
  *
- * inPath -> outPath
+ * inPath -> outPath. A cancelled job stops ffmpeg and rejects.
  */
-function trimVideoCopyOrEncode(inPath, outPath, durationSeconds) {
+async function trimVideoCopyOrEncode(inPath, outPath, durationSeconds, cancelSignal) {
     // Try fast copy trim: -ss 0 -t <duration> -c copy
     try {
         const copyArgs = ["-y", "-ss", "0", "-i", inPath, "-t", String(durationSeconds), "-c", "copy", outPath];
         log("ffmpeg copy-trim args:", ffmpegPath, copyArgs.join(" "));
-        const r = spawnSync(ffmpegPath, copyArgs, { stdio: "inherit", timeout: 2 * 60 * 1000 });
-        if (r.error) throw r.error;
+        const r = await runFfmpeg(copyArgs, { cancelSignal, timeoutMs: 2 * 60 * 1000 });
         if (r.status === 0) {
             return true;
         }
         log("[render.mjs] ffmpeg copy-trim failed with status", r.status, "falling back to encode");
     } catch (err) {
+        if (err instanceof FfmpegCancelledError) throw err;
         log("[render.mjs] ffmpeg copy-trim error:", err);
     }
 
@@ -204,125 +231,541 @@ function trimVideoCopyOrEncode(inPath, outPath, durationSeconds) {
             outPath,
         ];
         log("ffmpeg encode args:", ffmpegPath, encodeArgs.join(" "));
-        const r2 = spawnSync(ffmpegPath, encodeArgs, { stdio: "inherit", timeout: 4 * 60 * 1000 });
-        if (r2.error) throw r2.error;
+        const r2 = await runFfmpeg(encodeArgs, { cancelSignal, timeoutMs: 4 * 60 * 1000 });
         if (r2.status === 0) return true;
         throw new Error("ffmpeg encode failed with status " + r2.status);
     } catch (err) {
+        if (err instanceof FfmpegCancelledError) throw err;
         log("[render.mjs] ffmpeg encode fallback failed:", err);
         return false;
     }
 }
 
 /**
- * Download/copy b-roll into brollDir. For video files:
- *  - If item.durationSeconds provided: create a trimmed copy (no looping)
- *  - Otherwise just save the downloaded file and return it as-is (no re-encode)
+ * Jump-cut: re-encode inPath keeping only keepRanges ([{ start, end }] in
+ * seconds), back to back. Retries without audio for sources that have no
+ * audio stream. Returns the duration of the result.
  */
-async function downloadToBrollDir(src, brollDir, filenameHint = "broll", desiredDuration = null) {
-    if (!src || typeof src !== "string") return src;
+async function applyCutList(inPath, outPath, keepRanges, cancelSignal) {
+    const attempt = async (withAudio) => {
+        const filters = [];
+        const inputs = [];
+        keepRanges.forEach((k, i) => {
+            filters.push(`[0:v]trim=start=${k.start}:end=${k.end},setpts=PTS-STARTPTS[v${i}]`);
+            inputs.push(`[v${i}]`);
+            if (withAudio) {
+                filters.push(`[0:a]atrim=start=${k.start}:end=${k.end},asetpts=PTS-STARTPTS[a${i}]`);
+                inputs.push(`[a${i}]`);
+            }
+        });
+        filters.push(`${inputs.join("")}concat=n=${keepRanges.length}:v=1:a=${withAudio ? 1 : 0}[v]${withAudio ? "[a]" : ""}`);
+        const args = [
+            "-y",
+            "-i",
+            inPath,
+            "-filter_complex",
+            filters.join(";"),
+            "-map",
+            "[v]",
+            ...(withAudio ? ["-map", "[a]", "-c:a", "aac", "-b:a", "192k"] : []),
+            "-c:v",
+            "libx264",
+            "-preset",
+            "fast",
+            "-crf",
+            "18",
+            "-pix_fmt",
+            "yuv420p",
+            outPath,
+        ];
+        log("ffmpeg cut-list args:", ffmpegPath, args.length, "args,", keepRanges.length, "ranges");
+        const r = await runFfmpeg(args, { cancelSignal, timeoutMs: 10 * 60 * 1000 });
+        return r.status === 0;
+    };
 
-    // detect extension / video
-    const videoExts = new Set([".mp4", ".mov", ".mkv", ".webm", ".ogg", ".ogv", ".m4v"]);
-    const getExt = (p) => {
-        try {
-            const u = new URL(p);
-            return path.extname(u.pathname) || "";
-        } catch {
-            return path.extname(p) || "";
-        }
+    if (!(await attempt(true))) {
+        log("[render.mjs] cut with audio failed, retrying video only");
+        if (!(await attempt(false))) throw new Error("ffmpeg could not apply the cut list");
+    }
+    return keepRanges.reduce((sum, k) => sum + (k.end - k.start), 0);
+}
+
+// keep in sync with GIF_FRAME_STEP in lib/export-formats.ts
+const GIF_FRAME_STEP = 2;
+
+/**
+ * renderMedia options for an export format. A bitrate wins over CRF (they
+ * are mutually exclusive); GIFs are silent, every other frame, and loop.
+ */
+function codecOptions({ codec, crf, videoBitrate, audio, scale }) {
+    const options = {
+        codec,
+        muted: !audio || codec === "gif",
+        scale: Number.isFinite(scale) && scale > 0 ? scale : 1,
     };
+    if (videoBitrate) options.videoBitrate = videoBitrate;
+    else if (typeof crf === "number") options.crf = crf;
+    if (codec === "prores") options.proresProfile = "hq";
+    if (codec === "gif") {
+        options.everyNthFrame = GIF_FRAME_STEP;
+        options.numberOfGifLoops = null;
+    }
+    return options;
+}
 
-    // file:// local
-    if (src.startsWith("file://")) {
-        const localPath = src.replace("file://", "");
-        if (!fs.existsSync(localPath)) throw new Error("Local b-roll not found: " + localPath);
-        const ext = getExt(localPath) || ".jpg";
-        const unique = `${filenameHint}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}${ext}`;
-        const outPath = path.join(brollDir, unique);
-        await fsPromises.copyFile(localPath, outPath);
-
-        if (videoExts.has(ext.toLowerCase())) {
-            // if desiredDuration specified -> trim (no loop), else return as-is
-            if (desiredDuration && desiredDuration > 0) {
-                const trimmed = path.join(brollDir, `trim-${unique}`);
-                const ok = trimVideoCopyOrEncode(outPath, trimmed, desiredDuration);
-                if (ok) {
-                    // optional: remove original
-                    await fsPromises.unlink(outPath).catch(() => { });
-                    return trimmed;
-                }
-            }
-            return outPath;
+// what renderMedia writes for each codec, before subtitles are muxed in
+const CODEC_EXTENSIONS = { h264: "mp4", h265: "mp4", vp9: "webm", prores: "mov", gif: "gif" };
+// ffmpeg encoders for exports that skip Remotion; CRF defaults as in EXPORT_FORMATS
+const FFMPEG_VIDEO_CODECS = {
+    h264: { args: ["-c:v", "libx264", "-pix_fmt", "yuv420p"], crf: 18 },
+    h265: { args: ["-c:v", "libx265", "-tag:v", "hvc1", "-pix_fmt", "yuv420p"], crf: 23 },
+    vp9: { args: ["-c:v", "libvpx-vp9", "-row-mt", "1", "-b:v", "0", "-pix_fmt", "yuv420p"], crf: 28 },
+};
+
+/**
+ * Encode the source as-is (no composition) with the export's codec,
+ * quality, audio and range. Used for soft-subtitle exports with nothing to
+ * draw over the video.
+ */
+async function encodeWithoutComposition(sourcePath, outPath, { codec, crf, videoBitrate, audio, range }, cancelSignal) {
+    const encoder = FFMPEG_VIDEO_CODECS[codec];
+    const args = [
+        "-y",
+        ...(range ? ["-ss", String(range.start), "-t", String(range.end - range.start)] : []),
+        "-i",
+        sourcePath,
+        "-map",
+        "0:v:0",
+        ...(audio ? ["-map", "0:a:0?"] : []),
+        ...encoder.args,
+        // -b:v after the encoder args so a bitrate replaces VP9's constant-quality "-b:v 0"
+        ...(videoBitrate ? ["-b:v", videoBitrate] : ["-crf", String(crf ?? encoder.crf)]),
+        ...(audio ? ["-c:a", codec === "vp9" ? "libopus" : "aac", "-b:a", "192k"] : ["-an"]),
+        outPath,
+    ];
+    log("ffmpeg encode args:", ffmpegPath, args.join(" "));
+    const r = await runFfmpeg(args, { cancelSignal, timeoutMs: 60 * 60 * 1000 });
+    if (r.status !== 0) throw new Error(`ffmpeg encode exited with code ${r.status}`);
+}
+
+/** Seconds range -> inclusive [first, last] frame clamped to the composition, or null for all. */
+function exportFrameRange(range, composition) {
+    if (!range) return null;
+    const last = composition.durationInFrames - 1;
+    const first = Math.min(last, Math.max(0, Math.floor(range.start * composition.fps)));
+    const end = Math.min(last, Math.max(first, Math.ceil(range.end * composition.fps) - 1));
+    return [first, end];
+}
+
+/**
+ * EBU R128 loudness normalization of a finished render, in place. Two
+ * passes: measure with loudnorm, then apply it linearly with the measured
+ * values. Video is stream-copied. Returns false (leaving the file as it
+ * was) when there is no audio to measure or ffmpeg fails; rejects when the
+ * job is cancelled.
+ */
+async function normalizeLoudness(filePath, targetLufs, cancelSignal) {
+    const filter = `loudnorm=I=${targetLufs}:TP=-1.5:LRA=11`;
+    let measure;
+    try {
+        measure = await runFfmpeg(["-hide_banner", "-i", filePath, "-vn", "-af", `${filter}:print_format=json`, "-f", "null", "-"], {
+            cancelSignal,
+            timeoutMs: 5 * 60 * 1000,
+            captureStderr: true,
+        });
+    } catch (err) {
+        if (err instanceof FfmpegCancelledError) throw err;
+        measure = { error: err };
+    }
+    if (measure.error || measure.status !== 0) {
+        log("[render.mjs] loudness measurement failed:", measure.error || (measure.stderr || "").slice(-500));
+        return false;
+    }
+    let measured;
+    try {
+        const stderr = measure.stderr || "";
+        const json = stderr.slice(stderr.lastIndexOf("{"), stderr.lastIndexOf("}") + 1);
+        measured = JSON.parse(json);
+    } catch (err) {
+        log("[render.mjs] could not read loudnorm measurement:", err);
+        return false;
+    }
+    if (!Number.isFinite(Number(measured.input_i))) {
+        log("[render.mjs] output is silent, skipping loudness normalization");
+        return false;
+    }
+    log("Measured loudness:", measured.input_i, "LUFS, target", targetLufs);
+
+    const apply = [
+        filter,
+        `measured_I=${measured.input_i}`,
+        `measured_TP=${measured.input_tp}`,
+        `measured_LRA=${measured.input_lra}`,
+        `measured_thresh=${measured.input_thresh}`,
+        `offset=${measured.target_offset}`,
+        "linear=true",
+    ].join(":");
+    const tmpPath = `${filePath}.loudnorm${path.extname(filePath)}`;
+    // WebM only takes Opus/Vorbis audio
+    const audioCodec = path.extname(filePath) === ".webm" ? "libopus" : "aac";
+    const args = ["-y", "-i", filePath, "-map", "0", "-af", apply, "-c:v", "copy", "-c:a", audioCodec, "-b:a", "192k", "-ar", "48000", tmpPath];
+    log("ffmpeg loudnorm args:", ffmpegPath, args.join(" "));
+    let r;
+    try {
+        r = await runFfmpeg(args, { cancelSignal, timeoutMs: 10 * 60 * 1000 });
+    } catch (err) {
+        fs.rmSync(tmpPath, { force: true });
+        if (err instanceof FfmpegCancelledError) throw err;
+        r = { error: err };
+    }
+    if (r.error || r.status !== 0) {
+        log("[render.mjs] loudness normalization failed:", r.error || r.status);
+        fs.rmSync(tmpPath, { force: true });
+        return false;
+    }
+    fs.renameSync(tmpPath, filePath);
+    return true;
+}
+
+/**
+ * Probe the source video with ffprobe: display width/height (swapped when
+ * rotation metadata says the stream is a quarter turn, as phones record
+ * portrait clips) and duration.
+ */
+async function probeVideo(videoPath) {
+    const args = [
+        "-v",
+        "error",
+        "-select_streams",
+        "v:0",
+        // whole sections: ffprobe-static's 4.x has no stream_side_data entry to select
+        "-show_streams",
+        "-show_format",
+        "-of",
+        "json",
+        path.resolve(videoPath),
+    ];
+
+    const json = JSON.parse(await runFfprobe(args));
+    const stream = (json.streams && json.streams[0]) || {};
+    let rotation = Number((stream.tags && stream.tags.rotate) || 0);
+    const rotationData = (stream.side_data_list || []).find((d) => d.rotation !== undefined);
+    if (rotationData) rotation = Number(rotationData.rotation);
+    const quarterTurn = Math.abs(rotation) % 180 === 90;
+
+    return {
+        width: quarterTurn ? stream.height : stream.width,
+        height: quarterTurn ? stream.width : stream.height,
+        durationInSeconds: Number(json.format && json.format.duration) || null,
+    };
+}
+
+// keep in sync with sniffMediaType in lib/uploads.ts (images and video only)
+async function sniffBRollExt(filePath) {
+    const handle = await fsPromises.open(filePath, "r");
+    const head = Buffer.alloc(512);
+    let bytesRead;
+    try {
+        ({ bytesRead } = await handle.read(head, 0, head.length, 0));
+    } finally {
+        await handle.close();
+    }
+    if (bytesRead < 12) return null;
+    const ascii = (start, end) => head.toString("latin1", start, end);
+    if (ascii(4, 8) === "ftyp") return ascii(8, 12) === "qt  " ? ".mov" : ".mp4";
+    if (head.readUInt32BE(0) === 0x1a45dfa3) return ascii(0, 64).includes("webm") ? ".webm" : ".mkv";
+    if (ascii(0, 4) === "OggS") return ".ogv";
+    if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return ".jpg";
+    if (head.readUInt32BE(0) === 0x89504e47) return ".png";
+    if (ascii(0, 4) === "GIF8") return ".gif";
+    if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return ".webp";
+    if (/^\uFEFF?\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/.test(ascii(0, bytesRead))) return ".svg";
+    return null;
+}
+
+const VIDEO_EXTS = new Set([".mp4", ".mov", ".mkv", ".webm", ".ogv"]);
+
+/* ---------------- B-roll media cache ---------------- */
+
+// Downloaded and trimmed B-roll is kept across renders, named by a hash of
+// its source (and trim length): <key><ext>. Jobs hard-link entries into
+// their own dir, so evicting an entry never pulls a file from under a render.
+const BROLL_CACHE_DIR = process.env.BROLL_CACHE_DIR || path.join(os.tmpdir(), "broll-cache");
+const BROLL_CACHE_MAX_BYTES = (Number(process.env.BROLL_CACHE_MAX_MB) || 2048) * 1024 * 1024;
+// half-written entries older than this were left by a killed process
+const BROLL_CACHE_STALE_PART_MS = 60 * 60 * 1000;
+
+const cacheKey = (...parts) => crypto.createHash("sha256").update(parts.join("\0")).digest("hex").slice(0, 32);
+
+const isCachePart = (name) => name.includes(".part-");
+
+/** Cached file for `key`, marked as just used; null on a miss. */
+async function findCachedBRoll(key) {
+    const entries = await fsPromises.readdir(BROLL_CACHE_DIR).catch(() => []);
+    const name = entries.find((entry) => entry.startsWith(`${key}.`) && !isCachePart(entry));
+    if (!name) return null;
+    const filePath = path.join(BROLL_CACHE_DIR, name);
+    // mtime orders entries for eviction
+    const now = new Date();
+    await fsPromises.utimes(filePath, now, now).catch(() => {});
+    return filePath;
+}
+
+/** Moves `filePath` into the cache under `key`; returns the cached path. */
+async function addToBRollCache(filePath, key, ext) {
+    await fsPromises.mkdir(BROLL_CACHE_DIR, { recursive: true });
+    const target = path.join(BROLL_CACHE_DIR, key + ext);
+    // rename into place so other workers never see a partial file
+    const part = `${target}.part-${process.pid}-${Date.now()}`;
+    try {
+        await fsPromises.rename(filePath, part);
+    } catch (err) {
+        if (err.code !== "EXDEV") throw err;
+        await fsPromises.copyFile(filePath, part);
+        await fsPromises.unlink(filePath).catch(() => { });
+    }
+    await fsPromises.rename(part, target);
+    return target;
+}
+
+/** Drops least recently used entries until the cache fits BROLL_CACHE_MAX_MB. */
+async function evictBRollCache() {
+    const entries = await fsPromises.readdir(BROLL_CACHE_DIR).catch(() => []);
+    const files = [];
+    for (const name of entries) {
+        const filePath = path.join(BROLL_CACHE_DIR, name);
+        const stat = await fsPromises.stat(filePath).catch(() => null);
+        if (!stat || !stat.isFile()) continue;
+        if (isCachePart(name)) {
+            if (Date.now() - stat.mtimeMs > BROLL_CACHE_STALE_PART_MS) await fsPromises.unlink(filePath).catch(() => { });
+            continue;
         }
-        return outPath;
-    }
-
-    // local path (not http)
-    if (!src.startsWith("http://") && !src.startsWith("https://")) {
-        if (fs.existsSync(src)) {
-            const ext = getExt(src) || ".jpg";
-            const unique = `${filenameHint}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}${ext}`;
-            const outPath = path.join(brollDir, unique);
-            await fsPromises.copyFile(src, outPath);
-            if (videoExts.has(ext.toLowerCase())) {
-                if (desiredDuration && desiredDuration > 0) {
-                    const trimmed = path.join(brollDir, `trim-${unique}`);
-                    const ok = trimVideoCopyOrEncode(outPath, trimmed, desiredDuration);
-                    if (ok) {
-                        await fsPromises.unlink(outPath).catch(() => { });
-                        return trimmed;
-                    }
-                }
-                return outPath;
-            }
-            return outPath;
+        files.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+    }
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    let evicted = 0;
+    for (const file of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+        if (total <= BROLL_CACHE_MAX_BYTES) break;
+        await fsPromises.unlink(file.filePath).catch(() => { });
+        total -= file.size;
+        evicted++;
+    }
+    if (evicted > 0) {
+        log("B-roll cache: evicted", evicted, "files,", (total / 1024 / 1024).toFixed(1), "MB in use");
+    }
+}
+
+async function linkIntoJobDir(cachedPath, brollDir, name) {
+    const target = path.join(brollDir, name + path.extname(cachedPath));
+    try {
+        await fsPromises.link(cachedPath, target);
+    } catch {
+        // another filesystem: a copy is just as safe from eviction
+        await fsPromises.copyFile(cachedPath, target);
+    }
+    return target;
+}
+
+/** Downloads (or copies) `src` into the cache under `key`. */
+async function fetchBRollIntoCache(src, localPath, brollDir, key) {
+    const rawPath = path.join(brollDir, `${key}.download`);
+    if (localPath) {
+        await fsPromises.copyFile(localPath, rawPath);
+    } else {
+        log("Downloading B-roll:", src);
+        try {
+            await fetchBRoll(src, rawPath);
+        } catch (err) {
+            await fsPromises.unlink(rawPath).catch(() => { });
+            throw err;
         }
-        // unknown local format -> return as-is
-        return src;
-    }
-
-    // remote http(s)
-    log("Downloading B-roll:", src);
-    const res = await fetch(src);
-    if (!res.ok) throw new Error(`Failed to download ${src}: ${res.status}`);
-    const arrayBuffer = await res.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    const ext = getExt(src) || ".jpg";
-    const unique = `${filenameHint}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}${ext}`;
-    const outPath = path.join(brollDir, unique);
-    await fsPromises.writeFile(outPath, buffer);
-    log("Saved B-roll to", outPath);
-
-    if (videoExts.has(ext.toLowerCase())) {
-        if (desiredDuration && desiredDuration > 0) {
-            const trimmed = path.join(brollDir, `trim-${unique}`);
-            const ok = trimVideoCopyOrEncode(outPath, trimmed, desiredDuration);
-            if (ok) {
-                await fsPromises.unlink(outPath).catch(() => { });
-                return trimmed;
-            }
+    }
+
+    const ext = await sniffBRollExt(rawPath);
+    if (!ext) {
+        await fsPromises.unlink(rawPath).catch(() => { });
+        throw new Error(`B-roll is not an image or video: ${src}`);
+    }
+    return addToBRollCache(rawPath, key, ext);
+}
+
+/**
+ * Puts b-roll into brollDir through the media cache. `src` is an http(s)
+ * URL or a local stock library URL (arbitrary local paths are not
+ * accepted). The file type comes from its content, not the URL. For video
+ * files with a `desiredDuration` a trimmed copy (no looping) is used, and
+ * cached under the source plus that duration.
+ */
+async function downloadToBrollDir(src, brollDir, filenameHint = "broll", desiredDuration = null, cancelSignal = undefined) {
+    const unique = `${filenameHint}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+    // files from the local stock library, as served by /api/stock-media/local;
+    // a file that changed on disk is a different cache entry
+    const localPath = src.startsWith(LOCAL_STOCK_URL_PREFIX) ? localStockPath(src) : null;
+    const version = localPath ? await fsPromises.stat(localPath).then((s) => `${s.size}:${s.mtimeMs}`) : "";
+    const rawKey = cacheKey(src, version);
+    const trimKey = desiredDuration && desiredDuration > 0 ? cacheKey(src, version, desiredDuration.toFixed(2)) : null;
+
+    const trimmedHit = trimKey && (await findCachedBRoll(trimKey));
+    if (trimmedHit) {
+        log("B-roll cache hit (trimmed):", src);
+        return linkIntoJobDir(trimmedHit, brollDir, unique);
+    }
+
+    let cached = await findCachedBRoll(rawKey);
+    if (cached) {
+        log("B-roll cache hit:", src);
+    } else {
+        log("B-roll cache miss:", src);
+        cached = await fetchBRollIntoCache(src, localPath, brollDir, rawKey);
+    }
+
+    const ext = path.extname(cached);
+    if (VIDEO_EXTS.has(ext) && trimKey) {
+        const trimmed = path.join(brollDir, `trim-${unique}${ext}`);
+        if (await trimVideoCopyOrEncode(cached, trimmed, desiredDuration, cancelSignal)) {
+            cached = await addToBRollCache(trimmed, trimKey, ext);
         }
-        return outPath;
     }
+    return linkIntoJobDir(cached, brollDir, unique);
+}
+
+/* ---------------- Bundle cache ---------------- */
 
-    return outPath;
+// bundles are kept on disk by a hash of what goes into them, so neither a
+// fresh process nor a warm worker bundles the same sources twice
+const BUNDLE_CACHE_DIR = process.env.REMOTION_BUNDLE_CACHE_DIR || path.join(os.tmpdir(), "remotion-bundles");
+// other bundles are removed once they have not been used for this long
+const BUNDLE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const BUNDLE_INPUTS = ["remotion", "package.json", "package-lock.json"];
+
+async function listFiles(target) {
+    const stat = await fsPromises.stat(target).catch(() => null);
+    if (!stat) return [];
+    if (!stat.isDirectory()) return [target];
+    const entries = await fsPromises.readdir(target);
+    const nested = await Promise.all(entries.map((entry) => listFiles(path.join(target, entry))));
+    return nested.flat();
 }
 
-async function main() {
-    // node render.mjs <videoPath> <captionsPath> <stylePreset> <outPath> <durationSeconds?>
-    const [, , videoPath, captionsPath, stylePreset, outPath, durationArg] = process.argv;
-    if (!videoPath || !captionsPath || !stylePreset || !outPath) {
-        throw new Error("Usage: node render.mjs <videoPath> <captionsPath> <stylePreset> <outPath> <durationSeconds?>");
+/** Content hash of the composition sources and the dependencies they are bundled with. */
+async function bundleHash() {
+    const hash = crypto.createHash("sha256");
+    const files = (await Promise.all(BUNDLE_INPUTS.map((p) => listFiles(path.join(__dirname, p))))).flat().sort();
+    for (const file of files) {
+        hash.update(path.relative(__dirname, file));
+        hash.update("\0");
+        hash.update(await fsPromises.readFile(file));
+        hash.update("\0");
     }
-    const durationSecondsFromCli = durationArg ? Number(durationArg) : 0;
+    return hash.digest("hex").slice(0, 16);
+}
+
+async function pruneBundles(keep) {
+    const entries = await fsPromises.readdir(BUNDLE_CACHE_DIR).catch(() => []);
+    for (const entry of entries) {
+        if (entry === keep) continue;
+        const dir = path.join(BUNDLE_CACHE_DIR, entry);
+        const stat = await fsPromises.stat(dir).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > BUNDLE_MAX_AGE_MS) {
+            await fsPromises.rm(dir, { recursive: true, force: true }).catch(() => {});
+        }
+    }
+}
+
+// the bundle this process last used: { hash, location: Promise<string> }
+let currentBundle = null;
+
+/**
+ * serveUrl of the bundle for the current sources. Rehashes on every call
+ * (cheap next to a render) so edits to remotion/ reach a running worker.
+ */
+async function getBundle() {
+    const hash = await bundleHash();
+    if (currentBundle && currentBundle.hash === hash) return currentBundle.location;
+
+    const location = (async () => {
+        const dir = path.join(BUNDLE_CACHE_DIR, hash);
+        if (fs.existsSync(path.join(dir, "index.html"))) {
+            log("Using cached bundle", hash);
+            // mtime marks it as recently used for pruneBundles
+            const now = new Date();
+            await fsPromises.utimes(dir, now, now).catch(() => {});
+            return dir;
+        }
+        log("Bundling", hash);
+        await fsPromises.mkdir(BUNDLE_CACHE_DIR, { recursive: true });
+        // build next to the final directory and rename, so a half-written
+        // bundle is never picked up (another worker may bundle the same hash)
+        const tmpDir = `${dir}.tmp-${process.pid}-${Date.now()}`;
+        try {
+            await bundle({
+                entryPoint: path.join(__dirname, "remotion", "index.tsx"),
+                outDir: tmpDir,
+                webpackOverride: (config) => config,
+            });
+            await fsPromises.rename(tmpDir, dir).catch((err) => {
+                if (!fs.existsSync(path.join(dir, "index.html"))) throw err;
+            });
+        } finally {
+            await fsPromises.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+        }
+        await pruneBundles(hash);
+        return dir;
+    })();
+    currentBundle = { hash, location };
+    location.catch(() => {
+        if (currentBundle && currentBundle.location === location) currentBundle = null;
+    });
+    return location;
+}
+
+// temp dirs of running jobs; also removed on exit, for jobs cut short by
+// SIGTERM or a worker shutdown
+const liveTempDirs = new Set();
+process.on("exit", () => {
+    for (const dir of liveTempDirs) fs.rmSync(dir, { recursive: true, force: true });
+});
 
+/**
+ * Render one job. `report(stage, extra)` receives progress, `cancelSignal`
+ * stops renderMedia and the ffmpeg steps, and `browser` is a warm browser to reuse (renderMedia
+ * opens its own when it is undefined). The job's temp dirs and video
+ * server go away when it ends, whether it succeeded or not.
+ */
+async function renderJob(job, context) {
+    const cleanups = [];
+    const onCleanup = (fn) => cleanups.push(fn);
+    const makeTempDir = async (prefix) => {
+        const dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), prefix));
+        liveTempDirs.add(dir);
+        onCleanup(async () => {
+            await fsPromises.rm(dir, { recursive: true, force: true }).catch(() => {});
+            liveTempDirs.delete(dir);
+        });
+        return dir;
+    };
+    try {
+        await renderJobSteps(job, { ...context, makeTempDir, onCleanup });
+    } finally {
+        for (const cleanup of cleanups.reverse()) {
+            try {
+                await cleanup();
+            } catch (err) {
+                console.error("[render.mjs] Cleanup failed:", err);
+            }
+        }
+    }
+}
+
+async function renderJobSteps(
+    { videoPath, captionsPath, stylePreset, outPath, durationSeconds },
+    { report, cancelSignal, browser, makeTempDir, onCleanup }
+) {
     if (!fs.existsSync(captionsPath)) {
         throw new Error("Captions file does not exist: " + captionsPath);
     }
 
-    const entryPoint = path.join(__dirname, "remotion", "index.tsx");
-
     const captionsJson = await fsPromises.readFile(captionsPath, "utf8");
     let captionsData;
     try {
@@ -334,33 +777,89 @@ async function main() {
 
     let captions;
     let bRolls = [];
+    let captionStyle = null;
+    let aspectPreset = "source";
+    let fitMode = "fill";
+    // one entry per caption language to render: { language, captions, secondaryCaptions, outPath }
+    let variants = null;
+    // source-time ranges to keep (auto-cut); captions and b-rolls are already re-timed
+    let keepRanges = null;
+    // background music ({ path, volume, duckedVolume, fadeSeconds, ... }) and loudness target
+    let music = null;
+    let loudnessLufs = null;
+    // codec, quality, audio, scale and range (edited-timeline seconds); see lib/export-formats.ts
+    let exportOptions = { codec: "h264", crf: null, videoBitrate: null, audio: true, scale: 1, range: null, subtitles: "burn-in" };
+    let subtitleTracks = null;
+    // soft subtitles: captions only time the music ducking, nothing is drawn
+    let hideCaptions = false;
     if (Array.isArray(captionsData)) {
         captions = captionsData;
     } else if (captionsData && typeof captionsData === "object") {
         captions = Array.isArray(captionsData.captions) ? captionsData.captions : [];
         if (Array.isArray(captionsData.bRolls)) bRolls = captionsData.bRolls;
+        // custom style from the designer; overrides the stylePreset argument
+        if (captionsData.captionStyle && typeof captionsData.captionStyle === "object") {
+            captionStyle = captionsData.captionStyle;
+        }
+        if (typeof captionsData.aspectPreset === "string") aspectPreset = captionsData.aspectPreset;
+        if (typeof captionsData.fitMode === "string") fitMode = captionsData.fitMode;
+        if (Array.isArray(captionsData.variants) && captionsData.variants.length > 0) {
+            variants = captionsData.variants;
+        }
+        if (Array.isArray(captionsData.keepRanges) && captionsData.keepRanges.length > 0) {
+            keepRanges = captionsData.keepRanges;
+        }
+        if (captionsData.music && typeof captionsData.music.path === "string") music = captionsData.music;
+        if (typeof captionsData.loudnessLufs === "number") loudnessLufs = captionsData.loudnessLufs;
+        if (captionsData.exportOptions && typeof captionsData.exportOptions === "object") {
+            exportOptions = { ...exportOptions, ...captionsData.exportOptions };
+        }
+        if (Array.isArray(captionsData.subtitleTracks) && SUBTITLE_CODECS[exportOptions.subtitles]) {
+            subtitleTracks = captionsData.subtitleTracks;
+            hideCaptions = captionsData.hideCaptions === true;
+        }
     } else {
         captions = [];
     }
 
     log("Captions count:", captions.length, "B-roll count:", bRolls.length);
 
-    // create temporary b-roll dir
-    const brollDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), "brolls-"));
+    // the edited base video replaces the source for everything below
+    let sourcePath = videoPath;
+    if (keepRanges) {
+        report("cutting", { progress: 0 });
+        const cutDir = await makeTempDir("cut-");
+        sourcePath = path.join(cutDir, "edited.mp4");
+        const keptSeconds = await applyCutList(videoPath, sourcePath, keepRanges, cancelSignal);
+        log("Applied cut list:", keepRanges.length, "ranges,", keptSeconds.toFixed(2), "s kept");
+    }
+
+    // composition size is derived from the real source dimensions (see remotion/layout.ts)
+    let probe = { width: undefined, height: undefined, durationInSeconds: null };
+    try {
+        probe = await probeVideo(sourcePath);
+        log("Probed source:", probe, "aspect:", aspectPreset, "fit:", fitMode);
+    } catch (err) {
+        console.error("[render.mjs] ffprobe failed, falling back to 1920x1080:", err);
+    }
+
+    // per-job b-roll dir, linked from the media cache
+    const brollDir = await makeTempDir("brolls-");
 
     // start the video server on a random free port, serving both main video and b-rolls
-    const { server, videoUrl, port } = await startVideoServer(videoPath, brollDir);
+    const { server, videoUrl, port } = await startVideoServer(sourcePath, brollDir);
+    onCleanup(() => server.close());
 
     // Process b-rolls: download/copy into brollDir and expose via HTTP on /broll/<filename>
     const processedBRolls = [];
     if (Array.isArray(bRolls) && bRolls.length > 0) {
+        report("broll", { progress: 0 });
         for (let i = 0; i < bRolls.length; i++) {
             const b = bRolls[i];
             try {
-                const src = b.src || b.url || "";
+                // entries were checked against lib/schemas by /api/render;
                 // when trimming we pass desired duration (so we trim, not loop)
-                const desiredDur = typeof b.durationSeconds === "number" ? b.durationSeconds : null;
-                const localPath = await downloadToBrollDir(src, brollDir, `broll-${i}`, desiredDur);
+                const localPath = await downloadToBrollDir(b.src, brollDir, `broll-${i}`, b.durationSeconds, cancelSignal);
                 const filename = path.basename(localPath);
                 const publicUrl = `http://127.0.0.1:${port}/broll/${encodeURIComponent(filename)}`;
                 processedBRolls.push({
@@ -369,67 +868,311 @@ async function main() {
                     _localPath: localPath,
                 });
             } catch (err) {
-                console.error("[render.mjs] Failed to prepare b-roll item", b, err);
-                processedBRolls.push(b); // fallback; renderer may attempt to load original src
+                if (err instanceof BlockedSourceError || err instanceof FfmpegCancelledError) throw err;
+                // skipped rather than handed to the renderer, which would fetch src unguarded
+                console.error("[render.mjs] Failed to prepare b-roll item, skipping it", b, err);
             }
         }
+        await evictBRollCache();
+    }
+
+    // the music bed is copied next to the b-rolls and served the same way
+    let musicProps = null;
+    if (music) {
+        try {
+            const filename = `music${path.extname(music.path).toLowerCase() || ".mp3"}`;
+            await fsPromises.copyFile(music.path, path.join(brollDir, filename));
+            musicProps = { ...music, src: `http://127.0.0.1:${port}/broll/${encodeURIComponent(filename)}` };
+            delete musicProps.path;
+        } catch (err) {
+            console.error("[render.mjs] Failed to prepare music bed, rendering without it:", err);
+        }
     }
 
+    // without variants this is the single-language render to the CLI outPath
+    if (!variants) variants = [{ language: null, captions, secondaryCaptions: null, outPath }];
+
     const compositionId = "VideoWithCaptions";
-    const inputProps = {
+    const baseInputProps = {
         videoSrc: videoUrl,
-        captions,
         stylePreset,
-        durationInSeconds: durationSecondsFromCli || undefined,
+        captionStyle,
+        durationInSeconds: durationSeconds || probe.durationInSeconds || undefined,
+        sourceWidth: probe.width,
+        sourceHeight: probe.height,
+        aspectPreset,
+        fitMode,
         bRolls: processedBRolls,
+        music: musicProps,
+        hideCaptions,
     };
 
-    try {
-        const bundleLocation = await bundle({
-            entryPoint,
-            webpackOverride: (config) => config,
-        });
+    // soft subtitle tracks ({ language, title, text }) serialized by /api/render
+    let subsDir = null;
+    const subtitleFiles = [];
+    if (subtitleTracks) {
+        subsDir = await makeTempDir("subs-");
+        for (let i = 0; i < subtitleTracks.length; i++) {
+            const track = subtitleTracks[i];
+            const filePath = path.join(subsDir, `track-${i}.${SUBTITLE_EXTENSIONS[exportOptions.subtitles]}`);
+            await fsPromises.writeFile(filePath, track.text, "utf8");
+            subtitleFiles.push({ path: filePath, language: track.language, title: track.title });
+        }
+        log("Soft subtitles:", exportOptions.subtitles, subtitleFiles.map((t) => t.language).join(", "));
+    }
+
+    const withAudio = exportOptions.audio && exportOptions.codec !== "gif";
+    // with soft subtitles the video is rendered into subsDir first and the tracks muxed in after
+    const renderedPath = (variant) =>
+        subsDir ? path.join(subsDir, `rendered.${CODEC_EXTENSIONS[exportOptions.codec]}`) : variant.outPath;
+    const finishOutput = async (variant, progress) => {
+        const rendered = renderedPath(variant);
+        if (loudnessLufs !== null && withAudio) {
+            report("loudness", { progress, language: variant.language });
+            await normalizeLoudness(rendered, loudnessLufs, cancelSignal);
+        }
+        if (subsDir) {
+            report("subtitles", { progress, language: variant.language });
+            await muxSubtitles(rendered, subtitleFiles, variant.outPath, exportOptions.subtitles, cancelSignal);
+        }
+        try {
+            const stat = await fsPromises.stat(variant.outPath);
+            log("Render finished", variant.language || "", "output size:", stat.size);
+        } catch (err) {
+            console.error("[render.mjs] Could not stat output file:", err);
+            throw err;
+        }
+    };
+
+    // nothing to draw over the video: plain ffmpeg is much faster than a browser render
+    const skipComposition =
+        subsDir !== null &&
+        processedBRolls.length === 0 &&
+        !musicProps &&
+        aspectPreset === "source" &&
+        exportOptions.scale === 1 &&
+        Boolean(FFMPEG_VIDEO_CODECS[exportOptions.codec]);
+
+    if (skipComposition) {
+        log("No overlays to render, encoding with ffmpeg instead of Remotion");
+        report("encoding", { progress: 0 });
+        await encodeWithoutComposition(sourcePath, renderedPath(variants[0]), exportOptions, cancelSignal);
+        await finishOutput(variants[0], 1);
+        return;
+    }
+
+    report("bundling", { progress: 0 });
+    const bundleLocation = await getBundle();
+
+    for (let v = 0; v < variants.length; v++) {
+        const variant = variants[v];
+        const inputProps = {
+            ...baseInputProps,
+            captions: variant.captions,
+            secondaryCaptions: variant.secondaryCaptions,
+        };
 
         const composition = await selectComposition({
             serveUrl: bundleLocation,
             id: compositionId,
             inputProps,
+            puppeteerInstance: browser,
         });
 
-        const totalFrames = composition.durationInFrames;
-        log("Composition found:", composition.id, "durationInFrames:", totalFrames);
+        const frameRange = exportFrameRange(exportOptions.range, composition);
+        const step = exportOptions.codec === "gif" ? GIF_FRAME_STEP : 1;
+        const totalFrames = Math.ceil(
+            (frameRange ? frameRange[1] - frameRange[0] + 1 : composition.durationInFrames) / step
+        );
+        log("Composition found:", composition.id, "durationInFrames:", composition.durationInFrames, "language:", variant.language);
+        log("Export:", exportOptions.codec, "frames:", frameRange ? frameRange.join("-") : "all", "scale:", exportOptions.scale);
+        // progress covers all variants, so a 2-language job is at 50% after the first video
+        const overall = (p) => (v + p) / variants.length;
+        report("rendering", { progress: overall(0), renderedFrames: 0, totalFrames, language: variant.language });
+
+        let lastPercent = -1;
 
         await renderMedia({
             composition,
             serveUrl: bundleLocation,
-            codec: "h264",
-            outputLocation: outPath,
+            ...codecOptions(exportOptions),
+            frameRange,
+            outputLocation: renderedPath(variant),
             inputProps,
-            concurrency: 1,
+            concurrency: FRAME_CONCURRENCY,
             timeoutInMilliseconds: 2 * 60 * 1000,
             logLevel: "info",
+            cancelSignal,
+            puppeteerInstance: browser,
+            onProgress: ({ progress, renderedFrames, stitchStage }) => {
+                // renderMedia fires this per frame; only forward whole-percent changes
+                const percent = Math.floor(progress * 100);
+                if (percent === lastPercent) return;
+                lastPercent = percent;
+                report(stitchStage === "muxing" ? "muxing" : "rendering", {
+                    progress: overall(progress),
+                    renderedFrames,
+                    totalFrames,
+                    language: variant.language,
+                });
+            },
         });
 
-        try {
-            const stat = await fsPromises.stat(outPath);
-            log("Render finished, output size:", stat.size);
-        } catch (err) {
-            console.error("[render.mjs] Could not stat output file:", err);
-            throw err;
+        await finishOutput(variant, overall(1));
+    }
+}
+
+/* ---------------- Entry points ---------------- */
+
+// node render.mjs <videoPath> <captionsPath> <stylePreset> <outPath> <durationSeconds?>
+async function runOnce() {
+    const [, , videoPath, captionsPath, stylePreset, outPath, durationArg] = process.argv;
+    if (!videoPath || !captionsPath || !stylePreset || !outPath) {
+        throw new Error(
+            "Usage: node render.mjs <videoPath> <captionsPath> <stylePreset> <outPath> <durationSeconds?>\n" +
+                "       node render.mjs --worker"
+        );
+    }
+
+    // SIGTERM stops renderMedia so the headless browser it launched is
+    // shut down with us instead of being orphaned
+    const { cancelSignal, cancel } = makeCancelSignal();
+    process.on("SIGTERM", () => {
+        log("Received SIGTERM, cancelling render");
+        cancel();
+        setTimeout(() => process.exit(143), 2000).unref();
+    });
+
+    await renderJob(
+        { videoPath, captionsPath, stylePreset, outPath, durationSeconds: durationArg ? Number(durationArg) : 0 },
+        { report: reportProgress, cancelSignal, browser: undefined }
+    );
+}
+
+// an idle worker exits (closing its browser) after this long; the app
+// starts a new one for the next job
+const WORKER_IDLE_MS = (Number(process.env.RENDER_WORKER_IDLE_SECONDS) || 600) * 1000;
+
+// browser shared by a worker's jobs; reopened if it crashes or is closed
+let warmBrowser = null;
+
+function getBrowser() {
+    if (!warmBrowser) {
+        const opening = openBrowser("chrome", { logLevel: "info" });
+        warmBrowser = opening;
+        const forget = () => {
+            if (warmBrowser === opening) warmBrowser = null;
+        };
+        opening.then((browser) => browser.on("closed", forget), forget);
+    }
+    return warmBrowser;
+}
+
+/**
+ * node render.mjs --worker
+ *
+ * Long-lived worker for lib/render-jobs.ts: keeps the bundle and a browser
+ * warm and takes jobs over IPC.
+ *   in:  { type: "job", jobId, job: { videoPath, captionsPath, stylePreset, outPath, durationSeconds } }
+ *        { type: "cancel", jobId }
+ *   out: { type: "ready" }, { type: "progress", jobId, stage, ... },
+ *        { type: "done" | "cancelled", jobId }, { type: "failed", jobId, error },
+ *        { type: "retiring" } (idle, about to exit: no more jobs)
+ */
+function runWorker() {
+    if (typeof process.send !== "function") {
+        throw new Error("--worker needs an IPC channel; it is started by the app, not from a shell");
+    }
+    const send = (message) => {
+        if (process.connected) process.send(message);
+    };
+    // jobId -> { cancel, cancelled }
+    const active = new Map();
+    let idleTimer = null;
+    let stopping = false;
+
+    const shutdown = async (code) => {
+        if (stopping) return;
+        stopping = true;
+        for (const job of active.values()) job.cancel();
+        if (warmBrowser) {
+            await warmBrowser.then((browser) => browser.close({ silent: true })).catch(() => {});
         }
-    } finally {
+        process.exit(code);
+    };
+    const armIdleTimer = () => {
+        clearTimeout(idleTimer);
+        if (active.size > 0) return;
+        idleTimer = setTimeout(() => {
+            log("Worker idle, exiting");
+            // leave the pool before closing the browser, so no job is handed to a worker on its way out
+            send({ type: "retiring" });
+            if (process.connected) process.disconnect();
+            shutdown(0);
+        }, WORKER_IDLE_MS);
+    };
+
+    // the app went away or stopped us: nobody is left to take the results
+    process.on("disconnect", () => shutdown(0));
+    process.on("SIGTERM", () => {
+        log("Received SIGTERM, stopping worker");
+        shutdown(143);
+    });
+
+    process.on("message", async (msg) => {
+        if (!msg || typeof msg !== "object") return;
+        if (msg.type === "cancel") {
+            const job = active.get(msg.jobId);
+            if (job) {
+                log("Cancelling job", msg.jobId);
+                job.cancelled = true;
+                job.cancel();
+            }
+            return;
+        }
+        if (msg.type !== "job") return;
+
+        const { jobId } = msg;
+        clearTimeout(idleTimer);
+        const { cancelSignal, cancel } = makeCancelSignal();
+        const state = { cancel, cancelled: false };
+        active.set(jobId, state);
+        const report = (stage, extra = {}) => send({ type: "progress", jobId, stage, ...extra });
         try {
-            server.close();
-        } catch (e) {
-            /* ignore */
+            log("Starting job", jobId);
+            await renderJob(msg.job, { report, cancelSignal, browser: await getBrowser() });
+            send({ type: state.cancelled ? "cancelled" : "done", jobId });
+        } catch (err) {
+            if (state.cancelled) {
+                send({ type: "cancelled", jobId });
+            } else {
+                console.error("[render.mjs] Job", jobId, "failed:", err);
+                send({ type: "failed", jobId, error: err && err.message ? err.message : String(err) });
+            }
+        } finally {
+            active.delete(jobId);
+            armIdleTimer();
         }
-        // optionally cleanup brollDir here
-        // await fsPromises.rm(brollDir, { recursive: true, force: true });
-    }
+    });
+
+    // warm up before the first job arrives
+    getBundle().catch((err) => console.error("[render.mjs] Bundling failed:", err));
+    getBrowser().catch((err) => console.error("[render.mjs] Could not open the browser:", err));
+    armIdleTimer();
+    send({ type: "ready" });
 }
 
-main().catch((err) => {
-    console.error("[render.mjs] Fatal render error:", err);
-    if (err && err.stack) console.error("[render.mjs] Stack:", err.stack);
-    process.exit(1);
-});
+if (process.argv[2] === "--worker") {
+    runWorker();
+} else {
+    runOnce()
+        .then(() => {
+            // let the process exit instead of idling on an open IPC channel
+            if (process.connected) process.disconnect();
+        })
+        .catch((err) => {
+            console.error("[render.mjs] Fatal render error:", err);
+            if (err && err.stack) console.error("[render.mjs] Stack:", err.stack);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,413 @@
+#!/usr/bin/env node
+// scripts/caption-cli.mjs
+// Command-line front end for batch work: transcribes and renders clips
+// through a running instance of the app (npm run dev / start / Docker), so
+// providers, validation and the render queue are the same as in the editor.
+//
+//   caption-cli transcribe <video|dir|manifest.json> [--out-dir DIR]
+//   caption-cli render <video> [--captions FILE] [--out FILE]
+//   caption-cli batch <dir|manifest.json> [--out-dir DIR] [--concurrency N]
+//
+// Run `caption-cli --help` for the options and the manifest format.
+import fs from "fs";
+import fsPromises from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { parseArgs } from "util";
+
+const USAGE = `Usage:
+  caption-cli transcribe <video|dir|manifest.json> [options]
+      writes <out-dir>/<name>.captions.json for each video
+  caption-cli render <video> [--captions FILE] [--out FILE] [options]
+      transcribes unless --captions (srt, vtt, ass or json) is given
+  caption-cli batch <dir|manifest.json> [options]
+      transcribes and renders every video; finished outputs are skipped
+
+Options:
+  --server URL         app to use (CAPTION_CLI_SERVER, default http://localhost:3000)
+  --out-dir DIR        where captions, videos and the report go (default ./out)
+  --provider NAME      transcription provider (openai, local-whisper, fake)
+  --language CODE      spoken language hint for transcription
+  --segmentation MODE  caption re-segmentation: standard, social or off (default standard)
+  --diarize            label captions by speaker (DIARIZER backend on the server)
+  --style NAME         caption style preset: bottom, top or karaoke
+  --aspect PRESET      source, 9:16, 1:1, 4:5, ...
+  --fit MODE           fill or fit when reframing
+  --format CODEC       h264, h265, vp9, prores or gif
+  --subtitles MODE     burn-in, mov_text, webvtt or ass
+  --broll FILE         B-roll manifest: { "<video file name>": [BRollEntry, ...] }
+  --concurrency N      videos processed at once in batch mode (default 2)
+  --report FILE        JSON summary (default <out-dir>/report.json)
+  --force              redo transcriptions and outputs that already exist
+
+A batch manifest is a JSON array of videos, or { "defaults": {...}, "videos": [...] }.
+Each video is a file name or { "input", "output"?, "captions"?, "style"?, "aspect"?,
+"fit"?, "format"?, "subtitles"?, "provider"?, "language"?, "segmentation"?, "diarize"?,
+"bRolls"?, "captionStyle"? };
+paths are relative to the manifest.`;
+
+const VIDEO_EXTENSIONS = new Set([".mp4", ".m4v", ".mov", ".mkv", ".webm", ".avi"]);
+const POLL_INTERVAL_MS = 2000;
+
+// keep in sync with exportExtension in lib/export-formats.ts
+const CODEC_EXTENSIONS = { h264: "mp4", h265: "mp4", vp9: "webm", prores: "mov", gif: "gif" };
+function outputExtension({ format = "h264", subtitles = "burn-in" }) {
+    if (subtitles === "ass") return "mkv";
+    if (subtitles === "webvtt") return format === "vp9" ? "webm" : "mkv";
+    return CODEC_EXTENSIONS[format] || "mp4";
+}
+
+/** Bad arguments or input files; printed without a stack trace. */
+class CliError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = "CliError";
+    }
+}
+
+function log(...args) {
+    console.log("[caption-cli]", ...args);
+}
+
+/* ---------------- talking to the app ---------------- */
+
+function createClient(server) {
+    const base = server.replace(/\/+$/, "");
+
+    async function request(pathname, init) {
+        let res;
+        try {
+            res = await fetch(`${base}${pathname}`, init);
+        } catch (err) {
+            throw new CliError(`Cannot reach ${base} (${err.cause?.code || err.cause?.errors?.[0]?.code || err.message}); is the app running?`);
+        }
+        return res;
+    }
+
+    async function json(pathname, init) {
+        const res = await request(pathname, init);
+        const data = await res.json().catch(() => null);
+        if (!res.ok || !data || data.success === false) {
+            const issues = (data?.issues || []).map((i) => `${i.path}: ${i.message}`).join("; ");
+            throw new Error(`${pathname}: ${data?.error || res.status}${issues ? ` (${issues})` : ""}`);
+        }
+        return data;
+    }
+
+    // the file is streamed from disk rather than read into memory
+    async function fileForm(filePath, fields = {}) {
+        const form = new FormData();
+        for (const [name, value] of Object.entries(fields)) {
+            if (value === undefined || value === null) continue;
+            form.append(name, typeof value === "string" ? value : JSON.stringify(value));
+        }
+        if (filePath) form.append("file", await fs.openAsBlob(filePath), path.basename(filePath));
+        return form;
+    }
+
+    return {
+        async transcribe(videoPath, { provider, language, segmentation, diarize }) {
+            const data = await json("/api/generate-captions", {
+                method: "POST",
+                // a JSON field: a mode name goes as a JSON string
+                body: await fileForm(videoPath, {
+                    provider,
+                    language,
+                    segmentation: segmentation === undefined ? undefined : JSON.stringify(segmentation),
+                    diarize: diarize ? "true" : undefined,
+                }),
+            });
+            return { captions: data.captions, provider: data.provider };
+        },
+
+        // subtitle files are parsed by /api/captions/convert, same as the editor's import
+        async readCaptions(captionsPath) {
+            const data = await json("/api/captions/convert", {
+                method: "POST",
+                body: await fileForm(captionsPath, { to: "json" }),
+            });
+            return data.captions;
+        },
+
+        async render(videoPath, fields, onProgress) {
+            const { jobId } = await json("/api/render", {
+                method: "POST",
+                body: await fileForm(videoPath, fields),
+            });
+            for (;;) {
+                const { job } = await json(`/api/render/${jobId}`);
+                if (job.status === "done") return jobId;
+                if (job.status === "error" || job.status === "cancelled") {
+                    throw new Error(`Render ${job.status}: ${job.error || "no details"}`);
+                }
+                onProgress(job);
+                await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+            }
+        },
+
+        async download(jobId, outPath) {
+            const res = await request(`/api/render/${jobId}/output`);
+            if (!res.ok || !res.body) throw new Error(`Download failed: ${res.status}`);
+            // written next to the target and renamed, so an interrupted run never looks finished
+            const partial = `${outPath}.partial`;
+            await pipeline(Readable.fromWeb(res.body), fs.createWriteStream(partial));
+            await fsPromises.rename(partial, outPath);
+        },
+    };
+}
+
+/* ---------------- inputs ---------------- */
+
+async function readJson(filePath, what) {
+    try {
+        return JSON.parse(await fsPromises.readFile(filePath, "utf8"));
+    } catch (err) {
+        throw new CliError(`Could not read ${what} ${filePath}: ${err.message}`);
+    }
+}
+
+const exists = (filePath) =>
+    fsPromises.stat(filePath).then(
+        (s) => s.isFile() && s.size > 0,
+        () => false
+    );
+
+/**
+ * Expands a video, a directory of videos or a manifest into job specs
+ * ({ input, output?, captions?, style?, ... }) with absolute paths.
+ */
+async function collectVideos(target) {
+    const resolved = path.resolve(target);
+    const stat = await fsPromises.stat(resolved).catch(() => null);
+    if (!stat) throw new CliError(`No such file or directory: ${target}`);
+
+    if (stat.isDirectory()) {
+        const names = (await fsPromises.readdir(resolved)).filter((n) => VIDEO_EXTENSIONS.has(path.extname(n).toLowerCase())).sort();
+        if (names.length === 0) throw new CliError(`No videos in ${target}`);
+        return names.map((n) => ({ input: path.join(resolved, n) }));
+    }
+    if (path.extname(resolved).toLowerCase() !== ".json") return [{ input: resolved }];
+
+    const manifest = await readJson(resolved, "manifest");
+    const baseDir = path.dirname(resolved);
+    const defaults = Array.isArray(manifest) ? {} : manifest.defaults || {};
+    const videos = Array.isArray(manifest) ? manifest : manifest.videos;
+    if (!Array.isArray(videos)) throw new CliError(`${target}: expected an array or { "videos": [...] }`);
+    return videos.map((entry, i) => {
+        const spec = typeof entry === "string" ? { input: entry } : entry;
+        if (!spec || typeof spec.input !== "string") throw new CliError(`${target}: videos[${i}] has no "input"`);
+        return {
+            ...defaults,
+            ...spec,
+            input: path.resolve(baseDir, spec.input),
+            ...(spec.output ? { output: path.resolve(baseDir, spec.output) } : {}),
+            ...(spec.captions ? { captions: path.resolve(baseDir, spec.captions) } : {}),
+        };
+    });
+}
+
+/* ---------------- per-video work ---------------- */
+
+const baseName = (videoPath) => path.basename(videoPath, path.extname(videoPath));
+
+/**
+ * Captions for a video: its captions file, else a transcription cached in
+ * the out dir (reused unless --force), else a fresh transcription.
+ */
+async function captionsFor(client, spec, opts) {
+    if (spec.captions) return { captions: await client.readCaptions(spec.captions), source: "file" };
+
+    const cachePath = path.join(opts.outDir, `${baseName(spec.input)}.captions.json`);
+    if (!opts.force && (await exists(cachePath))) {
+        const cached = await readJson(cachePath, "cached captions");
+        if (Array.isArray(cached.captions)) return { captions: cached.captions, source: "cache" };
+    }
+    const { captions, provider } = await client.transcribe(spec.input, {
+        provider: spec.provider ?? opts.provider,
+        language: spec.language ?? opts.language,
+        segmentation: spec.segmentation ?? opts.segmentation,
+        diarize: spec.diarize ?? opts.diarize,
+    });
+    // same shape render.mjs and the editor's JSON import read
+    await fsPromises.writeFile(cachePath, JSON.stringify({ captions, provider }, null, 2));
+    return { captions, source: provider };
+}
+
+function renderFields(spec, opts, captions) {
+    const pick = (key) => spec[key] ?? opts[key];
+    const bRolls = spec.bRolls ?? opts.bRollManifest?.[path.basename(spec.input)] ?? [];
+    return {
+        captions,
+        stylePreset: pick("style"),
+        captionStyle: spec.captionStyle,
+        aspectPreset: pick("aspect"),
+        fitMode: pick("fit"),
+        bRolls,
+        exportOptions: {
+            ...(pick("format") ? { codec: pick("format") } : {}),
+            ...(pick("subtitles") ? { subtitles: pick("subtitles") } : {}),
+        },
+    };
+}
+
+async function processVideo(client, spec, opts, label) {
+    const started = Date.now();
+    const result = { input: spec.input, output: null, status: "done", captions: 0, captionsSource: null, seconds: 0, error: null };
+    try {
+        if (!(await exists(spec.input))) throw new CliError(`No such video: ${spec.input}`);
+
+        if (opts.command === "transcribe") {
+            const { captions, source } = await captionsFor(client, spec, opts);
+            result.output = path.join(opts.outDir, `${baseName(spec.input)}.captions.json`);
+            result.captions = captions.length;
+            result.captionsSource = source;
+            if (source === "cache") result.status = "skipped";
+            log(label, path.basename(spec.input), source === "cache" ? "already transcribed" : `${captions.length} captions`);
+            return result;
+        }
+
+        const output =
+            spec.output ?? opts.out ?? path.join(opts.outDir, `${baseName(spec.input)}.${outputExtension({ format: spec.format ?? opts.format, subtitles: spec.subtitles ?? opts.subtitles })}`);
+        result.output = output;
+        if (!opts.force && (await exists(output))) {
+            result.status = "skipped";
+            log(label, path.basename(spec.input), "already rendered, skipping");
+            return result;
+        }
+
+        const { captions, source } = await captionsFor(client, spec, opts);
+        result.captions = captions.length;
+        result.captionsSource = source;
+        log(label, path.basename(spec.input), `${captions.length} captions (${source}), rendering`);
+
+        let lastTenth = -1;
+        const jobId = await client.render(spec.input, renderFields(spec, opts, captions), (job) => {
+            const tenth = Math.floor(job.percentage / 10);
+            if (tenth === lastTenth) return;
+            lastTenth = tenth;
+            log(label, path.basename(spec.input), `${job.status === "queued" ? "queued" : job.stage || job.status} ${job.percentage}%`);
+        });
+        await fsPromises.mkdir(path.dirname(output), { recursive: true });
+        await client.download(jobId, output);
+        log(label, path.basename(spec.input), "->", output);
+        return result;
+    } catch (err) {
+        if (err instanceof CliError && err.message.startsWith("Cannot reach")) throw err;
+        result.status = "failed";
+        result.error = err.message;
+        console.error("[caption-cli]", label, path.basename(spec.input), "failed:", err.message);
+        return result;
+    } finally {
+        result.seconds = Math.round((Date.now() - started) / 100) / 10;
+    }
+}
+
+/** Runs `work` over `items` with at most `limit` in flight; results keep input order. */
+async function mapWithConcurrency(items, limit, work) {
+    const results = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await work(items[i], i);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+/* ---------------- main ---------------- */
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            server: { type: "string", default: process.env.CAPTION_CLI_SERVER || "http://localhost:3000" },
+            "out-dir": { type: "string", default: "out" },
+            out: { type: "string" },
+            captions: { type: "string" },
+            provider: { type: "string" },
+            language: { type: "string" },
+            segmentation: { type: "string" },
+            diarize: { type: "boolean", default: false },
+            style: { type: "string" },
+            aspect: { type: "string" },
+            fit: { type: "string" },
+            format: { type: "string" },
+            subtitles: { type: "string" },
+            broll: { type: "string" },
+            concurrency: { type: "string", default: "2" },
+            report: { type: "string" },
+            force: { type: "boolean", default: false },
+            help: { type: "boolean", short: "h", default: false },
+        },
+    });
+
+    const [command, target] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!["transcribe", "render", "batch"].includes(command)) throw new CliError(`Unknown command "${command}"\n\n${USAGE}`);
+    if (!target) throw new CliError(`${command} needs a video, directory or manifest\n\n${USAGE}`);
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) throw new CliError("--concurrency must be a positive integer");
+
+    const opts = {
+        command,
+        outDir: path.resolve(values["out-dir"]),
+        out: values.out ? path.resolve(values.out) : undefined,
+        provider: values.provider,
+        language: values.language,
+        segmentation: values.segmentation,
+        diarize: values.diarize,
+        style: values.style,
+        aspect: values.aspect,
+        fit: values.fit,
+        format: values.format,
+        subtitles: values.subtitles,
+        bRollManifest: values.broll ? await readJson(path.resolve(values.broll), "B-roll manifest") : null,
+        force: values.force,
+    };
+
+    let specs = await collectVideos(target);
+    if (command === "render") {
+        if (specs.length !== 1) throw new CliError("render takes a single video; use batch for several");
+        if (values.captions) specs = [{ ...specs[0], captions: path.resolve(values.captions) }];
+    }
+    await fsPromises.mkdir(opts.outDir, { recursive: true });
+
+    const client = createClient(values.server);
+    const startedAt = new Date().toISOString();
+    const limit = command === "render" ? 1 : concurrency;
+    log(`${command}: ${specs.length} video(s) via ${values.server}, concurrency ${limit}`);
+    const results = await mapWithConcurrency(specs, limit, (spec, i) =>
+        processVideo(client, spec, opts, `[${i + 1}/${specs.length}]`)
+    );
+
+    const count = (status) => results.filter((r) => r.status === status).length;
+    const report = {
+        command,
+        server: values.server,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        summary: { total: results.length, done: count("done"), skipped: count("skipped"), failed: count("failed") },
+        results,
+    };
+    const reportPath = values.report ? path.resolve(values.report) : path.join(opts.outDir, "report.json");
+    await fsPromises.writeFile(reportPath, JSON.stringify(report, null, 2));
+    log(`done: ${report.summary.done}, skipped: ${report.summary.skipped}, failed: ${report.summary.failed}; report at ${reportPath}`);
+    return report.summary.failed > 0 ? 1 : 0;
+}
+
+main()
+    .then((code) => process.exit(code))
+    .catch((err) => {
+        if (err instanceof CliError || err?.code === "ERR_PARSE_ARGS_UNKNOWN_OPTION") {
+            console.error("[caption-cli]", err.message);
+            process.exit(2);
+        }
+        console.error("[caption-cli] Fatal error:", err);
+        process.exit(1);
+    });
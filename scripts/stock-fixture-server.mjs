@@ -0,0 +1,170 @@
+// scripts/stock-fixture-server.mjs
+// Offline stand-in for the Pexels, Pixabay and Unsplash search APIs. Point
+// the app at it with
+//   PEXELS_API_BASE=http://127.0.0.1:4010 PIXABAY_API_BASE=http://127.0.0.1:4010 UNSPLASH_API_BASE=http://127.0.0.1:4010
+// (any non-empty API keys will do). Responses follow the real APIs' shapes
+// closely enough for lib/stock-media; media URLs point back at this server:
+// photos are generated SVGs, videos are public/sample-video.mp4. Exports
+// only download B-roll from it with BROLL_ALLOWED_HOSTS=127.0.0.1.
+import fs from "fs";
+import http from "http";
+import path from "path";
+
+const PORT = Number(process.env.STOCK_FIXTURE_PORT) || 4010;
+const BASE = `http://127.0.0.1:${PORT}`;
+const TOTAL = 40; // results per query
+const SAMPLE_VIDEO = path.resolve("public/sample-video.mp4");
+
+// cycle through orientations so the filters have something to do
+const SHAPES = [
+    { width: 1920, height: 1080 },
+    { width: 1080, height: 1920 },
+    { width: 1200, height: 1200 },
+];
+
+function items(query, page, perPage, orientation) {
+    const all = Array.from({ length: TOTAL }, (_, i) => ({ n: i + 1, ...SHAPES[i % SHAPES.length] })).filter(({ width, height }) => {
+        if (!orientation || orientation === "all") return true;
+        if (orientation === "landscape" || orientation === "horizontal") return width > height;
+        if (orientation === "portrait" || orientation === "vertical") return height > width;
+        return width === height; // square / squarish
+    });
+    const start = (page - 1) * perPage;
+    return {
+        total: all.length,
+        slice: all.slice(start, start + perPage).map((it) => ({
+            ...it,
+            id: `${query.replace(/\W+/g, "-")}-${it.n}`,
+            photo: `${BASE}/media/photo/${encodeURIComponent(query)}-${it.n}-${it.width}x${it.height}.svg`,
+            video: `${BASE}/media/video.mp4?n=${it.n}`,
+        })),
+    };
+}
+
+const handlers = {
+    // Pexels
+    "/v1/search": (q) => {
+        const { total, slice } = items(q.query, q.page, q.perPage, q.get("orientation"));
+        return {
+            page: q.page,
+            per_page: q.perPage,
+            total_results: total,
+            next_page: q.page * q.perPage < total ? `${BASE}/v1/search?page=${q.page + 1}` : undefined,
+            photos: slice.map((it) => ({
+                id: it.id,
+                width: it.width,
+                height: it.height,
+                src: { original: it.photo, large2x: it.photo, large: it.photo, medium: it.photo, small: it.photo },
+            })),
+        };
+    },
+    "/videos/search": (q) => {
+        const { total, slice } = items(q.query, q.page, q.perPage, q.get("orientation"));
+        return {
+            page: q.page,
+            per_page: q.perPage,
+            total_results: total,
+            videos: slice.map((it) => ({
+                id: it.id,
+                width: it.width,
+                height: it.height,
+                image: it.photo,
+                video_files: [
+                    { quality: "sd", file_type: "video/mp4", width: 640, link: it.video },
+                    { quality: "hd", file_type: "video/mp4", width: 1280, link: it.video },
+                ],
+            })),
+        };
+    },
+    // Pixabay
+    "/api/": (q) => {
+        const { total, slice } = items(q.get("q") || "", q.page, q.perPage, q.get("orientation"));
+        return {
+            total,
+            totalHits: total,
+            hits: slice.map((it) => ({
+                id: it.id,
+                imageWidth: it.width,
+                imageHeight: it.height,
+                previewURL: it.photo,
+                webformatURL: it.photo,
+                largeImageURL: it.photo,
+            })),
+        };
+    },
+    "/api/videos/": (q) => {
+        const { total, slice } = items(q.get("q") || "", q.page, q.perPage, null);
+        const rendition = (it, scale) => ({ url: it.video, width: it.width * scale, height: it.height * scale, thumbnail: it.photo });
+        return {
+            total,
+            totalHits: total,
+            hits: slice.map((it) => ({
+                id: it.id,
+                videos: { large: rendition(it, 1), medium: rendition(it, 0.66), small: rendition(it, 0.33), tiny: rendition(it, 0.2) },
+            })),
+        };
+    },
+    // Unsplash
+    "/search/photos": (q) => {
+        const { total, slice } = items(q.query, q.page, q.perPage, q.get("orientation"));
+        return {
+            total,
+            total_pages: Math.ceil(total / q.perPage),
+            results: slice.map((it) => ({
+                id: it.id,
+                width: it.width,
+                height: it.height,
+                urls: { raw: it.photo, full: it.photo, regular: it.photo, small: it.photo, thumb: it.photo },
+            })),
+        };
+    },
+};
+
+function placeholderSvg(name) {
+    const [, label = name, w = "1920", h = "1080"] = /^(.*)-(\d+)x(\d+)\.svg$/.exec(name) || [];
+    const hue = [...label].reduce((acc, c) => (acc * 31 + c.charCodeAt(0)) % 360, 7);
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">` +
+        `<rect width="100%" height="100%" fill="hsl(${hue},55%,40%)"/>` +
+        `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="${Math.round(Number(h) / 12)}" text-anchor="middle" dominant-baseline="middle">${label.replace(/[<&>"]/g, "")}</text>` +
+        `</svg>`;
+}
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url, BASE);
+    console.log(req.method, url.pathname + url.search);
+
+    if (url.pathname.startsWith("/media/photo/")) {
+        res.writeHead(200, { "Content-Type": "image/svg+xml" });
+        res.end(placeholderSvg(decodeURIComponent(url.pathname.slice("/media/photo/".length))));
+        return;
+    }
+    if (url.pathname === "/media/video.mp4") {
+        if (!fs.existsSync(SAMPLE_VIDEO)) {
+            res.writeHead(404);
+            res.end();
+            return;
+        }
+        res.writeHead(200, { "Content-Type": "video/mp4", "Content-Length": fs.statSync(SAMPLE_VIDEO).size });
+        fs.createReadStream(SAMPLE_VIDEO).pipe(res);
+        return;
+    }
+
+    const handler = handlers[url.pathname];
+    if (!handler) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "not found" }));
+        return;
+    }
+    const q = {
+        get: (name) => url.searchParams.get(name),
+        query: url.searchParams.get("query") || "",
+        page: Math.max(1, Number(url.searchParams.get("page")) || 1),
+        perPage: Math.max(1, Number(url.searchParams.get("per_page")) || 10),
+    };
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(handler(q)));
+});
+
+server.listen(PORT, "127.0.0.1", () => {
+    console.log(`Stock media fixture server listening on ${BASE}`);
+});
@@ -0,0 +1,62 @@
+// tests/auto-cut.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  findCuts,
+  keepRangesFor,
+  retimeCaptions,
+  untimedFillerSegments,
+} from "../lib/auto-cut";
+import type { CaptionSegment } from "../remotion/VideoWithCaptions";
+
+const timed: CaptionSegment = {
+  start: 0,
+  end: 3,
+  text: "So um today",
+  words: [
+    { start: 0, end: 0.4, text: "So" },
+    { start: 0.6, end: 1.1, text: "um" },
+    { start: 1.3, end: 3, text: "today" },
+  ],
+};
+
+// imported subtitle: no word timings
+const untimed: CaptionSegment = { start: 3, end: 6, text: "Uh, we begin." };
+
+describe("findCuts", () => {
+  it("cuts fillers at their word timings", () => {
+    expect(findCuts([timed], [], 6)).toEqual([
+      { start: 0.6, end: 1.1, reason: "filler" },
+    ]);
+  });
+
+  it("leaves fillers in segments without word timings", () => {
+    expect(findCuts([untimed], [], 6)).toEqual([]);
+    expect(untimedFillerSegments([timed, untimed])).toEqual([
+      { start: 3, end: 6 },
+    ]);
+  });
+
+  it("pads silences and skips short ones", () => {
+    const silences = [
+      { start: 0, end: 1 },
+      { start: 2, end: 2.3 },
+      { start: 4, end: 5 },
+    ];
+    expect(
+      findCuts([], silences, 6, { paddingSeconds: 0.1, removeFillers: false })
+    ).toEqual([
+      { start: 0, end: 0.9, reason: "silence" },
+      { start: 4.1, end: 4.9, reason: "silence" },
+    ]);
+  });
+});
+
+describe("retimeCaptions", () => {
+  it("drops cut fillers from the text and shifts later captions", () => {
+    const keeps = keepRangesFor(findCuts([timed], [], 6), 6);
+    const [first, second] = retimeCaptions([timed, untimed], keeps);
+    expect(first.text).toBe("So today");
+    expect(first.end).toBe(2.5);
+    expect(second).toMatchObject({ start: 2.5, end: 5.5, text: untimed.text });
+  });
+});
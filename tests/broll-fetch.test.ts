@@ -0,0 +1,175 @@
+// tests/broll-fetch.test.ts
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  BlockedSourceError,
+  checkBRollUrl,
+  fetchBRoll,
+  guardedLookup,
+  isPrivateAddress,
+  localStockPath,
+} from "../lib/broll-fetch.mjs";
+
+// stands in for a stock CDN; allow-listed as 127.0.0.1 like the fixture server
+let server: http.Server;
+let base: string;
+let dir: string;
+const allowedHosts = ["127.0.0.1"];
+const out = () => path.join(dir, `${Math.random().toString(36).slice(2)}.bin`);
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "broll-fetch-"));
+  server = http.createServer((req, res) => {
+    if (req.url === "/clip.mp4") {
+      res.setHeader("content-length", "1024");
+      return res.end(Buffer.alloc(1024));
+    }
+    if (req.url === "/chunked") {
+      // no content-length: the cap has to apply while streaming
+      res.write(Buffer.alloc(600));
+      return setTimeout(() => res.end(Buffer.alloc(600)), 10);
+    }
+    if (req.url?.startsWith("/redirect?to=")) {
+      res.statusCode = 302;
+      res.setHeader("location", decodeURIComponent(req.url.slice(13)));
+      return res.end();
+    }
+    res.statusCode = 404;
+    res.end();
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("checkBRollUrl", () => {
+  it.each([
+    "file:///etc/passwd",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://[::ffff:169.254.169.254]/latest/meta-data/",
+    "http://127.0.0.1:3000/",
+    "http://[::1]/",
+    "http://10.1.2.3/",
+  ])("blocks %s", (src) => {
+    expect(() => checkBRollUrl(new URL(src), [])).toThrow(BlockedSourceError);
+  });
+
+  it("allows public addresses and listed hosts", () => {
+    expect(checkBRollUrl(new URL("https://93.184.215.14/a.mp4"), [])).toBe(
+      false
+    );
+    expect(
+      checkBRollUrl(new URL("https://cdn.example.com/a.mp4"), ["*.example.com"])
+    ).toBe(true);
+    expect(() =>
+      checkBRollUrl(new URL("https://evil.test/a.mp4"), ["*.example.com"])
+    ).toThrow(/BROLL_ALLOWED_HOSTS/);
+  });
+
+  it("treats IPv4-mapped IPv6 addresses like their IPv4 form", () => {
+    expect(isPrivateAddress("::ffff:a9fe:a9fe")).toBe(true);
+    expect(isPrivateAddress("::ffff:5db8:d70e")).toBe(false);
+  });
+});
+
+describe("guardedLookup", () => {
+  it("refuses names that resolve to private addresses", async () => {
+    const err = await new Promise((resolve) =>
+      guardedLookup("localhost", {}, (e: Error | null) => resolve(e))
+    );
+    expect(err).toBeInstanceOf(BlockedSourceError);
+  });
+});
+
+describe("fetchBRoll", () => {
+  it("rejects file URLs and bare paths", async () => {
+    for (const src of ["file:///etc/passwd", "/etc/passwd"]) {
+      await expect(fetchBRoll(src, out())).rejects.toBeInstanceOf(
+        BlockedSourceError
+      );
+    }
+  });
+
+  it("refuses loopback servers that are not allow-listed", async () => {
+    await expect(
+      fetchBRoll(`${base}/clip.mp4`, out(), { allowedHosts: [] })
+    ).rejects.toBeInstanceOf(BlockedSourceError);
+  });
+
+  it("downloads from a listed host", async () => {
+    const file = out();
+    await fetchBRoll(`${base}/clip.mp4`, file, { allowedHosts });
+    expect(fs.statSync(file).size).toBe(1024);
+  });
+
+  it("checks every redirect hop", async () => {
+    for (const to of [
+      "http://169.254.169.254/latest/meta-data/",
+      "http://[::ffff:169.254.169.254]/",
+      "file:///etc/passwd",
+    ]) {
+      await expect(
+        fetchBRoll(`${base}/redirect?to=${encodeURIComponent(to)}`, out(), {
+          allowedHosts,
+        })
+      ).rejects.toBeInstanceOf(BlockedSourceError);
+    }
+    const file = out();
+    await fetchBRoll(
+      `${base}/redirect?to=${encodeURIComponent("/clip.mp4")}`,
+      file,
+      { allowedHosts }
+    );
+    expect(fs.statSync(file).size).toBe(1024);
+  });
+
+  it("stops following redirects after maxRedirects", async () => {
+    const loop = `${base}/redirect?to=${encodeURIComponent(
+      `${base}/redirect?to=${encodeURIComponent("/clip.mp4")}`
+    )}`;
+    await expect(
+      fetchBRoll(loop, out(), { allowedHosts, maxRedirects: 1 })
+    ).rejects.toThrow(/Too many redirects/);
+  });
+
+  it("stops at the size cap, declared or streamed", async () => {
+    await expect(
+      fetchBRoll(`${base}/clip.mp4`, out(), { allowedHosts, maxBytes: 1000 })
+    ).rejects.toThrow(/larger than 1000 bytes/);
+    await expect(
+      fetchBRoll(`${base}/chunked`, out(), { allowedHosts, maxBytes: 1000 })
+    ).rejects.toThrow(/larger than 1000 bytes/);
+    await fetchBRoll(`${base}/chunked`, out(), {
+      allowedHosts,
+      maxBytes: 1200,
+    });
+  });
+});
+
+describe("localStockPath", () => {
+  const root = path.resolve("/srv/stock");
+
+  it("maps library URLs inside the root", () => {
+    expect(
+      localStockPath("/api/stock-media/local/sea/wave%201.mp4", root)
+    ).toBe(path.join(root, "sea", "wave 1.mp4"));
+  });
+
+  it.each([
+    "/api/stock-media/local/..%2F..%2Fetc%2Fpasswd",
+    "/api/stock-media/local/../../etc/passwd",
+    "/api/stock-media/local/%E0%A4.mp4",
+  ])("refuses %s", (src) => {
+    expect(() => localStockPath(src, root)).toThrow(BlockedSourceError);
+  });
+});
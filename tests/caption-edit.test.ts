@@ -0,0 +1,52 @@
+// tests/caption-edit.test.ts
+import { describe, expect, it } from "vitest";
+import { splitSegment } from "../lib/caption-edit";
+import type { CaptionSegment } from "../remotion/VideoWithCaptions";
+
+const seg: CaptionSegment = {
+  start: 1,
+  end: 4,
+  text: "one two three",
+  words: [
+    { start: 1.5, end: 2, text: "one" },
+    { start: 2.2, end: 3, text: "two" },
+    { start: 3.1, end: 3.8, text: "three" },
+  ],
+};
+
+const wordsInOrder = (s: CaptionSegment) =>
+  (s.words ?? []).every((w) => w.start <= w.end && w.start >= s.start) &&
+  (s.words ?? []).every((w) => w.end <= s.end);
+
+describe("splitSegment", () => {
+  it("cuts between the words around the split time", () => {
+    const [left, right] = splitSegment(seg, 2.5)!;
+    expect(left.text).toBe("one");
+    expect(right.text).toBe("two three");
+    expect(left.end).toBe(2.5);
+    expect(right.start).toBe(2.5);
+  });
+
+  it("moves a cut before the first word to that word's end", () => {
+    const [left, right] = splitSegment(seg, 1.2)!;
+    expect(left.text).toBe("one");
+    expect(left.end).toBe(2);
+    expect(right.start).toBe(2);
+    expect(wordsInOrder(left)).toBe(true);
+    expect(wordsInOrder(right)).toBe(true);
+  });
+
+  it("moves a cut after the last word to that word's start", () => {
+    const [left, right] = splitSegment(seg, 3.9)!;
+    expect(right.text).toBe("three");
+    expect(left.end).toBe(3.1);
+    expect(right.start).toBe(3.1);
+    expect(wordsInOrder(left)).toBe(true);
+    expect(wordsInOrder(right)).toBe(true);
+  });
+
+  it("does not split outside the segment", () => {
+    expect(splitSegment(seg, 1)).toBeNull();
+    expect(splitSegment(seg, 4.5)).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+// tests/caption-formats.test.ts
+import fs from "fs";
+import { describe, expect, it } from "vitest";
+import {
+  CaptionFormat,
+  parseCaptions,
+  parseTimestamp,
+  serializeCaptions,
+} from "../lib/caption-formats";
+import type { CaptionSegment } from "../remotion/VideoWithCaptions";
+
+const fixture = (name: string) =>
+  fs.readFileSync(
+    new URL(`./fixtures/captions/${name}`, import.meta.url),
+    "utf8"
+  );
+
+// parse -> serialize -> parse, keeping the preset read from the file
+const roundTrip = (text: string, format: CaptionFormat) => {
+  const first = parseCaptions(text, format);
+  const written = serializeCaptions(first.captions, format, first.stylePreset);
+  return { first, second: parseCaptions(written, format), written };
+};
+
+const timings = (captions: CaptionSegment[]) =>
+  captions.map((c) => [c.start, c.end]);
+
+describe("parseTimestamp", () => {
+  it("reads SRT, VTT and ASS timestamps to the millisecond", () => {
+    expect(parseTimestamp("00:00:01,234")).toBe(1.234);
+    expect(parseTimestamp("00:00:01.234")).toBe(1.234);
+    expect(parseTimestamp("01:02:03.045")).toBe(3723.045);
+    expect(parseTimestamp("0:00:01.23")).toBe(1.23);
+    expect(parseTimestamp("00:01.5")).toBe(1.5);
+  });
+
+  it("rejects garbage", () => {
+    expect(() => parseTimestamp("1.2.3")).toThrow(/Invalid timestamp/);
+  });
+});
+
+describe("SRT", () => {
+  it("round-trips the fixture with millisecond timings", () => {
+    const { first, second } = roundTrip(fixture("sample.srt"), "srt");
+    expect(timings(first.captions)).toEqual([
+      [1.234, 3.507],
+      [3.999, 6.001],
+      [3723.045, 3724.999],
+    ]);
+    expect(first.captions[0].text).toBe("Hello there,\nhow are you?");
+    expect(first.captions[1].text).toBe("Fine, thanks & you?");
+    expect(second.captions).toEqual(first.captions);
+  });
+
+  it("round-trips speakers as a name prefix", () => {
+    const captions: CaptionSegment[] = [
+      { start: 0, end: 1, text: "Welcome to the show.", speaker: "Speaker 1" },
+      { start: 1, end: 2, text: "Thanks: glad to be here.", speaker: "Ana" },
+      { start: 2, end: 3, text: "Note: no speaker here." },
+    ];
+    const written = serializeCaptions(captions, "srt");
+    expect(written).toContain("Speaker 1: Welcome to the show.\n");
+    expect(written).toContain("Ana: Thanks: glad to be here.\n");
+    expect(written).toContain("\nNote: no speaker here.\n");
+    expect(parseCaptions(written, "srt").captions).toEqual(captions);
+  });
+
+  it("keeps label-like text from other tools as text", () => {
+    const cues = [
+      "Step one: open the lid.",
+      "Warning: hot surface.",
+      "Time: 10:30 sharp.",
+      "Maria José: Hola.",
+    ];
+    const srt = cues
+      .map(
+        (text, i) =>
+          `${i + 1}\n00:00:0${i},000 --> 00:00:0${i + 1},000\n${text}`
+      )
+      .join("\n\n");
+    const { captions } = parseCaptions(srt, "srt");
+    expect(captions.map((c) => c.text)).toEqual(cues);
+    expect(captions.some((c) => c.speaker)).toBe(false);
+  });
+});
+
+describe("WebVTT", () => {
+  it("round-trips the fixture with millisecond cue and word timings", () => {
+    const { first, second } = roundTrip(fixture("sample.vtt"), "vtt");
+    expect(timings(first.captions)).toEqual([
+      [1.234, 3.507],
+      [3.999, 6.001],
+      [3723.045, 3724.999],
+    ]);
+    expect(first.stylePreset).toBe("karaoke");
+    expect(first.captions[1].words).toEqual([
+      { start: 4.321, end: 5.013, text: "Fine," },
+      { start: 5.013, end: 6.001, text: "thanks." },
+    ]);
+    expect(timings(second.captions)).toEqual(timings(first.captions));
+    expect(second.captions.map((c) => c.text)).toEqual(
+      first.captions.map((c) => c.text)
+    );
+    expect(second.captions[1].words).toEqual(first.captions[1].words);
+  });
+
+  it("requires the WEBVTT header", () => {
+    expect(() => parseCaptions("00:00.000 --> 00:01.000\nHi", "vtt")).toThrow(
+      /WEBVTT/
+    );
+  });
+});
+
+describe("ASS", () => {
+  it("round-trips the fixture at centisecond precision", () => {
+    const { first, second } = roundTrip(fixture("sample.ass"), "ass");
+    expect(timings(first.captions)).toEqual([
+      [1.23, 3.51],
+      [4, 6],
+      [3723.05, 3725],
+    ]);
+    expect(first.captions[0].text).toBe("Hello there,\nhow are you?");
+    expect(first.captions[1].text).toBe("Fine, thanks.");
+    expect(second.captions).toEqual(first.captions);
+  });
+
+  // ASS timestamps only have centiseconds, so milliseconds are rounded
+  // on export; SRT and VTT keep them
+  it("rounds millisecond timings to centiseconds", () => {
+    const captions = [{ start: 1.234, end: 2.345, text: "Hi" }];
+    const ass = parseCaptions(serializeCaptions(captions, "ass"), "ass");
+    expect(timings(ass.captions)).toEqual([[1.23, 2.35]]);
+    for (const format of ["srt", "vtt"] as const) {
+      const parsed = parseCaptions(serializeCaptions(captions, format), format);
+      expect(timings(parsed.captions)).toEqual([[1.234, 2.345]]);
+    }
+  });
+});
+
+describe("cross-format", () => {
+  it("keeps millisecond timings from SRT through VTT and back", () => {
+    const srt = parseCaptions(fixture("sample.srt"), "srt");
+    const vtt = parseCaptions(serializeCaptions(srt.captions, "vtt"), "vtt");
+    const back = parseCaptions(serializeCaptions(vtt.captions, "srt"), "srt");
+    expect(back.captions).toEqual(srt.captions);
+  });
+});
@@ -0,0 +1,134 @@
+// tests/caption-segmentation.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  resegmentCaptions,
+  SEGMENTATION_PRESETS,
+} from "../lib/caption-segmentation";
+import type { CaptionSegment } from "../remotion/VideoWithCaptions";
+
+/** One timed caption, 0.3s per word with 0.05s between, plus extra pauses after the given words. */
+function timedCaption(text: string, pauses: Record<string, number> = {}) {
+  let t = 0;
+  const words = text.split(" ").map((word) => {
+    const w = { start: t, end: t + 0.3, text: word };
+    t = w.end + 0.05 + (pauses[word] ?? 0);
+    return w;
+  });
+  return {
+    start: 0,
+    end: words[words.length - 1].end,
+    text,
+    words,
+  } satisfies CaptionSegment;
+}
+
+const texts = (captions: CaptionSegment[]) =>
+  captions.map((c) => c.text.replace(/\n/g, " "));
+
+const SENTENCE =
+  "So today we are going to look at how the engine works, and why it matters. Then we will build one.";
+
+describe("resegmentCaptions (social)", () => {
+  const social = SEGMENTATION_PRESETS.social;
+
+  it("keeps chunks within sentences and clauses", () => {
+    const captions: CaptionSegment[] = [
+      { start: 0, end: 3, text: SENTENCE },
+      {
+        start: 3,
+        end: 6,
+        text: "Okay, so the engine works, and why does that matter?",
+      },
+    ];
+    const out = texts(resegmentCaptions(captions, social));
+    for (const chunk of out) {
+      // punctuation only ever ends a chunk
+      expect(chunk.slice(0, -1)).not.toMatch(/[.!?]/);
+    }
+    expect(out).not.toContain("works, and why does");
+    expect(out).toContain("so the engine works,");
+  });
+
+  it("does not end a chunk on a weak word", () => {
+    const fast = texts(
+      resegmentCaptions([{ start: 0, end: 3, text: SENTENCE }], social)
+    );
+    expect(fast.slice(0, 2)).toEqual(["So today", "we are going"]);
+  });
+
+  it("does not end a chunk on a weak word before a pause", () => {
+    const out = texts(
+      resegmentCaptions(
+        [timedCaption(SENTENCE, { are: 0.4, the: 0.35 })],
+        social
+      )
+    );
+    expect(out).not.toContain("So today we are");
+    for (const chunk of out) {
+      expect(chunk).not.toMatch(/ (are|the|we|to)$/);
+    }
+  });
+});
+
+describe("resegmentCaptions (standard)", () => {
+  const standard = SEGMENTATION_PRESETS.standard;
+
+  it("holds a short last caption no further than the media end", () => {
+    const captions: CaptionSegment[] = [
+      { start: 1, end: 5, text: "This first caption has plenty of time." },
+      { start: 8.6, end: 8.9, text: "Thanks for watching everyone!" },
+    ];
+    const out = resegmentCaptions(captions, standard, 9);
+    expect(out[out.length - 1].end).toBe(9);
+  });
+
+  it("defaults the limit to the end of the last input caption", () => {
+    const out = resegmentCaptions(
+      [{ start: 8.6, end: 8.9, text: "Thanks for watching everyone!" }],
+      standard
+    );
+    expect(out).toEqual([
+      { start: 8.6, end: 8.9, text: "Thanks for watching everyone!" },
+    ]);
+  });
+
+  it("holds a caption no further than the next one", () => {
+    const out = resegmentCaptions(
+      [
+        { start: 0, end: 0.3, text: "Hi.", speaker: "Ana" },
+        {
+          start: 0.5,
+          end: 4,
+          text: "Welcome back to the channel.",
+          speaker: "Ben",
+        },
+      ],
+      standard,
+      9
+    );
+    expect(out.map((c) => [c.start, c.end])).toEqual([
+      [0, 0.5],
+      [0.5, 4],
+    ]);
+  });
+});
+
+describe("resegmentCaptions (effects)", () => {
+  it("keeps each segment's effect overrides on its chunks", () => {
+    const pop = { wordAnimation: "pop" as const, emoji: true };
+    const captions: CaptionSegment[] = [
+      { start: 0, end: 1.5, text: "This part pops.", effects: pop },
+      { start: 1.6, end: 3, text: "This part does not." },
+    ];
+    const out = resegmentCaptions(captions, SEGMENTATION_PRESETS.standard);
+    expect(out).toEqual([
+      { start: 0, end: 1.5, text: "This part pops.", effects: pop },
+      { start: 1.6, end: 3, text: "This part does not." },
+    ]);
+    // and again from the editor, on its own output
+    expect(resegmentCaptions(out, SEGMENTATION_PRESETS.social)).toEqual([
+      { start: 0, end: 1.5, text: "This part pops.", effects: pop },
+      { start: 1.6, end: 3, text: "This part does not." },
+    ]);
+  });
+});
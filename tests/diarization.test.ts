@@ -0,0 +1,76 @@
+// tests/diarization.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { applySpeakers, getDiarizer, isDiarizerName } from "../lib/diarization";
+import type { CaptionSegment } from "../remotion/VideoWithCaptions";
+
+const captions: CaptionSegment[] = [
+  {
+    start: 0,
+    end: 3.5,
+    text: "Welcome to the show. Thanks for having me.",
+    words: [
+      { start: 0, end: 0.5, text: "Welcome" },
+      { start: 0.5, end: 0.8, text: "to" },
+      { start: 0.8, end: 1.1, text: "the" },
+      { start: 1.1, end: 1.9, text: "show." },
+      { start: 2.1, end: 2.6, text: "Thanks" },
+      { start: 2.6, end: 2.8, text: "for" },
+      { start: 2.8, end: 3.1, text: "having" },
+      { start: 3.1, end: 3.5, text: "me." },
+    ],
+  },
+  // imported subtitle: no word timings, so it is labelled whole
+  { start: 4.2, end: 5.8, text: "So, tell us about it." },
+];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getDiarizer", () => {
+  it("resolves registered diarizers only", () => {
+    expect(getDiarizer("fake").name).toBe("fake");
+    expect(isDiarizerName("toString")).toBe(false);
+    expect(() => getDiarizer("toString")).toThrow(/Unknown diarizer/);
+  });
+});
+
+describe("fake diarizer", () => {
+  it("alternates voices every two seconds", async () => {
+    const turns = await getDiarizer("fake").diarize("unused.mp3", {
+      speakers: 3,
+    });
+    expect(turns.slice(0, 4)).toEqual([
+      { start: 0, end: 2, speaker: "SPEAKER_00" },
+      { start: 2, end: 4, speaker: "SPEAKER_01" },
+      { start: 4, end: 6, speaker: "SPEAKER_02" },
+      { start: 6, end: 8, speaker: "SPEAKER_00" },
+    ]);
+  });
+
+  it("splits captions where FAKE_DIARIZATION changes speaker", async () => {
+    vi.stubEnv("FAKE_DIARIZATION", "0:host|2:guest|4:host");
+    const turns = await getDiarizer("fake").diarize("unused.mp3");
+    const out = applySpeakers(captions, turns);
+    expect(out.map((c) => [c.start, c.end, c.speaker, c.text])).toEqual([
+      [0, 1.9, "Speaker 1", "Welcome to the show."],
+      [2.1, 3.5, "Speaker 2", "Thanks for having me."],
+      [4.2, 5.8, "Speaker 1", "So, tell us about it."],
+    ]);
+    expect(out[1].words?.map((w) => w.text)).toEqual([
+      "Thanks",
+      "for",
+      "having",
+      "me.",
+    ]);
+  });
+
+  it("folds a stray word at a turn edge into its neighbours", async () => {
+    // a short guest turn over "the" alone
+    vi.stubEnv("FAKE_DIARIZATION", "0:host|0.8:guest|1.1:host|2:guest");
+    const turns = await getDiarizer("fake").diarize("unused.mp3");
+    const [first] = applySpeakers(captions.slice(0, 1), turns);
+    expect(first.text).toBe("Welcome to the show.");
+    expect(first.speaker).toBe("Speaker 1");
+  });
+});
@@ -0,0 +1,59 @@
+// tests/ffmpeg.test.ts
+// Skipped without an ffmpeg binary, like tests/subtitle-mux.test.ts.
+import fs from "fs";
+import { makeCancelSignal } from "@remotion/renderer";
+import { describe, expect, it } from "vitest";
+import { FfmpegCancelledError, ffmpegPath, runFfmpeg } from "../lib/ffmpeg.mjs";
+
+const haveFfmpeg = typeof ffmpegPath === "string" && fs.existsSync(ffmpegPath);
+
+// generates frames until it is stopped
+const ENDLESS = [
+  "-v",
+  "error",
+  "-re",
+  "-f",
+  "lavfi",
+  "-i",
+  "testsrc=size=64x64:rate=10",
+  "-f",
+  "null",
+  "-",
+];
+
+describe.skipIf(!haveFfmpeg)("runFfmpeg", () => {
+  it("resolves with the exit status and captured stderr", async () => {
+    const ok = await runFfmpeg(["-v", "error", "-version"]);
+    expect(ok.status).toBe(0);
+    const bad = await runFfmpeg(["-v", "error", "-i", "/nonexistent.mp4"], {
+      captureStderr: true,
+    });
+    expect(bad.status).not.toBe(0);
+    expect(bad.stderr).toMatch(/nonexistent/);
+  });
+
+  it("keeps the event loop free and stops on cancel", async () => {
+    const { cancelSignal, cancel } = makeCancelSignal();
+    const running = runFfmpeg(ENDLESS, { cancelSignal });
+    // a timer firing while ffmpeg runs is what lets IPC cancels through
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const startedAt = Date.now();
+    cancel();
+    await expect(running).rejects.toBeInstanceOf(FfmpegCancelledError);
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+  });
+
+  it("does not start work for an already cancelled job", async () => {
+    const { cancelSignal, cancel } = makeCancelSignal();
+    cancel();
+    await expect(runFfmpeg(ENDLESS, { cancelSignal })).rejects.toBeInstanceOf(
+      FfmpegCancelledError
+    );
+  });
+
+  it("kills ffmpeg after the timeout", async () => {
+    await expect(runFfmpeg(ENDLESS, { timeoutMs: 300 })).rejects.toThrow(
+      /timed out/
+    );
+  });
+});
@@ -0,0 +1,47 @@
+// tests/music-library.test.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { listMusicLibrary, resolveMusicSource } from "../lib/music-library";
+
+let dir: string;
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "music-library-"));
+  fs.mkdirSync(path.join(dir, "calm"));
+  fs.writeFileSync(path.join(dir, "calm", "rain drops.mp3"), "");
+  fs.writeFileSync(path.join(dir, "notes.txt"), "");
+  vi.stubEnv("MUSIC_LIBRARY_DIR", dir);
+});
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("music library", () => {
+  it("lists audio files with their URLs", async () => {
+    expect(await listMusicLibrary()).toEqual([
+      {
+        name: "calm/rain drops",
+        src: "/api/music/calm/rain%20drops.mp3",
+        size: 0,
+      },
+    ]);
+  });
+
+  it("maps library URLs back to files inside the library", async () => {
+    expect(await resolveMusicSource("/api/music/calm/rain%20drops.mp3")).toBe(
+      path.join(dir, "calm", "rain drops.mp3")
+    );
+    expect(
+      await resolveMusicSource("/api/music/..%2F..%2Fetc%2Fpasswd")
+    ).toBeNull();
+    expect(await resolveMusicSource("https://example.com/a.mp3")).toBeNull();
+  });
+
+  it("rejects malformed escapes instead of throwing", async () => {
+    await expect(
+      resolveMusicSource("/api/music/%E0%A4.mp3")
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+// tests/stock-media.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isStockProviderName } from "../lib/stock-media";
+import { pixabayProvider } from "../lib/stock-media/pixabay";
+
+describe("isStockProviderName", () => {
+  it("only accepts registered providers", () => {
+    expect(isStockProviderName("pexels")).toBe(true);
+    expect(isStockProviderName("toString")).toBe(false);
+    expect(isStockProviderName("__proto__")).toBe(false);
+  });
+});
+
+describe("pixabayProvider paging", () => {
+  // a fake Pixabay with 10 photos, paged the way the real API pages them
+  const requests: URLSearchParams[] = [];
+  beforeEach(() => {
+    vi.stubEnv("PIXABAY_API_KEY", "test");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        const params = new URL(url).searchParams;
+        requests.push(params);
+        const perPage = Number(params.get("per_page"));
+        if (perPage < 3)
+          return new Response("per_page too small", { status: 400 });
+        const start = (Number(params.get("page")) - 1) * perPage;
+        const hits = Array.from({ length: 10 }, (_, i) => ({
+          id: i + 1,
+          webformatURL: `https://example.com/${i + 1}.jpg`,
+        })).slice(start, start + perPage);
+        return Response.json({ totalHits: 10, hits });
+      })
+    );
+  });
+  afterEach(() => {
+    requests.length = 0;
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  const ids = async (page: number, perPage: number) => {
+    const res = await pixabayProvider.search({
+      query: "sea",
+      type: "photos",
+      orientation: "any",
+      size: "any",
+      page,
+      perPage,
+    });
+    return { ids: res.results.map((r) => r.id), hasMore: res.hasMore };
+  };
+
+  it("walks every result one or two at a time", async () => {
+    for (const perPage of [1, 2]) {
+      const seen: (string | number)[] = [];
+      for (let page = 1; ; page++) {
+        const res = await ids(page, perPage);
+        seen.push(...res.ids);
+        if (!res.hasMore) break;
+      }
+      expect(seen).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    }
+    expect(requests.every((p) => Number(p.get("per_page")) >= 3)).toBe(true);
+  });
+
+  it("passes larger page sizes straight through", async () => {
+    expect(await ids(2, 4)).toEqual({ ids: [5, 6, 7, 8], hasMore: true });
+    expect(requests[0].get("per_page")).toBe("4");
+    expect(requests[0].get("page")).toBe("2");
+  });
+});
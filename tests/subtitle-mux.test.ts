@@ -0,0 +1,124 @@
+// tests/subtitle-mux.test.ts
+// Muxes real subtitle tracks with ffmpeg and reads them back with ffprobe.
+// Skipped when the binaries are missing; point FFMPEG_PATH/FFPROBE_PATH at
+// a local ffmpeg if ffmpeg-static could not download one.
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { serializeCaptions } from "../lib/caption-formats";
+import {
+  ffmpegPath,
+  ffprobePath,
+  muxSubtitles,
+  probeSubtitleStreams,
+  SUBTITLE_EXTENSIONS,
+} from "../lib/ffmpeg.mjs";
+
+const haveBinaries = [ffmpegPath, ffprobePath].every(
+  (p) => typeof p === "string" && fs.existsSync(p)
+);
+
+const TEXTS: Record<string, string> = {
+  eng: "Hello world",
+  spa: "Hola mundo",
+  jpn: "こんにちは世界",
+  hin: "नमस्ते दुनिया",
+  deu: "Hallo Welt",
+  fra: "Bonjour le monde",
+};
+
+// one second of test pattern and tone in the container's usual codecs
+const SOURCES = {
+  mp4: ["-c:v", "libx264", "-pix_fmt", "yuv420p", "-c:a", "aac"],
+  webm: ["-c:v", "libvpx-vp9", "-c:a", "libopus"],
+  mkv: ["-c:v", "libx264", "-pix_fmt", "yuv420p", "-c:a", "aac"],
+};
+
+describe.skipIf(!haveBinaries)("muxSubtitles", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "subtitle-mux-"));
+    for (const [ext, codecs] of Object.entries(SOURCES)) {
+      execFileSync(ffmpegPath as string, [
+        "-v",
+        "error",
+        "-f",
+        "lavfi",
+        "-i",
+        "testsrc=size=64x64:rate=10:duration=1",
+        "-f",
+        "lavfi",
+        "-i",
+        "sine=frequency=440:duration=1",
+        ...codecs,
+        path.join(dir, `source.${ext}`),
+      ]);
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const mux = async (
+    mode: "mov_text" | "webvtt" | "ass",
+    container: keyof typeof SOURCES,
+    languages: string[]
+  ) => {
+    const format = SUBTITLE_EXTENSIONS[mode] as "srt" | "vtt" | "ass";
+    const tracks = languages.map((language) => {
+      const trackPath = path.join(dir, `${mode}-${language}.${format}`);
+      fs.writeFileSync(
+        trackPath,
+        serializeCaptions(
+          [{ start: 0.1, end: 0.9, text: TEXTS[language] }],
+          format
+        )
+      );
+      return { path: trackPath, language, title: `Track ${language}` };
+    });
+    const outPath = path.join(dir, `${mode}.${container}`);
+    await muxSubtitles(
+      path.join(dir, `source.${container}`),
+      tracks,
+      outPath,
+      mode
+    );
+    return probeSubtitleStreams(outPath);
+  };
+
+  const summary = (streams: Awaited<ReturnType<typeof mux>>) =>
+    streams.map(
+      (s: { codec_name?: string; tags?: { language?: string } }) =>
+        `${s.codec_name}/${s.tags?.language}`
+    );
+
+  it("writes mov_text tracks into MP4", async () => {
+    const streams = await mux("mov_text", "mp4", ["eng", "spa", "jpn"]);
+    expect(summary(streams)).toEqual([
+      "mov_text/eng",
+      "mov_text/spa",
+      "mov_text/jpn",
+    ]);
+  });
+
+  it("writes WebVTT tracks into WebM", async () => {
+    const streams = await mux("webvtt", "webm", ["eng", "hin", "deu"]);
+    expect(summary(streams)).toEqual([
+      "webvtt/eng",
+      "webvtt/hin",
+      "webvtt/deu",
+    ]);
+  });
+
+  it("writes ASS tracks into MKV with titles", async () => {
+    const streams = await mux("ass", "mkv", ["eng", "fra", "jpn"]);
+    expect(summary(streams)).toEqual(["ass/eng", "ass/fra", "ass/jpn"]);
+    expect(
+      streams.map((s: { tags?: { title?: string } }) => s.tags?.title)
+    ).toEqual(["Track eng", "Track fra", "Track jpn"]);
+  });
+});
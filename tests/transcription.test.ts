@@ -0,0 +1,126 @@
+// tests/transcription.test.ts
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  getTranscriptionProvider,
+  isTranscriptionProviderName,
+} from "../lib/transcription";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getTranscriptionProvider", () => {
+  it("prefers the request, then TRANSCRIPTION_PROVIDER, then OpenAI", () => {
+    vi.stubEnv("TRANSCRIPTION_PROVIDER", "");
+    expect(getTranscriptionProvider().name).toBe("openai");
+    vi.stubEnv("TRANSCRIPTION_PROVIDER", "local-whisper");
+    expect(getTranscriptionProvider().name).toBe("local-whisper");
+    expect(getTranscriptionProvider(null).name).toBe("local-whisper");
+    expect(getTranscriptionProvider("fake").name).toBe("fake");
+  });
+
+  it("resolves registered providers only", () => {
+    expect(isTranscriptionProviderName("toString")).toBe(false);
+    expect(() => getTranscriptionProvider("toString")).toThrow(
+      /Unknown transcription provider/
+    );
+    vi.stubEnv("TRANSCRIPTION_PROVIDER", "whisperx");
+    expect(() => getTranscriptionProvider()).toThrow(/"whisperx"/);
+  });
+});
+
+describe("fake provider", () => {
+  it("returns the sample script with evenly spread word timings", async () => {
+    const captions = await getTranscriptionProvider("fake").transcribe(
+      "unused.mp3"
+    );
+    expect(captions.map((c) => [c.start, c.end, c.text])).toEqual([
+      [0, 2, "Hello world"],
+      [2, 4, "Yeh ek sample caption hai."],
+      [4, 6, "This transcript comes from the fake provider."],
+    ]);
+    expect(captions[0].words).toEqual([
+      { start: 0, end: 1, text: "Hello" },
+      { start: 1, end: 2, text: "world" },
+    ]);
+  });
+
+  it("reads FAKE_TRANSCRIPT lines", async () => {
+    vi.stubEnv("FAKE_TRANSCRIPT", "First line | | Second one");
+    const captions = await getTranscriptionProvider("fake").transcribe(
+      "unused.mp3"
+    );
+    expect(captions.map((c) => c.text)).toEqual(["First line", "Second one"]);
+    expect(captions[1].start).toBe(2);
+  });
+});
+
+describe("local-whisper provider", () => {
+  const provider = getTranscriptionProvider("local-whisper");
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "whisper-test-"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("rejects an unknown LOCAL_WHISPER_FLAVOR", async () => {
+    vi.stubEnv("LOCAL_WHISPER_FLAVOR", "whisperx");
+    await expect(provider.transcribe(path.join(dir, "a.wav"))).rejects.toThrow(
+      /Unknown LOCAL_WHISPER_FLAVOR "whisperx"/
+    );
+  });
+
+  it("needs a model for whisper.cpp", async () => {
+    vi.stubEnv("LOCAL_WHISPER_FLAVOR", "");
+    vi.stubEnv("LOCAL_WHISPER_MODEL", "");
+    await expect(provider.transcribe(path.join(dir, "a.wav"))).rejects.toThrow(
+      /LOCAL_WHISPER_MODEL/
+    );
+  });
+
+  it.skipIf(process.platform === "win32")(
+    "reads whisper.cpp's JSON output",
+    async () => {
+      // stands in for whisper-cli: writes <-of>.json with millisecond offsets
+      const bin = path.join(dir, "whisper-cli");
+      await fs.writeFile(
+        bin,
+        [
+          "#!/usr/bin/env node",
+          'const out = process.argv[process.argv.indexOf("-of") + 1];',
+          "require('fs').writeFileSync(out + '.json', JSON.stringify({",
+          "  transcription: [",
+          "    { offsets: { from: 0, to: 1500 }, text: ' Hello there.' },",
+          "    { offsets: { from: 1500, to: 3250 }, text: ' General Kenobi.' },",
+          "  ],",
+          "}));",
+        ].join("\n"),
+        { mode: 0o755 }
+      );
+      vi.stubEnv("LOCAL_WHISPER_FLAVOR", "whisper.cpp");
+      vi.stubEnv("LOCAL_WHISPER_BIN", bin);
+      vi.stubEnv("LOCAL_WHISPER_MODEL", "ggml-test.bin");
+
+      const captions = await provider.transcribe(path.join(dir, "a.wav"));
+      expect(captions.map((c) => [c.start, c.end, c.text])).toEqual([
+        [0, 1.5, "Hello there."],
+        [1.5, 3.25, "General Kenobi."],
+      ]);
+    }
+  );
+});
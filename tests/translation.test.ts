@@ -0,0 +1,61 @@
+// tests/translation.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  getTranslator,
+  isTranslatorName,
+  translateCaptions,
+} from "../lib/translation";
+import type { CaptionSegment } from "../remotion/VideoWithCaptions";
+
+const captions: CaptionSegment[] = [
+  {
+    start: 0.5,
+    end: 2.25,
+    text: "Hello world",
+    speaker: "Ana",
+    words: [
+      { start: 0.5, end: 1, text: "Hello" },
+      { start: 1.2, end: 2.25, text: "world" },
+    ],
+  },
+  { start: 2.5, end: 4, text: "This is a sample video." },
+];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getTranslator", () => {
+  it("resolves registered translators only", () => {
+    expect(getTranslator("fake").name).toBe("fake");
+    expect(isTranslatorName("toString")).toBe(false);
+    expect(() => getTranslator("toString")).toThrow(/Unknown translator/);
+  });
+});
+
+describe("fake translator", () => {
+  it("translates word by word, keeping timing, speakers and case", async () => {
+    const out = await translateCaptions(captions, getTranslator("fake"), {
+      from: "en",
+      to: "es",
+    });
+    expect(out).toEqual([
+      { start: 0.5, end: 2.25, text: "Hola mundo", speaker: "Ana" },
+      { start: 2.5, end: 4, text: "Esto es un ejemplo vídeo." },
+    ]);
+  });
+
+  it("passes unknown words through and reads FAKE_TRANSLATIONS", async () => {
+    vi.stubEnv("FAKE_TRANSLATIONS", JSON.stringify({ hi: { world: "जग" } }));
+    const [seg] = await translateCaptions(
+      captions.slice(0, 1),
+      getTranslator("fake"),
+      { to: "hi" }
+    );
+    expect(seg.text).toBe("नमस्ते जग");
+    const [unknown] = await getTranslator("fake").translate(["Bonjour"], {
+      to: "hi",
+    });
+    expect(unknown).toBe("Bonjour");
+  });
+});